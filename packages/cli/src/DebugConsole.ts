@@ -0,0 +1,228 @@
+import { ReplayDebugger, TurnResult, checkInvariants, getDeltaStatePath, getStatePath, toValidationIssues } from '@llmrpg/debug';
+import { input } from '@inquirer/prompts';
+import chalk from 'chalk';
+
+export interface DebugConsoleOptions {
+  initialCommands?: string[];
+  exitAfter?: boolean;
+}
+
+const HELP = [
+  'step [n]          Apply the next n turns (default 1)',
+  'back [n]          Rewind n turns (default 1)',
+  'goto <turn>       Jump to a turn (0 is the initial state)',
+  'continue          Run until a breakpoint, a watched path changes or the end',
+  'break [turn]      Set a breakpoint, or list breakpoints',
+  'unbreak <turn>    Remove a breakpoint',
+  'watch [path]      Watch a state path (e.g. player.fatePoints.current), or list watches',
+  'unwatch <path>    Stop watching a path',
+  'print [path]      Print the state, or the value at a path',
+  'events            Show the events of the current turn',
+  'deltas            Show the deltas of the current turn',
+  'check             Check the state invariants at the current turn',
+  'help              Show this help',
+  'quit              Leave the debugger',
+];
+
+/**
+ * Line-oriented REPL over a ReplayDebugger. Each command returns the text to
+ * print so the console can also be driven from scripts and tests.
+ */
+export class DebugConsole {
+  constructor(private replay: ReplayDebugger) {}
+
+  async start(options: DebugConsoleOptions = {}) {
+    console.log(chalk.bold(`Replay debugger: ${this.replay.getTotalTurns()} turns. Type "help" for commands.`));
+    console.log(this.describePosition());
+
+    for (const cmd of options.initialCommands || []) {
+      console.log(`> ${cmd}`);
+      if (this.isQuit(cmd)) return;
+      console.log(await this.execute(cmd));
+    }
+
+    if (options.exitAfter) {
+      return;
+    }
+
+    while (true) {
+      const line = await input({ message: `debug [${this.replay.getCurrentTurn()}/${this.replay.getTotalTurns()}]>` });
+      if (this.isQuit(line)) break;
+      console.log(await this.execute(line));
+    }
+  }
+
+  async execute(line: string): Promise<string> {
+    const [command, ...args] = line.trim().split(/\s+/);
+    const arg = args.join(' ');
+
+    try {
+      switch (command.toLowerCase()) {
+        case '':
+          return '';
+        case 'step':
+        case 's':
+          return await this.repeat(this.parseCount(arg), () => this.replay.stepForward());
+        case 'back':
+        case 'b':
+          return await this.repeat(this.parseCount(arg), () => this.replay.stepBackward());
+        case 'goto':
+        case 'g':
+          return this.describeResult(await this.replay.goToTurn(this.parseTurn(arg)));
+        case 'continue':
+        case 'c':
+          return this.describeResult(await this.replay.runUntilBreak());
+        case 'break':
+          if (!arg) {
+            const breakpoints = this.replay.getBreakpoints();
+            return breakpoints.length > 0 ? `Breakpoints: ${breakpoints.join(', ')}` : 'No breakpoints set';
+          }
+          this.replay.setBreakpoint(this.parseTurn(arg));
+          return `Breakpoint set at turn ${this.parseTurn(arg)}`;
+        case 'unbreak':
+          return this.replay.clearBreakpoint(this.parseTurn(arg))
+            ? `Breakpoint at turn ${arg} removed`
+            : `No breakpoint at turn ${arg}`;
+        case 'watch':
+          if (!arg) {
+            return this.describeWatches() || 'No watched paths';
+          }
+          this.replay.watchPath(arg);
+          return `Watching ${arg} = ${this.formatValue(getStatePath(this.replay.getState(), arg))}`;
+        case 'unwatch':
+          return this.replay.unwatchPath(arg) ? `Stopped watching ${arg}` : `${arg} is not watched`;
+        case 'print':
+        case 'p':
+          return this.printPath(arg);
+        case 'events':
+          return this.describeEvents();
+        case 'deltas':
+          return this.describeDeltas();
+        case 'check':
+          return this.describeViolations();
+        case 'help':
+        case '?':
+          return HELP.join('\n');
+        default:
+          return chalk.red(`Unknown command "${command}". Type "help" for commands.`);
+      }
+    } catch (error) {
+      return chalk.red((error as Error).message);
+    }
+  }
+
+  private isQuit(line: string): boolean {
+    return ['quit', 'exit', 'q'].includes(line.trim().toLowerCase());
+  }
+
+  private parseCount(arg: string): number {
+    if (!arg) return 1;
+    const count = Number(arg);
+    if (!Number.isInteger(count) || count < 1) {
+      throw new Error(`Expected a positive number of turns, got "${arg}"`);
+    }
+    return count;
+  }
+
+  private parseTurn(arg: string): number {
+    const turn = Number(arg);
+    if (!arg || !Number.isInteger(turn)) {
+      throw new Error(`Expected a turn number, got "${arg}"`);
+    }
+    return turn;
+  }
+
+  private async repeat(count: number, step: () => Promise<TurnResult>): Promise<string> {
+    let result = await step();
+    for (let i = 1; i < count && result.breakReason !== 'end'; i++) {
+      result = await step();
+    }
+    return this.describeResult(result);
+  }
+
+  private describePosition(): string {
+    const turnId = this.replay.getCurrentTurn();
+    const turn = this.replay.getTurn(turnId);
+    const label = turnId === 0 ? 'initial state' : `actor ${turn?.actor ?? 'unknown'}, scene ${turn?.sceneId ?? 'unknown'}`;
+    return chalk.cyan(`Turn ${turnId}/${this.replay.getTotalTurns()}`) + chalk.gray(` (${label})`);
+  }
+
+  private describeResult(result: TurnResult): string {
+    const lines = [this.describePosition()];
+
+    if (result.breakReason === 'end') {
+      lines.push(chalk.yellow('Reached the end of the session'));
+    } else if (result.breakReason === 'breakpoint') {
+      lines.push(chalk.yellow(`Stopped at breakpoint on turn ${result.turn}`));
+    } else if (result.breakReason === 'watch') {
+      lines.push(chalk.yellow(`Stopped: ${result.watchedPath} changed`));
+    }
+
+    if (result.turn > 0) {
+      const events = this.replay.getTurn(result.turn)?.events ?? [];
+      lines.push(chalk.gray(`${events.length} event(s), ${this.replay.getDeltas(result.turn).length} delta(s)`));
+    }
+
+    const watches = this.describeWatches();
+    if (watches) lines.push(watches);
+
+    return lines.join('\n');
+  }
+
+  private describeWatches(): string {
+    const state = this.replay.getState();
+    return this.replay.getWatchedPaths()
+      .map(path => `  ${path} = ${this.formatValue(getStatePath(state, path))}`)
+      .join('\n');
+  }
+
+  private printPath(path: string): string {
+    const value = getStatePath(this.replay.getState(), path);
+    if (value === undefined) {
+      return chalk.gray(`${path} is undefined at turn ${this.replay.getCurrentTurn()}`);
+    }
+    return JSON.stringify(value, null, 2);
+  }
+
+  private describeEvents(): string {
+    const turnId = this.replay.getCurrentTurn();
+    const events = this.replay.getTurn(turnId)?.events ?? [];
+    if (events.length === 0) {
+      return chalk.gray(`No events on turn ${turnId}`);
+    }
+    return events.map(event => {
+      const roll = event.shifts != null ? ` [shifts ${event.shifts}]` : '';
+      return `  #${event.sequence} ${chalk.bold(event.type)} ${event.actor}: ${event.action}${roll}\n    ${chalk.gray(event.description)}`;
+    }).join('\n');
+  }
+
+  private describeDeltas(): string {
+    const turnId = this.replay.getCurrentTurn();
+    const deltas = this.replay.getDeltas(turnId);
+    if (deltas.length === 0) {
+      return chalk.gray(`No deltas on turn ${turnId}`);
+    }
+    return deltas.map(delta =>
+      `  #${delta.sequence} ${delta.operation} ${getDeltaStatePath(delta)}: ` +
+      `${this.formatValue(delta.previousValue)} -> ${this.formatValue(delta.newValue)}` +
+      chalk.gray(` (${delta.cause})`)
+    ).join('\n');
+  }
+
+  private describeViolations(): string {
+    const turnId = this.replay.getCurrentTurn();
+    const issues = toValidationIssues(checkInvariants(this.replay.getState()), turnId, this.replay.getDeltas(turnId));
+    if (issues.length === 0) {
+      return chalk.green(`All invariants hold at turn ${turnId}`);
+    }
+    return issues.map(issue =>
+      `  ${chalk.red(issue.type)} ${issue.message}\n    ${chalk.gray(issue.path)}` +
+      (issue.delta ? chalk.gray(` (delta #${issue.delta.sequence} this turn: ${issue.delta.cause})`) : '')
+    ).join('\n');
+  }
+
+  private formatValue(value: unknown): string {
+    const text = value === undefined ? 'undefined' : JSON.stringify(value);
+    return text.length > 80 ? `${text.slice(0, 77)}...` : text;
+  }
+}
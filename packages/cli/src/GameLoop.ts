@@ -12,11 +12,14 @@ export interface GameLoopOptions {
 
 export class GameLoop {
   private mode: GameMode = 'exploration';
+  // Narration already shown while the current turn was processed
+  private streamed = '';
   
   constructor(private gameMaster: GameMaster) {}
 
   async start(options: GameLoopOptions = {}) {
     await this.gameMaster.start();
+    this.gameMaster.setNarrationListener(chunk => this.printNarrationChunk(chunk));
     
     this.printWelcome();
 
@@ -27,7 +30,7 @@ export class GameLoop {
         console.log(`> ${cmd}`);
         if (cmd.toLowerCase() === 'exit') return;
         
-        const result = await this.gameMaster.processPlayerAction(cmd);
+        const result = await this.run(() => this.gameMaster.processPlayerAction(cmd));
         this.printResult(result);
         this.updateMode(result);
     }
@@ -62,7 +65,7 @@ export class GameLoop {
         break;
       }
 
-      let result: any = await this.gameMaster.processPlayerAction(action);
+      let result: any = await this.run(() => this.gameMaster.processPlayerAction(action));
       this.printResult(result);
 
       // Handle Compel Offer
@@ -72,13 +75,13 @@ export class GameLoop {
             default: true 
         });
         
-        const compelResult = await this.gameMaster.resolveCompel(result.compel, accept);
+        const compelResult = await this.run(() => this.gameMaster.resolveCompel(result.compel, accept));
         this.printResult(compelResult);
         
         if (!accept && compelResult.result === 'compel_refused') {
             // Re-run the original action, skipping compel check
             console.log("Retrying action...");
-            result = await this.gameMaster.processPlayerAction(action, undefined, true);
+            result = await this.run(() => this.gameMaster.processPlayerAction(action, undefined, true));
             this.printResult(result);
         }
       }
@@ -94,14 +97,39 @@ export class GameLoop {
     console.log(chalk.cyan.bold('║') + chalk.gray('          A Fate Core RPG powered by AI                       ') + chalk.cyan.bold('║'));
     console.log(chalk.cyan.bold('╚══════════════════════════════════════════════════════════════╝'));
     console.log('');
-    console.log(chalk.gray('Commands:'), chalk.yellow('/help | /status | /inventory | /save | /load | exit'));
+    console.log(chalk.gray('Commands:'), chalk.yellow('/help | /status | /inventory | /save | /load | /undo | exit'));
     console.log('');
   }
 
+  /**
+   * Runs one action. Narration streamed for an earlier action that threw
+   * before its result was printed doesn't belong to this one.
+   */
+  private async run<T>(action: () => Promise<T>): Promise<T> {
+    this.streamed = '';
+    return action();
+  }
+
+  private printNarrationChunk(chunk: string) {
+    if (!this.streamed) {
+      console.log('');
+      console.log(chalk.gray('─'.repeat(60)));
+    }
+    this.streamed += chunk;
+    process.stdout.write(chalk.white(chunk));
+  }
+
   private printResult(result: any) {
-    console.log('');
-    console.log(chalk.gray('─'.repeat(60)));
-    console.log(chalk.white(result.narration));
+    const narration: string = result.narration ?? '';
+    if (this.streamed) {
+      // Only print what the turn added after the streamed narration. If the
+      // final narration was rewritten, the streamed text stands as shown.
+      console.log(narration.startsWith(this.streamed) ? chalk.white(narration.slice(this.streamed.length)) : '');
+    } else {
+      console.log('');
+      console.log(chalk.gray('─'.repeat(60)));
+      console.log(chalk.white(narration));
+    }
     console.log(chalk.gray('─'.repeat(60)));
 
     if (result.result && result.result !== 'meta_command_success') {
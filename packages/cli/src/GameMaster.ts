@@ -1,17 +1,21 @@
 import { v4 as uuidv4 } from 'uuid';
-import { TurnManager, DeltaCollector, ActionResolver, FateDice, GameTime, CharacterDefinition, Turn, FateOutcome, KnowledgeManager, QuestManager, FactionManager, EconomyManager, CraftingManager, AdvancementManager, QuestRewardManager } from '@llmrpg/core';
-import { LLMProvider } from '@llmrpg/llm';
-import { SessionWriter, SessionLoader } from '@llmrpg/storage';
-import { SceneState, PlayerCharacter, KnowledgeProfile, Compel } from '@llmrpg/protocol';
+import { TurnManager, DeltaCollector, Delta, DeltaTarget, revertDelta, ActionResolver, FateDice, SeededRNG, deriveSeed, PlayerInput, TurnTracer, summarizeTrace, GameTime, CharacterDefinition, Turn, StorySummary, FateOutcome, KnowledgeManager, QuestManager, FactionManager, EconomyManager, CraftingManager, AdvancementManager, QuestRewardManager } from '@llmrpg/core';
+import { LLMProvider, LLMCallLog, RequestScheduler, collectStream } from '@llmrpg/llm';
+import { SessionWriter, SessionLoader, SessionState, SnapshotReason, countEncounteredNPCs } from '@llmrpg/storage';
+import { SceneState, ConflictState, PlayerCharacter, KnowledgeProfile, Compel, GameState, Quest, WorldState } from '@llmrpg/protocol';
+import { InvariantMonitor, toValidationIssues } from '@llmrpg/debug';
 import { NarrativeEngine } from './systems/NarrativeEngine';
 import { ContentGenerator } from './systems/ContentGenerator';
-import { DecisionEngine } from './systems/DecisionEngine';
+import { DecisionEngine, WorldUpdate } from './systems/DecisionEngine';
 import { WorldManager } from './systems/WorldManager';
 import { CombatManager } from './systems/CombatManager';
 import { DialogueSystem } from './systems/DialogueSystem';
 import { WorldEventsManager } from './systems/WorldEventsManager';
 import { initializeQuestState, getQuestSummary, QuestState } from './systems/QuestGenerator';
 import { validateWorldConnectivity } from './systems/WorldConnectivityValidator';
+import { parseIntent, IntentMatch } from './systems/IntentParser';
+import { StoryMemory } from './systems/StoryMemory';
+import { StorySummarizer } from './systems/StorySummarizer';
 
 export interface GameMasterConfig {
   /** Maximum number of turns to keep in context history (default: 10) */
@@ -20,6 +24,55 @@ export interface GameMasterConfig {
   enableSmartPruning?: boolean;
   /** Maximum estimated tokens for context (default: 4000) */
   maxContextTokens?: number;
+  /** Write a state snapshot every N turns, 0 disables interval snapshots (default: 10) */
+  snapshotInterval?: number;
+  /** Maximum number of snapshots kept per session; the initial snapshot is always kept (default: 20) */
+  maxSnapshots?: number;
+  /** Seed for dice rolls and other random choices; loaded sessions keep their recorded seed (default: current time) */
+  seed?: number;
+  /** Debug mode: check state invariants after every turn and warn about new violations (default: false) */
+  checkInvariants?: boolean;
+  /** Maximum LLM requests in flight at once; independent calls within a turn run in parallel up to this (default: 3) */
+  maxConcurrentRequests?: number;
+  /** Rule-based intent matches below this confidence are checked with the LLM instead (default: 0.9) */
+  intentConfidenceThreshold?: number;
+  /** Turns pruned from history at a time, summarized together (default: 5) */
+  summaryBatchTurns?: number;
+  /** Chance per player action that the LLM is asked for a compel, from 0 to 1 (default: 0.25) */
+  compelChance?: number;
+}
+
+type PlayerIntent = Awaited<ReturnType<DecisionEngine['classifyIntent']>> | 'teamwork';
+
+/** World state as saved with the session; the current scene is stored alongside it */
+type SavedWorldState = WorldState & { currentScene?: SceneState };
+
+/** How a player input's intent was decided, recorded on the turn */
+interface IntentDecision {
+  intent: PlayerIntent;
+  source: 'rules' | 'llm';
+  /** The rule match, also kept when it was too unsure and the LLM decided */
+  match?: IntentMatch;
+}
+
+// Stand-in stock until shops are persisted
+const SHOP_STOCK = [
+  { name: 'Health Potion', price: 50 },
+  { name: 'Iron Sword', price: 100 },
+  { name: 'Leather Armor', price: 80 }
+];
+
+function copyOf<T>(value: T): T {
+  return value === undefined ? value : JSON.parse(JSON.stringify(value));
+}
+
+/**
+ * The trade a rule-matched input asks for, in the shape
+ * DecisionEngine.parseTradeIntent returns.
+ */
+function tradeFromMatch(match: IntentMatch): { type: 'buy' | 'sell' | 'list'; itemName?: string; quantity?: number } {
+  if (match.rule === 'trade:browse') return { type: 'list' };
+  return { type: match.rule === 'trade:sell' ? 'sell' : 'buy', itemName: match.target, quantity: match.quantity };
 }
 
 export class GameMaster {
@@ -56,8 +109,26 @@ export class GameMaster {
   private questState: QuestState | undefined;
   private config: GameMasterConfig;
   private consecutiveFailures: number = 0;
+  private pendingSnapshotReason: SnapshotReason | undefined;
+  private sessionStats = { totalDeltas: 0, conflictsResolved: 0 };
+  private llmCallLog: LLMCallLog;
+  private scheduler: RequestScheduler;
+  private storySummarizer: StorySummarizer;
+  private storyMemory = new StoryMemory();
+  private tracer = new TurnTracer();
 
   private fateDice: FateDice;
+  private seed: number;
+  private rng: SeededRNG;
+  // Input behind the turn being played, and earlier inputs that ended without a turn
+  private currentInput: (PlayerInput & { compelAccepted?: boolean }) | undefined;
+  private intentDecision: IntentDecision | undefined;
+  private unfinishedInputs: NonNullable<PlayerInput['preceding']> = [];
+  // Fate point spending and invokes an AI player chose for its next action
+  private pendingFatePointsSpent = 0;
+  private pendingAspectInvokes: NonNullable<PlayerInput['aspectInvokes']> = [];
+  private invariantMonitor: InvariantMonitor | undefined;
+  private narrationListener: ((chunk: string) => void) | undefined;
 
   constructor(
     private sessionId: string,
@@ -69,25 +140,46 @@ export class GameMaster {
     this.config = {
       maxHistoryTurns: config?.maxHistoryTurns ?? 10,
       enableSmartPruning: config?.enableSmartPruning ?? true,  // Phase 28: Enable adaptive history pruning
-      maxContextTokens: config?.maxContextTokens ?? 4000
+      maxContextTokens: config?.maxContextTokens ?? 4000,
+      snapshotInterval: config?.snapshotInterval ?? 10,
+      maxSnapshots: config?.maxSnapshots ?? 20,
+      checkInvariants: config?.checkInvariants ?? false,
+      maxConcurrentRequests: config?.maxConcurrentRequests ?? 3,
+      intentConfidenceThreshold: config?.intentConfidenceThreshold ?? 0.9,
+      summaryBatchTurns: config?.summaryBatchTurns ?? 5,
+      compelChance: config?.compelChance ?? 0.25
     };
+    if (this.config.checkInvariants) {
+        this.invariantMonitor = new InvariantMonitor();
+    }
     this.turnManager = new TurnManager(sessionId);
     this.deltaCollector = new DeltaCollector(sessionId, 0);
     this.actionResolver = new ActionResolver();
-    this.fateDice = new FateDice(Date.now());
+    this.seed = config?.seed ?? Date.now();
+    this.fateDice = new FateDice(this.seed);
+    this.rng = new SeededRNG(this.seed);
     this.sessionWriter = sessionWriter;
     this.sessionLoader = sessionLoader;
 
     this.worldManager = new WorldManager();
     this.factionManager = new FactionManager(this.worldManager.state);
     this.questRewardManager = new QuestRewardManager(this.worldManager.state);
-    this.economyManager = new EconomyManager();
-    this.craftingManager = new CraftingManager(this.actionResolver, this.fateDice);
-    this.narrativeEngine = new NarrativeEngine(llmProvider);
-    this.contentGenerator = new ContentGenerator(llmProvider);
-    this.decisionEngine = new DecisionEngine(llmProvider);
-    this.dialogueSystem = new DialogueSystem(llmProvider);
-    this.worldEventsManager = new WorldEventsManager(this.deltaCollector);
+    this.economyManager = new EconomyManager(() => this.newId());
+    this.craftingManager = new CraftingManager(this.actionResolver, this.fateDice, () => this.newId());
+    // Every LLM call is logged with the session for ContextDebugger, and
+    // calls into the subsystems are timed for the perf report
+    this.llmCallLog = new LLMCallLog(record => {
+        this.tracer.recordLLMCall(record);
+        return this.sessionWriter.writeLLMCall(this.sessionId, record);
+    }, (error, record) => console.warn(`Failed to record LLM call from ${record.system}:`, error.message));
+    // All systems share one scheduler, so parallel calls never exceed the concurrency limit
+    this.scheduler = new RequestScheduler({ maxConcurrency: this.config.maxConcurrentRequests });
+    this.narrativeEngine = this.tracer.wrap(new NarrativeEngine(this.scheduler.wrap(this.llmCallLog.wrap(llmProvider, 'NarrativeEngine')), () => this.storyMemory.getSummaries()), 'NarrativeEngine');
+    this.contentGenerator = this.tracer.wrap(new ContentGenerator(this.scheduler.wrap(this.llmCallLog.wrap(llmProvider, 'ContentGenerator')), () => this.rng.next()), 'ContentGenerator');
+    this.decisionEngine = this.tracer.wrap(new DecisionEngine(this.scheduler.wrap(this.llmCallLog.wrap(llmProvider, 'DecisionEngine')), () => this.storyMemory.getSummaries()), 'DecisionEngine');
+    this.dialogueSystem = this.tracer.wrap(new DialogueSystem(this.scheduler.wrap(this.llmCallLog.wrap(llmProvider, 'DialogueSystem', 'npc'))), 'DialogueSystem');
+    this.storySummarizer = this.tracer.wrap(new StorySummarizer(this.scheduler.wrap(this.llmCallLog.wrap(llmProvider, 'StorySummarizer'))), 'StorySummarizer');
+    this.worldEventsManager = new WorldEventsManager(this.deltaCollector, () => this.rng.next());
     this.combatManager = new CombatManager(
       this.turnManager,
       this.decisionEngine,
@@ -100,24 +192,192 @@ export class GameMaster {
     console.log("Game Master initialized.");
   }
 
-  async saveState() {
-    const worldStateToSave = {
-        ...this.worldManager.state,
-        currentScene: this.currentScene
+  /**
+   * Log that records this session's LLM calls. Wrap providers used outside the
+   * Game Master (e.g. an AIPlayer) with it to include their calls too.
+   */
+  getLLMCallLog(): LLMCallLog {
+    return this.llmCallLog;
+  }
+
+  /**
+   * Scheduler limiting this session's concurrent LLM requests. Wrap providers
+   * used outside the Game Master with it to share the limit, and read its
+   * metrics to see how long requests queue.
+   */
+  getRequestScheduler(): RequestScheduler {
+    return this.scheduler;
+  }
+
+  /**
+   * Receive narration as it is generated, e.g. to show it while the turn is
+   * still being processed. Turn results still carry the complete text.
+   */
+  setNarrationListener(listener: ((chunk: string) => void) | undefined) {
+    this.narrationListener = listener;
+  }
+
+  private async collectNarration(stream: AsyncIterable<string>): Promise<string> {
+    return collectStream(stream, chunk => this.narrationListener?.(chunk));
+  }
+
+  /**
+   * Reseed the dice and other random sources from the session seed and the
+   * turn about to be played, so replaying a turn reproduces its rolls and ids.
+   */
+  private seedTurn(turnId: number) {
+    const turnSeed = deriveSeed(this.seed, turnId);
+    this.fateDice.reseed(turnSeed);
+    this.rng = new SeededRNG(deriveSeed(turnSeed, 0));
+  }
+
+  /**
+   * Id for new entities, drawn from the seeded generator rather than the clock.
+   */
+  private newId(): string {
+    const random = new Uint8Array(16);
+    for (let i = 0; i < random.length; i++) {
+        random[i] = this.rng.nextInt(0, 255);
+    }
+    return uuidv4({ random });
+  }
+
+  /**
+   * Record a `set` delta for state a manager changed in place, given a copy
+   * taken before the change, so /undo and replay can revert it. Records
+   * nothing if the value is unchanged.
+   */
+  private collectChange(target: DeltaTarget, path: string[], previousValue: unknown, newValue: unknown, cause: string, eventId: string) {
+    if (JSON.stringify(previousValue) === JSON.stringify(newValue)) return;
+    this.deltaCollector.collect({
+        target,
+        operation: 'set',
+        path,
+        previousValue,
+        newValue: copyOf(newValue),
+        cause,
+        eventId
+    });
+  }
+
+  private beginPlayerInput(action: string, skipCompelCheck: boolean) {
+    if (this.currentInput) {
+        // The previous action ended without a turn, e.g. because a compel was offered
+        this.unfinishedInputs.push({ action: this.currentInput.action, compelAccepted: this.currentInput.compelAccepted });
+    }
+    this.currentInput = {
+        action,
+        ...(skipCompelCheck ? { skipCompelCheck } : {}),
+        ...(this.pendingFatePointsSpent > 0 ? { fatePointsSpent: this.pendingFatePointsSpent } : {}),
+        ...(this.pendingAspectInvokes.length > 0 ? { aspectInvokes: this.pendingAspectInvokes } : {})
     };
-    await this.sessionWriter.updateCurrentState(this.sessionId, worldStateToSave, this.player || {}, this.npcs);
+  }
+
+  /**
+   * Mark NPCs at the player's location as met, the first turn they are there.
+   * Dialogue and conflicts only involve present NPCs, so they are covered too.
+   */
+  private recordEncounteredNPCs(turn: Turn) {
+    const location = this.currentScene ? this.worldManager.getLocation(this.currentScene.locationId) : undefined;
+    for (const npcId of location?.presentNPCs ?? []) {
+        const npc = this.npcs[npcId];
+        if (!npc || npc.firstEncounteredTurn !== undefined) continue;
+        npc.firstEncounteredTurn = turn.turnId;
+        this.collectChange('npc', [npcId, 'firstEncounteredTurn'], undefined, turn.turnId, 'npc_encountered', turn.events[turn.events.length - 1]?.eventId || 'unknown');
+    }
+  }
+
+  /**
+   * Stamp a player turn with the input that produced it, for the replay verifier.
+   */
+  private recordPlayerInput(turn: Turn) {
+    if (turn.actor !== "player" || !this.currentInput) return;
+    const { compelAccepted: _compelAccepted, ...input } = this.currentInput;
+    turn.playerInput = this.unfinishedInputs.length > 0 ? { ...input, preceding: this.unfinishedInputs } : input;
+    this.currentInput = undefined;
+    this.unfinishedInputs = [];
+  }
+
+  /**
+   * Close the turn's trace: the per-stage summary goes on the turn and the
+   * spans into the session's trace log.
+   */
+  private async recordTrace(turn: Turn) {
+    const trace = { ...this.tracer.endTurn(), turnId: turn.turnId };
+    turn.timing = summarizeTrace(trace);
+    await this.sessionWriter.writeTrace(this.sessionId, trace);
+  }
+
+  /**
+   * Debug mode: check the state invariants and warn about violations the
+   * turn introduced, naming the delta that caused each where possible.
+   */
+  private reportInvariantViolations(turnId: number, deltas: Delta[]) {
+    if (!this.invariantMonitor) return;
+
+    const state = {
+        sessionId: this.sessionId,
+        turn: turnId,
+        ...this.getSessionState(),
+        seed: this.seed
+    } as unknown as GameState;
+
+    for (const issue of toValidationIssues(this.invariantMonitor.check(state), turnId, deltas)) {
+        const cause = issue.delta ? ` (delta #${issue.delta.sequence}: ${issue.delta.cause})` : '';
+        console.warn(`⚠️  Turn ${turnId} broke invariant ${issue.type}: ${issue.message}${cause}`);
+    }
+  }
+
+  async saveState() {
+    const state = this.getSessionState();
+    await this.sessionWriter.updateCurrentState(this.sessionId, state.world, state.player, state.npcs);
+    await this.sessionWriter.updateSessionMetadata(this.sessionId, metadata => {
+        const turnCount = this.turnManager.getTurnCount();
+        metadata.currentTurn = turnCount;
+        metadata.currentSceneId = this.currentScene?.id;
+        metadata.lastPlayedAt = new Date().toISOString();
+        metadata.seed = this.seed;
+        if (this.worldManager.state.theme?.name) {
+            metadata.theme.name = this.worldManager.state.theme.name;
+        }
+        if (this.player?.name) {
+            metadata.player.characterName = this.player.name;
+        }
+        metadata.stats.totalTurns = turnCount;
+        metadata.stats.totalDeltas = this.sessionStats.totalDeltas;
+        metadata.stats.conflictsResolved = this.sessionStats.conflictsResolved;
+        metadata.stats.npcsEncountered = countEncounteredNPCs(this.npcs);
+    });
     console.log("Game state saved.");
   }
 
-  async loadState() {
-    if (!this.sessionLoader) {
-        throw new Error("SessionLoader not initialized");
+  /**
+   * Write a snapshot of the current state for the given turn and apply the retention policy.
+   */
+  async saveSnapshot(turnId: number, reason: SnapshotReason) {
+    await this.sessionWriter.saveSnapshot(this.sessionId, turnId, this.getSessionState(), reason);
+    await this.sessionWriter.pruneSnapshots(this.sessionId, { maxSnapshots: this.config.maxSnapshots! });
+  }
+
+  /**
+   * Snapshot the turn that was just persisted if the snapshot interval is reached
+   * or a scene/conflict ended during it.
+   */
+  private async checkSnapshot(turnId: number) {
+    const interval = this.config.snapshotInterval!;
+    const reason = this.pendingSnapshotReason
+      ?? (interval > 0 && turnId % interval === 0 ? 'interval' : undefined);
+    this.pendingSnapshotReason = undefined;
+
+    if (reason) {
+      await this.saveSnapshot(turnId, reason);
     }
-    console.log(`Loading session ${this.sessionId}...`);
-    const state = await this.sessionLoader.loadCurrentState(this.sessionId);
+  }
 
-    // Restore World State
-    this.worldManager.state = state.world;
+  private restoreSessionState(state: SessionState) {
+    // Restore World State; the current scene is saved alongside it but kept separately
+    const { currentScene, ...world }: SavedWorldState = state.world;
+    this.worldManager.state = world;
     this.factionManager = new FactionManager(this.worldManager.state);
     this.questRewardManager = new QuestRewardManager(this.worldManager.state);
 
@@ -127,9 +387,93 @@ export class GameMaster {
     // Restore NPCs
     this.npcs = state.npcs || {};
 
-    // Restore Current Scene (if saved in world state)
-    if ((state.world as any).currentScene) {
-        this.currentScene = (state.world as any).currentScene;
+    // Restore Current Scene, clearing it if the restored state has none
+    this.currentScene = currentScene;
+  }
+
+  /**
+   * Roll back the last N turns by reverting their deltas (newest first) and
+   * truncating the persisted turn and delta logs.
+   */
+  async undoTurns(count: number = 1) {
+    if (!this.sessionLoader) {
+        return { turn: null, narration: "Undo is unavailable without a session loader.", result: "error" };
+    }
+    if (!Number.isInteger(count) || count < 1) {
+        return { turn: null, narration: "Usage: /undo [number of turns]", result: "error" };
+    }
+
+    const lastTurnId = this.turnManager.getTurnCount();
+    if (lastTurnId === 0) {
+        return { turn: null, narration: "There are no turns to undo.", result: "error" };
+    }
+
+    const targetTurnId = Math.max(0, lastTurnId - count);
+    const deltas = await this.sessionLoader.loadDeltas(this.sessionId, targetTurnId + 1, lastTurnId);
+
+    const state = this.getSessionState();
+    for (const delta of [...deltas].reverse()) {
+        revertDelta(state, delta);
+    }
+    this.restoreSessionState(state);
+    this.sessionStats.totalDeltas = Math.max(0, this.sessionStats.totalDeltas - deltas.length);
+
+    await this.sessionWriter.truncateSession(this.sessionId, targetTurnId);
+    this.turnManager.setTurnCount(targetTurnId);
+    // Inputs of the undone turns (or one left waiting on a compel) no longer apply
+    this.currentInput = undefined;
+    this.unfinishedInputs = [];
+    await this.restoreStoryMemory();
+    this.pendingSnapshotReason = undefined;
+    await this.saveState();
+
+    const undone = lastTurnId - targetTurnId;
+    return {
+        turn: null,
+        narration: `Rewound ${undone} turn${undone === 1 ? '' : 's'}. You are back at turn ${targetTurnId}.`,
+        result: "meta_command_success"
+    };
+  }
+
+  private getSessionState(): SessionState {
+    const world: SavedWorldState = { ...this.worldManager.state, currentScene: this.currentScene };
+    return {
+        world,
+        player: this.player || {},
+        npcs: this.npcs
+    };
+  }
+
+  async loadState() {
+    if (!this.sessionLoader) {
+        throw new Error("SessionLoader not initialized");
+    }
+    console.log(`Loading session ${this.sessionId}...`);
+
+    // Upgrade sessions saved by older versions before reading their state
+    const migration = await this.sessionWriter.migrateSession(this.sessionId);
+    if (migration.applied.length > 0) {
+        console.log(`Migrated session from format ${migration.fromVersion} to ${migration.toVersion}`);
+    }
+
+    const state = await this.sessionLoader.loadCurrentState(this.sessionId);
+    this.restoreSessionState(state);
+
+    // Continue numbering after the last recorded turn
+    this.turnManager.setTurnCount(await this.sessionLoader.getLastTurnId(this.sessionId));
+
+    // Resume the running session stats
+    try {
+        const metadata = await this.sessionLoader.loadSessionMetadata(this.sessionId);
+        this.sessionStats = {
+            totalDeltas: metadata.stats.totalDeltas,
+            conflictsResolved: metadata.stats.conflictsResolved
+        };
+        if (metadata.seed !== undefined) {
+            this.seed = metadata.seed;
+        }
+    } catch {
+        // Sessions without metadata start counting from zero
     }
 
     // Apply pending quest rewards (from previous session)
@@ -158,8 +502,7 @@ export class GameMaster {
       }
     }
 
-    // TODO: Load history from session logs if needed for context
-    // For now, history starts empty on load
+    await this.restoreStoryMemory();
 
     console.log("Game state loaded.");
     if (this.player) {
@@ -254,7 +597,7 @@ export class GameMaster {
     console.log("Generating world events...");
     const worldEvents = await this.contentGenerator.generateWorldEvents(theme, startingLocation);
     this.worldManager.state.events = worldEvents.map((event: any) => ({
-      id: uuidv4(),
+      id: this.newId(),
       name: event.name,
       description: event.description,
       trigger: event.trigger,
@@ -265,7 +608,7 @@ export class GameMaster {
 
     // Create Initial Scene
     this.currentScene = {
-        id: `scene-${Date.now()}`,
+        id: `scene-${this.newId()}`,
         name: scenario.title,
         description: scenario.description,
         locationId: startingLocation.id,
@@ -285,10 +628,11 @@ export class GameMaster {
     
     for (const fData of factionsData) {
         this.factionManager.createFaction({
+            id: this.newId(),
             name: fData.name,
             description: fData.description,
             aspects: fData.aspects.map((a: string) => ({ 
-                id: uuidv4(),
+                id: this.newId(),
                 name: a, 
                 type: 'situational', 
                 freeInvokes: 0 
@@ -321,7 +665,9 @@ export class GameMaster {
     this.questState = initializeQuestState(
       theme,
       this.worldManager.state.locations,
-      1  // Starting turn
+      1,  // Starting turn
+      () => this.rng.next(),
+      () => this.newId()
     );
 
     if (this.questState.mainQuest) {
@@ -349,7 +695,7 @@ export class GameMaster {
 
     // Construct PlayerCharacter object
     this.player = {
-        id: `player-${Date.now()}`,
+        id: `player-${this.newId()}`,
         type: 'player',
         name: charData.name,
         appearance: charData.appearance,
@@ -364,7 +710,7 @@ export class GameMaster {
                 aspectType = 'relationship';
             }
             return {
-                id: `asp-${Math.random().toString(36).substr(2, 9)}`,
+                id: `asp-${this.newId()}`,
                 name: a.name,
                 type: aspectType,
                 freeInvokes: 0,
@@ -425,6 +771,7 @@ export class GameMaster {
     console.log(`High Concept: ${highConcept || 'Unknown'}`);
     
     await this.saveState();
+    await this.saveSnapshot(0, 'initial');
     
     return this.player;
   }
@@ -558,11 +905,9 @@ export class GameMaster {
   async checkCompels(playerAction: string): Promise<Compel | null> {
     if (!this.player) return null;
 
-    // PHASE 26 FIX: Reduce compel frequency to 25% per turn (vs. 75% observed)
+    // PHASE 26 FIX: Only evaluate a compel on some turns (25% by default, vs. 75% observed)
     // This prevents overwhelming the player with compels
-    // Only check for compels 25% of the time, and only if the LLM suggests one
-    const compelRollProbability = 0.25; // 25% chance to even evaluate a compel
-    if (Math.random() > compelRollProbability) {
+    if (this.rng.next() >= this.config.compelChance!) {
       return null;
     }
 
@@ -577,7 +922,7 @@ export class GameMaster {
 
     if (compelData && compelData.aspectName) {
         return {
-            id: uuidv4(),
+            id: this.newId(),
             aspectId: this.player.aspects.find(a => a.name === compelData.aspectName)?.id || 'unknown',
             aspectName: compelData.aspectName,
             type: compelData.type || 'decision',
@@ -597,6 +942,10 @@ export class GameMaster {
   async resolveCompel(compel: Compel, accepted: boolean): Promise<{ narration: string; result: string }> {
     if (!this.player) return { narration: "Error: No player found.", result: "error" };
 
+    if (this.currentInput) {
+        this.currentInput.compelAccepted = accepted;
+    }
+
     if (accepted) {
         this.awardFatePoints(1, `Accepted compel on ${compel.aspectName}`);
         compel.status = 'accepted';
@@ -665,7 +1014,7 @@ export class GameMaster {
       }
 
       return {
-        id: uuidv4(),
+        id: this.newId(),
         aspectId: troubleAspect.id,
         aspectName: troubleAspect.name,
         type: 'decision', // Trouble aspects typically force decisions
@@ -749,8 +1098,16 @@ export class GameMaster {
         return this.handleMetaCommand(playerAction);
     }
 
+    // Attribute this action's LLM calls to the turn it is about to create
+    this.llmCallLog.setTurn(this.turnManager.getTurnCount() + 1);
+    this.seedTurn(this.turnManager.getTurnCount() + 1);
+    this.tracer.beginTurn(this.turnManager.getTurnCount() + 1);
+    this.beginPlayerInput(playerAction, skipCompelCheck);
+
     // Classify Intent EARLY to catch Concede and other meta-actions
-    const intent = await this.decisionEngine.classifyIntent(playerAction);
+    const intentDecision = await this.classifyIntent(playerAction);
+    this.intentDecision = intentDecision;
+    const { intent } = intentDecision;
 
     // Handle Concession immediately (bypassing combat loop)
     if (intent === 'concede' && this.player) {
@@ -780,9 +1137,9 @@ export class GameMaster {
     this.deltaCollector = new DeltaCollector(this.sessionId, turn.turnId);
 
     if (intent === 'trade' && this.player) {
-        return this.processTradeTurn(playerAction, turn);
+        return this.processTradeTurn(playerAction, turn, intentDecision.match);
     } else if (intent === 'craft' && this.player) {
-        return this.processCraftTurn(playerAction, turn);
+        return this.processCraftTurn(playerAction, turn, intentDecision.match);
     } else if (intent === 'advance' && this.player) {
         return this.processAdvancement(playerAction, turn);
     } else if (intent === 'inventory' && this.player) {
@@ -793,10 +1150,10 @@ export class GameMaster {
         return this.processSelfCompel(playerAction, turn);
     } else if (intent === 'declaration' && this.player) {
         return this.processDeclaration(playerAction, turn);
-    } else if ((intent as string) === 'teamwork' && this.player) {
+    } else if (intent === 'teamwork' && this.player) {
         return this.processTeamwork(playerAction, turn);
     } else if (intent === 'travel' && this.player) {
-        return this.processTravelTurn(playerAction, turn);
+        return this.processTravelTurn(playerAction, turn, intentDecision.match?.target);
     } else if (intent === 'dialogue' && this.player) {
         return this.processDialogueTurn(playerAction, turn);
     }
@@ -804,6 +1161,47 @@ export class GameMaster {
     return this.processFateAction(playerAction, turn, playerReasoning, skipCompelCheck);
   }
 
+  /**
+   * Decide what kind of action the input is. Inputs the rules recognise with
+   * enough confidence skip the LLM round-trip; everything else is classified
+   * by the DecisionEngine.
+   */
+  private async classifyIntent(playerAction: string): Promise<IntentDecision> {
+    const location = this.currentScene ? this.worldManager.getLocation(this.currentScene.locationId) : undefined;
+    const match = parseIntent(playerAction, {
+        exits: (location?.connections || [])
+            .filter(c => !c.isBlocked)
+            .map(c => ({ direction: c.direction || 'passage', targetName: this.worldManager.getLocation(c.targetId)?.name })),
+        shopItems: location?.features.some(f => f.type === 'shop') ? SHOP_STOCK.map(item => item.name) : [],
+        inventoryItems: this.player?.inventory.map(item => item.name) || [],
+        inConflict: !!this.currentScene?.conflict && !this.currentScene.conflict.isResolved
+    });
+
+    if (match && match.confidence >= this.config.intentConfidenceThreshold!) {
+        return { intent: match.intent, source: 'rules', match };
+    }
+    const intent = await this.decisionEngine.classifyIntent(playerAction);
+    return { intent, source: 'llm', ...(match ? { match } : {}) };
+  }
+
+  /**
+   * Record how the turn's intent was decided. Added once the turn is done so
+   * it stays out of the turn's own narration prompt.
+   */
+  private recordIntentDecision(turn: Turn) {
+    if (turn.actor !== "player" || !this.intentDecision || this.turnManager.getCurrentTurn() !== turn) return;
+    const { intent, source, match } = this.intentDecision;
+    this.turnManager.addEvent('system', 'intent_classified', {
+        description: `Intent classified as ${intent} by ${source}`,
+        metadata: {
+            intent,
+            source,
+            ...(match ? { rule: match.rule, confidence: match.confidence, ruleIntent: match.intent } : {})
+        }
+    });
+    this.intentDecision = undefined;
+  }
+
   private async processTeamwork(playerAction: string, turn: Turn) {
     if (!this.player) throw new Error("No player");
 
@@ -858,7 +1256,7 @@ export class GameMaster {
         
         const aspectName = `Assisted by ${this.player.name}`;
         const newAspect: any = {
-            id: uuidv4(),
+            id: this.newId(),
             name: aspectName,
             type: 'situational',
             freeInvokes: bonus,
@@ -910,7 +1308,10 @@ export class GameMaster {
       this.awardFatePoints(award, "Concession");
       
       // End Conflict
+      const conflictBefore = copyOf(this.currentScene.conflict);
       this.combatManager.endConflict(this.currentScene.conflict, 'opposition', 'Player conceded');
+      this.pendingSnapshotReason = 'conflict_end';
+      this.sessionStats.conflictsResolved++;
       
       const narration = "You concede the conflict, escaping with your life but leaving the victory to your enemies.";
       
@@ -918,6 +1319,7 @@ export class GameMaster {
           description: narration,
           metadata: { fpAwarded: award }
       });
+      this.collectChange('world', ['currentScene', 'conflict'], conflictBefore, this.currentScene.conflict, 'concession', turn.events[turn.events.length - 1].eventId);
       
       return this.finalizeTurn(turn, narration, "conceded");
   }
@@ -925,7 +1327,7 @@ export class GameMaster {
   /**
    * Process a player's travel intent - moving to a new location via an exit
    */
-  private async processTravelTurn(playerAction: string, turn: Turn) {
+  private async processTravelTurn(playerAction: string, turn: Turn, exitDirection?: string) {
     if (!this.player) throw new Error("No player");
     
     const currentLocation = this.currentScene 
@@ -953,8 +1355,9 @@ export class GameMaster {
       return this.finalizeTurn(turn, narration, "failure");
     }
 
-    // Parse the travel intent to determine direction
-    const travelData = await this.decisionEngine.parseTravel(playerAction, availableExits);
+    // Parse the travel intent to determine direction, unless the intent rules already matched an exit
+    const travelData = availableExits.find(e => e.direction === exitDirection)
+        ?? await this.decisionEngine.parseTravel(playerAction, availableExits);
 
     if (!travelData) {
       // The AI chose an action that couldn't be parsed as travel
@@ -1131,7 +1534,7 @@ export class GameMaster {
     this.awardFatePoints(1, `Self-compel on ${aspect.name}`);
     
     const compel: Compel = {
-        id: uuidv4(),
+        id: this.newId(),
         aspectId: aspect.id,
         aspectName: aspect.name,
         type: 'decision', 
@@ -1179,7 +1582,7 @@ export class GameMaster {
         const location = this.worldManager.getLocation(this.currentScene.locationId);
         if (location) {
             const newAspect: any = {
-                id: uuidv4(),
+                id: this.newId(),
                 name: declarationData, // Use provided name or the fact itself
                 type: 'situational',
                 freeInvokes: 0, // Declarations don't give free invokes usually, just establish truth
@@ -1234,8 +1637,8 @@ export class GameMaster {
     }
 
     // Handle pending Fate Point spending from AI player
-    const pendingFatePointsSpent = (this as any)._pendingFatePointsSpent || 0;
-    const pendingAspectInvokes = (this as any)._pendingAspectInvokes || [];
+    const pendingFatePointsSpent = this.pendingFatePointsSpent;
+    const pendingAspectInvokes = this.pendingAspectInvokes;
     
     if (pendingFatePointsSpent > 0 && this.player) {
       if (this.player.fatePoints.current >= pendingFatePointsSpent) {
@@ -1300,23 +1703,28 @@ export class GameMaster {
           });
         } else if (invoke.bonus === '+2' && aspect.freeInvokes > 0) {
           // Use free invoke
+          const aspectBefore = copyOf(aspect);
           aspect.freeInvokes -= 1;
 
           // If it's a boost and used up, remove it
           if (aspect.type === 'boost' && aspect.freeInvokes === 0) {
-              this.player.aspects = this.player.aspects.filter(a => a.id !== aspect.id);
+              const index = this.player.aspects.findIndex(a => a.id === aspect.id);
+              this.player.aspects.splice(index, 1);
               
               this.turnManager.addEvent('state_change', 'boost_removed', {
                   description: `Boost used and removed: ${aspect.name}`,
                   metadata: { aspectId: aspect.id }
               });
               
+              // Record where the boost was and its unspent invoke, so undoing
+              // the turn puts it back as it was
               this.deltaCollector.collect({
                   target: 'player',
-                  operation: 'set',
+                  operation: 'remove',
                   path: ['aspects'],
-                  newValue: this.player.aspects,
-                  previousValue: null,
+                  index,
+                  newValue: aspectBefore,
+                  previousValue: undefined,
                   cause: 'boost_removed',
                   eventId: turn.events[0]?.eventId || 'unknown'
               });
@@ -1332,8 +1740,8 @@ export class GameMaster {
     }
 
     // Clear pending data
-    (this as any)._pendingFatePointsSpent = 0;
-    (this as any)._pendingAspectInvokes = [];
+    this.pendingFatePointsSpent = 0;
+    this.pendingAspectInvokes = [];
 
     // 2. Determine Fate Action
     const characterDefinition = this.getCharacterDefinition();
@@ -1389,7 +1797,7 @@ export class GameMaster {
 
     // 5. Roll Dice (invokes will be handled by AI player separately)
     const roll = this.fateDice.roll();
-    const resolution = ActionResolver.resolve(roll, skillSelection.rating, opposition, invokeObjects);
+    const resolution = ActionResolver.resolve(roll, skillSelection.rating, opposition, invokeObjects, () => this.rng.next());
 
     // 6. Generate Events
     let invokeDescription = '';
@@ -1428,31 +1836,29 @@ export class GameMaster {
 
     await this.applyActionConsequences(fateAction, resolution, turn, undefined);
 
-    // Check for Knowledge Gain
-    if (resolution.outcome === 'success' || resolution.outcome === 'success_with_style') {
-        const knowledgeGain = await this.decisionEngine.determineKnowledgeGain({
-            action: { type: fateAction, description: playerAction },
-            player: characterDefinition,
-            worldState,
-            history: this.history
-        }, resolution.outcome);
-
-        if (knowledgeGain && knowledgeGain.data) {
-            this.applyKnowledgeUpdate(knowledgeGain, turn);
-        }
-    }
-
-    // Check for Quest Updates
-    const questUpdate = await this.decisionEngine.determineQuestUpdate({
+    // The follow-up analyses don't depend on each other, so they run in
+    // parallel and their results are applied in a fixed order afterwards
+    const isSuccess = resolution.outcome === 'success' || resolution.outcome === 'success_with_style';
+    const analysisContext = {
         action: { type: fateAction, description: playerAction },
         player: characterDefinition,
         worldState,
         history: this.history
-    }, resolution.outcome);
+    };
+    const [knowledgeGain, questUpdate, worldUpdates] = await Promise.all([
+        isSuccess ? this.decisionEngine.determineKnowledgeGain(analysisContext, resolution.outcome) : null,
+        this.decisionEngine.determineQuestUpdate(analysisContext, resolution.outcome),
+        this.decisionEngine.determineWorldUpdates(analysisContext, resolution.outcome)
+    ]);
 
+    // Check for Knowledge Gain
+    if (knowledgeGain && knowledgeGain.data) {
+        this.applyKnowledgeUpdate(knowledgeGain, turn);
+    }
+
+    // Check for Quest Updates
     if (questUpdate) {
         // BUG-002 Fix: Only allow new quests on success; failures can still update/fail existing quests
-        const isSuccess = resolution.outcome === 'success' || resolution.outcome === 'success_with_style';
         const isNewQuest = questUpdate.type === 'new';
         
         if (!isNewQuest || isSuccess) {
@@ -1461,13 +1867,6 @@ export class GameMaster {
     }
 
     // Check for World Updates
-    const worldUpdates = await this.decisionEngine.determineWorldUpdates({
-        action: { type: fateAction, description: playerAction },
-        player: characterDefinition,
-        worldState,
-        history: this.history
-    }, resolution.outcome);
-
     if (worldUpdates && worldUpdates.length > 0) {
         this.applyWorldUpdates(worldUpdates, turn);
     }
@@ -1508,7 +1907,7 @@ export class GameMaster {
     }
 
     // 10. Narrate - Use enhanced action resolution narration
-    const narration = await this.narrativeEngine.narrateActionResolution({
+    const narration = await this.collectNarration(this.narrativeEngine.streamActionResolution({
         events: turn.events,
         player: characterDefinition,
         worldState,
@@ -1526,7 +1925,7 @@ export class GameMaster {
             targetName: targetNPC?.name,
             // invokes: invokeObjects // Removed as it's not in the interface yet
         }
-    });
+    }));
 
     // Track examinations for saturation detection
     let finalNarration = narration;
@@ -1611,8 +2010,8 @@ export class GameMaster {
 
   async processAIPlayerAction(action: string, reasoning?: string, fatePointsSpent?: number, aspectInvokes?: Array<{aspectName: string, bonus: '+2' | 'reroll'}>): Promise<any> {
     // Store the invoke decisions for later processing
-    (this as any)._pendingAspectInvokes = aspectInvokes || [];
-    (this as any)._pendingFatePointsSpent = fatePointsSpent || 0;
+    this.pendingAspectInvokes = aspectInvokes || [];
+    this.pendingFatePointsSpent = fatePointsSpent || 0;
     
     // Pass reasoning directly to processPlayerAction
     const result = await this.processPlayerAction(action, reasoning);
@@ -1636,7 +2035,7 @@ export class GameMaster {
     if (enrichedLocation) {
       // Ensure features are properly initialized with names and descriptions
       const enrichedFeatures = (enrichedLocation.features || []).map((f: any) => ({
-        id: f.id || `feature-${Math.random().toString(36).substr(2, 9)}`,
+        id: f.id || `feature-${this.rng.next().toString(36).substr(2, 9)}`,
         name: f.name || f.description || 'Unknown feature',
         description: f.description || f.name || 'An unnamed feature',
         type: f.type || 'generic' as const,
@@ -1715,19 +2114,28 @@ export class GameMaster {
       this.consecutiveFailures = 0; // Reset on any success
     }
     
+    this.recordIntentDecision(turn);
+    this.recordPlayerInput(turn);
+    this.recordEncounteredNPCs(turn);
+
     // Update history with configurable windowing
     this.history.push(turn);
-    this.pruneHistory();
+    await this.pruneHistory();
 
-    // Save Turn and Deltas
-    await this.sessionWriter.writeTurn(this.sessionId, turn);
-    
+    // Save Deltas, then the Turn. The turn record marks the turn as complete,
+    // so deltas left behind by a crash can be told apart and dropped on repair.
     const deltas = this.deltaCollector.getDeltas();
     for (const delta of deltas) {
         await this.sessionWriter.writeDelta(this.sessionId, delta);
     }
+    this.sessionStats.totalDeltas += deltas.length;
+
+    await this.recordTrace(turn);
+    await this.sessionWriter.writeTurn(this.sessionId, turn);
+    this.reportInvariantViolations(turn.turnId, deltas);
 
     await this.saveState();
+    await this.checkSnapshot(turn.turnId);
 
     return {
         turn,
@@ -1846,7 +2254,7 @@ export class GameMaster {
               break;
           case 'buy_stunt':
               const newStunt = {
-                  id: uuidv4(),
+                  id: this.newId(),
                   name: action.details.newStuntName,
                   description: action.details.newStuntDescription || "No description",
                   cost: 1,
@@ -1939,7 +2347,7 @@ export class GameMaster {
     return this.finalizeTurn(turn, narration, "success");
   }
 
-  private async processTradeTurn(playerAction: string, turn: Turn) {
+  private async processTradeTurn(playerAction: string, turn: Turn, match?: IntentMatch) {
     if (!this.player) throw new Error("No player");
     
     // 1. Check for Shop
@@ -1957,8 +2365,10 @@ export class GameMaster {
         return this.finalizeTurn(turn, narration, "failure");
     }
 
-    // 2. Parse Intent
-    const intent = await this.decisionEngine.parseTradeIntent(playerAction);
+    // 2. Parse Intent, unless the rules already recognised the trade
+    const intent = match?.intent === 'trade'
+        ? tradeFromMatch(match)
+        : await this.decisionEngine.parseTradeIntent(playerAction);
     
     let narration = "";
     let result = "success";
@@ -1971,7 +2381,7 @@ export class GameMaster {
         // For this implementation, let's assume the EconomyManager can generate a shop if needed or we use a mock one.
         // TODO: Implement persistent shops. For now, generate a random stock based on location.
         
-        const shopItems = ["Health Potion (50g)", "Iron Sword (100g)", "Leather Armor (80g)"]; // Placeholder
+        const shopItems = SHOP_STOCK.map(item => `${item.name} (${item.price}g)`);
         narration = `The shopkeeper shows you their wares: ${shopItems.join(", ")}.`;
         
         this.turnManager.addEvent('system', 'trade_list', { description: narration });
@@ -1989,11 +2399,13 @@ export class GameMaster {
     return this.finalizeTurn(turn, narration, result);
   }
 
-  private async processCraftTurn(playerAction: string, turn: Turn) {
+  private async processCraftTurn(playerAction: string, turn: Turn, match?: IntentMatch) {
     if (!this.player) throw new Error("No player");
 
-    // 1. Parse Intent
-    const intent = await this.decisionEngine.parseCraftIntent(playerAction);
+    // 1. Parse Intent, unless the rules already recognised a request for the recipe list
+    const intent: { type: 'craft' | 'list'; recipeName?: string } = match?.rule === 'craft:list'
+        ? { type: 'list' }
+        : await this.decisionEngine.parseCraftIntent(playerAction);
     
     let narration = "";
     let result = "success";
@@ -2023,7 +2435,7 @@ export class GameMaster {
     }
 
     const quest: any = {
-      id: uuidv4(),
+      id: this.newId(),
       title: questData.title,
       description: questData.description,
       status: 'active',
@@ -2041,7 +2453,7 @@ export class GameMaster {
         id: s.id,
         description: s.description,
         objectives: s.objectives.map((o: any) => ({
-          id: uuidv4(),
+          id: this.newId(),
           ...o,
           status: 'active',
           currentCount: 0
@@ -2088,7 +2500,7 @@ export class GameMaster {
     console.log("Recipe lookup not implemented yet.");
   }
 
-  private applyWorldUpdates(updates: any[], turn: Turn) {
+  private applyWorldUpdates(updates: WorldUpdate[], turn: Turn) {
     const lastEventId = turn.events[turn.events.length - 1]?.eventId || 'unknown';
     
     for (const update of updates) {
@@ -2098,7 +2510,7 @@ export class GameMaster {
 
             if (update.type === 'add_aspect') {
                 const newAspect = {
-                    id: `asp-${Date.now()}-${Math.random().toString(36).substr(2, 5)}`,
+                    id: `asp-${this.rng.next().toString(36).substr(2, 9)}`,
                     name: update.data.name,
                     type: update.data.type || 'situational',
                     freeInvokes: 0
@@ -2196,7 +2608,7 @@ export class GameMaster {
         // Create Boost Aspect
         // Cast to any to avoid strict type issues if AspectTypeSchema isn't perfectly aligned in local types
         const boostAspect: any = {
-            id: uuidv4(),
+            id: this.newId(),
             name: boostName,
             type: 'boost',
             freeInvokes: 1,
@@ -2337,6 +2749,8 @@ export class GameMaster {
                 shifts: 0
             });
             turn.narration = "You tried to attack, but there's no valid target to attack here.";
+            this.recordPlayerInput(turn);
+            await this.recordTrace(turn);
             await this.sessionWriter.writeTurn(this.sessionId, turn);
             this.history.push(turn);
             return { turn, narration: turn.narration, result: 'failure' };
@@ -2367,6 +2781,8 @@ export class GameMaster {
 
     // Generate Event
     const turn = this.turnManager.startTurn("player", this.currentScene.id, { day: 1, timeOfDay: 'morning', timestamp: Date.now() });
+    this.deltaCollector = new DeltaCollector(this.sessionId, turn.turnId);
+    let conflictBefore = copyOf(conflict);
     this.turnManager.addEvent('skill_check', fateAction, {
         description: `Player attempted to ${playerAction} using ${skillSelection.name}. Outcome: ${resolution.outcome}`,
         roll,
@@ -2378,28 +2794,33 @@ export class GameMaster {
     await this.applyActionConsequences(fateAction, resolution, turn, attackTarget);
 
     // Narrate Player Action
-    let narration = await this.narrativeEngine.narrate({
+    let narration = await this.collectNarration(this.narrativeEngine.streamNarration({
         events: turn.events,
         player: characterDefinition,
         worldState,
         history: this.history
-    });
+    }));
 
     // Assign narration to turn
     turn.narration = narration;
 
-    // Save Player Turn
-    await this.sessionWriter.writeTurn(this.sessionId, turn);
-    this.history.push(turn);
-
     // Advance Turn
     let nextActorId = this.combatManager.nextTurn(conflict);
 
+    // Save Player Turn
+    this.recordPlayerInput(turn);
+    await this.writeConflictTurn(turn, conflict, conflictBefore);
+    this.history.push(turn);
+    conflictBefore = copyOf(conflict);
+
     // Loop NPC Turns
     while (nextActorId !== this.player.id && !conflict.isResolved) {
         const npc = this.npcs[nextActorId];
+        let npcTurn: Turn | undefined;
         if (npc) {
-            const npcTurn = this.turnManager.startTurn(npc.name, this.currentScene.id, { day: 1, timeOfDay: 'morning', timestamp: Date.now() });
+            npcTurn = this.turnManager.startTurn(npc.name, this.currentScene.id, { day: 1, timeOfDay: 'morning', timestamp: Date.now() });
+            this.deltaCollector = new DeltaCollector(this.sessionId, npcTurn.turnId);
+            this.tracer.beginTurn(npcTurn.turnId);
             
             // Determine Side
             const participant = conflict.participants.find(p => p.characterId === nextActorId);
@@ -2431,21 +2852,18 @@ export class GameMaster {
             });
 
             // Narrate NPC Action
-            const npcNarration = await this.narrativeEngine.narrate({
+            this.narrationListener?.('\n\n');
+            const npcNarration = await this.collectNarration(this.narrativeEngine.streamNarration({
                 events: npcTurn.events,
                 player: characterDefinition,
                 worldState,
                 history: this.history
-            });
+            }));
             
             // Assign narration to NPC turn
             npcTurn.narration = npcNarration;
             
             narration += `\n\n${npcNarration}`;
-            
-            await this.sessionWriter.writeTurn(this.sessionId, npcTurn);
-            this.history.push(npcTurn);
-            this.pruneHistory();
         }
 
         nextActorId = this.combatManager.nextTurn(conflict);
@@ -2455,14 +2873,26 @@ export class GameMaster {
             .filter(p => p.side === 'opposition')
             .map(p => this.npcs[p.characterId])
             .filter(n => n !== undefined) as CharacterDefinition[];
+        const resolved = this.combatManager.checkResolution(conflict, opponents, this.player);
 
-        if (this.combatManager.checkResolution(conflict, opponents, this.player)) {
+        // The NPC's turn carries the conflict's advance past it
+        if (npcTurn) {
+            await this.writeConflictTurn(npcTurn, conflict, conflictBefore);
+            this.history.push(npcTurn);
+            await this.pruneHistory();
+            conflictBefore = copyOf(conflict);
+        }
+
+        if (resolved) {
             narration += `\n\nCombat Ended: ${conflict.resolution}`;
+            this.pendingSnapshotReason = 'conflict_end';
+            this.sessionStats.conflictsResolved++;
             break;
         }
     }
 
     await this.saveState();
+    await this.checkSnapshot(this.turnManager.getCurrentTurn()?.turnId ?? turn.turnId);
 
     return {
         turn,
@@ -2471,6 +2901,24 @@ export class GameMaster {
     };
   }
 
+  /**
+   * Save a turn played in a conflict with its deltas, including how the
+   * conflict itself changed since `conflictBefore`.
+   */
+  private async writeConflictTurn(turn: Turn, conflict: ConflictState, conflictBefore: ConflictState) {
+    this.collectChange('world', ['currentScene', 'conflict'], conflictBefore, conflict, 'conflict_turn', turn.events[turn.events.length - 1]?.eventId || 'unknown');
+
+    const deltas = this.deltaCollector.getDeltas();
+    for (const delta of deltas) {
+        await this.sessionWriter.writeDelta(this.sessionId, delta);
+    }
+    this.sessionStats.totalDeltas += deltas.length;
+
+    await this.recordTrace(turn);
+    await this.sessionWriter.writeTurn(this.sessionId, turn);
+    this.reportInvariantViolations(turn.turnId, deltas);
+  }
+
   private applyQuestUpdate(update: any, turn: Turn) {
     if (!update) return;
 
@@ -2504,6 +2952,7 @@ export class GameMaster {
       if (quest) {
         const objective = quest.objectives.find(o => o.id === update.objectiveId);
         if (objective) {
+            const previousQuest = copyOf(quest);
             const newCount = objective.currentCount + (update.count || 0);
             QuestManager.updateObjective(worldState, update.questId, update.objectiveId, newCount);
             
@@ -2515,9 +2964,22 @@ export class GameMaster {
                 description: `Quest Update: ${quest.title} - ${objective.description}`,
                 metadata: { questId: update.questId, objectiveId: update.objectiveId, status: objective.status }
             });
+
+            this.collectQuestChange(quest, previousQuest, 'quest_update', turn);
         }
       }
     } else if (update.type === 'complete_quest') {
+        const quest = QuestManager.getQuest(worldState, update.questId);
+        const questGiverId = quest?.giverId;
+        // Rewards change the player, faction standings and the quest giver in place
+        const previous = copyOf({
+            quest,
+            appliedRewardQuestIds: this.player?.appliedRewardQuestIds,
+            milestones: this.player?.milestones,
+            factions: worldState.factions,
+            questGiver: questGiverId ? this.npcs[questGiverId] : undefined
+        });
+
         QuestManager.setQuestStatus(worldState, update.questId, 'completed');
         this.turnManager.addEvent('quest_update', 'quest_completed', {
             description: `Quest Completed: ${update.questId}`,
@@ -2525,33 +2987,58 @@ export class GameMaster {
         });
 
         // Apply quest rewards immediately
-        if (this.player && this.questRewardManager) {
-          const quest = QuestManager.getQuest(worldState, update.questId);
-          if (quest) {
-            const questGiver = quest.giverId ? this.npcs[quest.giverId] : undefined;
-            const rewardResult = this.questRewardManager.applyQuestRewards(this.player, quest, questGiver, worldState);
-
-            if (rewardResult.success) {
-              const rewardSummary = this.generateRewardSummary(rewardResult.appliedRewards);
-              this.turnManager.addEvent('quest_update', 'quest_rewards_applied', {
-                description: `Quest Rewards Applied: ${rewardSummary}`,
-                metadata: {
-                  questId: update.questId,
-                  rewards: rewardResult.appliedRewards
-                }
-              });
-            }
+        if (quest && this.player && this.questRewardManager) {
+          const questGiver = questGiverId ? this.npcs[questGiverId] : undefined;
+          const rewardResult = this.questRewardManager.applyQuestRewards(this.player, quest, questGiver, worldState);
+
+          if (rewardResult.success) {
+            const rewardSummary = this.generateRewardSummary(rewardResult.appliedRewards);
+            this.turnManager.addEvent('quest_update', 'quest_rewards_applied', {
+              description: `Quest Rewards Applied: ${rewardSummary}`,
+              metadata: {
+                questId: update.questId,
+                rewards: rewardResult.appliedRewards
+              }
+            });
+          }
+        }
+
+        if (quest) {
+          const eventId = turn.events[turn.events.length - 1].eventId;
+          this.collectQuestChange(quest, previous.quest, 'quest_complete', turn);
+          if (this.player) {
+            this.collectChange('player', ['appliedRewardQuestIds'], previous.appliedRewardQuestIds, this.player.appliedRewardQuestIds, 'quest_rewards', eventId);
+            this.collectChange('player', ['milestones'], previous.milestones, this.player.milestones, 'quest_rewards', eventId);
+          }
+          this.collectChange('world', ['factions'], previous.factions, worldState.factions, 'quest_rewards', eventId);
+          if (questGiverId && this.npcs[questGiverId]) {
+            this.collectChange('npc', [questGiverId], previous.questGiver, this.npcs[questGiverId], 'quest_rewards', eventId);
           }
         }
     } else if (update.type === 'fail_quest') {
+        const quest = QuestManager.getQuest(worldState, update.questId);
+        const previousQuest = copyOf(quest);
         QuestManager.setQuestStatus(worldState, update.questId, 'failed');
         this.turnManager.addEvent('quest_update', 'quest_failed', {
             description: `Quest Failed: ${update.questId}`,
             metadata: { questId: update.questId }
         });
+        if (quest) {
+          this.collectQuestChange(quest, previousQuest, 'quest_fail', turn);
+        }
     }
   }
 
+  /**
+   * Record the change to a quest in the world's quest list, given a copy of it
+   * from before the change.
+   */
+  private collectQuestChange(quest: Quest, previousQuest: Quest | undefined, cause: string, turn: Turn) {
+    const index = this.worldManager.state.quests.indexOf(quest);
+    if (index < 0) return;
+    this.collectChange('world', ['quests', String(index)], previousQuest, quest, cause, turn.events[turn.events.length - 1].eventId);
+  }
+
   private applyKnowledgeUpdate(update: any, turn: Turn) {
     if (!this.player) return;
 
@@ -2559,6 +3046,10 @@ export class GameMaster {
     // Extract numeric turn ID if possible, otherwise use timestamp
     const turnNum = typeof turn.turnId === 'number' ? turn.turnId : Date.now();
 
+    // Capture the prior entry so the delta can be reverted
+    const previousEntry = (this.player.knowledge as any)[category]?.[id];
+    const previousValue = previousEntry === undefined ? undefined : JSON.parse(JSON.stringify(previousEntry));
+
     // Update Knowledge using KnowledgeManager
     switch (category) {
         case 'locations':
@@ -2602,7 +3093,7 @@ export class GameMaster {
         target: 'player',
         operation: 'set',
         path: ['knowledge', category, id],
-        previousValue: null, // Ideally we'd capture this before update
+        previousValue,
         newValue: knowledgeCategory[id],
         cause: 'knowledge_gain',
         eventId: turn.events[turn.events.length - 1].eventId
@@ -2668,6 +3159,9 @@ export class GameMaster {
                 result: "meta_command_success" 
             };
 
+        case 'undo':
+            return this.undoTurns(args[0] !== undefined ? Number(args[0]) : 1);
+
         case 'inventory':
         case 'inv':
             if (!this.player) return { turn: null, narration: "No character found.", result: "error" };
@@ -2694,7 +3188,7 @@ export class GameMaster {
         case 'help':
             return {
                 turn: null,
-                narration: `**Available Commands:**\n- /save: Save the game\n- /load: Load the last save\n- /inventory: Show inventory\n- /status: Show character sheet\n- /help: Show this message\n- exit: Quit the game`,
+                narration: `**Available Commands:**\n- /save: Save the game\n- /load: Load the last save\n- /undo [n]: Rewind the last n turns (default 1)\n- /inventory: Show inventory\n- /status: Show character sheet\n- /help: Show this message\n- exit: Quit the game`,
                 result: "meta_command_success"
             };
 
@@ -2746,23 +3240,83 @@ export class GameMaster {
    * Prune history based on configuration settings
    * - Uses maxHistoryTurns for simple count-based pruning
    * - Optionally uses smart pruning based on estimated token count
+   * Pruned turns are summarized into the story memory instead of being
+   * forgotten. At least summaryBatchTurns go at a time, so each summary covers
+   * a stretch of play rather than a single turn.
    */
-  private pruneHistory(): void {
+  private async pruneHistory(): Promise<void> {
+    let dropCount = 0;
     if (this.config.enableSmartPruning) {
-      // Smart pruning: estimate tokens and remove oldest turns until under limit
-      while (this.history.length > 1) {
-        const estimatedTokens = this.estimateHistoryTokens();
-        if (estimatedTokens <= this.config.maxContextTokens!) {
-          break;
-        }
-        this.history.shift();
+      // The summaries share the context budget with the history
+      const budget = this.config.maxContextTokens! - this.estimateSummaryTokens();
+      while (dropCount < this.history.length - 1 && this.estimateHistoryTokens(this.history.slice(dropCount)) > budget) {
+        dropCount++;
       }
     } else {
-      // Simple pruning: keep only the last N turns
-      while (this.history.length > this.config.maxHistoryTurns!) {
-        this.history.shift();
-      }
+      dropCount = Math.max(0, this.history.length - this.config.maxHistoryTurns!);
     }
+    if (dropCount === 0) return;
+
+    dropCount = Math.min(this.history.length - 1, Math.max(dropCount, this.config.summaryBatchTurns!));
+    await this.summarizeTurns(this.history.splice(0, dropCount));
+  }
+
+  /**
+   * Summarize turns leaving the history, one summary per scene they span, and
+   * roll older summaries up a level as the story memory fills.
+   */
+  private async summarizeTurns(turns: Turn[]) {
+    const turnId = this.turnManager.getTurnCount();
+    const scenes: Turn[][] = [];
+    for (const turn of turns) {
+        const scene = scenes[scenes.length - 1];
+        if (scene && scene[0].sceneId === turn.sceneId) {
+            scene.push(turn);
+        } else {
+            scenes.push([turn]);
+        }
+    }
+
+    for (const scene of scenes) {
+        await this.recordSummary({
+            turnId,
+            level: 'scene',
+            fromTurn: scene[0].turnId,
+            toTurn: scene[scene.length - 1].turnId,
+            sceneId: scene[0].sceneId,
+            text: await this.storySummarizer.summarizeScene(scene)
+        });
+    }
+
+    let rollup = this.storyMemory.nextRollup();
+    while (rollup) {
+        await this.recordSummary({
+            turnId,
+            level: rollup.level,
+            fromTurn: rollup.sources[0].fromTurn,
+            toTurn: rollup.sources[rollup.sources.length - 1].toTurn,
+            text: await this.storySummarizer.summarizeRollup(rollup.level, rollup.sources)
+        });
+        rollup = this.storyMemory.nextRollup();
+    }
+  }
+
+  private async recordSummary(summary: StorySummary) {
+    this.storyMemory.add(summary);
+    await this.sessionWriter.writeSummary(this.sessionId, summary);
+  }
+
+  /**
+   * Rebuild the story memory from the session's summary log and reload the
+   * recent turns it doesn't cover into the history.
+   */
+  private async restoreStoryMemory() {
+    const lastTurnId = this.turnManager.getTurnCount();
+    this.storyMemory.restore(await this.sessionLoader!.loadSummaries(this.sessionId, 0, lastTurnId));
+    const firstTurnId = Math.max(this.storyMemory.getLastSummarizedTurn() + 1, lastTurnId - this.config.maxHistoryTurns! + 1);
+    this.history = firstTurnId <= lastTurnId
+        ? await this.sessionLoader!.loadTurns(this.sessionId, firstTurnId, lastTurnId)
+        : [];
   }
 
   /**
@@ -2771,13 +3325,17 @@ export class GameMaster {
    * Uses: ~1 token per 3.5 characters (better than crude /4)
    * Accounts for JSON formatting, structure overhead, and average tokenization
    */
-  private estimateHistoryTokens(): number {
-    const historyJson = JSON.stringify(this.history);
+  private estimateHistoryTokens(turns: Turn[] = this.history): number {
+    const historyJson = JSON.stringify(turns);
     // More accurate tokenization estimate: accounts for JSON overhead and typical model tokenization
     // This is closer to GPT-3/4 tokenization than a simple character count
     return Math.ceil(historyJson.length / 3.5);
   }
 
+  private estimateSummaryTokens(): number {
+    return Math.ceil(this.storyMemory.getSummaries().reduce((sum, s) => sum + s.text.length, 0) / 3.5);
+  }
+
   /**
    * Handle player travel to a new location via a connection
    */
@@ -2813,10 +3371,12 @@ export class GameMaster {
         this.worldManager.setLocation(destinationLocation);
       }
 
-      // Create new scene at the destination
+      // Create new scene at the destination; the previous scene ends here
+      this.pendingSnapshotReason = 'scene_end';
+      const previousScene = this.currentScene;
       const currentTurn = this.turnManager.getCurrentTurn();
       this.currentScene = {
-        id: `scene-${Date.now()}`,
+        id: `scene-${this.newId()}`,
         name: destinationLocation.name,
         description: destinationLocation.description,
         locationId: destinationLocation.id,
@@ -2830,10 +3390,10 @@ export class GameMaster {
         target: 'world',
         operation: 'set',
         path: ['currentScene'],
-        previousValue: undefined,
+        previousValue: previousScene,
         newValue: this.currentScene,
         cause: 'travel',
-        eventId: `travel-${Date.now()}`
+        eventId: `travel-${this.newId()}`
       });
 
       // Generate travel narration
@@ -340,7 +340,7 @@ function formatDate(timestamp: number): string {
 
 function generateSessionHeader(sessionId: string, metadata: any): string {
   const title = metadata?.theme?.name || 'Untitled Session';
-  const turns = metadata?.totalTurns || 0;
+  const turns = metadata?.stats?.totalTurns || 0;
   const date = metadata?.createdAt ? formatDate(new Date(metadata.createdAt).getTime()) : 'Unknown';
 
   return `
@@ -4,7 +4,8 @@
  * Interactive CLI tool to export session history to a Markdown file.
  * Supports multiple export formats for different use cases.
  */
-import { FileSystemAdapter, SessionLoader } from '@llmrpg/storage';
+import { FileSystemAdapter, SessionLoader, normalizeSessionMetadata } from '@llmrpg/storage';
+import { SessionMetadata } from '@llmrpg/protocol';
 import { Turn, Delta } from '@llmrpg/core';
 import path from 'path';
 import fs from 'fs';
@@ -13,7 +14,7 @@ import readline from 'readline';
 interface SessionInfo {
   id: string;
   folder: string;
-  metadata?: any;
+  metadata?: SessionMetadata;
   turnCount?: number;
 }
 
@@ -131,6 +132,25 @@ function formatDelta(delta: Delta): string {
 // Session Discovery
 // ═══════════════════════════════════════════════════════════════════════════
 
+// Sessions with maintained metadata record their turn count; older ones need
+// their turn files counted
+function getTurnCount(sessionPath: string, metadata: SessionMetadata): number {
+  if (metadata.stats.totalTurns > 0) {
+    return metadata.stats.totalTurns;
+  }
+
+  const turnsPath = path.join(sessionPath, 'turns');
+  let turnCount = 0;
+  if (fs.existsSync(turnsPath)) {
+    const turnFiles = fs.readdirSync(turnsPath);
+    for (const file of turnFiles) {
+      const content = fs.readFileSync(path.join(turnsPath, file), 'utf-8');
+      turnCount += content.split('\n').filter(l => l.trim()).length;
+    }
+  }
+  return turnCount;
+}
+
 async function discoverSessions(basePath: string): Promise<SessionInfo[]> {
   const sessions: SessionInfo[] = [];
   
@@ -142,16 +162,8 @@ async function discoverSessions(basePath: string): Promise<SessionInfo[]> {
       const metaPath = path.join(activePath, dir, 'session.meta.json');
       if (fs.existsSync(metaPath)) {
         try {
-          const metadata = JSON.parse(fs.readFileSync(metaPath, 'utf-8'));
-          const turnsPath = path.join(activePath, dir, 'turns');
-          let turnCount = 0;
-          if (fs.existsSync(turnsPath)) {
-            const turnFiles = fs.readdirSync(turnsPath);
-            for (const file of turnFiles) {
-              const content = fs.readFileSync(path.join(turnsPath, file), 'utf-8');
-              turnCount += content.split('\n').filter(l => l.trim()).length;
-            }
-          }
+          const metadata = normalizeSessionMetadata(dir, JSON.parse(fs.readFileSync(metaPath, 'utf-8')));
+          const turnCount = getTurnCount(path.join(activePath, dir), metadata);
           sessions.push({ id: dir, folder: 'sessions', metadata, turnCount });
         } catch {
           sessions.push({ id: dir, folder: 'sessions' });
@@ -168,16 +180,8 @@ async function discoverSessions(basePath: string): Promise<SessionInfo[]> {
       const metaPath = path.join(testActivePath, dir, 'session.meta.json');
       if (fs.existsSync(metaPath)) {
         try {
-          const metadata = JSON.parse(fs.readFileSync(metaPath, 'utf-8'));
-          const turnsPath = path.join(testActivePath, dir, 'turns');
-          let turnCount = 0;
-          if (fs.existsSync(turnsPath)) {
-            const turnFiles = fs.readdirSync(turnsPath);
-            for (const file of turnFiles) {
-              const content = fs.readFileSync(path.join(turnsPath, file), 'utf-8');
-              turnCount += content.split('\n').filter(l => l.trim()).length;
-            }
-          }
+          const metadata = normalizeSessionMetadata(dir, JSON.parse(fs.readFileSync(metaPath, 'utf-8')));
+          const turnCount = getTurnCount(path.join(testActivePath, dir), metadata);
           sessions.push({ id: dir, folder: 'test-sessions', metadata, turnCount });
         } catch {
           sessions.push({ id: dir, folder: 'test-sessions' });
@@ -226,11 +230,14 @@ async function generateMarkdown(
     lines.push(`| Property | Value |`);
     lines.push(`|----------|-------|`);
     lines.push(`| **Session ID** | \`${session.id}\` |`);
-    lines.push(`| **Started** | ${formatTimestamp(metadata.startTime)} |`);
-    lines.push(`| **Player** | ${metadata.player || 'Unknown'} |`);
+    lines.push(`| **Started** | ${formatTimestamp(Date.parse(metadata.createdAt))} |`);
+    lines.push(`| **Theme** | ${metadata.theme.name} |`);
+    lines.push(`| **Player** | ${metadata.player.name} (${metadata.player.characterName}) |`);
     if (metadata.currentTurn) {
       lines.push(`| **Total Turns** | ${metadata.currentTurn} |`);
     }
+    lines.push(`| **Conflicts Resolved** | ${metadata.stats.conflictsResolved} |`);
+    lines.push(`| **NPCs Encountered** | ${metadata.stats.npcsEncountered} |`);
     lines.push('');
   } catch {
     lines.push('*Could not load session metadata*');
@@ -523,8 +530,8 @@ function printSessionList(sessions: SessionInfo[], page: number, pageSize: numbe
     const num = (i + 1).toString().padStart(2, ' ');
     const folder = s.folder === 'test-sessions' ? '[TEST]' : '[MAIN]';
     const turns = s.turnCount !== undefined ? `${s.turnCount} turns` : '? turns';
-    const player = s.metadata?.player || 'Unknown';
-    const date = s.metadata?.startTime ? new Date(s.metadata.startTime).toLocaleDateString() : 'Unknown';
+    const player = s.metadata?.player.characterName || 'Unknown';
+    const date = s.metadata ? new Date(s.metadata.createdAt).toLocaleDateString() : 'Unknown';
     
     console.log(`  ${num}. ${folder} ${s.id}`);
     console.log(`      └─ ${player} | ${date} | ${turns}`);
@@ -554,8 +561,8 @@ async function runInteractiveMenu() {
     
     // Sort sessions by start time (newest first)
     sessions.sort((a, b) => {
-      const timeA = a.metadata?.startTime || 0;
-      const timeB = b.metadata?.startTime || 0;
+      const timeA = a.metadata ? Date.parse(a.metadata.createdAt) : 0;
+      const timeB = b.metadata ? Date.parse(b.metadata.createdAt) : 0;
       return timeB - timeA;
     });
     
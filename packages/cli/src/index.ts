@@ -2,14 +2,48 @@ import { Command } from 'commander';
 import { input, select } from '@inquirer/prompts';
 import { GameMaster } from './GameMaster';
 import { GameLoop } from './GameLoop';
-import { OllamaAdapter, MockAdapter, LLMProvider } from '@llmrpg/llm';
-import { SessionWriter, SessionLoader, FileSystemAdapter } from '@llmrpg/storage';
+import { DebugConsole } from './DebugConsole';
+import { verifySessionReplay } from './verifyReplay';
+import { buildPerfReport } from './perfReport';
+import { ReplayDebugger, StateInspector, loadReplaySession } from '@llmrpg/debug';
+import { LLMProvider, ModelSpec, RecordingAdapter, ReplayAdapter, RoutingConfig, loadCassette, loadRoutingConfig, createRoutingProvider, describeModelChain, describeModelSpec, CachingProvider, ResponseCache, mergeCacheStats } from '@llmrpg/llm';
+import { SessionWriter, SessionLoader, StorageBackend, FileSystemAdapter, FileSystemBackend, SqliteBackend, createSessionMetadata, getMigrationPath, exportSessionBundle, importSessionBundle, BUNDLE_EXTENSION } from '@llmrpg/storage';
 import path from 'path';
+import fs from 'fs';
 import dotenv from 'dotenv';
 import chalk from 'chalk';
 
 dotenv.config();
 
+// Model routing config picked up from the working directory when --models isn't given
+const DEFAULT_MODELS_FILE = 'llmrpg.models.json';
+const DEFAULT_CACHE_DIR = '.llmrpg-cache';
+
+function modelSpecFromName(name: string): ModelSpec {
+    return name === 'mock' ? { provider: 'mock' } : { provider: 'ollama', model: name, host: 'http://localhost:11434' };
+}
+
+/**
+ * Storage for a command: the SQLite database given with --db, or the sessions
+ * folder under `basePath`. Unreadable record lines are skipped with a warning.
+ */
+function openStorage(options: { db?: string }, basePath = process.cwd()): StorageBackend {
+    if (options.db) {
+        return new SqliteBackend(options.db);
+    }
+    return new FileSystemBackend(new FileSystemAdapter(basePath), {
+        onCorruptLine: (filename, line, interrupted) => console.warn(chalk.yellow(interrupted
+            ? `Ignoring incomplete trailing line in ${filename} (interrupted write); run "llmrpg repair" to clean it up`
+            : `Ignoring unreadable line ${line} in ${filename}; run "llmrpg repair" to clean it up`))
+    });
+}
+
+function closeStorage(storage: StorageBackend | undefined) {
+    if (storage instanceof SqliteBackend) {
+        storage.close();
+    }
+}
+
 const program = new Command();
 
 program
@@ -23,40 +57,136 @@ program.command('start')
   .option('--theme <theme>', 'Specify the world theme')
   .option('--run <commands...>', 'Run specific commands and exit')
   .option('--load <sessionId>', 'Load an existing session')
+  .option('--db <file>', 'Store sessions in an SQLite database instead of the sessions folder')
+  .option('--record <cassette>', 'Record every LLM request and response to a cassette file')
+  .option('--replay <cassette>', 'Answer LLM requests from a recorded cassette instead of a model')
+  .option('--check-invariants', 'Check state invariants after every turn and warn about violations')
+  .option('--models <file>', `JSON config choosing a model per task (default: ${DEFAULT_MODELS_FILE} if present)`)
+  .option('--model <name>', 'Ollama model to use when there is no models config', 'llama3')
+  .option('--fallback <models...>', 'Ollama models to try in order when the previous one fails ("mock" for the mock adapter)')
+  .option('--cache [dir]', `Reuse cached responses for identical LLM requests (default dir: ${DEFAULT_CACHE_DIR})`)
+  .option('--cache-ttl <hours>', 'How long cached responses are reused', '168')
+  .option('--cache-max-mb <mb>', 'Disk space the response cache may use', '100')
+  .option('--max-concurrency <n>', 'LLM requests allowed to run at once', '3')
   .action(async (options) => {
     console.log(chalk.green.bold('Welcome to LLMRPGv2!'));
 
-    const storagePath = process.cwd();
-    
-    // Initialize dependencies
-    const fsAdapter = new FileSystemAdapter(storagePath);
-    const sessionWriter = new SessionWriter(fsAdapter);
-    const sessionLoader = new SessionLoader(fsAdapter);
-
-    let sessionId = options.load;
-    if (!sessionId) {
-        sessionId = `session-${Date.now()}`;
-        await sessionWriter.createSession(sessionId, {
-            startTime: Date.now(),
-            player: "Player"
-        });
-    } else {
-        console.log(chalk.blue(`Resuming session: ${sessionId}`));
+    const maxConcurrency = Number(options.maxConcurrency);
+    if (!Number.isInteger(maxConcurrency) || maxConcurrency < 1) {
+        console.error(chalk.red(`--max-concurrency must be a positive whole number, got ${options.maxConcurrency}`));
+        process.exitCode = 1;
+        return;
     }
 
     // Initialize LLM
     let llmProvider: LLMProvider;
-    if (options.mock) {
-        console.log(chalk.yellow('Using Mock LLM Adapter'));
-        llmProvider = new MockAdapter();
+    const cachingProviders: CachingProvider[] = [];
+    if (options.replay) {
+        console.log(chalk.yellow(`Replaying LLM responses from ${options.replay}`));
+        llmProvider = await ReplayAdapter.fromFile(options.replay);
     } else {
-        llmProvider = new OllamaAdapter({
-            model: 'llama3', // Default model
-            host: 'http://localhost:11434'
-        });
+        let routing: RoutingConfig;
+        if (options.mock) {
+            console.log(chalk.yellow('Using Mock LLM Adapter'));
+            routing = { default: { provider: 'mock' }, routes: {} };
+        } else if (options.models || fs.existsSync(DEFAULT_MODELS_FILE)) {
+            const modelsPath = options.models ?? DEFAULT_MODELS_FILE;
+            try {
+                routing = await loadRoutingConfig(modelsPath);
+            } catch (error) {
+                console.error(chalk.red((error as Error).message));
+                process.exitCode = 1;
+                return;
+            }
+            console.log(chalk.yellow(`Routing models from ${modelsPath}`));
+            console.log(chalk.gray(`  default: ${describeModelChain(routing.default)}`));
+            for (const [task, chain] of Object.entries(routing.routes)) {
+                console.log(chalk.gray(`  ${task}: ${describeModelChain(chain!)}`));
+            }
+        } else {
+            // Without a config, the models named on the command line are tried in order
+            routing = { default: [options.model, ...(options.fallback ?? [])].map(modelSpecFromName), routes: {} };
+        }
+
+        let cache: ResponseCache | undefined;
+        if (options.cache) {
+            const cacheDir = typeof options.cache === 'string' ? options.cache : DEFAULT_CACHE_DIR;
+            cache = new ResponseCache(cacheDir, {
+                ttlMs: Number(options.cacheTtl) * 60 * 60 * 1000,
+                maxBytes: Number(options.cacheMaxMb) * 1024 * 1024
+            });
+            console.log(chalk.yellow(`Caching LLM responses in ${cacheDir}`));
+        }
+
+        try {
+            const router = createRoutingProvider(routing, {
+                fallback: {
+                    onFallback: (from, to) => console.warn(chalk.yellow(`${from} failed, falling back to ${to}`)),
+                    onCircuitOpen: (name, failures, cooldownMs) =>
+                        console.warn(chalk.yellow(`${name} failed ${failures} requests in a row; skipping it for ${Math.round(cooldownMs / 1000)}s`))
+                },
+                // Each model gets its own cache keys, so a fallback model's answers are never served as another's
+                wrap: (provider, spec) => {
+                    if (!cache) return provider;
+                    const caching = new CachingProvider(provider, cache, describeModelSpec(spec), {
+                        onCacheError: (operation, error) => console.warn(chalk.yellow(`Failed to ${operation} LLM response cache: ${error.message}`))
+                    });
+                    cachingProviders.push(caching);
+                    return caching;
+                }
+            });
+
+            const health = await router.checkHealth();
+            for (const result of health) {
+                console.log(result.healthy
+                    ? chalk.gray(`✓ ${result.name} (${result.latencyMs}ms)`)
+                    : chalk.yellow(`✗ ${result.name}: ${result.error}`));
+            }
+            if (!health.some(result => result.healthy)) {
+                throw new Error('No LLM provider is available. Start the model server, choose another --model, or add --fallback mock.');
+            }
+            llmProvider = router;
+        } catch (error) {
+            console.error(chalk.red((error as Error).message));
+            process.exitCode = 1;
+            return;
+        }
+    }
+
+    // Initialize dependencies
+    let storage: StorageBackend | undefined;
+    let sessionWriter: SessionWriter;
+    let sessionLoader: SessionLoader;
+    let sessionId: string = options.load;
+    try {
+        storage = openStorage(options);
+        sessionWriter = new SessionWriter(storage);
+        sessionLoader = new SessionLoader(storage);
+
+        if (!sessionId) {
+            sessionId = `session-${Date.now()}`;
+            await sessionWriter.createSession(sessionId, createSessionMetadata(sessionId, {
+                themeName: options.theme
+            }));
+        } else {
+            console.log(chalk.blue(`Resuming session: ${sessionId}`));
+        }
+    } catch (error) {
+        console.error(chalk.red(`Failed to open session storage: ${(error as Error).message}`));
+        closeStorage(storage);
+        process.exitCode = 1;
+        return;
     }
 
-    const gameMaster = new GameMaster(sessionId, llmProvider, sessionWriter, sessionLoader);
+    if (options.record) {
+        console.log(chalk.yellow(`Recording LLM calls to ${options.record}`));
+        llmProvider = new RecordingAdapter(llmProvider, options.record);
+    }
+
+    const gameMaster = new GameMaster(sessionId, llmProvider, sessionWriter, sessionLoader, {
+        checkInvariants: !!options.checkInvariants,
+        maxConcurrentRequests: maxConcurrency
+    });
 
     if (options.load) {
         console.log(chalk.cyan('📂 Loading session...'));
@@ -104,6 +234,337 @@ program.command('start')
     } else {
         await gameLoop.start();
     }
+
+    if (cachingProviders.length > 0) {
+        const stats = mergeCacheStats(cachingProviders.map(provider => provider.getStats()));
+        console.log(chalk.gray(`LLM cache: ${stats.hits} hit(s), ${stats.misses} miss(es), ${(stats.hitRate * 100).toFixed(0)}% hit rate`));
+        for (const [caller, counts] of Object.entries(stats.byCaller).sort(([, a], [, b]) => b.hits - a.hits)) {
+            console.log(chalk.gray(`  ${caller}: ${counts.hits}/${counts.hits + counts.misses}`));
+        }
+    }
+
+    const queue = gameMaster.getRequestScheduler().getMetrics();
+    if (queue.maxQueued > 0) {
+        console.log(chalk.gray(`LLM queue: up to ${queue.maxQueued} waiting, ${queue.averageWaitMs.toFixed(0)}ms average wait, ${queue.maxWaitMs.toFixed(0)}ms longest`));
+    }
+    closeStorage(storage);
+  });
+
+program.command('fork')
+  .description('Fork a session at a given turn into a new session')
+  .argument('<sessionId>', 'Session to fork')
+  .argument('<turn>', 'Last turn to keep in the fork')
+  .option('--id <newSessionId>', 'Id for the forked session')
+  .option('--db <file>', 'SQLite database holding the session')
+  .action(async (sourceId: string, turnArg: string, options) => {
+    let storage: StorageBackend | undefined;
+    try {
+        storage = openStorage(options);
+        const sessionWriter = new SessionWriter(storage);
+
+        const forkTurn = Number(turnArg);
+        const newSessionId = options.id || `${sourceId}-fork-${forkTurn}-${Date.now()}`;
+
+        await sessionWriter.forkSession(sourceId, newSessionId, forkTurn);
+        console.log(chalk.green(`✓ Forked ${sourceId} at turn ${forkTurn} into ${newSessionId}`));
+        console.log(chalk.gray(`Resume it with: llmrpg start --load ${newSessionId}${options.db ? ` --db ${options.db}` : ''}`));
+    } catch (error) {
+        console.error(chalk.red(`Fork failed: ${(error as Error).message}`));
+        process.exitCode = 1;
+    } finally {
+        closeStorage(storage);
+    }
+  });
+
+program.command('migrate')
+  .description('Upgrade saved sessions to the current save format')
+  .argument('[sessionIds...]', 'Sessions to migrate (default: all sessions)')
+  .option('--no-backup', 'Skip copying each session folder before migrating it')
+  .option('--db <file>', 'SQLite database holding the sessions')
+  .action(async (sessionIds: string[], options) => {
+    const storagePath = process.cwd();
+    let storage: StorageBackend | undefined;
+    let sessionWriter: SessionWriter;
+    let sessionLoader: SessionLoader;
+    let targets: string[];
+    try {
+        storage = openStorage(options, storagePath);
+        sessionWriter = new SessionWriter(storage);
+        sessionLoader = new SessionLoader(storage);
+        targets = sessionIds.length > 0 ? sessionIds : await sessionLoader.listSessions();
+    } catch (error) {
+        console.error(chalk.red(`Migration failed: ${(error as Error).message}`));
+        closeStorage(storage);
+        process.exitCode = 1;
+        return;
+    }
+    let migrated = 0;
+    let databaseBackedUp = false;
+
+    for (const sessionId of targets) {
+        try {
+            const version = await sessionLoader.getStorageVersion(sessionId);
+            if (getMigrationPath(version).length === 0) {
+                console.log(chalk.gray(`${sessionId}: already at format ${version}`));
+                continue;
+            }
+
+            if (options.backup) {
+                if (options.db) {
+                    // One copy of the database covers every session in it
+                    if (!databaseBackedUp && storage instanceof SqliteBackend) {
+                        const backupFile = `${options.db}.backup-${Date.now()}`;
+                        await storage.backup(backupFile);
+                        console.log(chalk.gray(`Backed up database to ${backupFile}`));
+                        databaseBackedUp = true;
+                    }
+                } else {
+                    const backupDir = path.join(storagePath, 'sessions', 'backups', `${sessionId}-v${version}-${Date.now()}`);
+                    fs.cpSync(path.join(storagePath, 'sessions', 'active', sessionId), backupDir, { recursive: true });
+                    console.log(chalk.gray(`${sessionId}: backed up to ${backupDir}`));
+                }
+            }
+
+            const result = await sessionWriter.migrateSession(sessionId);
+            console.log(chalk.green(`✓ ${sessionId}: ${result.fromVersion} → ${result.toVersion}`));
+            result.applied.forEach(step => console.log(chalk.gray(`    - ${step}`)));
+            migrated++;
+        } catch (error) {
+            console.error(chalk.red(`${sessionId}: migration failed: ${(error as Error).message}`));
+            process.exitCode = 1;
+        }
+    }
+
+    closeStorage(storage);
+    console.log(`Migrated ${migrated} of ${targets.length} session(s).`);
+  });
+
+program.command('repair')
+  .description('Repair a session left inconsistent by a crash or interrupted write')
+  .argument('<sessionId>', 'Session to repair')
+  .option('--db <file>', 'SQLite database holding the session')
+  .action(async (sessionId: string, options) => {
+    let storage: StorageBackend | undefined;
+    try {
+        storage = openStorage(options);
+        const sessionWriter = new SessionWriter(storage);
+
+        const report = await sessionWriter.repairSession(sessionId);
+        if (report.fixes.length === 0) {
+            console.log(chalk.green(`✓ ${sessionId} is consistent through turn ${report.lastTurnId}; nothing to repair`));
+            return;
+        }
+        console.log(chalk.yellow(`Repaired ${sessionId} (last complete turn: ${report.lastTurnId}):`));
+        report.fixes.forEach(fix => console.log(`  - ${fix}`));
+    } catch (error) {
+        console.error(chalk.red(`Repair failed: ${(error as Error).message}`));
+        process.exitCode = 1;
+    } finally {
+        closeStorage(storage);
+    }
+  });
+
+program.command('verify')
+  .description('Verify delta checksums and replay deltas against snapshots and current state')
+  .argument('<sessionId>', 'Session to verify')
+  .option('--db <file>', 'SQLite database holding the session')
+  .action(async (sessionId: string, options) => {
+    let storage: StorageBackend | undefined;
+    try {
+        storage = openStorage(options);
+        const sessionLoader = new SessionLoader(storage);
+
+        const report = await sessionLoader.verifySession(sessionId);
+        console.log(`Turns checked: ${report.turnsChecked}`);
+        console.log(`Checksums verified: ${report.checksumsVerified}` +
+            (report.checksumsMissing > 0 ? chalk.gray(` (${report.checksumsMissing} turn(s) written without a checksum)`) : ''));
+        console.log(`Snapshots compared: ${report.snapshotsCompared}`);
+
+        if (report.issues.length === 0) {
+            console.log(chalk.green(`✓ ${sessionId} verified`));
+            return;
+        }
+
+        console.log(chalk.red(`✗ ${report.issues.length} issue(s) found:`));
+        for (const issue of report.issues) {
+            console.log(chalk.red(`  [turn ${issue.turn}] ${issue.type}: ${issue.message}`));
+            issue.paths?.forEach(p => console.log(chalk.gray(`      ${p}`)));
+        }
+        process.exitCode = 1;
+    } catch (error) {
+        console.error(chalk.red(`Verification failed: ${(error as Error).message}`));
+        process.exitCode = 1;
+    } finally {
+        closeStorage(storage);
+    }
+  });
+
+program.command('verify-replay')
+  .description('Re-run a session\'s player inputs with its recorded LLM responses and report the first divergence')
+  .argument('<sessionId>', 'Session to replay')
+  .option('--cassette <file>', 'Serve LLM responses from a cassette instead of the session\'s LLM call log')
+  .option('--db <file>', 'SQLite database holding the session')
+  .action(async (sessionId: string, options) => {
+    let storage: StorageBackend | undefined;
+    try {
+        storage = openStorage(options);
+        const cassette = options.cassette ? await loadCassette(options.cassette) : undefined;
+        const report = await verifySessionReplay(storage, sessionId, { cassette });
+        console.log(`Seed: ${report.seed}`);
+        console.log(`Turns compared: ${report.turnsCompared}/${report.totalTurns}`);
+
+        if (!report.divergence) {
+            console.log(chalk.green(`✓ ${sessionId} replays deterministically`));
+            return;
+        }
+
+        const { divergence } = report;
+        console.log(chalk.red(`✗ Diverged at turn ${divergence.turn} (${divergence.type}):`));
+        divergence.message.split('\n').forEach(line => console.log(chalk.red(`  ${line}`)));
+        divergence.paths?.forEach(p => console.log(chalk.gray(`      ${p}`)));
+        process.exitCode = 1;
+    } catch (error) {
+        console.error(chalk.red(`Replay verification failed: ${(error as Error).message}`));
+        process.exitCode = 1;
+    } finally {
+        closeStorage(storage);
+    }
+  });
+
+program.command('check-invariants')
+  .description('Replay a session and check state invariants after every turn')
+  .argument('<sessionId>', 'Session to check')
+  .option('--db <file>', 'SQLite database holding the session')
+  .action(async (sessionId: string, options) => {
+    let storage: StorageBackend | undefined;
+    try {
+        storage = openStorage(options);
+        const inspector = new StateInspector(new SessionLoader(storage));
+
+        const result = await inspector.validateSession(sessionId);
+        if (result.valid) {
+            console.log(chalk.green(`✓ ${sessionId} holds all ${inspector.getRules().length} invariants`));
+            return;
+        }
+
+        console.log(chalk.red(`✗ ${result.issues.length} invariant violation(s):`));
+        for (const issue of result.issues) {
+            console.log(chalk.red(`  [turn ${issue.turn}] ${issue.type}: ${issue.message}`));
+            console.log(chalk.gray(`      ${issue.path}` + (issue.delta ? ` (delta #${issue.delta.sequence}: ${issue.delta.cause})` : '')));
+        }
+        process.exitCode = 1;
+    } catch (error) {
+        console.error(chalk.red(`Invariant check failed: ${(error as Error).message}`));
+        process.exitCode = 1;
+    } finally {
+        closeStorage(storage);
+    }
+  });
+
+program.command('perf')
+  .description('Report where the time and tokens went in a session\'s turns')
+  .argument('<sessionId>', 'Session to report on')
+  .option('--db <file>', 'SQLite database holding the session')
+  .option('--json', 'Print the report as JSON')
+  .action(async (sessionId: string, options) => {
+    let storage: StorageBackend | undefined;
+    try {
+        storage = openStorage(options);
+        const report = await buildPerfReport(storage, sessionId);
+        if (options.json) {
+            console.log(JSON.stringify(report, null, 2));
+            return;
+        }
+        if (report.tracedTurns === 0) {
+            console.log(chalk.yellow(`${sessionId} has no traced turns`));
+            return;
+        }
+
+        console.log(chalk.bold(`${report.tracedTurns} traced turn(s): p50 ${report.turn.p50Ms}ms, p95 ${report.turn.p95Ms}ms, total ${(report.turn.totalMs / 1000).toFixed(1)}s`));
+        console.log();
+        const nameWidth = Math.max(5, ...report.stages.map(stage => stage.name.length));
+        console.log(chalk.gray(`${'Stage'.padEnd(nameWidth)}  ${'calls'.padStart(5)}  ${'p50'.padStart(8)}  ${'p95'.padStart(8)}  ${'total'.padStart(8)}  ${'tokens in'.padStart(9)}  ${'tokens out'.padStart(10)}`));
+        for (const stage of report.stages) {
+            const line = `${stage.name.padEnd(nameWidth)}  ${String(stage.calls).padStart(5)}  ${`${stage.p50Ms}ms`.padStart(8)}  ${`${stage.p95Ms}ms`.padStart(8)}  ${`${(stage.totalMs / 1000).toFixed(1)}s`.padStart(8)}  ${String(stage.promptTokens).padStart(9)}  ${String(stage.completionTokens).padStart(10)}`;
+            console.log(stage.errors > 0 ? `${line}  ${chalk.red(`${stage.errors} failed`)}` : line);
+        }
+    } catch (error) {
+        console.error(chalk.red(`Perf report failed: ${(error as Error).message}`));
+        process.exitCode = 1;
+    } finally {
+        closeStorage(storage);
+    }
+  });
+
+program.command('debug')
+  .description('Step through a saved session turn by turn in an interactive replay debugger')
+  .argument('<sessionId>', 'Session to debug')
+  .option('--run <commands...>', 'Run specific debugger commands and exit')
+  .option('--db <file>', 'SQLite database holding the session')
+  .action(async (sessionId: string, options) => {
+    let storage: StorageBackend | undefined;
+    try {
+        storage = openStorage(options);
+        const sessionLoader = new SessionLoader(storage);
+
+        const session = await loadReplaySession(sessionLoader, sessionId);
+        const debugConsole = new DebugConsole(new ReplayDebugger(session));
+        await debugConsole.start({ initialCommands: options.run, exitAfter: !!options.run });
+    } catch (error) {
+        console.error(chalk.red(`Debugger failed: ${(error as Error).message}`));
+        process.exitCode = 1;
+    } finally {
+        closeStorage(storage);
+    }
+  });
+
+const bundle = program.command('bundle')
+  .description('Share sessions as single-file compressed bundles');
+
+bundle.command('export')
+  .description('Pack a session into a bundle file')
+  .argument('<sessionId>', 'Session to export')
+  .option('-o, --output <file>', 'Bundle file to write (default: <sessionId>' + BUNDLE_EXTENSION + ')')
+  .option('--db <file>', 'SQLite database holding the session')
+  .action(async (sessionId: string, options) => {
+    let storage: StorageBackend | undefined;
+    try {
+        storage = openStorage(options);
+        const output = path.resolve(options.output || `${sessionId}${BUNDLE_EXTENSION}`);
+
+        const data = await exportSessionBundle(storage, sessionId);
+        await fs.promises.writeFile(output, data);
+        console.log(chalk.green(`✓ Exported ${sessionId} to ${output} (${(data.length / 1024).toFixed(1)} KB)`));
+    } catch (error) {
+        console.error(chalk.red(`Export failed: ${(error as Error).message}`));
+        process.exitCode = 1;
+    } finally {
+        closeStorage(storage);
+    }
+  });
+
+bundle.command('import')
+  .description('Restore a session from a bundle file')
+  .argument('<file>', 'Bundle file to import')
+  .option('--id <sessionId>', 'Id for the imported session (default: the id stored in the bundle)')
+  .option('--db <file>', 'SQLite database to import into')
+  .action(async (file: string, options) => {
+    let storage: StorageBackend | undefined;
+    try {
+        storage = openStorage(options);
+        const data = await fs.promises.readFile(file);
+        const result = await importSessionBundle(storage, data, { sessionId: options.id });
+        if (result.sessionId !== result.originalSessionId) {
+            console.log(chalk.yellow(`Session ${result.originalSessionId} already exists; imported as ${result.sessionId}`));
+        }
+        console.log(chalk.green(`✓ Imported ${result.sessionId}: ${result.turns} turns, ${result.deltas} deltas, ${result.snapshots} snapshots`));
+        console.log(chalk.gray(`Resume it with: llmrpg start --load ${result.sessionId}${options.db ? ` --db ${options.db}` : ''}`));
+    } catch (error) {
+        console.error(chalk.red(`Import failed: ${(error as Error).message}`));
+        process.exitCode = 1;
+    } finally {
+        closeStorage(storage);
+    }
   });
 
 program.parse();
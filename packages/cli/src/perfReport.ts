@@ -0,0 +1,83 @@
+import { TurnTrace } from '@llmrpg/core';
+import { FileSystemAdapter, SessionLoader, StorageBackend } from '@llmrpg/storage';
+
+export interface StageStats {
+  name: string;
+  calls: number;
+  p50Ms: number;
+  p95Ms: number;
+  totalMs: number;
+  errors: number;
+  llmCalls: number;
+  promptTokens: number;
+  completionTokens: number;
+}
+
+export interface PerfReport {
+  sessionId: string;
+  tracedTurns: number;
+  turn: { p50Ms: number; p95Ms: number; totalMs: number };
+  /** Sorted by total time, slowest first */
+  stages: StageStats[];
+}
+
+/**
+ * Nearest-rank percentile of a list of durations.
+ */
+export function percentile(values: number[], p: number): number {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.max(0, Math.ceil((p / 100) * sorted.length) - 1)];
+}
+
+/**
+ * Aggregates a session's turn traces into latency percentiles and token use
+ * per stage.
+ */
+export function summarizeTraces(sessionId: string, traces: TurnTrace[]): PerfReport {
+  const stages = new Map<string, { durations: number[]; errors: number; llmCalls: number; promptTokens: number; completionTokens: number }>();
+  for (const span of traces.flatMap(trace => trace.spans)) {
+    const stage = stages.get(span.name) ?? { durations: [], errors: 0, llmCalls: 0, promptTokens: 0, completionTokens: 0 };
+    stage.durations.push(span.durationMs);
+    stage.errors += span.error ? 1 : 0;
+    stage.llmCalls += span.llmCalls;
+    stage.promptTokens += span.promptTokens;
+    stage.completionTokens += span.completionTokens;
+    stages.set(span.name, stage);
+  }
+
+  const turnDurations = traces.map(trace => trace.durationMs);
+  return {
+    sessionId,
+    tracedTurns: traces.length,
+    turn: {
+      p50Ms: percentile(turnDurations, 50),
+      p95Ms: percentile(turnDurations, 95),
+      totalMs: turnDurations.reduce((sum, ms) => sum + ms, 0)
+    },
+    stages: Array.from(stages, ([name, stage]) => ({
+      name,
+      calls: stage.durations.length,
+      p50Ms: percentile(stage.durations, 50),
+      p95Ms: percentile(stage.durations, 95),
+      totalMs: stage.durations.reduce((sum, ms) => sum + ms, 0),
+      errors: stage.errors,
+      llmCalls: stage.llmCalls,
+      promptTokens: stage.promptTokens,
+      completionTokens: stage.completionTokens
+    })).sort((a, b) => b.totalMs - a.totalMs)
+  };
+}
+
+/**
+ * Loads a session's turn traces and summarizes them. Turns played before
+ * tracing was added are not counted.
+ */
+export async function buildPerfReport(storage: StorageBackend | FileSystemAdapter, sessionId: string): Promise<PerfReport> {
+  const loader = new SessionLoader(storage);
+  if (!(await loader.listSessions()).includes(sessionId)) {
+    throw new Error(`Session ${sessionId} not found`);
+  }
+  const lastTurnId = await loader.getLastTurnId(sessionId);
+  return summarizeTraces(sessionId, await loader.loadTraces(sessionId, 1, lastTurnId));
+}
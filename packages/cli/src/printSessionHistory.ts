@@ -114,11 +114,14 @@ export async function printSessionHistory(
   try {
     const metadata = await loader.loadSessionMetadata(sessionId);
     console.log('📋 Session Metadata:');
-    console.log(`   Started: ${formatTimestamp(metadata.startTime)}`);
-    console.log(`   Player: ${metadata.player || 'Unknown'}`);
+    console.log(`   Started: ${formatTimestamp(Date.parse(metadata.createdAt))}`);
+    console.log(`   Last Played: ${formatTimestamp(Date.parse(metadata.lastPlayedAt))}`);
+    console.log(`   Theme: ${metadata.theme.name}`);
+    console.log(`   Player: ${metadata.player.name} (${metadata.player.characterName})`);
     if (metadata.currentTurn) {
       console.log(`   Current Turn: ${metadata.currentTurn}`);
     }
+    console.log(`   Deltas: ${metadata.stats.totalDeltas} | Snapshots: ${metadata.stats.totalSnapshots} | Conflicts Resolved: ${metadata.stats.conflictsResolved} | NPCs Met: ${metadata.stats.npcsEncountered}`);
     console.log('');
   } catch (e) {
     console.log('⚠️  Could not load session metadata');
@@ -1,4 +1,5 @@
-import { LLMProvider, ContextBuilder } from '@llmrpg/llm';
+import { z } from 'zod';
+import { LLMProvider, ContextBuilder, generateStructured } from '@llmrpg/llm';
 import { CharacterDefinition, Turn } from '@llmrpg/core';
 import { getQuestSummary } from './QuestGenerator';
 
@@ -23,6 +24,24 @@ export interface AIPlayerAction {
   }>;
 }
 
+// What the model must reply with; anything else is sent back for repair
+const PlayerDecisionSchema = z.object({
+  action: z.string().min(1),
+  reasoning: z.string().optional(),
+  strategy: z.string().optional(),
+  expectedOutcome: z.string().optional(),
+  fatePointsSpent: z.number().int().min(0).optional(),
+  aspectInvokes: z.array(z.object({
+    aspectName: z.string(),
+    bonus: z.enum(['+2', 'reroll'])
+  })).optional()
+});
+
+const PlayerReactionSchema = z.object({
+  action: z.string().min(1),
+  reasoning: z.string().optional()
+});
+
 /**
  * Analyze recent history to detect repetition patterns and provide feedback
  */
@@ -620,14 +639,13 @@ ${userPrompt.substring(0, 1500)}...
         fs.appendFileSync(debugLogPath, debugLog);
       }
 
-      const response = await this.llm.generate({
+      const { data: parsed, response } = await generateStructured(this.llm, {
+        caller: 'decideAction',
+        task: 'ai-player',
         systemPrompt,
         userPrompt,
-        temperature: 0.8,
-        jsonMode: true
-      });
-
-      const parsed = JSON.parse(response.content);
+        temperature: 0.8
+      }, PlayerDecisionSchema);
 
       // DEBUG: Log LLM response for repeated actions
       if (isRepeating && debugLogPath) {
@@ -685,14 +703,13 @@ OUTPUT FORMAT:
     );
 
     try {
-      const response = await this.llm.generate({
+      const { data: parsed } = await generateStructured(this.llm, {
+        caller: 'react',
+        task: 'ai-player',
         systemPrompt,
         userPrompt: `EVENT: ${event}\n\nHow do you react?`,
-        temperature: 0.8,
-        jsonMode: true
-      });
-
-      const parsed = JSON.parse(response.content);
+        temperature: 0.8
+      }, PlayerReactionSchema);
       return {
         action: parsed.action || "I pause to consider this.",
         reasoning: parsed.reasoning || "Processing the situation."
@@ -735,14 +752,13 @@ OUTPUT FORMAT:
     );
 
     try {
-      const response = await this.llm.generate({
+      const { data: parsed } = await generateStructured(this.llm, {
+        caller: 'respondToDialogue',
+        task: 'ai-player',
         systemPrompt,
         userPrompt: `${npcName} says: "${npcDialogue}"\n\nHow do you respond?`,
-        temperature: 0.8,
-        jsonMode: true
-      });
-
-      const parsed = JSON.parse(response.content);
+        temperature: 0.8
+      }, PlayerReactionSchema);
       return {
         action: parsed.action || `I nod at ${npcName}.`,
         reasoning: parsed.reasoning || "Being polite."
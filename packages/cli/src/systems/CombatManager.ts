@@ -27,7 +27,7 @@ export class CombatManager {
     allies: CharacterDefinition[] = [],
     factions?: Faction[]
   ): Promise<ConflictState> {
-    const conflictId = `conflict-${Date.now()}`;
+    const conflictId = `conflict-turn-${this.turnManager.getTurnCount()}`;
     
     // 1. Determine Participants
     const participants = [
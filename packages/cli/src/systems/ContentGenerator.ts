@@ -1,13 +1,21 @@
-import { LLMProvider, ContextBuilder, withRetry, RetryPresets } from '@llmrpg/llm';
-import { WorldState, Location, Aspect } from '@llmrpg/protocol';
+import { LLMProvider, ContextBuilder, generateStructured } from '@llmrpg/llm';
+import { WorldState, WorldStateSchema, Location, Aspect } from '@llmrpg/protocol';
 
 export class ContentGenerator {
   private contextBuilder: ContextBuilder;
 
-  constructor(private llm: LLMProvider) {
+  /**
+   * `random` draws the ids and other random choices; GameMaster passes its
+   * seeded generator so replayed turns produce the same locations.
+   */
+  constructor(private llm: LLMProvider, private random: () => number = Math.random) {
     this.contextBuilder = new ContextBuilder();
   }
 
+  private newId(prefix: string): string {
+    return `${prefix}-${this.random().toString(36).substr(2, 9)}`;
+  }
+
   async generateWorldTheme(input: string): Promise<WorldState['theme']> {
     const systemPrompt = this.contextBuilder.buildSystemPrompt(
       "World Builder",
@@ -31,15 +39,15 @@ JSON with fields:
       immediateContext: `Generate a world theme based on this input: "${input}".\nReturn JSON.`
     });
 
-    const response = await this.llm.generate({
-      systemPrompt: prompt.system,
-      userPrompt: prompt.user,
-      temperature: 0.9,
-      jsonMode: true
-    });
-
     try {
-      return JSON.parse(response.content);
+      const { data } = await generateStructured(this.llm, {
+        caller: 'generateWorldTheme',
+        task: 'generate-world',
+        systemPrompt: prompt.system,
+        userPrompt: prompt.user,
+        temperature: 0.9
+      }, WorldStateSchema.shape.theme);
+      return data;
     } catch (e) {
       console.error("Failed to parse generated theme:", e);
       return {
@@ -83,6 +91,8 @@ JSON with fields:
     });
 
     const response = await this.llm.generate({
+      caller: 'generateStartingLocation',
+      task: 'generate-world',
       systemPrompt: prompt.system,
       userPrompt: prompt.user,
       temperature: 0.8,
@@ -91,7 +101,7 @@ JSON with fields:
 
     try {
       const data = JSON.parse(response.content);
-      const locationId = `loc-${Date.now()}`;
+      const locationId = this.newId('loc');
       
       // Map to Location type
       return {
@@ -99,20 +109,20 @@ JSON with fields:
         name: data.name,
         description: data.description,
         aspects: data.aspects.map((a: any) => ({
-          id: `asp-${Math.random().toString(36).substr(2, 9)}`,
+          id: this.newId('asp'),
           name: a.name,
           kind: a.type || 'situation',
           isTemporary: false
         })),
         connections: (data.connections || []).map((c: any) => ({
-          targetId: `loc-${Math.random().toString(36).substr(2, 9)}`,
+          targetId: this.newId('loc'),
           direction: c.direction,
           description: c.description,
           isBlocked: false  // Starting location connections are not blocked, so they're visible
         })),
         presentNPCs: [],
         features: data.features.map((f: any) => ({
-          id: `feat-${Math.random().toString(36).substr(2, 9)}`,
+          id: this.newId('feat'),
           name: f.name,
           description: f.description,
           interactable: true
@@ -124,19 +134,19 @@ JSON with fields:
     } catch (e) {
       console.error("Failed to parse generated location:", e);
       return {
-        id: `loc-${Date.now()}`,
+        id: this.newId('loc'),
         name: "The Beginning",
         description: "A generic starting point.",
         aspects: [],
         connections: [
           {
-            targetId: `loc-${Math.random().toString(36).substr(2, 9)}`,
+            targetId: this.newId('loc'),
             direction: "north",
             description: "A winding path leads north",
             isBlocked: false
           },
           {
-            targetId: `loc-${Math.random().toString(36).substr(2, 9)}`,
+            targetId: this.newId('loc'),
             direction: "south",
             description: "A narrow passage extends south",
             isBlocked: false
@@ -183,6 +193,8 @@ JSON with fields:
     });
 
     const response = await this.llm.generate({
+      caller: 'generateStartingScenario',
+      task: 'generate-world',
       systemPrompt: prompt.system,
       userPrompt: prompt.user,
       temperature: 0.8,
@@ -224,6 +236,8 @@ JSON with fields:
     });
 
     const response = await this.llm.generate({
+      caller: 'generateLocation',
+      task: 'generate-world',
       systemPrompt: prompt.system,
       userPrompt: prompt.user,
       temperature: 0.8,
@@ -293,6 +307,8 @@ JSON with fields:
     });
 
     const response = await this.llm.generate({
+      caller: 'generateCharacter',
+      task: 'generate-world',
       systemPrompt: prompt.system,
       userPrompt: prompt.user,
       temperature: 0.8,
@@ -369,6 +385,8 @@ JSON array of objects with fields:
     });
 
     const response = await this.llm.generate({
+      caller: 'generateFactions',
+      task: 'generate-world',
       systemPrompt: prompt.system,
       userPrompt: prompt.user,
       temperature: 0.8,
@@ -427,6 +445,8 @@ JSON object with fields:
     });
 
     const response = await this.llm.generate({
+      caller: 'generateComplexQuest',
+      task: 'generate-world',
       systemPrompt: prompt.system,
       userPrompt: prompt.user,
       temperature: 0.8,
@@ -478,6 +498,8 @@ JSON array of objects with fields:
     });
 
     const response = await this.llm.generate({
+      caller: 'generateWorldEvents',
+      task: 'generate-world',
       systemPrompt: prompt.system,
       userPrompt: prompt.user,
       temperature: 0.8,
@@ -532,39 +554,38 @@ JSON with fields:
       immediateContext: `Generate a new location accessed via: "${connectionDescription}".\nReturn JSON.`
     });
 
-    const response = await withRetry(
-      () => this.llm.generate({
-        systemPrompt: prompt.system,
-        userPrompt: prompt.user,
-        temperature: 0.8,
-        jsonMode: true
-      }),
-      RetryPresets.standard
-    );
+    const response = await this.llm.generate({
+      caller: 'generateNewLocation',
+      task: 'generate-world',
+      systemPrompt: prompt.system,
+      userPrompt: prompt.user,
+      temperature: 0.8,
+      jsonMode: true
+    });
 
     try {
       const data = JSON.parse(response.content);
-      const locationId = `loc-${Date.now()}-${Math.random().toString(36).substr(2, 5)}`;
+      const locationId = this.newId('loc');
       
       return {
         id: locationId,
         name: data.name,
         description: data.description,
         aspects: data.aspects.map((a: any) => ({
-          id: `asp-${Math.random().toString(36).substr(2, 9)}`,
+          id: this.newId('asp'),
           name: a.name,
           kind: a.type || 'situation',
           isTemporary: false
         })),
         connections: (data.connections || []).map((c: any) => ({
-          targetId: `loc-${Math.random().toString(36).substr(2, 9)}`,
+          targetId: this.newId('loc'),
           direction: c.direction,
           description: c.description,
           isBlocked: false
         })),
         presentNPCs: [],
         features: (data.features || []).map((f: any) => ({
-          id: `feat-${Math.random().toString(36).substr(2, 9)}`,
+          id: this.newId('feat'),
           name: f.name,
           description: f.description,
           interactable: true
@@ -576,15 +597,15 @@ JSON with fields:
     } catch (e) {
       console.error("Failed to parse generated location:", e);
       return {
-        id: `loc-${Date.now()}`,
+        id: this.newId('loc'),
         name: `The ${connectionDescription}`,
         description: `You arrive at a new location reached via ${connectionDescription}.`,
         aspects: [
-          { id: `asp-${Math.random().toString(36).substr(2, 9)}`, name: "Unexplored", type: 'situational', freeInvokes: 0 }
+          { id: this.newId('asp'), name: "Unexplored", type: 'situational', freeInvokes: 0 }
         ],
         connections: [
           {
-            targetId: `loc-${Math.random().toString(36).substr(2, 9)}`,
+            targetId: this.newId('loc'),
             direction: "back",
             description: "The way you came from",
             isBlocked: false
@@ -638,7 +659,7 @@ JSON with fields:
 
     // Generate 7-9 additional locations for a total of 8-10 locations in the world
     // This gives enough exploration without being overwhelming
-    const numAdditionalLocations = 7 + Math.floor(Math.random() * 3); // 7-9 locations
+    const numAdditionalLocations = 7 + Math.floor(this.random() * 3); // 7-9 locations
 
     for (let i = 0; i < numAdditionalLocations; i++) {
       const direction = directions[i % directions.length];
@@ -651,8 +672,8 @@ JSON with fields:
       // Add exploration-themed aspects to encourage investigation and discovery
       // These aspects can be invoked or used with Create Advantage
       newLocation.aspects.push({
-        id: `asp-${Math.random().toString(36).substr(2, 9)}`,
-        name: explorationAspects[Math.floor(Math.random() * explorationAspects.length)],
+        id: this.newId('asp'),
+        name: explorationAspects[Math.floor(this.random() * explorationAspects.length)],
         type: 'situational',
         freeInvokes: 0
       });
@@ -709,7 +730,7 @@ JSON with fields:
 
     // Add an exploration-themed aspect to starting location
     startingLocation.aspects.push({
-      id: `asp-${Math.random().toString(36).substr(2, 9)}`,
+      id: this.newId('asp'),
       name: 'Multiple Paths Converge Here',
       type: 'situational',
       freeInvokes: 0
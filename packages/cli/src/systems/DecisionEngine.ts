@@ -1,5 +1,7 @@
-import { LLMProvider, ContextBuilder, withRetry, RetryPresets } from '@llmrpg/llm';
-import { CharacterDefinition, Turn } from '@llmrpg/core';
+import { z } from 'zod';
+import { LLMProvider, ContextBuilder, generateStructured } from '@llmrpg/llm';
+import { CharacterDefinition, StorySummary, Turn } from '@llmrpg/core';
+import { AdvancementAction, AdvancementActionSchema, AspectTypeSchema, CompelTypeSchema, FateActionSchema } from '@llmrpg/protocol';
 
 export interface DecisionContext {
   action: any;
@@ -10,17 +12,64 @@ export interface DecisionContext {
   factionReputation?: { factionName: string; reputation: number; rank: string }[];
 }
 
-export interface WorldUpdate {
-  type: 'add_aspect' | 'remove_aspect' | 'modify_feature' | 'add_feature' | 'remove_feature';
-  targetId: string; // Location ID or Feature ID
-  data?: any; // Aspect name, Feature description, etc.
-}
+// Shapes of the JSON responses, checked by generateStructured
+const TeamworkSchema = z.object({
+  targetName: z.string().min(1),
+  description: z.string()
+});
+
+const SelfCompelSchema = z.object({
+  aspectName: z.string().min(1),
+  description: z.string().min(1)
+});
+
+const TradeIntentSchema = z.object({
+  type: z.enum(['buy', 'sell', 'list']),
+  itemName: z.string().optional(),
+  quantity: z.number().int().positive().optional()
+});
+
+const CraftIntentSchema = z.object({
+  type: z.enum(['craft', 'list']),
+  recipeName: z.string().optional()
+});
+
+const NPCActionSchema = z.object({
+  action: FateActionSchema,
+  description: z.string().min(1),
+  target: z.string().optional()
+});
+
+const QuestUpdateSchema = z.object({
+  type: z.enum(['new', 'update_objective', 'complete_quest', 'fail_quest'])
+}).passthrough().nullable();
+
+const CompelSuggestionSchema = z.object({
+  aspectName: z.string().min(1),
+  type: CompelTypeSchema,
+  description: z.string().min(1),
+  reasoning: z.string().optional()
+}).nullable();
+
+// Aspects are always added to the current location, so only feature updates need a target
+const WorldUpdateSchema = z.discriminatedUnion('type', [
+  z.object({ type: z.literal('add_aspect'), targetId: z.string().optional(), data: z.object({ name: z.string().min(1), type: AspectTypeSchema.optional() }) }),
+  z.object({ type: z.literal('modify_feature'), targetId: z.string().min(1), data: z.object({ description: z.string() }) }),
+  z.object({ type: z.literal('remove_aspect'), targetId: z.string().optional(), data: z.object({ name: z.string().min(1) }) }),
+  z.object({ type: z.literal('add_feature'), targetId: z.string().optional(), data: z.object({ name: z.string().min(1), description: z.string() }) }),
+  z.object({ type: z.literal('remove_feature'), targetId: z.string().min(1) }),
+]);
+
+export type WorldUpdate = z.infer<typeof WorldUpdateSchema>;
 
 export class DecisionEngine {
   private contextBuilder: ContextBuilder;
   private enableContextLogging: boolean = false; // Phase 28b: Set to true for development debugging
 
-  constructor(private llm: LLMProvider) {
+  /**
+   * @param getSummaries Story summaries to include in prompts, read on every call
+   */
+  constructor(private llm: LLMProvider, private getSummaries: () => StorySummary[] = () => []) {
     this.contextBuilder = new ContextBuilder();
   }
 
@@ -99,14 +148,13 @@ Return ONLY the exact name of the skill.`
     this.logContextSize('selectSkill', prompt);
 
     try {
-      const response = await withRetry(
-        () => this.llm.generate({
-          systemPrompt: prompt.system,
-          userPrompt: prompt.user,
-          temperature: 0.1
-        }),
-        RetryPresets.fast
-      );
+      const response = await this.llm.generate({
+        caller: 'selectSkill',
+        task: 'classify',
+        systemPrompt: prompt.system,
+        userPrompt: prompt.user,
+        temperature: 0.1
+      });
 
       const skillName = response.content.trim();
 
@@ -162,14 +210,13 @@ Return ONLY the category key: "dialogue", "travel", "trade", "craft", "inventory
     });
 
     try {
-      const response = await withRetry(
-        () => this.llm.generate({
-          systemPrompt: prompt.system,
-          userPrompt: prompt.user,
-          temperature: 0.1
-        }),
-        RetryPresets.fast
-      );
+      const response = await this.llm.generate({
+        caller: 'classifyIntent',
+        task: 'classify',
+        systemPrompt: prompt.system,
+        userPrompt: prompt.user,
+        temperature: 0.1
+      });
 
       const intent = response.content.trim().toLowerCase();
       if (["dialogue", "travel", "trade", "craft", "inventory", "status", "self_compel", "concede", "declaration", "advance", "teamwork"].includes(intent)) {
@@ -210,14 +257,15 @@ Return a JSON object:
     });
 
     try {
-      const response = await this.llm.generate({
+      const { data } = await generateStructured(this.llm, {
+        caller: 'parseTeamwork',
+        task: 'classify',
         systemPrompt: prompt.system,
         userPrompt: prompt.user,
-        temperature: 0.1,
-        jsonMode: true
-      });
+        temperature: 0.1
+      }, TeamworkSchema);
 
-      return JSON.parse(response.content);
+      return data;
     } catch (error) {
       console.error("Teamwork parsing failed:", error);
       return null;
@@ -263,6 +311,8 @@ If no matching NPC or unclear intent, return: null
 
     try {
       const response = await this.llm.generate({
+        caller: 'parseDialogue',
+        task: 'classify',
         systemPrompt: prompt.system,
         userPrompt: prompt.user,
         temperature: 0.1,
@@ -347,6 +397,8 @@ If no match is found, respond with: null
 
     try {
       const response = await this.llm.generate({
+        caller: 'parseTravel',
+        task: 'classify',
         systemPrompt: prompt.system,
         userPrompt: prompt.user,
         temperature: 0.1,
@@ -383,7 +435,7 @@ If no match is found, respond with: null
     }
   }
 
-  async parseAdvancement(playerInput: string): Promise<any> {
+  async parseAdvancement(playerInput: string): Promise<AdvancementAction | null> {
     const systemPrompt = this.contextBuilder.buildSystemPrompt(
       "Game Master",
       `You are the Game Master. Parse the player's advancement request.
@@ -425,14 +477,15 @@ Return a JSON object matching this structure:
     });
 
     try {
-      const response = await this.llm.generate({
+      const { data } = await generateStructured(this.llm, {
+        caller: 'parseAdvancement',
+        task: 'classify',
         systemPrompt: prompt.system,
         userPrompt: prompt.user,
-        temperature: 0.1,
-        jsonMode: true
-      });
+        temperature: 0.1
+      }, AdvancementActionSchema);
 
-      return JSON.parse(response.content);
+      return data;
     } catch (error) {
       console.error("Advancement parsing failed:", error);
       return null;
@@ -459,6 +512,8 @@ Return ONLY the declared fact as a short sentence or phrase.`
 
     try {
       const response = await this.llm.generate({
+        caller: 'parseDeclaration',
+        task: 'classify',
         systemPrompt: prompt.system,
         userPrompt: prompt.user,
         temperature: 0.1
@@ -499,14 +554,15 @@ Return a JSON object:
     });
 
     try {
-      const response = await this.llm.generate({
+      const { data } = await generateStructured(this.llm, {
+        caller: 'parseSelfCompel',
+        task: 'classify',
         systemPrompt: prompt.system,
         userPrompt: prompt.user,
-        temperature: 0.1,
-        jsonMode: true
-      });
+        temperature: 0.1
+      }, SelfCompelSchema);
 
-      return JSON.parse(response.content);
+      return data;
     } catch (error) {
       console.error("Self-compel parsing failed:", error);
       return null;
@@ -537,14 +593,15 @@ Examples:
     });
 
     try {
-      const response = await this.llm.generate({
+      const { data } = await generateStructured(this.llm, {
+        caller: 'parseTradeIntent',
+        task: 'classify',
         systemPrompt: prompt.system,
         userPrompt: prompt.user,
-        temperature: 0.1,
-        jsonMode: true
-      });
+        temperature: 0.1
+      }, TradeIntentSchema);
 
-      return JSON.parse(response.content);
+      return data;
     } catch (error) {
       console.error("Trade intent parsing failed:", error);
       return { type: 'list' };
@@ -574,14 +631,15 @@ Examples:
     });
 
     try {
-      const response = await this.llm.generate({
+      const { data } = await generateStructured(this.llm, {
+        caller: 'parseCraftIntent',
+        task: 'classify',
         systemPrompt: prompt.system,
         userPrompt: prompt.user,
-        temperature: 0.1,
-        jsonMode: true
-      });
+        temperature: 0.1
+      }, CraftIntentSchema);
 
-      return JSON.parse(response.content);
+      return data;
     } catch (error) {
       console.error("Craft intent parsing failed:", error);
       return { type: 'list' };
@@ -631,6 +689,7 @@ Return ONLY the action name in lowercase: "overcome", "create_advantage", "attac
       systemPrompt,
       characterDefinition: context.player,
       worldState: context.worldState ? JSON.stringify(this.pruneWorldStateForDecisions(context.worldState)) : undefined,
+      summaries: this.getSummaries(),
       history: context.history,
       immediateContext: `Player Input: "${playerInput}"\n\nClassify this action based on the rules above.`
     }, true); // forDecisions: true for optimized context
@@ -639,6 +698,8 @@ Return ONLY the action name in lowercase: "overcome", "create_advantage", "attac
 
     try {
       const response = await this.llm.generate({
+        caller: 'classifyAction',
+        task: 'classify',
         systemPrompt: prompt.system,
         userPrompt: prompt.user,
         temperature: 0.1
@@ -739,6 +800,7 @@ Return ONLY the integer number (e.g., 2).`
       systemPrompt,
       characterDefinition: context.player,
       worldState: context.worldState ? JSON.stringify(this.pruneWorldStateForDecisions(context.worldState)) : undefined,
+      summaries: this.getSummaries(),
       history: context.history,
       immediateContext: `Determine the difficulty for this action:\n${JSON.stringify(context.action)}\n\nReturn only a number representing the difficulty on the Fate Ladder (e.g., 2 for Fair, 4 for Great).`
     }, true); // forDecisions: true for optimized context
@@ -747,6 +809,8 @@ Return ONLY the integer number (e.g., 2).`
 
     try {
       const response = await this.llm.generate({
+        caller: 'setOpposition',
+        task: 'decide',
         systemPrompt: prompt.system,
         userPrompt: prompt.user,
         temperature: 0.3
@@ -797,6 +861,7 @@ JSON with fields:
       systemPrompt,
       characterDefinition: npc,
       worldState: context.worldState ? JSON.stringify(this.pruneWorldStateForDecisions(context.worldState)) : undefined,
+      summaries: this.getSummaries(),
       history: context.history,
       immediateContext: `It is ${npc.name}'s turn. The player is present. Decide the action.`
     }, !isAlly); // Use optimized context for opposition NPCs, full context for allies
@@ -804,14 +869,15 @@ JSON with fields:
     this.logContextSize(`decideNPCAction(${npc.name}, ${side})`, prompt);
 
     try {
-      const response = await this.llm.generate({
+      const { data } = await generateStructured(this.llm, {
+        caller: 'decideNPCAction',
+        task: 'decide',
         systemPrompt: prompt.system,
         userPrompt: prompt.user,
-        temperature: 0.7,
-        jsonMode: true
-      });
+        temperature: 0.7
+      }, NPCActionSchema);
 
-      return JSON.parse(response.content);
+      return data;
     } catch (error) {
       console.error("NPC decision failed:", error);
       return { action: "attack", description: `${npc.name} attacks blindly!`, target: "Player" };
@@ -853,12 +919,15 @@ The JSON should follow this structure:
       systemPrompt,
       characterDefinition: context.player,
       worldState: context.worldState ? JSON.stringify(context.worldState, null, 2) : undefined,
+      summaries: this.getSummaries(),
       history: context.history,
       immediateContext: `Action: "${context.action.description}"\nOutcome: ${outcome}\n\nDid they learn anything?`
     });
 
     try {
       const response = await this.llm.generate({
+        caller: 'determineKnowledgeGain',
+        task: 'decide',
         systemPrompt: prompt.system,
         userPrompt: prompt.user,
         temperature: 0.1
@@ -922,27 +991,21 @@ Example (New):
       systemPrompt,
       characterDefinition: context.player,
       worldState: context.worldState ? JSON.stringify(context.worldState, null, 2) : undefined,
+      summaries: this.getSummaries(),
       history: context.history,
       immediateContext: `Action: "${context.action.description}"\nOutcome: ${outcome}\n\nAre there any quest updates? Return JSON or null.`
     });
 
     try {
-      const response = await this.llm.generate({
+      const { data } = await generateStructured(this.llm, {
+        caller: 'determineQuestUpdate',
+        task: 'decide',
         systemPrompt: prompt.system,
         userPrompt: prompt.user,
-        temperature: 0.1,
-        jsonMode: true
-      });
-
-      const content = response.content.trim();
-      if (content === 'null' || content.toLowerCase() === 'no') return null;
+        temperature: 0.1
+      }, QuestUpdateSchema, { nullAnswers: ['no'] });
 
-      try {
-        return JSON.parse(content);
-      } catch (e) {
-        console.warn("Failed to parse quest update JSON:", content);
-        return null;
-      }
+      return data;
     } catch (error) {
       console.error("Quest determination failed:", error);
       return null;
@@ -974,6 +1037,8 @@ Return ONLY the target name or "null".`
 
     try {
       const response = await this.llm.generate({
+        caller: 'identifyTarget',
+        task: 'classify',
         systemPrompt: prompt.system,
         userPrompt: prompt.user,
         temperature: 0.1
@@ -1021,32 +1086,21 @@ Return a JSON object or null:
       systemPrompt,
       characterDefinition: context.player,
       worldState: context.worldState ? JSON.stringify(context.worldState, null, 2) : undefined,
+      summaries: this.getSummaries(),
       history: context.history,
       immediateContext: `Current Situation: The player is acting in the scene.\n\nIs there a relevant Compel? Return JSON or null.`
     });
 
     try {
-      const response = await this.llm.generate({
+      const { data } = await generateStructured(this.llm, {
+        caller: 'generateCompel',
+        task: 'decide',
         systemPrompt: prompt.system,
         userPrompt: prompt.user,
-        temperature: 0.3,
-        jsonMode: true
-      });
-
-      const content = response.content.trim();
-      if (content === 'null' || content.toLowerCase() === 'no') return null;
+        temperature: 0.3
+      }, CompelSuggestionSchema, { nullAnswers: ['no'] });
 
-      try {
-        return JSON.parse(content);
-      } catch (parseError) {
-        // Log the JSON parse error with context
-        const preview = content.length > 400
-          ? `${content.substring(0, 200)}...[truncated]...${content.substring(content.length - 200)}`
-          : content;
-        console.warn(`⚠️ Compel JSON parse error (length: ${content.length}): ${parseError instanceof Error ? parseError.message : String(parseError)}`);
-        console.warn(`Content preview: ${preview}`);
-        return null;
-      }
+      return data;
     } catch (error) {
       console.error("Compel generation failed:", error);
       return null;
@@ -1099,6 +1153,8 @@ Example: "Your Shattered Legacy catches up with you - an old associate appears,
 
     try {
       const response = await this.llm.generate({
+        caller: 'generateProactiveCompelDescription',
+        task: 'decide',
         systemPrompt: prompt.system,
         userPrompt: prompt.user,
         temperature: 0.7 // Higher temp for creative complications
@@ -1137,6 +1193,8 @@ Return ONLY the name of the boost.`
 
     try {
       const response = await this.llm.generate({
+        caller: 'generateBoostName',
+        task: 'decide',
         systemPrompt: prompt.system,
         userPrompt: prompt.user,
         temperature: 0.3
@@ -1182,14 +1240,15 @@ Return empty array [] if no significant changes.`
     });
 
     try {
-      const response = await this.llm.generate({
+      const { data } = await generateStructured(this.llm, {
+        caller: 'determineWorldUpdates',
+        task: 'decide',
         systemPrompt: prompt.system,
         userPrompt: prompt.user,
-        temperature: 0.1,
-        jsonMode: true
-      });
+        temperature: 0.1
+      }, WorldUpdateSchema.array());
 
-      return JSON.parse(response.content);
+      return data;
     } catch (error) {
       return [];
     }
@@ -76,6 +76,8 @@ INSTRUCTIONS:
 
     try {
       const response = await this.llm.generate({
+        caller: 'generateDialogue',
+        task: 'narrate',
         systemPrompt: prompt.system,
         userPrompt: prompt.user,
         temperature: 0.8
@@ -115,6 +117,8 @@ JSON with fields:
 
     try {
       const response = await this.llm.generate({
+        caller: 'analyzeSocialIntent',
+        task: 'narrate',
         systemPrompt: prompt.system,
         userPrompt: prompt.user,
         temperature: 0.1,
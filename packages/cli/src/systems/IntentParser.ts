@@ -0,0 +1,108 @@
+/**
+ * Rule-based recognition of player inputs whose intent is unambiguous, so
+ * they don't need an LLM round-trip to classify. Anything the rules don't
+ * recognise returns null and is left to DecisionEngine.classifyIntent.
+ */
+
+export type RuleIntent = 'travel' | 'trade' | 'craft' | 'inventory' | 'status' | 'concede';
+
+export interface IntentContext {
+  /** Exits the player can take from the current location */
+  exits: Array<{ direction: string; targetName?: string }>;
+  /** Names of the items for sale here; empty when there is no shop */
+  shopItems: string[];
+  /** Names of the items the player carries */
+  inventoryItems: string[];
+  inConflict: boolean;
+}
+
+export interface IntentMatch {
+  intent: RuleIntent;
+  /** How sure the rule is, 0 to 1 */
+  confidence: number;
+  /** Which rule matched, e.g. "travel:direction" */
+  rule: string;
+  /** What the input referred to: an exit direction or item name */
+  target?: string;
+  /** How many of the item a trade is for */
+  quantity?: number;
+}
+
+const DIRECTION_ABBREVIATIONS: Record<string, string> = {
+  n: 'north', s: 'south', e: 'east', w: 'west',
+  ne: 'northeast', nw: 'northwest', se: 'southeast', sw: 'southwest',
+  u: 'up', d: 'down'
+};
+
+const INVENTORY = /^(?:i|inv|inventory|(?:check|show|open|look in) (?:my )?(?:inventory|pack|bag|belongings)|what am i carrying)$/;
+const STATUS = /^(?:status|stats|sheet|character sheet|(?:check|show) (?:my )?(?:status|stats|character sheet|condition)|how am i doing)$/;
+const CONCEDE = /^(?:concede|give up|surrender|yield)(?: (?:the|this) (?:fight|conflict|battle))?$/;
+const TRAVEL = /^(?:go|head|walk|travel|move|run|climb|proceed|venture)(?: (?:to|towards?|through|into))?(?: the)? (.+?)(?: exit)?$/;
+const TRADE = /^(buy|purchase|sell) (?:(an?|some|the|\d+) )?(.+)$/;
+const BROWSE = /^(?:browse|shop|(?:look at|check|see) (?:the |their )?(?:wares|goods|stock)|what(?:'s| is) for sale)$/;
+const RECIPES = /^(?:recipes|(?:list|show|check) (?:my )?recipes|what can i (?:craft|make))$/;
+
+/**
+ * Lowercases the input and drops trailing punctuation and a leading "I" or
+ * "I want to", which don't change what is being asked.
+ */
+function normalize(input: string): string {
+  return input
+    .toLowerCase()
+    .replace(/\s+/g, ' ')
+    .trim()
+    .replace(/[.!?]+$/, '')
+    .replace(/^(?:i (?:want to |will |'ll )?|let me |let's )(?=\S)/, '');
+}
+
+function sameName(text: string, name: string): boolean {
+  const strip = (value: string) => value.toLowerCase().replace(/^the /, '').trim();
+  const a = strip(text);
+  const b = strip(name);
+  // Tolerate a plural on the end, e.g. "buy 2 health potions"
+  return a === b || a === `${b}s`;
+}
+
+export function parseIntent(input: string, context: IntentContext): IntentMatch | null {
+  const raw = input.toLowerCase().trim().replace(/[.!?]+$/, '');
+  // "i" on its own is the inventory shortcut, so check before normalizing it away
+  if (INVENTORY.test(raw)) return { intent: 'inventory', confidence: 1, rule: 'inventory:keyword' };
+
+  const text = normalize(input);
+  if (INVENTORY.test(text)) return { intent: 'inventory', confidence: 1, rule: 'inventory:keyword' };
+  if (STATUS.test(text)) return { intent: 'status', confidence: 1, rule: 'status:keyword' };
+
+  if (CONCEDE.test(text)) {
+    // Outside a conflict this is more likely figurative, e.g. giving up on a lock
+    return { intent: 'concede', confidence: context.inConflict ? 1 : 0.6, rule: 'concede:keyword' };
+  }
+
+  const direction = DIRECTION_ABBREVIATIONS[text] ?? text;
+  const exit = context.exits.find(exit => exit.direction.toLowerCase() === direction);
+  if (exit) return { intent: 'travel', confidence: 1, rule: 'travel:direction', target: exit.direction };
+
+  const travel = TRAVEL.exec(text);
+  if (travel) {
+    const where = DIRECTION_ABBREVIATIONS[travel[1]] ?? travel[1];
+    const byDirection = context.exits.find(exit => exit.direction.toLowerCase() === where);
+    if (byDirection) return { intent: 'travel', confidence: 1, rule: 'travel:direction', target: byDirection.direction };
+    const byName = context.exits.find(exit => exit.targetName && sameName(where, exit.targetName));
+    if (byName) return { intent: 'travel', confidence: 0.9, rule: 'travel:destination', target: byName.direction };
+  }
+
+  if (context.shopItems.length > 0) {
+    if (BROWSE.test(text)) return { intent: 'trade', confidence: 1, rule: 'trade:browse' };
+    const trade = TRADE.exec(text);
+    if (trade) {
+      const items = trade[1] === 'sell' ? context.inventoryItems : context.shopItems;
+      const item = items.find(name => sameName(trade[3], name));
+      const quantity = /^\d+$/.test(trade[2] ?? '') ? parseInt(trade[2], 10) : 1;
+      if (item) return { intent: 'trade', confidence: 0.95, rule: `trade:${trade[1] === 'sell' ? 'sell' : 'buy'}`, target: item, quantity };
+    }
+  }
+
+  // Crafting a named item is left to the LLM until there are recipes to match against
+  if (RECIPES.test(text)) return { intent: 'craft', confidence: 1, rule: 'craft:list' };
+
+  return null;
+}
@@ -1,5 +1,5 @@
-import { LLMProvider, ContextBuilder, withRetry, RetryPresets } from '@llmrpg/llm';
-import { CharacterDefinition, Turn } from '@llmrpg/core';
+import { LLMProvider, LLMRequest, ContextBuilder, streamText } from '@llmrpg/llm';
+import { CharacterDefinition, StorySummary, Turn } from '@llmrpg/core';
 import { Location } from '@llmrpg/protocol';
 
 export interface NarrativeContext {
@@ -26,7 +26,10 @@ export interface ActionResolutionContext {
 export class NarrativeEngine {
   private contextBuilder: ContextBuilder;
 
-  constructor(private llm: LLMProvider) {
+  /**
+   * @param getSummaries Story summaries to include in prompts, read on every call
+   */
+  constructor(private llm: LLMProvider, private getSummaries: () => StorySummary[] = () => []) {
     this.contextBuilder = new ContextBuilder();
   }
 
@@ -35,12 +38,38 @@ export class NarrativeEngine {
    * This is the main GM narration method that describes what happens
    */
   async narrateActionResolution(context: NarrativeContext): Promise<string> {
-    const { events, player, worldState, actionResolution } = context;
-    
-    if (!actionResolution) {
+    if (!context.actionResolution) {
       return this.narrate(context);
     }
 
+    try {
+      const response = await this.llm.generate(this.buildActionResolutionRequest(context, context.actionResolution!));
+
+      return response.content;
+    } catch (error) {
+      console.error("Action resolution narration failed after retries:", error);
+      throw new Error(`Failed to generate narrative for action resolution: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  /**
+   * Streaming version of narrateActionResolution
+   */
+  streamActionResolution(context: NarrativeContext): AsyncIterableIterator<string> {
+    if (!context.actionResolution) {
+      return this.streamNarration(context);
+    }
+
+    return this.streamWithFallback(
+      this.buildActionResolutionRequest(context, context.actionResolution),
+      'Failed to generate narrative for action resolution'
+    );
+  }
+
+  private buildActionResolutionRequest(context: NarrativeContext, actionResolution: ActionResolutionContext): LLMRequest {
+    const { events, worldState } = context;
+    const summaries = this.getSummaries();
+
     const { 
       playerAction, 
       playerReasoning,
@@ -106,7 +135,7 @@ DO NOT:
 - Break immersion with meta-commentary`
     );
 
-    const userPrompt = `THE PLAYER'S ACTION:
+    const userPrompt = `${summaries.length > 0 ? `STORY SO FAR:\n${this.contextBuilder.buildSummaryContext(summaries)}\n\n` : ''}THE PLAYER'S ACTION:
 "${playerAction}"
 
 ${playerReasoning ? `PLAYER'S INTENT: ${playerReasoning}\n` : ''}
@@ -116,27 +145,40 @@ ${events.map(e => `- ${e.description || e.action}`).join('\n')}
 
 Narrate what happens as a result. Describe the ${outcomeDescriptions[outcome] || outcome} in a dramatic, immersive way.`;
 
+    return {
+      caller: 'narrateActionResolution',
+      task: 'narrate',
+      systemPrompt,
+      userPrompt,
+      temperature: 0.8
+    };
+  }
+
+  /**
+   * General narration for events (legacy method)
+   */
+  async narrate(context: NarrativeContext): Promise<string> {
     try {
-      const response = await withRetry(
-        () => this.llm.generate({
-          systemPrompt,
-          userPrompt,
-          temperature: 0.8
-        }),
-        RetryPresets.standard
-      );
+      const response = await this.llm.generate(this.buildNarrationRequest(context));
 
       return response.content;
     } catch (error) {
-      console.error("Action resolution narration failed after retries:", error);
-      throw new Error(`Failed to generate narrative for action resolution: ${error instanceof Error ? error.message : String(error)}`);
+      console.error("Narrative generation failed after retries:", error);
+      throw new Error(`Failed to generate narrative for events: ${error instanceof Error ? error.message : String(error)}`);
     }
   }
 
   /**
-   * General narration for events (legacy method)
+   * Streaming version of narrate
    */
-  async narrate(context: NarrativeContext): Promise<string> {
+  streamNarration(context: NarrativeContext): AsyncIterableIterator<string> {
+    return this.streamWithFallback(
+      this.buildNarrationRequest(context),
+      'Failed to generate narrative for events'
+    );
+  }
+
+  private buildNarrationRequest(context: NarrativeContext): LLMRequest {
     const systemPrompt = this.contextBuilder.buildSystemPrompt(
       "Game Master",
       `You are the Game Master for an RPG using Fate Core mechanics.
@@ -167,31 +209,45 @@ CONSTRAINTS:
       systemPrompt,
       characterDefinition: context.player,
       worldState: context.worldState ? JSON.stringify(context.worldState, null, 2) : undefined,
+      summaries: this.getSummaries(),
       history: context.history,
-      immediateContext: `Events to narrate:\n${JSON.stringify(context.events, null, 2)}`
+      immediateContext: `Events to narrate:\n${JSON.stringify(context.events.map(({ timestamp: _timestamp, ...event }) => event), null, 2)}`
     });
 
+    return {
+      caller: 'narrate',
+      task: 'narrate',
+      systemPrompt: prompt.system,
+      userPrompt: prompt.user,
+      temperature: 0.7
+    };
+  }
+
+  /**
+   * Generate a scene introduction when entering a new location
+   */
+  async narrateSceneIntro(location: any, player?: CharacterDefinition): Promise<string> {
     try {
-      const response = await withRetry(
-        () => this.llm.generate({
-          systemPrompt: prompt.system,
-          userPrompt: prompt.user,
-          temperature: 0.7
-        }),
-        RetryPresets.standard
-      );
+      const response = await this.llm.generate(this.buildSceneIntroRequest(location));
 
       return response.content;
     } catch (error) {
-      console.error("Narrative generation failed after retries:", error);
-      throw new Error(`Failed to generate narrative for events: ${error instanceof Error ? error.message : String(error)}`);
+      console.error("Scene intro narration failed after retries:", error);
+      throw new Error(`Failed to generate scene introduction for "${location.name}": ${error instanceof Error ? error.message : String(error)}`);
     }
   }
 
   /**
-   * Generate a scene introduction when entering a new location
+   * Streaming version of narrateSceneIntro
    */
-  async narrateSceneIntro(location: any, player?: CharacterDefinition): Promise<string> {
+  streamSceneIntro(location: any): AsyncIterableIterator<string> {
+    return this.streamWithFallback(
+      this.buildSceneIntroRequest(location),
+      `Failed to generate scene introduction for "${location.name}"`
+    );
+  }
+
+  private buildSceneIntroRequest(location: any): LLMRequest {
     const systemPrompt = this.contextBuilder.buildSystemPrompt(
       "Game Master",
       `You are the Game Master introducing a new scene. Set the atmosphere and describe what the player perceives.
@@ -217,21 +273,13 @@ ${presentNPCs.length > 0 ? `PEOPLE PRESENT: ${presentNPCs.join(', ')}` : 'The ar
 
 Describe this scene as the player enters.`;
 
-    try {
-      const response = await withRetry(
-        () => this.llm.generate({
-          systemPrompt,
-          userPrompt,
-          temperature: 0.7
-        }),
-        RetryPresets.standard
-      );
-
-      return response.content;
-    } catch (error) {
-      console.error("Scene intro narration failed after retries:", error);
-      throw new Error(`Failed to generate scene introduction for "${location.name}": ${error instanceof Error ? error.message : String(error)}`);
-    }
+    return {
+      caller: 'narrateSceneIntro',
+      task: 'narrate',
+      systemPrompt,
+      userPrompt,
+      temperature: 0.7
+    };
   }
 
   async generateTravelNarration(
@@ -240,18 +288,7 @@ Describe this scene as the player enters.`;
     direction: string
   ): Promise<string> {
     try {
-      const systemPrompt = `You are a vivid RPG narrator. Generate a brief (1-2 sentences) travel narration describing the journey from ${fromLocation.name} to ${toLocation.name} traveling ${direction}. Keep it atmospheric and brief.`;
-      
-      const userPrompt = `Generate travel narration for moving ${direction} from "${fromLocation.name}" to "${toLocation.name}".`;
-
-      const response = await withRetry(
-        () => this.llm.generate({
-          systemPrompt,
-          userPrompt,
-          temperature: 0.6
-        }),
-        RetryPresets.fast
-      );
+      const response = await this.llm.generate(this.buildTravelRequest(fromLocation, toLocation, direction));
 
       return response.content;
     } catch (error) {
@@ -259,4 +296,56 @@ Describe this scene as the player enters.`;
       throw new Error(`Failed to generate travel narration from "${fromLocation.name}" to "${toLocation.name}": ${error instanceof Error ? error.message : String(error)}`);
     }
   }
+
+  /**
+   * Streaming version of generateTravelNarration
+   */
+  streamTravelNarration(fromLocation: Location, toLocation: Location, direction: string): AsyncIterableIterator<string> {
+    return this.streamWithFallback(
+      this.buildTravelRequest(fromLocation, toLocation, direction),
+      `Failed to generate travel narration from "${fromLocation.name}" to "${toLocation.name}"`
+    );
+  }
+
+  private buildTravelRequest(fromLocation: Location, toLocation: Location, direction: string): LLMRequest {
+    const systemPrompt = `You are a vivid RPG narrator. Generate a brief (1-2 sentences) travel narration describing the journey from ${fromLocation.name} to ${toLocation.name} traveling ${direction}. Keep it atmospheric and brief.`;
+
+    const userPrompt = `Generate travel narration for moving ${direction} from "${fromLocation.name}" to "${toLocation.name}".`;
+
+    return {
+      caller: 'generateTravelNarration',
+      task: 'narrate',
+      systemPrompt,
+      userPrompt,
+      temperature: 0.6
+    };
+  }
+
+  /**
+   * Streams a narration. If the stream fails before producing any text, the
+   * request is retried without streaming like the non-streaming methods do;
+   * once text has been shown it can't be taken back, so later failures throw.
+   */
+  private async *streamWithFallback(request: LLMRequest, failure: string): AsyncIterableIterator<string> {
+    let started = false;
+    try {
+      for await (const chunk of streamText(this.llm, request)) {
+        started = true;
+        yield chunk;
+      }
+      return;
+    } catch (error) {
+      if (started) {
+        throw new Error(`${failure}: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    }
+
+    try {
+      const response = await this.llm.generate(request);
+      yield response.content;
+    } catch (error) {
+      console.error(`${failure}:`, error);
+      throw new Error(`${failure}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
 }
@@ -39,7 +39,9 @@ export interface QuestState {
 export function generateMainQuest(
   theme: WorldState['theme'],
   locations: Record<string, Location>,
-  turn: number
+  turn: number,
+  random: () => number = Math.random,
+  newId: () => string = uuidv4
 ): GameQuest {
   const questTemplates = [
     {
@@ -84,10 +86,10 @@ export function generateMainQuest(
     },
   ];
 
-  const template = questTemplates[Math.floor(Math.random() * questTemplates.length)];
+  const template = questTemplates[Math.floor(random() * questTemplates.length)];
 
   return {
-    id: uuidv4(),
+    id: newId(),
     title: template.title,
     description: template.description,
     type: 'main',
@@ -109,7 +111,9 @@ export function generateSideQuests(
   theme: WorldState['theme'],
   locations: Record<string, Location>,
   turn: number,
-  count: number = 2
+  count: number = 2,
+  random: () => number = Math.random,
+  newId: () => string = uuidv4
 ): GameQuest[] {
   const sideQuestTemplates = [
     {
@@ -133,12 +137,12 @@ export function generateSideQuests(
   ];
 
   const quests: GameQuest[] = [];
-  const shuffled = [...sideQuestTemplates].sort(() => Math.random() - 0.5);
+  const shuffled = [...sideQuestTemplates].sort(() => random() - 0.5);
 
   for (let i = 0; i < Math.min(count, shuffled.length); i++) {
     const template = shuffled[i];
     quests.push({
-      id: uuidv4(),
+      id: newId(),
       title: template.title,
       description: template.description,
       type: 'side',
@@ -157,16 +161,19 @@ export function generateSideQuests(
 }
 
 /**
- * Initialize quest state for a new game
+ * Initialize quest state for a new game. Pass the session's seeded
+ * `random`/`newId` so the quests are the same when the session is replayed.
  */
 export function initializeQuestState(
   theme: WorldState['theme'],
   locations: Record<string, Location>,
-  startTurn: number
+  startTurn: number,
+  random: () => number = Math.random,
+  newId: () => string = uuidv4
 ): QuestState {
   return {
-    mainQuest: generateMainQuest(theme, locations, startTurn),
-    sideQuests: generateSideQuests(theme, locations, startTurn, 2),
+    mainQuest: generateMainQuest(theme, locations, startTurn, random, newId),
+    sideQuests: generateSideQuests(theme, locations, startTurn, 2, random, newId),
     completed: [],
   };
 }
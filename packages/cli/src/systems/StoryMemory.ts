@@ -0,0 +1,92 @@
+import { StorySummary } from '@llmrpg/core';
+
+export interface StoryMemoryOptions {
+  /** Scene summaries kept before the oldest are rolled into a chapter (default: 5) */
+  scenesPerChapter?: number;
+  /** Chapter summaries kept before the oldest are rolled into the campaign synopsis (default: 4) */
+  chaptersPerSynopsis?: number;
+}
+
+export interface SummaryRollup {
+  level: 'chapter' | 'campaign';
+  /** Summaries to condense, oldest first; a campaign rollup starts with the previous synopsis */
+  sources: StorySummary[];
+}
+
+/**
+ * The summaries standing in for turns that left the GM's history. Scene
+ * summaries roll up into chapters and chapters into a campaign synopsis, so
+ * the memory stays the same size however long the session runs.
+ */
+export class StoryMemory {
+  private campaign: StorySummary | undefined;
+  private chapters: StorySummary[] = [];
+  private scenes: StorySummary[] = [];
+  private options: Required<StoryMemoryOptions>;
+
+  constructor(options: StoryMemoryOptions = {}) {
+    this.options = {
+      scenesPerChapter: options.scenesPerChapter ?? 5,
+      chaptersPerSynopsis: options.chaptersPerSynopsis ?? 4
+    };
+  }
+
+  /**
+   * Adds a summary, dropping the lower-level summaries it covers.
+   */
+  add(summary: StorySummary) {
+    switch (summary.level) {
+      case 'scene':
+        this.scenes.push(summary);
+        break;
+      case 'chapter':
+        this.scenes = this.scenes.filter(s => s.toTurn > summary.toTurn);
+        this.chapters.push(summary);
+        break;
+      case 'campaign':
+        this.chapters = this.chapters.filter(s => s.toTurn > summary.toTurn);
+        this.campaign = summary;
+        break;
+    }
+  }
+
+  /**
+   * The next rollup needed to keep the memory within its limits, if any.
+   */
+  nextRollup(): SummaryRollup | null {
+    if (this.chapters.length > this.options.chaptersPerSynopsis) {
+      const chapters = this.chapters.slice(0, this.options.chaptersPerSynopsis);
+      return { level: 'campaign', sources: this.campaign ? [this.campaign, ...chapters] : chapters };
+    }
+    if (this.scenes.length > this.options.scenesPerChapter) {
+      return { level: 'chapter', sources: this.scenes.slice(0, this.options.scenesPerChapter) };
+    }
+    return null;
+  }
+
+  /**
+   * Every summary in story order: the campaign synopsis, chapters, then scenes.
+   */
+  getSummaries(): StorySummary[] {
+    return [...(this.campaign ? [this.campaign] : []), ...this.chapters, ...this.scenes];
+  }
+
+  /**
+   * Last turn the summaries cover, 0 if there are none.
+   */
+  getLastSummarizedTurn(): number {
+    return Math.max(0, ...this.getSummaries().map(s => s.toTurn));
+  }
+
+  /**
+   * Rebuilds the memory from a session's summary log.
+   */
+  restore(summaries: StorySummary[]) {
+    this.campaign = undefined;
+    this.chapters = [];
+    this.scenes = [];
+    for (const summary of summaries) {
+      this.add(summary);
+    }
+  }
+}
@@ -0,0 +1,100 @@
+import { LLMProvider, ContextBuilder } from '@llmrpg/llm';
+import { StorySummary, Turn } from '@llmrpg/core';
+
+// Upper bounds on summary length, so the story so far fits a fixed budget
+const MAX_TOKENS: Record<StorySummary['level'], number> = {
+  scene: 200,
+  chapter: 300,
+  campaign: 400
+};
+
+const FALLBACK_LENGTH = 600;
+
+/**
+ * Writes the summaries kept in StoryMemory: a scene's turns condensed into a
+ * paragraph, and scene or chapter summaries condensed into the level above.
+ * If the model fails, a plain digest of the source text is used instead so
+ * the story isn't lost.
+ */
+export class StorySummarizer {
+  private contextBuilder: ContextBuilder;
+
+  constructor(private llm: LLMProvider) {
+    this.contextBuilder = new ContextBuilder();
+  }
+
+  async summarizeScene(turns: Turn[]): Promise<string> {
+    const transcript = turns
+      .map(t => {
+        const action = t.playerInput?.action ? `Player: ${t.playerInput.action}\n` : '';
+        return `Turn ${t.turnId} (${t.actor}):\n${action}${t.narration || t.events.map(e => e.description || e.action).join('; ')}`;
+      })
+      .join('\n\n');
+
+    return this.summarize(
+      'summarizeScene',
+      'scene',
+      'Summarize these turns from one scene in a single paragraph.',
+      transcript,
+      () => turns.map(t => firstSentence(t.narration || '')).filter(Boolean).join(' ')
+    );
+  }
+
+  async summarizeRollup(level: 'chapter' | 'campaign', sources: StorySummary[]): Promise<string> {
+    const text = sources.map(s => `[${s.level}, turns ${s.fromTurn}-${s.toTurn}] ${s.text}`).join('\n\n');
+    const instruction = level === 'chapter'
+      ? 'Combine these scene summaries into one chapter summary of a paragraph or two.'
+      : 'Combine the campaign synopsis and chapter summaries below into a single updated campaign synopsis.';
+
+    return this.summarize(
+      level === 'chapter' ? 'summarizeChapter' : 'summarizeCampaign',
+      level,
+      instruction,
+      text,
+      () => sources.map(s => s.text).join(' ')
+    );
+  }
+
+  private async summarize(
+    caller: string,
+    level: StorySummary['level'],
+    instruction: string,
+    source: string,
+    fallback: () => string
+  ): Promise<string> {
+    const systemPrompt = this.contextBuilder.buildSystemPrompt(
+      "the Game Master's chronicler",
+      `You keep the record of an ongoing RPG campaign so the Game Master can stay consistent with it.
+
+GUIDELINES:
+- Keep what later play may depend on: names, places, promises, discoveries, injuries, items gained or lost, quests and open threads
+- Drop moment-to-moment description and dice outcomes
+- Write in past tense, third person ("The player...")
+- Return only the summary`
+    );
+
+    try {
+      const response = await this.llm.generate({
+        caller,
+        task: 'summarize',
+        systemPrompt,
+        userPrompt: `${instruction}\n\n${source}`,
+        temperature: 0.3,
+        maxTokens: MAX_TOKENS[level]
+      });
+      const text = response.content.trim();
+      if (text) return text;
+    } catch (error) {
+      console.warn(`Story summary (${level}) failed, keeping a plain digest instead:`, (error as Error).message);
+    }
+    return truncate(fallback(), FALLBACK_LENGTH);
+  }
+}
+
+function firstSentence(text: string): string {
+  return text.trim().match(/^[^.!?]*[.!?]?/)?.[0] ?? '';
+}
+
+function truncate(text: string, length: number): string {
+  return text.length > length ? `${text.slice(0, length - 3)}...` : text;
+}
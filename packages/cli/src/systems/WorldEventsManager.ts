@@ -2,7 +2,10 @@ import { WorldState, WorldEvent } from '@llmrpg/protocol';
 import { DeltaCollector } from '@llmrpg/core';
 
 export class WorldEventsManager {
-  constructor(private deltaCollector: DeltaCollector) {}
+  /**
+   * @param random Source of randomness for 'random' triggers, returning values in [0, 1)
+   */
+  constructor(private deltaCollector: DeltaCollector, private random: () => number = Math.random) {}
 
   /**
    * Check and trigger world events based on current state and turn.
@@ -34,7 +37,7 @@ export class WorldEventsManager {
           shouldTrigger = this.evaluateCondition(event.trigger.condition, worldState);
           break;
         case 'random':
-          if (Math.random() < event.trigger.chance) {
+          if (this.random() < event.trigger.chance) {
             shouldTrigger = true;
           }
           break;
@@ -135,7 +138,7 @@ export class WorldEventsManager {
   addEvent(worldState: WorldState, event: Omit<WorldEvent, 'id' | 'triggered'>) {
     const newEvent: WorldEvent = {
       ...event,
-      id: crypto.randomUUID(),
+      id: `event-${this.random().toString(36).substr(2, 9)}`,
       triggered: false,
     };
     (worldState as any).events.push(newEvent);
@@ -0,0 +1,215 @@
+import { Delta, Turn } from '@llmrpg/core';
+import { Cassette, LLMProvider, LLMRequest, LLMResponse, LLMStream, ReplayAdapter, cassetteFromCallLog, streamText } from '@llmrpg/llm';
+import { FileSystemAdapter, MemoryBackend, SessionLoader, SessionWriter, StorageBackend, diffValues } from '@llmrpg/storage';
+import { GameMaster } from './GameMaster';
+
+export interface ReplayVerificationOptions {
+  /** Serve LLM responses from this cassette instead of the session's LLM call log */
+  cassette?: Cassette;
+}
+
+export interface ReplayDivergence {
+  turn: number;
+  type: 'llm_request' | 'turns' | 'turn' | 'deltas' | 'compel' | 'error';
+  message: string;
+  paths?: string[];
+}
+
+export interface ReplayVerificationReport {
+  sessionId: string;
+  seed: number;
+  turnsCompared: number;
+  totalTurns: number;
+  /** First point where the replay differs from the recording, if any */
+  divergence?: ReplayDivergence;
+}
+
+// Wall-clock fields and the checksums derived from them differ on every run
+const VOLATILE_KEYS = new Set(['timestamp', 'deltaChecksum', 'timing']);
+
+function normalize(value: unknown): unknown {
+  if (Array.isArray(value)) {
+    return value.map(normalize);
+  }
+  if (value !== null && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value as Record<string, unknown>)
+        .filter(([key]) => !VOLATILE_KEYS.has(key))
+        .map(([key, item]) => [key, normalize(item)])
+    );
+  }
+  return value;
+}
+
+function describeIds(turns: Turn[]): string {
+  return turns.length > 0 ? turns.map(turn => turn.turnId).join(', ') : 'none';
+}
+
+/**
+ * Remembers the first request the replayed responses can't answer. Game
+ * systems often recover from LLM errors with fallbacks, so the failure has
+ * to be caught here rather than where the turn ends.
+ */
+class MismatchTracker implements LLMProvider {
+  mismatch: { turn: number; message: string } | undefined;
+  getTurn: () => number = () => 0;
+
+  constructor(private inner: LLMProvider) {}
+
+  async generate(request: LLMRequest): Promise<LLMResponse> {
+    try {
+      return await this.inner.generate(request);
+    } catch (error) {
+      this.mismatch ??= { turn: this.getTurn(), message: (error as Error).message };
+      throw error;
+    }
+  }
+
+  async *stream(request: LLMRequest): LLMStream {
+    try {
+      return yield* streamText(this.inner, request);
+    } catch (error) {
+      this.mismatch ??= { turn: this.getTurn(), message: (error as Error).message };
+      throw error;
+    }
+  }
+}
+
+/**
+ * Re-executes a session's recorded player inputs through a fresh GameMaster,
+ * starting from the initial snapshot with the session's seed and serving the
+ * recorded LLM responses. The turns and deltas produced after each input are
+ * compared with the recorded ones, stopping at the first difference.
+ */
+export async function verifySessionReplay(
+  storage: StorageBackend | FileSystemAdapter,
+  sessionId: string,
+  options: ReplayVerificationOptions = {}
+): Promise<ReplayVerificationReport> {
+  const loader = new SessionLoader(storage);
+  const metadata = await loader.loadSessionMetadata(sessionId);
+  if (metadata.seed === undefined) {
+    throw new Error(`Session ${sessionId} has no recorded seed, so its dice rolls can't be reproduced`);
+  }
+
+  const lastTurnId = await loader.getLastTurnId(sessionId);
+  const originalTurns = await loader.loadTurns(sessionId, 1, lastTurnId);
+  const originalDeltas = await loader.loadDeltas(sessionId, 1, lastTurnId);
+  const playerTurns = originalTurns.filter(turn => turn.actor === 'player');
+  const withoutInput = playerTurns.find(turn => !turn.playerInput);
+  if (withoutInput) {
+    throw new Error(`Turn ${withoutInput.turnId} has no recorded player input; it was played before inputs were recorded`);
+  }
+
+  const cassette = options.cassette ?? cassetteFromCallLog(await loader.loadLLMCalls(sessionId, 0, lastTurnId));
+  const provider = new MismatchTracker(new ReplayAdapter(cassette));
+
+  // The replay runs under the same session id so deltas compare equal
+  const scratch = new MemoryBackend();
+  const writer = new SessionWriter(scratch);
+  const scratchLoader = new SessionLoader(scratch);
+  await writer.createSession(sessionId, metadata);
+  const initial = await loader.loadStateAtTurn(sessionId, 0);
+  await writer.updateCurrentState(sessionId, initial.world, initial.player, initial.npcs);
+  await writer.saveSnapshot(sessionId, 0, initial, 'initial');
+
+  const gameMaster = new GameMaster(sessionId, provider, writer, scratchLoader, { seed: metadata.seed });
+  provider.getTurn = () => gameMaster.getLLMCallLog().getTurn();
+  await gameMaster.loadState();
+
+  const report: ReplayVerificationReport = {
+    sessionId,
+    seed: metadata.seed,
+    turnsCompared: 0,
+    totalTurns: originalTurns.length
+  };
+  let compared = 0;
+
+  for (const [index, playerTurn] of playerTurns.entries()) {
+    const input = playerTurn.playerInput!;
+
+    try {
+      for (const earlier of input.preceding ?? []) {
+        const result: any = await gameMaster.processPlayerAction(earlier.action);
+        if (earlier.compelAccepted === undefined) continue;
+        if (result?.result !== 'compel_offered') {
+          report.divergence = {
+            turn: playerTurn.turnId,
+            type: 'compel',
+            message: `The recording was offered a compel on "${earlier.action}", the replay got "${result?.result}"`
+          };
+          return report;
+        }
+        await gameMaster.resolveCompel(result.compel, earlier.compelAccepted);
+      }
+
+      const result: any = input.skipCompelCheck
+        ? await gameMaster.processPlayerAction(input.action, playerTurn.playerReasoning, true)
+        : await gameMaster.processAIPlayerAction(input.action, playerTurn.playerReasoning, input.fatePointsSpent, input.aspectInvokes);
+      if (result?.result === 'compel_offered') {
+        report.divergence = {
+          turn: playerTurn.turnId,
+          type: 'compel',
+          message: `The replay offered a compel on "${input.action}" that the recording didn't`
+        };
+        return report;
+      }
+    } catch (error) {
+      // A failed turn is usually the consequence of an earlier unanswered request
+      report.divergence = provider.mismatch
+        ? { turn: provider.mismatch.turn, type: 'llm_request', message: provider.mismatch.message }
+        : { turn: playerTurn.turnId, type: 'error', message: (error as Error).message };
+      return report;
+    }
+
+    if (provider.mismatch) {
+      report.divergence = { turn: provider.mismatch.turn, type: 'llm_request', message: provider.mismatch.message };
+      return report;
+    }
+
+    // Everything up to the next player turn came from this input, e.g. NPC turns in a conflict
+    const nextPlayerTurn = playerTurns[index + 1]?.turnId ?? Infinity;
+    const expected = originalTurns.filter(turn => turn.turnId > compared && turn.turnId < nextPlayerTurn);
+    const producedLast = await scratchLoader.getLastTurnId(sessionId);
+    const produced = await scratchLoader.loadTurns(sessionId, compared + 1, producedLast);
+    const producedDeltas = await scratchLoader.loadDeltas(sessionId, compared + 1, producedLast);
+
+    const divergence = compareTurns(expected, produced, originalDeltas, producedDeltas);
+    if (divergence) {
+      report.divergence = divergence;
+      return report;
+    }
+
+    report.turnsCompared += expected.length;
+    compared = expected[expected.length - 1]?.turnId ?? compared;
+  }
+
+  return report;
+}
+
+function compareTurns(expected: Turn[], produced: Turn[], expectedDeltas: Delta[], producedDeltas: Delta[]): ReplayDivergence | undefined {
+  if (describeIds(expected) !== describeIds(produced)) {
+    return {
+      turn: expected[0]?.turnId ?? produced[0]?.turnId ?? 0,
+      type: 'turns',
+      message: `Recorded turn(s) ${describeIds(expected)}, replay produced ${describeIds(produced)}`
+    };
+  }
+
+  for (const [index, turn] of expected.entries()) {
+    const paths = diffValues(normalize(turn), normalize(produced[index]));
+    if (paths.length > 0) {
+      return { turn: turn.turnId, type: 'turn', message: 'Turn record differs', paths };
+    }
+
+    const deltaPaths = diffValues(
+      normalize(expectedDeltas.filter(delta => delta.turnId === turn.turnId)),
+      normalize(producedDeltas.filter(delta => delta.turnId === turn.turnId))
+    );
+    if (deltaPaths.length > 0) {
+      return { turn: turn.turnId, type: 'deltas', message: 'Deltas differ', paths: deltaPaths };
+    }
+  }
+
+  return undefined;
+}
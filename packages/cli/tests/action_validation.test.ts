@@ -1,6 +1,7 @@
 import { describe, it, expect, beforeAll, afterAll } from 'vitest';
 import { GameMaster } from '../src/GameMaster';
 import { OllamaAdapter } from '@llmrpg/llm';
+import { CASSETTE_SEED, cassetteProvider, missingCassette } from './cassettes';
 import { SessionWriter, FileSystemAdapter } from '@llmrpg/storage';
 import path from 'path';
 import fs from 'fs';
@@ -8,8 +9,10 @@ import fs from 'fs';
 // Set a long timeout for LLM interactions
 const TEST_TIMEOUT = 180000; // 3 minutes
 
-describe('System Action Validation (Ollama)', () => {
-  const sessionId = 'action-test-' + Date.now();
+const missing = missingCassette('action_validation');
+
+describe.skipIf(missing)(`System Action Validation (Ollama)${missing ? ` (skipped: ${missing})` : ''}`, () => {
+  const sessionId = 'action-test';
   const storagePath = path.join(__dirname, 'temp_sessions_action');
   
   beforeAll(() => {
@@ -34,12 +37,12 @@ describe('System Action Validation (Ollama)', () => {
         player: "Action Tester"
     });
 
-    const llmProvider = new OllamaAdapter({
+    const llmProvider = await cassetteProvider('action_validation', () => new OllamaAdapter({
         model: process.env.OLLAMA_MODEL || 'granite4:3b',
         host: process.env.OLLAMA_HOST || 'http://127.0.0.1:11434'
-    });
+    }));
 
-    const gameMaster = new GameMaster(sessionId, llmProvider, sessionWriter);
+    const gameMaster = new GameMaster(sessionId, llmProvider, sessionWriter, undefined, { seed: CASSETTE_SEED });
 
     console.log("\n=== INITIALIZATION ===");
     await gameMaster.start();
@@ -0,0 +1,54 @@
+import { LLMProvider, RecordingAdapter, ReplayAdapter } from '@llmrpg/llm';
+import path from 'path';
+import fs from 'fs';
+
+export const CASSETTE_DIR = path.join(__dirname, 'cassettes');
+
+/**
+ * Seed for sessions played against a cassette. Ids and dice feed into the
+ * prompts, so a replay only matches the recording when the seed does too.
+ */
+export const CASSETTE_SEED = 1;
+
+function cassettePath(name: string): string {
+  return path.join(CASSETTE_DIR, `${name}.json`);
+}
+
+/**
+ * Why a cassette test can't run, or undefined when it can. Use it to skip
+ * the suite, so a missing recording shows up as a skip with its reason
+ * rather than as a call to a model server that CI doesn't have.
+ */
+export function missingCassette(name: string): string | undefined {
+  const mode = process.env.LLMRPG_CASSETTES;
+  if (mode === 'record' || mode === 'live' || fs.existsSync(cassettePath(name))) {
+    return undefined;
+  }
+  const reason = `no cassette tests/cassettes/${name}.json; record it with LLMRPG_CASSETTES=record and a model server`;
+  // Vitest doesn't list the suites of a skipped file, so say why here
+  console.warn(`Skipping ${name}: ${reason}`);
+  return reason;
+}
+
+/**
+ * Provider for tests that normally need a live model.
+ *
+ * - `LLMRPG_CASSETTES=record`: calls the live provider and records to tests/cassettes/<name>.json
+ * - `LLMRPG_CASSETTES=live`: calls the live provider without recording
+ * - otherwise: replays the cassette, so no model server is needed, and
+ *   throws if there is none
+ */
+export async function cassetteProvider(name: string, createLive: () => LLMProvider): Promise<LLMProvider> {
+  const mode = process.env.LLMRPG_CASSETTES;
+  if (mode === 'record') {
+    return new RecordingAdapter(createLive(), cassettePath(name));
+  }
+  if (mode === 'live') {
+    return createLive();
+  }
+
+  if (!fs.existsSync(cassettePath(name))) {
+    throw new Error(`Can't replay ${name}: no cassette tests/cassettes/${name}.json`);
+  }
+  return await ReplayAdapter.fromFile(cassettePath(name));
+}
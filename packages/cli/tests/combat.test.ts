@@ -1,11 +1,33 @@
-import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { describe, it, expect, vi, beforeAll, afterAll } from 'vitest';
 import { GameMaster } from '../src/GameMaster';
 import { MockAdapter } from '@llmrpg/llm';
-import { SessionWriter, FileSystemAdapter } from '@llmrpg/storage';
+import { SessionWriter, SessionLoader, FileSystemAdapter, MemoryBackend, createSessionMetadata } from '@llmrpg/storage';
 import path from 'path';
 import fs from 'fs';
 import { CharacterDefinition } from '@llmrpg/core';
 
+const goblin: CharacterDefinition = {
+    id: "goblin-1",
+    name: "Goblin",
+    highConcept: "Sneaky Goblin",
+    trouble: "Cowardly",
+    aspects: ["Small", "Vicious"],
+    skills: { Fight: 2, Stealth: 3 },
+    stunts: [],
+    personality: { traits: [], values: [], fears: [], quirks: [], speechPattern: "" },
+    backstory: { summary: "", origin: "", motivation: "", secrets: [], keyEvents: [] },
+    stress: { physical: [false, false], mental: [false] },
+    consequences: {},
+    fatePoints: 1,
+    relationships: [],
+    knowledge: {
+        knownLocations: [],
+        knownCharacters: [],
+        knownSecrets: [],
+        knownQuests: []
+    }
+};
+
 describe('Combat System', () => {
   const sessionId = 'combat-test-' + Date.now();
   const storagePath = path.join(__dirname, 'temp_combat_sessions');
@@ -101,29 +123,6 @@ describe('Combat System', () => {
     // NPC Narration Mock
     llmProvider.setNextResponse("The goblin lunges at you!");
 
-    // Create Opponent
-    const goblin: CharacterDefinition = {
-        id: "goblin-1",
-        name: "Goblin",
-        highConcept: "Sneaky Goblin",
-        trouble: "Cowardly",
-        aspects: ["Small", "Vicious"],
-        skills: { Fight: 2, Stealth: 3 },
-        stunts: [],
-        personality: { traits: [], values: [], fears: [], quirks: [], speechPattern: "" },
-        backstory: { summary: "", origin: "", motivation: "", secrets: [], keyEvents: [] },
-        stress: { physical: [false, false], mental: [false] },
-        consequences: {},
-        fatePoints: 1,
-        relationships: [],
-        knowledge: {
-            knownLocations: [],
-            knownCharacters: [],
-            knownSecrets: [],
-            knownQuests: []
-        }
-    };
-
     // Start Combat
     const conflict = await gameMaster.startCombat([goblin]);
     expect(conflict).toBeDefined();
@@ -149,4 +148,29 @@ describe('Combat System', () => {
     const lastTurn = JSON.parse(turnLines[turnLines.length - 1]);
     expect(lastTurn.actor).toBe("Goblin");
   });
+
+  it('should check invariants after combat turns', async () => {
+    const backend = new MemoryBackend();
+    const sessionWriter = new SessionWriter(backend);
+    await sessionWriter.createSession('combat-invariants', createSessionMetadata('combat-invariants'));
+    const gameMaster = new GameMaster('combat-invariants', new MockAdapter(), sessionWriter, new SessionLoader(backend), { checkInvariants: true });
+    await gameMaster.initializeWorld("Fantasy");
+    await gameMaster.createCharacter("Warrior");
+    await gameMaster.startCombat([goblin]);
+
+    // Overfill a stress track while the attack is resolved, as a faulty rule would
+    const gm = gameMaster as any;
+    const applyActionConsequences = gm.applyActionConsequences.bind(gm);
+    gm.applyActionConsequences = async (...args: unknown[]) => {
+        await applyActionConsequences(...args);
+        const track = gm.player.stressTracks.find((t: any) => t.type === 'physical');
+        track.boxes = Array(track.capacity + 1).fill(true);
+    };
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+    await gameMaster.processPlayerAction("I attack the goblin with my sword");
+
+    expect(warn).toHaveBeenCalledWith(expect.stringMatching(/^⚠️  Turn \d+ broke invariant stress-capacity/));
+    warn.mockRestore();
+  });
 });
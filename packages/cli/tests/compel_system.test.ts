@@ -31,7 +31,7 @@ describe('Compel System', () => {
     });
     
     mockLLM = new MockAdapter();
-    gm = new GameMaster(sessionId, mockLLM, sessionWriter, sessionLoader);
+    gm = new GameMaster(sessionId, mockLLM, sessionWriter, sessionLoader, { compelChance: 1 });
     
     await gm.initializeWorld('Dark Fantasy');
     await gm.createCharacter('A stubborn warrior with a dark past');
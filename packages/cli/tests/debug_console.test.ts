@@ -0,0 +1,75 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { DebugConsole } from '../src/DebugConsole';
+import { ReplayDebugger, loadReplaySession } from '@llmrpg/debug';
+import { MemoryBackend, SessionWriter, SessionLoader } from '@llmrpg/storage';
+
+describe('Debug Console', () => {
+  let debugConsole: DebugConsole;
+
+  beforeEach(async () => {
+    const backend = new MemoryBackend();
+    const writer = new SessionWriter(backend);
+    await writer.createSession('debug-test', {});
+    await writer.saveSnapshot('debug-test', 0, { world: {}, player: { fatePoints: { current: 3 } }, npcs: {} }, 'initial');
+
+    for (let turnId = 1; turnId <= 2; turnId++) {
+      await writer.writeDelta('debug-test', {
+        deltaId: `debug-test-${turnId}-1`,
+        turnId,
+        sequence: 1,
+        timestamp: Date.now(),
+        target: 'player',
+        operation: 'set',
+        path: ['fatePoints', 'current'],
+        previousValue: 4 - turnId,
+        newValue: 3 - turnId,
+        cause: 'fate_point_spend',
+        eventId: `e${turnId}`
+      });
+      await writer.writeTurn('debug-test', {
+        turnId,
+        turnNumber: turnId,
+        actor: 'player',
+        sceneId: 'scene-1',
+        timestamp: Date.now(),
+        gameTime: { day: 1, timeOfDay: 'morning', timestamp: turnId },
+        events: [{
+          eventId: `e${turnId}`, turnId, sequence: 1, type: 'fate_point_spend',
+          actor: 'player', action: 'invoke', description: 'Invoked an aspect', timestamp: 0
+        }]
+      });
+    }
+
+    const session = await loadReplaySession(new SessionLoader(backend), 'debug-test');
+    debugConsole = new DebugConsole(new ReplayDebugger(session));
+  });
+
+  it('should step through turns and show their events and deltas', async () => {
+    expect(await debugConsole.execute('step')).toContain('Turn 1/2');
+    expect(await debugConsole.execute('events')).toContain('fate_point_spend player: invoke');
+    expect(await debugConsole.execute('deltas')).toContain('set player.fatePoints.current: 3 -> 2');
+    expect(await debugConsole.execute('print player.fatePoints.current')).toBe('2');
+    expect(await debugConsole.execute('check')).toContain('All invariants hold at turn 1');
+
+    expect(await debugConsole.execute('goto 2')).toContain('Turn 2/2');
+    expect(await debugConsole.execute('back')).toContain('Turn 1/2');
+  });
+
+  it('should stop on breakpoints and watched paths', async () => {
+    await debugConsole.execute('break 2');
+    expect(await debugConsole.execute('continue')).toContain('Stopped at breakpoint on turn 2');
+
+    await debugConsole.execute('goto 0');
+    await debugConsole.execute('unbreak 2');
+    await debugConsole.execute('watch player.fatePoints.current');
+    const output = await debugConsole.execute('continue');
+    expect(output).toContain('Stopped: player.fatePoints.current changed');
+    expect(output).toContain('player.fatePoints.current = 2');
+  });
+
+  it('should report bad input without throwing', async () => {
+    expect(await debugConsole.execute('goto 9')).toContain('valid turns are 0-2');
+    expect(await debugConsole.execute('step x')).toContain('Expected a positive number');
+    expect(await debugConsole.execute('frobnicate')).toContain('Unknown command');
+  });
+});
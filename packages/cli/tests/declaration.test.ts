@@ -30,6 +30,7 @@ vi.mock('@llmrpg/core', async (importOriginal) => {
                 }
             }),
             getTurn: vi.fn(),
+            getTurnCount: vi.fn().mockReturnValue(0),
         };
     }),
     DeltaCollector: vi.fn().mockImplementation(() => ({
@@ -44,6 +45,7 @@ vi.mock('@llmrpg/core', async (importOriginal) => {
     ),
     FateDice: vi.fn().mockImplementation(() => ({
       roll: vi.fn().mockReturnValue({ total: 2, faces: [1, 1, 0, 0] }),
+      reseed: vi.fn(),
     })),
   };
 });
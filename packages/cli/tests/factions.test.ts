@@ -11,6 +11,12 @@ const mockSessionWriter = {
   writeTurn: vi.fn().mockResolvedValue(undefined),
   writeDelta: vi.fn().mockResolvedValue(undefined),
   updateCurrentState: vi.fn().mockResolvedValue(undefined),
+  saveSnapshot: vi.fn().mockResolvedValue(undefined),
+  writeLLMCall: vi.fn().mockResolvedValue(undefined),
+  writeTrace: vi.fn().mockResolvedValue(undefined),
+  writeSummary: vi.fn().mockResolvedValue(undefined),
+  pruneSnapshots: vi.fn().mockResolvedValue([]),
+  updateSessionMetadata: vi.fn(),
 } as unknown as SessionWriter;
 
 describe('Faction System', () => {
@@ -57,7 +57,8 @@ describe('Full Playthrough', () => {
     const metaPath = path.join(sessionPath, 'session.meta.json');
     expect(fs.existsSync(metaPath)).toBe(true);
     const meta = JSON.parse(fs.readFileSync(metaPath, 'utf-8'));
-    expect(meta.player).toBe("Test Player");
+    expect(meta.player.name).toBe("Test Player");
+    expect(meta.currentTurn).toBe(2);
 
     // 2. Check Turn Log
     const turnsPath = path.join(sessionPath, 'turns', 'turns-0001-0100.jsonl');
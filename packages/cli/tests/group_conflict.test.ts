@@ -9,6 +9,12 @@ const mockSessionWriter = {
   writeTurn: vi.fn(),
   writeDelta: vi.fn(),
   updateCurrentState: vi.fn(),
+  saveSnapshot: vi.fn(),
+  writeLLMCall: vi.fn(),
+  writeTrace: vi.fn(),
+  writeSummary: vi.fn(),
+  pruneSnapshots: vi.fn(),
+  updateSessionMetadata: vi.fn(),
   initializeSession: vi.fn()
 } as unknown as SessionWriter;
 
@@ -0,0 +1,75 @@
+import { describe, it, expect, vi } from 'vitest';
+import { parseIntent, IntentContext } from '../src/systems/IntentParser';
+import { startMockSession } from './mockSession';
+
+const context: IntentContext = {
+  exits: [
+    { direction: 'north', targetName: 'The Dark Passageway' },
+    { direction: 'down', targetName: 'Cellar' }
+  ],
+  shopItems: ['Health Potion', 'Iron Sword'],
+  inventoryItems: ['Rusty Dagger'],
+  inConflict: false
+};
+
+describe('Intent Parser', () => {
+  it('should recognise inventory and status commands', () => {
+    expect(parseIntent('i', context)).toMatchObject({ intent: 'inventory', confidence: 1 });
+    expect(parseIntent('I check my inventory.', context)).toMatchObject({ intent: 'inventory', confidence: 1 });
+    expect(parseIntent('Status', context)).toMatchObject({ intent: 'status', confidence: 1 });
+  });
+
+  it('should recognise travel through known exits only', () => {
+    expect(parseIntent('go north', context)).toMatchObject({ intent: 'travel', confidence: 1, target: 'north' });
+    expect(parseIntent('d', context)).toMatchObject({ intent: 'travel', target: 'down' });
+    expect(parseIntent('I head to the cellar', context)).toMatchObject({ intent: 'travel', rule: 'travel:destination', target: 'down' });
+    expect(parseIntent('go south', context)).toBeNull();
+  });
+
+  it('should recognise trades with shop items and requests for the recipe list', () => {
+    expect(parseIntent('buy 2 health potions', context)).toMatchObject({ intent: 'trade', rule: 'trade:buy', target: 'Health Potion', quantity: 2 });
+    expect(parseIntent('sell the rusty dagger', context)).toMatchObject({ intent: 'trade', rule: 'trade:sell', target: 'Rusty Dagger' });
+    expect(parseIntent('buy a horse', context)).toBeNull();
+    expect(parseIntent('buy a health potion', { ...context, shopItems: [] })).toBeNull();
+    expect(parseIntent('what can I make?', context)).toMatchObject({ intent: 'craft', rule: 'craft:list' });
+    expect(parseIntent('craft a healing salve', context)).toBeNull();
+  });
+
+  it('should only be sure of a concession during a conflict', () => {
+    expect(parseIntent('I give up', { ...context, inConflict: true })).toMatchObject({ intent: 'concede', confidence: 1 });
+    expect(parseIntent('I give up', context)!.confidence).toBeLessThan(0.9);
+  });
+
+  it('should leave anything else to the LLM', () => {
+    expect(parseIntent('I search the area', context)).toBeNull();
+    expect(parseIntent('Ask the guard about the north road', context)).toBeNull();
+  });
+
+  it('should skip the LLM for recognised inputs and record the decision source on the turn', async () => {
+    const { gameMaster } = await startMockSession('intent-parser-test');
+
+    const classifyIntent = vi.spyOn((gameMaster as any).decisionEngine, 'classifyIntent');
+
+    const inventory: any = await gameMaster.processPlayerAction("inventory");
+    expect(classifyIntent).not.toHaveBeenCalled();
+    expect(inventory.turn.events.find((e: any) => e.action === 'intent_classified').metadata)
+      .toMatchObject({ intent: 'inventory', source: 'rules', rule: 'inventory:keyword', confidence: 1 });
+
+    const search: any = await gameMaster.processPlayerAction("I search the area");
+    expect(classifyIntent).toHaveBeenCalledTimes(1);
+    expect(search.turn.events.find((e: any) => e.action === 'intent_classified').metadata)
+      .toMatchObject({ source: 'llm' });
+  });
+
+  it('should use the matched item instead of parsing the trade again', async () => {
+    const { gameMaster } = await startMockSession('intent-parser-trade-test');
+
+    const location = gameMaster.getWorldState().locations[(gameMaster as any).currentScene.locationId];
+    location.features.push({ id: 'shop', name: 'General Store', description: 'A shop', type: 'shop', interactable: true } as any);
+    const parseTradeIntent = vi.spyOn((gameMaster as any).decisionEngine, 'parseTradeIntent');
+
+    const result: any = await gameMaster.processPlayerAction("buy 2 health potions");
+    expect(parseTradeIntent).not.toHaveBeenCalled();
+    expect(result.narration).toContain('2 Health Potion');
+  });
+});
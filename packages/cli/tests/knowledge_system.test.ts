@@ -22,11 +22,12 @@ describe('Knowledge System', () => {
     await sessionWriter.createSession(sessionId, { startTime: Date.now(), player: "Tester" });
 
     mockLLM = new MockAdapter();
-    gameMaster = new GameMaster(sessionId, mockLLM, sessionWriter);
+    gameMaster = new GameMaster(sessionId, mockLLM, sessionWriter, undefined, { compelChance: 1 });
     
     // Mock FateDice to ensure success
     (gameMaster as any).fateDice = {
-        roll: () => ({ total: 4, faces: [1, 1, 1, 1] })
+        roll: () => ({ total: 4, faces: [1, 1, 1, 1] }),
+        reseed: () => {}
     };
   });
 
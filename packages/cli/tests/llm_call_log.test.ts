@@ -0,0 +1,55 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { GameMaster } from '../src/GameMaster';
+import { MockAdapter } from '@llmrpg/llm';
+import { SessionWriter, SessionLoader, FileSystemAdapter, createSessionMetadata } from '@llmrpg/storage';
+import path from 'path';
+import fs from 'fs';
+
+describe('LLM Call Log', () => {
+  const sessionId = 'llm-log-test-' + Date.now();
+  const storagePath = path.join(__dirname, 'temp_llm_log');
+
+  beforeAll(() => {
+    if (!fs.existsSync(storagePath)) {
+      fs.mkdirSync(storagePath, { recursive: true });
+    }
+  });
+
+  afterAll(() => {
+    if (fs.existsSync(storagePath)) {
+      fs.rmSync(storagePath, { recursive: true, force: true });
+    }
+  });
+
+  it('should record every LLM call with the session, attributed to its turn', async () => {
+    const fsAdapter = new FileSystemAdapter(storagePath);
+    const sessionWriter = new SessionWriter(fsAdapter);
+    const sessionLoader = new SessionLoader(fsAdapter);
+
+    await sessionWriter.createSession(sessionId, createSessionMetadata(sessionId));
+    const gameMaster = new GameMaster(sessionId, new MockAdapter(), sessionWriter, sessionLoader);
+    (gameMaster as any).checkCompels = async () => null;
+
+    await gameMaster.initializeWorld("Fantasy");
+    await gameMaster.createCharacter("A scout");
+    await gameMaster.processPlayerAction("I search the area");
+
+    const setupCalls = await sessionLoader.loadLLMCalls(sessionId, 0, 0);
+    expect(setupCalls.length).toBeGreaterThan(0);
+    expect(setupCalls[0]).toMatchObject({ system: 'ContentGenerator', method: 'generateWorldTheme', actor: 'gm' });
+
+    const turnCalls = await sessionLoader.loadLLMCalls(sessionId, 1, 1);
+    expect(turnCalls[0]).toMatchObject({ turnId: 1, sequence: 1, system: 'DecisionEngine', method: 'classifyIntent' });
+    expect(turnCalls.map(c => c.sequence)).toEqual(turnCalls.map((_, i) => i + 1));
+    for (const call of turnCalls) {
+        expect(call.systemPrompt.length).toBeGreaterThan(0);
+        expect(call.response ?? call.error).toBeDefined();
+        expect(call.latencyMs).toBeGreaterThanOrEqual(0);
+    }
+
+    // Undoing the turn drops its calls but keeps the world setup
+    await gameMaster.undoTurns(1);
+    expect(await sessionLoader.loadLLMCalls(sessionId, 1, 1)).toEqual([]);
+    expect(await sessionLoader.loadLLMCalls(sessionId, 0, 0)).toHaveLength(setupCalls.length);
+  });
+});
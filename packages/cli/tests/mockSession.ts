@@ -0,0 +1,34 @@
+import { LLMProvider, MockAdapter } from '@llmrpg/llm';
+import { MemoryBackend, SessionLoader, SessionWriter, createSessionMetadata } from '@llmrpg/storage';
+import { GameMaster, GameMasterConfig } from '../src/GameMaster';
+
+export interface MockSessionOptions {
+  /** Defaults to a MockAdapter */
+  provider?: LLMProvider;
+  config?: GameMasterConfig;
+  /** Leave compel checks on; otherwise they are stubbed out so no turn stops at an offer */
+  compels?: boolean;
+  /** Runs after the world is created and before the character, e.g. to add an exit */
+  prepare?: (gameMaster: GameMaster) => void;
+}
+
+/**
+ * Starts a game in memory: a fantasy world with a scout character, ready
+ * for its first player action.
+ */
+export async function startMockSession(sessionId: string, options: MockSessionOptions = {}) {
+  const backend = new MemoryBackend();
+  const sessionWriter = new SessionWriter(backend);
+  const sessionLoader = new SessionLoader(backend);
+  await sessionWriter.createSession(sessionId, createSessionMetadata(sessionId));
+
+  const gameMaster = new GameMaster(sessionId, options.provider ?? new MockAdapter(), sessionWriter, sessionLoader, options.config);
+  if (!options.compels) {
+    (gameMaster as any).checkCompels = async () => null;
+  }
+  await gameMaster.initializeWorld("Fantasy");
+  options.prepare?.(gameMaster);
+  await gameMaster.createCharacter("A scout");
+
+  return { backend, sessionWriter, sessionLoader, gameMaster };
+}
@@ -0,0 +1,40 @@
+import { describe, it, expect, vi } from 'vitest';
+import { NarrativeEngine } from '../src/systems/NarrativeEngine';
+import { collectStream } from '@llmrpg/llm';
+import { startMockSession } from './mockSession';
+
+describe('Narration Streaming', () => {
+  const sessionId = 'streaming-test';
+
+  it('should pass narration to the listener as it streams and record the full text', async () => {
+    const { sessionLoader, gameMaster } = await startMockSession(sessionId);
+
+    const chunks: string[] = [];
+    gameMaster.setNarrationListener(chunk => chunks.push(chunk));
+    const result: any = await gameMaster.processPlayerAction("I search the area");
+
+    expect(chunks.length).toBeGreaterThan(1);
+    expect(result.narration.startsWith(chunks.join(''))).toBe(true);
+
+    const [turn] = await sessionLoader.loadTurns(sessionId, 1, 1);
+    expect(turn.narration).toBe(result.narration);
+    const calls = await sessionLoader.loadLLMCalls(sessionId, 1, 1);
+    expect(calls.find(call => call.method === 'narrateActionResolution')?.response).toBe(chunks.join(''));
+  });
+
+  it('should fall back to a non-streaming request if the stream fails before any text', async () => {
+    const provider = {
+      generate: vi.fn().mockResolvedValue({ content: 'The fog lifts.', model: 'mock-model' }),
+      stream: vi.fn(async function* (): AsyncIterableIterator<string> {
+        throw new Error('connection reset');
+      })
+    };
+    const engine = new NarrativeEngine(provider);
+
+    const text = await collectStream(engine.streamNarration({ events: [{ description: 'The fog lifts' }] }));
+
+    expect(text).toBe('The fog lifts.');
+    expect(provider.stream).toHaveBeenCalledTimes(1);
+    expect(provider.generate).toHaveBeenCalledTimes(1);
+  });
+});
@@ -24,11 +24,12 @@ describe('NPC Interaction System', () => {
     await sessionWriter.createSession(sessionId, { startTime: Date.now(), player: "Talker" });
 
     mockLLM = new MockAdapter();
-    gameMaster = new GameMaster(sessionId, mockLLM, sessionWriter, sessionLoader);
+    gameMaster = new GameMaster(sessionId, mockLLM, sessionWriter, sessionLoader, { compelChance: 1 });
     
     // Mock FateDice to ensure success
     (gameMaster as any).fateDice = {
-        roll: () => ({ total: 4, faces: [1, 1, 1, 1] })
+        roll: () => ({ total: 4, faces: [1, 1, 1, 1] }),
+        reseed: () => {}
     };
   });
 
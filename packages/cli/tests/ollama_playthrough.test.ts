@@ -1,6 +1,7 @@
 import { describe, it, expect, beforeAll, afterAll } from 'vitest';
 import { GameMaster } from '../src/GameMaster';
 import { OllamaAdapter } from '@llmrpg/llm';
+import { CASSETTE_SEED, cassetteProvider, missingCassette } from './cassettes';
 import { SessionWriter, FileSystemAdapter } from '@llmrpg/storage';
 import path from 'path';
 import fs from 'fs';
@@ -8,8 +9,10 @@ import fs from 'fs';
 // Set a long timeout for LLM interactions
 const TEST_TIMEOUT = 120000; // 2 minutes
 
-describe('Ollama Full Playthrough', () => {
-  const sessionId = 'ollama-test-session-' + Date.now();
+const missing = missingCassette('ollama_playthrough');
+
+describe.skipIf(missing)(`Ollama Full Playthrough${missing ? ` (skipped: ${missing})` : ''}`, () => {
+  const sessionId = 'ollama-test-session';
   const storagePath = path.join(__dirname, 'temp_sessions_ollama');
   
   beforeAll(() => {
@@ -35,12 +38,12 @@ describe('Ollama Full Playthrough', () => {
     });
 
     // Initialize Ollama Adapter with the requested model
-    const llmProvider = new OllamaAdapter({
+    const llmProvider = await cassetteProvider('ollama_playthrough', () => new OllamaAdapter({
         model: process.env.OLLAMA_MODEL || 'granite4:3b', // User requested model, overridable via env
         host: process.env.OLLAMA_HOST || 'http://127.0.0.1:11434' // Default host
-    });
+    }));
 
-    const gameMaster = new GameMaster(sessionId, llmProvider, sessionWriter);
+    const gameMaster = new GameMaster(sessionId, llmProvider, sessionWriter, undefined, { seed: CASSETTE_SEED });
 
     console.log("Starting GameMaster with Ollama...");
     await gameMaster.start();
@@ -0,0 +1,57 @@
+import { describe, it, expect } from 'vitest';
+import { MockAdapter, LLMProvider, LLMRequest } from '@llmrpg/llm';
+import { startMockSession } from './mockSession';
+
+const ANALYSIS_CALLERS = ['determineKnowledgeGain', 'determineQuestUpdate', 'determineWorldUpdates'];
+
+/**
+ * Mock provider that holds analysis requests briefly and tracks how many of
+ * them are in flight at once.
+ */
+function slowAnalysisProvider() {
+  const mock = new MockAdapter();
+  const stats = { inFlight: 0, maxInFlight: 0 };
+  const provider: LLMProvider = {
+    async generate(request: LLMRequest) {
+      if (!ANALYSIS_CALLERS.includes(request.caller ?? '')) {
+        return mock.generate(request);
+      }
+      stats.inFlight++;
+      stats.maxInFlight = Math.max(stats.maxInFlight, stats.inFlight);
+      try {
+        await new Promise(resolve => setTimeout(resolve, 20));
+        return await mock.generate(request);
+      } finally {
+        stats.inFlight--;
+      }
+    }
+  };
+  return { provider, stats };
+}
+
+async function playTurn(maxConcurrentRequests: number) {
+  const { provider, stats } = slowAnalysisProvider();
+  const { gameMaster } = await startMockSession(`parallel-analysis-${maxConcurrentRequests}`, {
+    provider,
+    config: { maxConcurrentRequests }
+  });
+  await gameMaster.processPlayerAction("I search the area");
+  return { stats, metrics: gameMaster.getRequestScheduler().getMetrics() };
+}
+
+describe('Parallel Analysis', () => {
+  it('should run the post-resolution analysis requests at the same time', async () => {
+    const { stats, metrics } = await playTurn(3);
+
+    expect(stats.maxInFlight).toBeGreaterThanOrEqual(2);
+    expect(metrics.running).toBe(0);
+    expect(metrics.failed).toBe(0);
+  });
+
+  it('should not exceed the configured concurrency', async () => {
+    const { stats, metrics } = await playTurn(1);
+
+    expect(stats.maxInFlight).toBe(1);
+    expect(metrics.maxQueued).toBeGreaterThanOrEqual(1);
+  });
+});
@@ -0,0 +1,44 @@
+import { describe, it, expect } from 'vitest';
+import { buildPerfReport, percentile, summarizeTraces } from '../src/perfReport';
+import { MemoryBackend } from '@llmrpg/storage';
+import { startMockSession } from './mockSession';
+
+describe('Perf Report', () => {
+  const sessionId = 'perf-test';
+
+  it('should trace each turn and store the stage timings on the turn', async () => {
+    const { backend, sessionLoader, gameMaster } = await startMockSession(sessionId);
+    await gameMaster.processPlayerAction("I search the area");
+    await gameMaster.processPlayerAction("I climb the wall");
+
+    const traces = await sessionLoader.loadTraces(sessionId, 1, 2);
+    expect(traces.map(trace => trace.turnId)).toEqual([1, 2]);
+    expect(traces[0].spans[0]).toMatchObject({ name: 'DecisionEngine.classifyIntent', llmCalls: 1 });
+
+    const [turn] = await sessionLoader.loadTurns(sessionId, 1, 1);
+    expect(turn.timing?.durationMs).toBe(traces[0].durationMs);
+    expect(Object.keys(turn.timing!.stages)).toContain('DecisionEngine.classifyIntent');
+
+    const report = await buildPerfReport(backend, sessionId);
+    expect(report.tracedTurns).toBe(2);
+    expect(report.stages.find(stage => stage.name === 'DecisionEngine.classifyIntent')).toMatchObject({ calls: 2, llmCalls: 2 });
+  });
+
+  it('should report percentiles and tokens per stage', () => {
+    const span = (name: string, durationMs: number, promptTokens: number) =>
+      ({ name, startMs: 0, durationMs, llmCalls: 1, promptTokens, completionTokens: 5 });
+    const report = summarizeTraces(sessionId, [
+      { turnId: 1, timestamp: 0, durationMs: 500, spans: [span('DecisionEngine.classifyIntent', 100, 50), span('NarrativeEngine.narrate', 400, 300)] },
+      { turnId: 2, timestamp: 0, durationMs: 900, spans: [span('DecisionEngine.classifyIntent', 300, 60), span('NarrativeEngine.narrate', 600, 320)] },
+    ]);
+
+    expect(report.turn).toEqual({ p50Ms: 500, p95Ms: 900, totalMs: 1400 });
+    expect(report.stages.map(stage => stage.name)).toEqual(['NarrativeEngine.narrate', 'DecisionEngine.classifyIntent']);
+    expect(report.stages[1]).toMatchObject({ calls: 2, p50Ms: 100, p95Ms: 300, promptTokens: 110, completionTokens: 10 });
+    expect(percentile([5, 1, 4, 2, 3], 50)).toBe(3);
+  });
+
+  it('should refuse unknown sessions', async () => {
+    await expect(buildPerfReport(new MemoryBackend(), 'missing')).rejects.toThrow('Session missing not found');
+  });
+});
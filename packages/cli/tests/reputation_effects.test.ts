@@ -14,11 +14,12 @@ describe('Reputation Effects', () => {
     mockAdapter = new MockAdapter();
     const adapter = new FileSystemAdapter('test-sessions');
     sessionWriter = new SessionWriter(adapter);
-    gameMaster = new GameMaster('test-session', mockAdapter, sessionWriter);
+    gameMaster = new GameMaster('test-session', mockAdapter, sessionWriter, undefined, { compelChance: 1 });
     
     // Mock FateDice to ensure success
     (gameMaster as any).fateDice = {
-        roll: () => ({ total: 4, faces: [1, 1, 1, 1] })
+        roll: () => ({ total: 4, faces: [1, 1, 1, 1] }),
+        reseed: () => {}
     };
     
     // Initialize world
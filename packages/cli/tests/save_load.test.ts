@@ -38,7 +38,8 @@ describe('Save and Load System', () => {
     
     // Mock FateDice to ensure success
     (gameMaster as any).fateDice = {
-        roll: () => ({ total: 4, faces: [1, 1, 1, 1] })
+        roll: () => ({ total: 4, faces: [1, 1, 1, 1] }),
+        reseed: () => {}
     };
 
     // 2. Initialize World & Character
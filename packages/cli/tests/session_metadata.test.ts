@@ -0,0 +1,126 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { GameMaster } from '../src/GameMaster';
+import { MockAdapter } from '@llmrpg/llm';
+import {
+  SessionWriter,
+  SessionLoader,
+  FileSystemAdapter,
+  createSessionMetadata,
+  LEGACY_STORAGE_VERSION,
+  STORAGE_VERSION
+} from '@llmrpg/storage';
+import { SessionMetadataSchema } from '@llmrpg/protocol';
+import path from 'path';
+import fs from 'fs';
+
+describe('Session Metadata', () => {
+  const sessionId = 'metadata-test-' + Date.now();
+  const storagePath = path.join(__dirname, 'temp_metadata');
+
+  beforeAll(() => {
+    if (!fs.existsSync(storagePath)) {
+      fs.mkdirSync(storagePath, { recursive: true });
+    }
+  });
+
+  afterAll(() => {
+    if (fs.existsSync(storagePath)) {
+      fs.rmSync(storagePath, { recursive: true, force: true });
+    }
+  });
+
+  it('should keep metadata schema-valid and up to date as play progresses', async () => {
+    const fsAdapter = new FileSystemAdapter(storagePath);
+    const sessionWriter = new SessionWriter(fsAdapter);
+    const sessionLoader = new SessionLoader(fsAdapter);
+
+    await sessionWriter.createSession(sessionId, createSessionMetadata(sessionId));
+
+    const gameMaster = new GameMaster(sessionId, new MockAdapter(), sessionWriter, sessionLoader, {
+        snapshotInterval: 2
+    });
+
+    // Skip compel checks so every action is a full turn
+    (gameMaster as any).checkCompels = async () => null;
+
+    await gameMaster.initializeWorld("Fantasy");
+    await gameMaster.createCharacter("A scout");
+
+    for (let i = 0; i < 2; i++) {
+        await gameMaster.processPlayerAction("I search the area");
+    }
+
+    const raw = JSON.parse(fs.readFileSync(
+        path.join(storagePath, 'sessions', 'active', sessionId, 'session.meta.json'), 'utf-8'
+    ));
+    expect(SessionMetadataSchema.safeParse(raw).success).toBe(true);
+
+    const metadata = await sessionLoader.loadSessionMetadata(sessionId);
+    const deltas = await sessionLoader.loadDeltas(sessionId, 1, 2);
+
+    expect(metadata.id).toBe(sessionId);
+    expect(metadata.currentTurn).toBe(2);
+    expect(metadata.player.characterName).toBe("Mock Character");
+    expect(metadata.theme.name).not.toBe('Unknown');
+    expect(metadata.stats.totalTurns).toBe(2);
+    expect(metadata.stats.totalDeltas).toBe(deltas.length);
+    expect(metadata.stats.totalSnapshots).toBe((await sessionLoader.listSnapshots(sessionId)).length);
+    const npcs = Object.values((await sessionLoader.loadCurrentState(sessionId)).npcs) as any[];
+    expect(metadata.stats.npcsEncountered).toBe(npcs.filter(npc => npc.firstEncounteredTurn !== undefined).length);
+  });
+
+  it('should count only the NPCs the player has met', async () => {
+    const encounterId = 'metadata-encounter-' + Date.now();
+    const fsAdapter = new FileSystemAdapter(storagePath);
+    const sessionWriter = new SessionWriter(fsAdapter);
+    const sessionLoader = new SessionLoader(fsAdapter);
+
+    await sessionWriter.createSession(encounterId, createSessionMetadata(encounterId));
+    const gameMaster = new GameMaster(encounterId, new MockAdapter(), sessionWriter, sessionLoader);
+    (gameMaster as any).checkCompels = async () => null;
+    await gameMaster.initializeWorld("Fantasy");
+    await gameMaster.createCharacter("A scout");
+
+    // One NPC where the player is, one somewhere else
+    const gm = gameMaster as any;
+    gm.npcs = { 'npc-here': { id: 'npc-here', name: 'Innkeeper' }, 'npc-away': { id: 'npc-away', name: 'Hermit' } };
+    gm.worldManager.getLocation(gm.currentScene.locationId).presentNPCs = ['npc-here'];
+
+    await gameMaster.processPlayerAction("I search the area");
+    await gameMaster.processPlayerAction("I search the area again");
+
+    expect((await sessionLoader.loadSessionMetadata(encounterId)).stats.npcsEncountered).toBe(1);
+    const { npcs } = await sessionLoader.loadCurrentState(encounterId);
+    expect(npcs['npc-here'].firstEncounteredTurn).toBe(1);
+    expect(npcs['npc-away'].firstEncounteredTurn).toBeUndefined();
+
+    // Undoing the meeting forgets it
+    await gameMaster.processPlayerAction('/undo 2');
+    expect((await sessionLoader.loadSessionMetadata(encounterId)).stats.npcsEncountered).toBe(0);
+  });
+
+  it('should migrate a legacy session when loading it', async () => {
+    const legacyId = 'metadata-legacy-' + Date.now();
+    const fsAdapter = new FileSystemAdapter(storagePath);
+    const sessionWriter = new SessionWriter(fsAdapter);
+    const sessionLoader = new SessionLoader(fsAdapter);
+
+    // Play a short session, then strip it back to the pre-versioning metadata
+    await sessionWriter.createSession(legacyId, {});
+    const original = new GameMaster(legacyId, new MockAdapter(), sessionWriter, sessionLoader);
+    await original.initializeWorld("Fantasy");
+    await original.createCharacter("A scout");
+    await fsAdapter.writeJson(
+        path.join('sessions', 'active', legacyId, 'session.meta.json'),
+        { startTime: Date.now(), player: "Player" }
+    );
+    expect(await sessionLoader.getStorageVersion(legacyId)).toBe(LEGACY_STORAGE_VERSION);
+
+    const resumed = new GameMaster(legacyId, new MockAdapter(), sessionWriter, sessionLoader);
+    await resumed.loadState();
+
+    const metadata = await sessionLoader.loadSessionMetadata(legacyId);
+    expect(metadata.version).toBe(STORAGE_VERSION);
+    expect(SessionMetadataSchema.safeParse(metadata).success).toBe(true);
+  });
+});
@@ -0,0 +1,63 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { GameMaster } from '../src/GameMaster';
+import { MockAdapter } from '@llmrpg/llm';
+import { SessionWriter, SessionLoader, FileSystemAdapter } from '@llmrpg/storage';
+import path from 'path';
+import fs from 'fs';
+
+describe('Automatic Snapshots', () => {
+  const sessionId = 'snapshot-test-' + Date.now();
+  const storagePath = path.join(__dirname, 'temp_snapshots');
+
+  beforeAll(() => {
+    if (!fs.existsSync(storagePath)) {
+      fs.mkdirSync(storagePath, { recursive: true });
+    }
+  });
+
+  afterAll(() => {
+    if (fs.existsSync(storagePath)) {
+      fs.rmSync(storagePath, { recursive: true, force: true });
+    }
+  });
+
+  it('should write initial and interval snapshots and apply retention', async () => {
+    const fsAdapter = new FileSystemAdapter(storagePath);
+    const sessionWriter = new SessionWriter(fsAdapter);
+    const sessionLoader = new SessionLoader(fsAdapter);
+
+    await sessionWriter.createSession(sessionId, {
+        startTime: Date.now(),
+        player: "Snapshot Tester"
+    });
+
+    const llmProvider = new MockAdapter();
+    const gameMaster = new GameMaster(sessionId, llmProvider, sessionWriter, sessionLoader, {
+        snapshotInterval: 2,
+        maxSnapshots: 2
+    });
+
+    // Skip compel checks so every action is a full turn
+    (gameMaster as any).checkCompels = async () => null;
+
+    await gameMaster.initializeWorld("Fantasy");
+    await gameMaster.createCharacter("A scout");
+
+    expect(await sessionLoader.listSnapshots(sessionId)).toEqual([0]);
+
+    for (let i = 0; i < 6; i++) {
+        await gameMaster.processPlayerAction("I search the area");
+    }
+
+    // Interval snapshots at 2, 4, 6; only the last two are retained alongside the initial one
+    expect(await sessionLoader.listSnapshots(sessionId)).toEqual([0, 4, 6]);
+
+    const snapshot = await sessionLoader.loadSnapshot(sessionId, 6);
+    expect(snapshot.reason).toBe('interval');
+    expect(snapshot.state.player.name).toBe("Mock Character");
+
+    const current = await sessionLoader.loadCurrentState(sessionId);
+    const atTurn6 = await sessionLoader.loadStateAtTurn(sessionId, 6);
+    expect(atTurn6.world.time).toEqual(current.world.time);
+  });
+});
@@ -0,0 +1,61 @@
+import { describe, it, expect } from 'vitest';
+import { GameMaster } from '../src/GameMaster';
+import { StoryMemory } from '../src/systems/StoryMemory';
+import { MockAdapter } from '@llmrpg/llm';
+import { StorySummary } from '@llmrpg/core';
+import { startMockSession } from './mockSession';
+
+function scene(fromTurn: number, toTurn: number): StorySummary {
+  return { turnId: toTurn + 1, level: 'scene', fromTurn, toTurn, text: `Turns ${fromTurn}-${toTurn}` };
+}
+
+describe('Story Memory', () => {
+  it('should roll scenes into chapters and chapters into the campaign synopsis', () => {
+    const memory = new StoryMemory({ scenesPerChapter: 2, chaptersPerSynopsis: 1 });
+    memory.add(scene(1, 2));
+    memory.add(scene(3, 4));
+    expect(memory.nextRollup()).toBeNull();
+
+    memory.add(scene(5, 6));
+    const rollup = memory.nextRollup()!;
+    expect(rollup).toMatchObject({ level: 'chapter', sources: [scene(1, 2), scene(3, 4)] });
+    memory.add({ turnId: 7, level: 'chapter', fromTurn: 1, toTurn: 4, text: 'Chapter one' });
+    expect(memory.getSummaries().map(s => s.level)).toEqual(['chapter', 'scene']);
+    expect(memory.nextRollup()).toBeNull();
+
+    memory.add({ turnId: 9, level: 'chapter', fromTurn: 5, toTurn: 8, text: 'Chapter two' });
+    expect(memory.nextRollup()).toMatchObject({ level: 'campaign', sources: [{ text: 'Chapter one' }] });
+    memory.add({ turnId: 9, level: 'campaign', fromTurn: 1, toTurn: 4, text: 'Synopsis' });
+    expect(memory.getSummaries().map(s => s.text)).toEqual(['Synopsis', 'Chapter two']);
+    expect(memory.getLastSummarizedTurn()).toBe(8);
+  });
+
+  it('should summarize pruned turns, use the summaries in prompts and restore them on load', async () => {
+    const sessionId = 'story-memory-test';
+    const config = { enableSmartPruning: false, maxHistoryTurns: 3, summaryBatchTurns: 2 };
+    const { sessionWriter, sessionLoader, gameMaster } = await startMockSession(sessionId, { config });
+
+    for (let i = 0; i < 4; i++) {
+      await gameMaster.processPlayerAction("I search the area");
+    }
+
+    const summaries = await sessionLoader.loadSummaries(sessionId, 0, 4);
+    expect(summaries).toEqual([expect.objectContaining({ turnId: 4, level: 'scene', fromTurn: 1, toTurn: 2 })]);
+    expect((gameMaster as any).history.map((t: any) => t.turnId)).toEqual([3, 4]);
+
+    await gameMaster.processPlayerAction("I search the area");
+    const calls = await sessionLoader.loadLLMCalls(sessionId, 5, 5);
+    expect(calls.find(call => call.method === 'narrateActionResolution')?.userPrompt).toContain(`STORY SO FAR:\nScene (turns 1-2): ${summaries[0].text}`);
+
+    const loaded = new GameMaster(sessionId, new MockAdapter(), sessionWriter, sessionLoader, config);
+    await loaded.loadState();
+    expect((loaded as any).storyMemory.getSummaries()).toEqual(summaries);
+    expect((loaded as any).history.map((t: any) => t.turnId)).toEqual([3, 4, 5]);
+
+    // Undoing past the turn a summary was written in drops it again
+    await loaded.undoTurns(2);
+    expect(await sessionLoader.loadSummaries(sessionId, 0, 5)).toEqual([]);
+    expect((loaded as any).storyMemory.getSummaries()).toEqual([]);
+    expect((loaded as any).history.map((t: any) => t.turnId)).toEqual([1, 2, 3]);
+  });
+});
@@ -10,6 +10,12 @@ const mockSessionWriter = {
   writeTurn: vi.fn(),
   writeDelta: vi.fn(),
   updateCurrentState: vi.fn(),
+  saveSnapshot: vi.fn(),
+  writeLLMCall: vi.fn(),
+  writeTrace: vi.fn(),
+  writeSummary: vi.fn(),
+  pruneSnapshots: vi.fn(),
+  updateSessionMetadata: vi.fn(),
   createSession: vi.fn().mockResolvedValue('session-123')
 } as unknown as SessionWriter;
 
@@ -0,0 +1,119 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { GameMaster } from '../src/GameMaster';
+import { MockAdapter } from '@llmrpg/llm';
+import { SessionWriter, SessionLoader, FileSystemAdapter } from '@llmrpg/storage';
+import path from 'path';
+import fs from 'fs';
+
+describe('Undo Command', () => {
+  const sessionId = 'undo-test-' + Date.now();
+  const storagePath = path.join(__dirname, 'temp_undo');
+
+  beforeAll(() => {
+    if (!fs.existsSync(storagePath)) {
+      fs.mkdirSync(storagePath, { recursive: true });
+    }
+  });
+
+  afterAll(() => {
+    if (fs.existsSync(storagePath)) {
+      fs.rmSync(storagePath, { recursive: true, force: true });
+    }
+  });
+
+  it('should rewind state and session logs by the requested number of turns', async () => {
+    const fsAdapter = new FileSystemAdapter(storagePath);
+    const sessionWriter = new SessionWriter(fsAdapter);
+    const sessionLoader = new SessionLoader(fsAdapter);
+
+    await sessionWriter.createSession(sessionId, {
+        startTime: Date.now(),
+        player: "Undo Tester"
+    });
+
+    const llmProvider = new MockAdapter();
+    const gameMaster = new GameMaster(sessionId, llmProvider, sessionWriter, sessionLoader);
+    (gameMaster as any).checkCompels = async () => null;
+
+    await gameMaster.initializeWorld("Fantasy");
+    await gameMaster.createCharacter("A scout");
+
+    const startTime = gameMaster.getWorldState().time.value;
+
+    await gameMaster.processPlayerAction("I search the area");
+    const timeAfterFirstTurn = gameMaster.getWorldState().time.value;
+    await gameMaster.processPlayerAction("I climb the wall");
+    await gameMaster.processPlayerAction("I listen at the door");
+
+    expect(await sessionLoader.getLastTurnId(sessionId)).toBe(3);
+
+    const result = await gameMaster.processPlayerAction('/undo 2');
+    expect(result.result).toBe('meta_command_success');
+    expect(gameMaster.getWorldState().time.value).toBe(timeAfterFirstTurn);
+    expect(await sessionLoader.getLastTurnId(sessionId)).toBe(1);
+    expect(await sessionLoader.loadDeltas(sessionId, 2, 3)).toHaveLength(0);
+
+    // The persisted state matches the rewound state
+    const saved = await sessionLoader.loadCurrentState(sessionId);
+    expect(saved.world.time.value).toBe(timeAfterFirstTurn);
+
+    // Play continues from the rewound turn
+    const next = await gameMaster.processPlayerAction("I search the area again");
+    expect(next.turn?.turnId).toBe(2);
+
+    await gameMaster.processPlayerAction('/undo 5');
+    expect(gameMaster.getWorldState().time.value).toBe(startTime);
+
+    const empty = await gameMaster.processPlayerAction('/undo');
+    expect(empty.result).toBe('error');
+  });
+
+  it('should rewind quest objective updates', async () => {
+    const questSessionId = 'undo-quest-test-' + Date.now();
+    const fsAdapter = new FileSystemAdapter(storagePath);
+    const sessionWriter = new SessionWriter(fsAdapter);
+    const sessionLoader = new SessionLoader(fsAdapter);
+
+    await sessionWriter.createSession(questSessionId, {
+        startTime: Date.now(),
+        player: "Undo Tester"
+    });
+
+    const gameMaster = new GameMaster(questSessionId, new MockAdapter(), sessionWriter, sessionLoader);
+    (gameMaster as any).checkCompels = async () => null;
+
+    await gameMaster.initializeWorld("Fantasy");
+    await gameMaster.createCharacter("A scout");
+
+    gameMaster.getWorldState().quests.push({
+        id: "quest-1",
+        title: "Find the Lost Cat",
+        description: "Find it.",
+        status: "active",
+        objectives: [
+            { id: "obj-1", description: "Find the cat", type: "visit", requiredCount: 1, currentCount: 0, status: "active", isHidden: false }
+        ],
+        isHidden: false
+    });
+    (gameMaster as any).decisionEngine.determineQuestUpdate = async () => null;
+    await gameMaster.processPlayerAction("I search the area");
+
+    (gameMaster as any).decisionEngine.determineQuestUpdate = async () => ({
+        type: "update_objective",
+        questId: "quest-1",
+        objectiveId: "obj-1",
+        count: 1,
+        status: "completed"
+    });
+    await gameMaster.processPlayerAction("I look for the cat");
+    expect(gameMaster.getWorldState().quests[0].status).toBe("completed");
+
+    await gameMaster.processPlayerAction('/undo');
+    const quest = gameMaster.getWorldState().quests[0];
+    expect(quest.status).toBe("active");
+    expect(quest.objectives[0]).toMatchObject({ currentCount: 0, status: "active" });
+
+    const saved = await sessionLoader.loadCurrentState(questSessionId);
+    expect(saved.world.quests[0].objectives[0].status).toBe("active");
+  });
+});
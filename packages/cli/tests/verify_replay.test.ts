@@ -0,0 +1,82 @@
+import { describe, it, expect } from 'vitest';
+import { GameMaster } from '../src/GameMaster';
+import { verifySessionReplay } from '../src/verifyReplay';
+import { startMockSession } from './mockSession';
+
+describe('Replay Verification', () => {
+  const sessionId = 'replay-test';
+
+  async function playSession(actions: string[], prepare?: (gameMaster: GameMaster) => void) {
+    const { backend, sessionWriter, sessionLoader, gameMaster } = await startMockSession(sessionId, {
+        config: { seed: 1234 },
+        compels: true,
+        prepare
+    });
+
+    for (const action of actions) {
+        const result: any = await gameMaster.processPlayerAction(action);
+        // Refuse compels and retry, as the game loop does
+        if (result.result === 'compel_offered') {
+            await gameMaster.resolveCompel(result.compel, false);
+            await gameMaster.processPlayerAction(action, undefined, true);
+        }
+    }
+
+    return { backend, sessionWriter, sessionLoader };
+  }
+
+  it('should record the seed and the input behind each player turn', async () => {
+    const { sessionLoader } = await playSession(["I search the area"]);
+
+    expect((await sessionLoader.loadSessionMetadata(sessionId)).seed).toBe(1234);
+    const [turn] = await sessionLoader.loadTurns(sessionId, 1, 1);
+    expect(turn.playerInput).toMatchObject({ action: "I search the area" });
+  });
+
+  it('should replay a session without divergence', async () => {
+    const { backend } = await playSession(["I search the area", "I talk to the innkeeper", "I climb the wall"]);
+
+    const report = await verifySessionReplay(backend, sessionId);
+
+    expect(report.divergence).toBeUndefined();
+    expect(report.turnsCompared).toBe(report.totalTurns);
+    expect(report.totalTurns).toBeGreaterThanOrEqual(3);
+  });
+
+  it('should replay travel to a location generated during the session', async () => {
+    const { backend, sessionLoader } = await playSession(["go down"], gameMaster => {
+        const world = gameMaster.getWorldState();
+        const start = world.locations[(gameMaster as any).currentScene.locationId];
+        start.connections.push({ targetId: 'loc-unexplored', direction: 'down', description: 'A trapdoor', isBlocked: false });
+    });
+
+    const deltas = await sessionLoader.loadDeltas(sessionId, 1, await sessionLoader.getLastTurnId(sessionId));
+    expect(deltas.some(delta => delta.cause === 'travel')).toBe(true);
+
+    const report = await verifySessionReplay(backend, sessionId);
+
+    expect(report.divergence).toBeUndefined();
+  });
+
+  it('should report the first turn whose recorded deltas differ', async () => {
+    const { backend, sessionLoader } = await playSession(["I search the area", "I climb the wall"]);
+
+    // Tamper with the recording of the last turn
+    const lastTurnId = await sessionLoader.getLastTurnId(sessionId);
+    const [turn] = await sessionLoader.loadTurns(sessionId, lastTurnId, lastTurnId);
+    await backend.truncate(sessionId, 'turns', lastTurnId - 1);
+    await backend.append(sessionId, 'turns', { ...turn, narration: 'Something else happened.' });
+
+    const report = await verifySessionReplay(backend, sessionId);
+
+    expect(report.divergence).toMatchObject({ turn: lastTurnId, type: 'turn', paths: ['narration'] });
+    expect(report.turnsCompared).toBe(report.totalTurns - 1);
+  });
+
+  it('should refuse sessions without a recorded seed', async () => {
+    const { sessionWriter, backend } = await playSession([]);
+    await sessionWriter.updateSessionMetadata(sessionId, metadata => { delete metadata.seed; });
+
+    await expect(verifySessionReplay(backend, sessionId)).rejects.toThrow('no recorded seed');
+  });
+});
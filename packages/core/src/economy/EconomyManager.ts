@@ -12,7 +12,11 @@ export interface FactionPriceModifier {
 }
 
 export class EconomyManager {
-  
+  /**
+   * @param newId Id source for item instances, e.g. a seeded generator so replays match
+   */
+  constructor(private newId: () => string = uuidv4) {}
+
   /**
    * Calculate price modifier based on faction reputation
    * Reputation ranges from -100 (hostile) to +100 (ally)
@@ -135,7 +139,7 @@ export class EconomyManager {
     // Create a copy of the item for the buyer
     const buyerItem: Item = {
       ...shopItem,
-      id: uuidv4(), // New ID for the instance
+      id: this.newId(), // New ID for the instance
       quantity: quantity
     };
     
@@ -150,7 +154,7 @@ export class EconomyManager {
 
     // Record transaction
     const transaction: Transaction = {
-      id: uuidv4(),
+      id: this.newId(),
       buyerId: buyer.id,
       sellerId: shop.id,
       items: [{ itemId: shopItem.id, quantity, pricePerUnit: unitPrice }],
@@ -213,13 +217,13 @@ export class EconomyManager {
     } else {
       shop.inventory.push({
         ...item,
-        id: uuidv4(),
+        id: this.newId(),
         quantity: quantity
       });
     }
 
     const transaction: Transaction = {
-      id: uuidv4(),
+      id: this.newId(),
       buyerId: shop.id,
       sellerId: seller.id,
       items: [{ itemId: item.id, quantity, pricePerUnit: unitPrice }],
@@ -12,7 +12,9 @@ import { FateDice } from '../fate/FateDice';
 export class CraftingManager {
   constructor(
     private actionResolver: ActionResolver,
-    private fateDice: FateDice
+    private fateDice: FateDice,
+    // Id source for crafted items, e.g. a seeded generator so replays match
+    private newId: () => string = uuidv4
   ) {}
 
   /**
@@ -123,7 +125,7 @@ export class CraftingManager {
     // 5. Generate Results
     const createdItems: Item[] = recipe.results.map(resultTemplate => ({
         ...resultTemplate,
-        id: uuidv4(), // New unique ID
+        id: this.newId(), // New unique ID
         quantity: resultTemplate.quantity // Base quantity
         // Could add quality bonuses based on shifts here
     }));
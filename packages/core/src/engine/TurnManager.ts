@@ -67,4 +67,19 @@ export class TurnManager {
   getCurrentTurn(): Turn | null {
     return this.currentTurn;
   }
+
+  /**
+   * Number of turns started so far, i.e. the id of the latest turn.
+   */
+  getTurnCount(): number {
+    return this.turnCounter;
+  }
+
+  /**
+   * Moves the turn counter, e.g. to continue a loaded session or after rewinding turns.
+   */
+  setTurnCount(turnCount: number): void {
+    this.turnCounter = turnCount;
+    this.currentTurn = null;
+  }
 }
@@ -26,12 +26,14 @@ export class ActionResolver {
    * @param skillRating The character's skill level (e.g., +3 for Good)
    * @param difficulty The target number to beat (e.g., +2 for Fair)
    * @param invokes Array of aspect invocations applied to this roll
+   * @param random Source of randomness for rerolls, returning values in [0, 1)
    */
   static resolve(
     roll: FateRollResult,
     skillRating: number,
     difficulty: number,
     invokes: InvokeBonus[] = [],
+    random: () => number = Math.random,
   ): ResolutionResult {
     // Calculate invoke bonuses
     let invokeBonus = 0;
@@ -41,10 +43,10 @@ export class ActionResolver {
     let finalRoll = roll;
     if (rerollUsed) {
       const dice: [FateDieResult, FateDieResult, FateDieResult, FateDieResult] = [
-          (Math.floor(Math.random() * 3) - 1) as FateDieResult,
-          (Math.floor(Math.random() * 3) - 1) as FateDieResult,
-          (Math.floor(Math.random() * 3) - 1) as FateDieResult,
-          (Math.floor(Math.random() * 3) - 1) as FateDieResult
+          (Math.floor(random() * 3) - 1) as FateDieResult,
+          (Math.floor(random() * 3) - 1) as FateDieResult,
+          (Math.floor(random() * 3) - 1) as FateDieResult,
+          (Math.floor(random() * 3) - 1) as FateDieResult
       ];
       const total = dice.reduce((sum: number, die: number) => sum + die, 0);
       const reroll: FateRollResult = { dice, total };
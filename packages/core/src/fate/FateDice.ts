@@ -14,6 +14,14 @@ export class FateDice {
     this.rng = new SeededRNG(seed);
   }
 
+  /**
+   * Restarts the dice from a new seed. Holders of this instance see the new
+   * sequence too.
+   */
+  reseed(seed: number) {
+    this.rng = new SeededRNG(seed);
+  }
+
   /**
    * Rolls 4 Fate dice.
    * Each die is -1, 0, or +1.
@@ -1,6 +1,7 @@
 export const CORE_VERSION = '0.0.1';
 
 export * from './utils/Random';
+export * from './utils/TurnTracer';
 export * from './fate/FateDice';
 export * from './fate/ActionResolver';
 export * from './fate/TheLadder';
@@ -8,6 +9,9 @@ export * from './fate/AdvancementManager';
 
 export * from './types/events';
 export * from './types/turn';
+export * from './types/llm';
+export * from './types/trace';
+export * from './types/summary';
 export * from './engine/TurnManager';
 
 export * from './types/state';
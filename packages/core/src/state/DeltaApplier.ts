@@ -1,19 +1,12 @@
-import { Delta } from '../types/state';
-
-export function applyDelta(state: any, delta: Delta): any {
-  // We will mutate the state for performance in replay scenarios.
-  // If immutability is required, the caller should clone the state first.
-
-  let root: any;
+import { Delta, DeltaOperation } from '../types/state';
 
+function getTargetRoot(state: any, delta: Delta): any {
   // Map target to state root property
   switch (delta.target) {
     case 'player':
-      root = state.player;
-      break;
+      return state.player;
     case 'world':
-      root = state.world;
-      break;
+      return state.world;
     case 'npc':
       // Assuming state.npcs is a map/record
       // The first element of path might be the NPC ID if not handled otherwise?
@@ -29,20 +22,57 @@ export function applyDelta(state: any, delta: Delta): any {
       
       // If `target` is 'npc', `path` MUST start with NPC ID or we have a problem.
       // Let's assume `state.npcs` exists.
-      root = state.npcs;
-      break;
+      return state.npcs;
     case 'scene':
-      root = state.currentScene;
-      break;
+      // Sessions save the current scene with the world state
+      return state.world?.currentScene;
     case 'location':
       // Assuming state.world.locations
-      root = state.world.locations;
-      break;
+      return state.world.locations;
     default:
       // Fallback or other targets
-      root = state;
-      break;
+      return state;
   }
+}
+
+// Operations that only take something away, so missing parents mean there is nothing to do
+const REMOVALS: DeltaOperation[] = ['remove', 'delete', 'destroy'];
+
+function sameValue(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+/**
+ * How much an increment or decrement changes its value. Deltas record the
+ * value before and after; deltas without a numeric previous value carry the
+ * amount itself in `newValue`.
+ */
+function amountOf(delta: Delta): number {
+  if (typeof delta.previousValue === 'number' && typeof delta.newValue === 'number') {
+    return Math.abs(delta.newValue - delta.previousValue);
+  }
+  return delta.newValue as number;
+}
+
+/**
+ * Applies a delta to a full session state.
+ *
+ * - `set` writes `newValue` at the path.
+ * - `create` does the same, but inserts when the parent is an array.
+ * - `delete` and `destroy` remove the value at the path, splicing it out of
+ *   an array parent. `previousValue` holds what was removed.
+ * - `increment` and `decrement` change a number by the difference between
+ *   `previousValue` and `newValue`.
+ * - `append`, `insert` and `remove` treat the path as an array and
+ *   `newValue` as the item. `insert` and `remove` use `index` when it is
+ *   set; without it `insert` appends and `remove` takes out the last
+ *   matching item.
+ */
+export function applyDelta(state: any, delta: Delta): any {
+  // We will mutate the state for performance in replay scenarios.
+  // If immutability is required, the caller should clone the state first.
+
+  const root = getTargetRoot(state, delta);
 
   if (!root) {
     console.warn(`Target root not found for delta: ${delta.target}`);
@@ -56,7 +86,10 @@ export function applyDelta(state: any, delta: Delta): any {
   // For the last element, we perform the operation
   for (let i = 0; i < path.length - 1; i++) {
     const key = path[i];
-    if (current[key] === undefined) {
+    if (current[key] === undefined || current[key] === null) {
+      if (REMOVALS.includes(delta.operation)) {
+        return state;
+      }
       // Create intermediate objects if missing (for 'create' ops deep in structure)
       current[key] = {};
     }
@@ -64,50 +97,62 @@ export function applyDelta(state: any, delta: Delta): any {
   }
 
   const lastKey = path[path.length - 1];
+  const arrayIndex = Array.isArray(current) ? parseInt(lastKey) : NaN;
 
   switch (delta.operation) {
     case 'set':
       current[lastKey] = delta.newValue;
       break;
+    case 'create':
+      if (!isNaN(arrayIndex)) {
+        current.splice(arrayIndex, 0, delta.newValue);
+      } else {
+        current[lastKey] = delta.newValue;
+      }
+      break;
+    case 'delete':
+    case 'destroy':
+      if (!isNaN(arrayIndex)) {
+        current.splice(arrayIndex, 1);
+      } else {
+        delete current[lastKey];
+      }
+      break;
     case 'increment':
-      current[lastKey] = (current[lastKey] || 0) + (delta.newValue as number);
+      current[lastKey] = (current[lastKey] || 0) + amountOf(delta);
       break;
     case 'decrement':
-      current[lastKey] = (current[lastKey] || 0) - (delta.newValue as number);
+      current[lastKey] = (current[lastKey] || 0) - amountOf(delta);
       break;
     case 'append':
+    case 'insert':
       if (!Array.isArray(current[lastKey])) {
         current[lastKey] = [];
       }
-      current[lastKey].push(delta.newValue);
+      if (delta.operation === 'insert' && delta.index !== undefined) {
+        current[lastKey].splice(delta.index, 0, delta.newValue);
+      } else {
+        current[lastKey].push(delta.newValue);
+      }
       break;
-    case 'remove':
-      if (Array.isArray(current[lastKey])) {
-        // If newValue is the item to remove
-        const index = current[lastKey].indexOf(delta.newValue);
-        if (index > -1) {
-          current[lastKey].splice(index, 1);
+    case 'remove': {
+      const list = current[lastKey];
+      if (!Array.isArray(list)) {
+        console.warn(`Cannot remove from non-array at ${path.join('.')}`);
+        break;
+      }
+      if (delta.index !== undefined) {
+        list.splice(delta.index, 1);
+        break;
+      }
+      for (let i = list.length - 1; i >= 0; i--) {
+        if (sameValue(list[i], delta.newValue)) {
+          list.splice(i, 1);
+          break;
         }
-      } else if (typeof current[lastKey] === 'object') {
-         delete current[lastKey];
       }
       break;
-    case 'delete':
-       if (Array.isArray(current)) {
-           // If lastKey is index
-           const idx = parseInt(lastKey);
-           if (!isNaN(idx)) {
-               current.splice(idx, 1);
-           }
-       } else {
-           delete current[lastKey];
-       }
-       break;
-    case 'create':
-       // Similar to set, but implies it didn't exist
-       current[lastKey] = delta.newValue;
-       break;
-    // ... handle other ops
+    }
     default:
       console.warn(`Unknown operation: ${delta.operation}`);
       break;
@@ -115,3 +160,57 @@ export function applyDelta(state: any, delta: Delta): any {
 
   return state;
 }
+
+/**
+ * Copy of the delta without its array position, for operations that don't use one.
+ */
+function withoutIndex(delta: Delta): Delta {
+  const copy = { ...delta };
+  delete copy.index;
+  return copy;
+}
+
+/**
+ * Returns the delta that undoes `delta`: applying both, in order, leaves the
+ * state as it was. A `set` without a previous value is undone by deleting the
+ * key, an `append` by removing the last matching item, and a `remove` without
+ * an index by appending the item again.
+ */
+export function invertDelta(delta: Delta): Delta {
+  const rest = withoutIndex(delta);
+
+  switch (delta.operation) {
+    case 'set':
+      return delta.previousValue === undefined
+        ? { ...rest, operation: 'delete', previousValue: delta.newValue, newValue: undefined }
+        : { ...rest, previousValue: delta.newValue, newValue: delta.previousValue };
+    case 'create':
+      return { ...rest, operation: 'destroy', previousValue: delta.newValue, newValue: undefined };
+    case 'delete':
+    case 'destroy':
+      return { ...rest, operation: 'create', previousValue: undefined, newValue: delta.previousValue };
+    case 'increment':
+    case 'decrement': {
+      const operation = delta.operation === 'increment' ? 'decrement' : 'increment';
+      return typeof delta.previousValue === 'number'
+        ? { ...rest, operation, previousValue: delta.newValue, newValue: delta.previousValue }
+        : { ...rest, operation };
+    }
+    case 'append':
+      return { ...rest, operation: 'remove' };
+    case 'insert':
+      return delta.index === undefined ? { ...rest, operation: 'remove' } : { ...delta, operation: 'remove' };
+    case 'remove':
+      return delta.index === undefined ? { ...rest, operation: 'append' } : { ...delta, operation: 'insert' };
+    default:
+      throw new Error(`Cannot invert unknown delta operation: ${delta.operation}`);
+  }
+}
+
+/**
+ * Reverts a previously applied delta by applying its inverse. Deltas must be
+ * reverted newest first.
+ */
+export function revertDelta(state: any, delta: Delta): any {
+  return applyDelta(state, invertDelta(delta));
+}
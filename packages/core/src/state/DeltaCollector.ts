@@ -6,6 +6,7 @@ export interface DeltaRequest {
   path: string[];
   previousValue: any;
   newValue: any;
+  index?: number;
   cause: string;
   eventId: string;
 }
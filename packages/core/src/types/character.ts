@@ -65,6 +65,8 @@ export interface CharacterDefinition {
     severe?: string;
   };
   fatePoints: number;
+  /** Turn the player first shared a location with this character */
+  firstEncounteredTurn?: number;
 
   // === RELATIONSHIPS ===
   relationships: Relationship[];
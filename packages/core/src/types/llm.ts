@@ -0,0 +1,34 @@
+/**
+ * One call made to an LLM provider, as recorded in a session's LLM call log.
+ */
+export interface LLMCallRecord {
+  turnId: number; // Turn being processed when the call was made (0 = world setup)
+  sequence: number; // Order of the call within the turn
+  timestamp: number;
+
+  // Who made the call
+  system: string; // e.g. "DecisionEngine"
+  method?: string; // e.g. "classifyIntent"
+  actor: 'gm' | 'npc' | 'player';
+
+  // What was sent
+  systemPrompt: string;
+  userPrompt: string;
+  parameters: {
+    temperature?: number;
+    maxTokens?: number;
+    stop?: string[];
+    jsonMode?: boolean;
+  };
+
+  // What came back
+  response?: string;
+  model?: string;
+  usage?: {
+    promptTokens: number;
+    completionTokens: number;
+    totalTokens: number;
+  };
+  latencyMs: number;
+  error?: string; // Set instead of response when the call failed
+}
@@ -36,6 +36,8 @@ export interface Delta {
   // Change details
   previousValue: any;
   newValue: any;
+  // Array position for 'insert' and 'remove'
+  index?: number;
 
   // Metadata
   cause: string;
@@ -0,0 +1,18 @@
+/**
+ * How much of the story a summary covers: a scene's turns, several scenes
+ * (a chapter), or everything before the chapters still kept (the campaign).
+ */
+export type SummaryLevel = 'scene' | 'chapter' | 'campaign';
+
+/**
+ * A summary of turns that have left the GM's history, as kept in a session's
+ * summary log. Higher levels replace the summaries they were written from.
+ */
+export interface StorySummary {
+  turnId: number; // Turn being processed when the summary was written
+  level: SummaryLevel;
+  fromTurn: number; // First turn covered
+  toTurn: number; // Last turn covered
+  sceneId?: string; // Scene summaries only
+  text: string;
+}
@@ -0,0 +1,34 @@
+/**
+ * One timed call into a game subsystem while a turn was processed, e.g.
+ * `DecisionEngine.classifyIntent`.
+ */
+export interface TraceSpan {
+  name: string; // "{system}.{method}"
+  startMs: number; // Offset from the start of the turn
+  durationMs: number;
+  error?: string; // Set when the call threw
+
+  // LLM usage of the calls made inside the span
+  llmCalls: number;
+  promptTokens: number;
+  completionTokens: number;
+}
+
+/**
+ * The spans recorded for one turn, as kept in a session's trace log.
+ */
+export interface TurnTrace {
+  turnId: number;
+  timestamp: number; // Real world time the turn started
+  durationMs: number;
+  spans: TraceSpan[];
+}
+
+/**
+ * Summary of a turn's trace stored on the turn itself: total time and the
+ * time spent in each stage, summed over repeated calls.
+ */
+export interface TurnTiming {
+  durationMs: number;
+  stages: Record<string, number>;
+}
@@ -1,4 +1,5 @@
 import { GameEvent } from './events';
+import { TurnTiming } from './trace';
 
 export interface GameTime {
   day: number;
@@ -13,6 +14,19 @@ export interface TurnContext {
   model: string;
 }
 
+/**
+ * What the player submitted to produce a turn, kept so the session can be
+ * re-executed by the replay verifier.
+ */
+export interface PlayerInput {
+  action: string;
+  skipCompelCheck?: boolean;
+  fatePointsSpent?: number;
+  aspectInvokes?: Array<{ aspectName: string; bonus: '+2' | 'reroll' }>;
+  /** Earlier actions that ended without a turn of their own, e.g. when a compel was offered */
+  preceding?: Array<{ action: string; compelAccepted?: boolean }>;
+}
+
 export interface Turn {
   turnId: number;
   turnNumber: number; // Within scene
@@ -27,6 +41,12 @@ export interface Turn {
   narration?: string; // GM narration of the turn's events
   
   playerReasoning?: string; // AI player's reasoning for their action (if applicable)
+
+  playerInput?: PlayerInput; // Player turns only
   
   llmContext?: TurnContext;
+
+  timing?: TurnTiming; // Where the time processing the turn went, see TurnTracer
+
+  deltaChecksum?: string; // Hash of this turn's deltas, chained to the previous turn's checksum
 }
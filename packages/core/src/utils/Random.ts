@@ -26,3 +26,18 @@ export class SeededRNG {
     return Math.floor(this.next() * (max - min + 1)) + min;
   }
 }
+
+/**
+ * Derives an independent seed from a base seed and a salt (e.g. a turn id),
+ * so each turn can be replayed without replaying the ones before it.
+ */
+export function deriveSeed(seed: number, salt: number): number {
+  // FNV-1a over both values, kept within the LCG's 31-bit range
+  const text = `${seed}:${salt}`;
+  let hash = 2166136261;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 16777619);
+  }
+  return (hash >>> 0) % 2147483648;
+}
@@ -0,0 +1,150 @@
+import { LLMCallRecord } from '../types/llm';
+import { TraceSpan, TurnTiming, TurnTrace } from '../types/trace';
+
+/**
+ * Times the calls made into game subsystems while a turn is processed.
+ * Subsystems are traced by wrapping them, so every async method called
+ * through the wrapper becomes a span; calls a subsystem makes on itself are
+ * part of the outer span.
+ */
+export class TurnTracer {
+  private turnId = 0;
+  private timestamp = 0;
+  private startedAt = 0;
+  private spans: TraceSpan[] = [];
+  private open: TraceSpan[] = [];
+
+  constructor(private now: () => number = () => performance.now()) {}
+
+  /**
+   * Starts tracing a turn, discarding whatever was recorded since the last
+   * endTurn, e.g. for an action that was interrupted by a compel.
+   */
+  beginTurn(turnId: number) {
+    this.turnId = turnId;
+    this.timestamp = Date.now();
+    this.startedAt = this.now();
+    this.spans = [];
+    this.open = [];
+  }
+
+  /**
+   * Finishes the current turn and returns its trace. Spans still running are
+   * left out.
+   */
+  endTurn(): TurnTrace {
+    const trace: TurnTrace = {
+      turnId: this.turnId,
+      timestamp: this.timestamp,
+      durationMs: Math.round(this.now() - this.startedAt),
+      spans: [...this.spans]
+    };
+    this.spans = [];
+    this.open = [];
+    return trace;
+  }
+
+  /**
+   * Returns a proxy for `target` that records a span named
+   * `{system}.{method}` for each async method call. A method returning an
+   * async iterator is timed until the iterator finishes.
+   */
+  wrap<T extends object>(target: T, system: string): T {
+    return new Proxy(target, {
+      get: (object, property) => {
+        const value = Reflect.get(object, property);
+        if (typeof value !== 'function' || typeof property !== 'string' || property === 'constructor') {
+          return value;
+        }
+        return (...args: unknown[]) => this.trace(`${system}.${property}`, () => value.apply(object, args));
+      }
+    });
+  }
+
+  /**
+   * Attributes an LLM call's token usage to the span that made it: the open
+   * span for the same method if there is one, otherwise the latest open span
+   * of the same system.
+   */
+  recordLLMCall(record: LLMCallRecord) {
+    const running = [...this.open].reverse();
+    const span = running.find(s => s.name === `${record.system}.${record.method}`)
+      ?? running.find(s => s.name.startsWith(`${record.system}.`));
+    if (!span) return;
+
+    span.llmCalls++;
+    span.promptTokens += record.usage?.promptTokens ?? 0;
+    span.completionTokens += record.usage?.completionTokens ?? 0;
+  }
+
+  private trace<T>(name: string, call: () => T): T {
+    const start = this.now();
+    const span: TraceSpan = { name, startMs: Math.round(start - this.startedAt), durationMs: 0, llmCalls: 0, promptTokens: 0, completionTokens: 0 };
+    const spans = this.spans;
+    const finish = (error?: unknown) => {
+      span.durationMs = Math.round(this.now() - start);
+      if (error !== undefined) {
+        span.error = (error as Error)?.message ?? String(error);
+      }
+      this.open = this.open.filter(s => s !== span);
+      spans.push(span);
+    };
+
+    this.open.push(span);
+    let result: T;
+    try {
+      result = call();
+    } catch (error) {
+      this.open = this.open.filter(s => s !== span);
+      throw error;
+    }
+
+    if (isAsyncIterator(result)) {
+      return traceIterator(result, finish) as T;
+    }
+
+    if (!(result instanceof Promise)) {
+      // Synchronous helpers take no measurable time and would only add noise
+      this.open = this.open.filter(s => s !== span);
+      return result;
+    }
+
+    return result.then(
+      value => {
+        finish();
+        return value;
+      },
+      error => {
+        finish(error);
+        throw error;
+      }
+    ) as T;
+  }
+}
+
+function isAsyncIterator(value: unknown): value is AsyncIterableIterator<unknown> {
+  return typeof value === 'object' && value !== null
+    && typeof (value as AsyncIterableIterator<unknown>)[Symbol.asyncIterator] === 'function'
+    && typeof (value as AsyncIterableIterator<unknown>).next === 'function';
+}
+
+async function* traceIterator<T>(iterator: AsyncIterableIterator<T>, finish: (error?: unknown) => void): AsyncIterableIterator<T> {
+  try {
+    yield* iterator;
+  } catch (error) {
+    finish(error);
+    throw error;
+  }
+  finish();
+}
+
+/**
+ * Sums a trace's spans per stage for storing on the turn.
+ */
+export function summarizeTrace(trace: TurnTrace): TurnTiming {
+  const stages: Record<string, number> = {};
+  for (const span of trace.spans) {
+    stages[span.name] = (stages[span.name] ?? 0) + span.durationMs;
+  }
+  return { durationMs: trace.durationMs, stages };
+}
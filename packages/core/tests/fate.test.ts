@@ -1,5 +1,5 @@
 import { describe, it, expect } from 'vitest';
-import { FateDice, ActionResolver, FATE_LADDER, getLadderName } from '../src';
+import { FateDice, ActionResolver, FATE_LADDER, getLadderName, deriveSeed } from '../src';
 
 describe('Fate System', () => {
   describe('FateDice', () => {
@@ -25,6 +25,16 @@ describe('Fate System', () => {
       expect(roll1).not.toEqual(roll2);
     });
 
+    it('should restart the sequence when reseeded', () => {
+      const roller = new FateDice(deriveSeed(12345, 7));
+      const first = roller.roll();
+      roller.roll();
+
+      roller.reseed(deriveSeed(12345, 7));
+      expect(roller.roll()).toEqual(first);
+      expect(deriveSeed(12345, 7)).not.toBe(deriveSeed(12345, 8));
+    });
+
     it('should always return values between -4 and +4', () => {
       const roller = new FateDice(Date.now());
       for (let i = 0; i < 100; i++) {
@@ -1,5 +1,7 @@
 import { describe, it, expect } from 'vitest';
 import { DeltaCollector } from '../src/state/DeltaCollector';
+import { applyDelta, invertDelta, revertDelta } from '../src/state/DeltaApplier';
+import { Delta } from '../src/types/state';
 
 describe('DeltaCollector', () => {
   it('should collect deltas with correct metadata', () => {
@@ -66,3 +68,132 @@ describe('DeltaCollector', () => {
     expect(collector.getDeltas()).toHaveLength(1);
   });
 });
+
+describe('revertDelta', () => {
+  const makeDelta = (overrides: Partial<Delta>): Delta => ({
+    deltaId: 'session-1-1-1',
+    turnId: 1,
+    sequence: 1,
+    timestamp: 0,
+    target: 'player',
+    operation: 'set',
+    path: [],
+    previousValue: undefined,
+    newValue: undefined,
+    cause: 'test',
+    eventId: 'e1',
+    ...overrides,
+  });
+
+  it('should restore the previous value of a set', () => {
+    const state = { player: { fatePoints: { current: 3 } }, world: {} };
+    const delta = makeDelta({ path: ['fatePoints', 'current'], previousValue: 3, newValue: 1 });
+
+    applyDelta(state, delta);
+    expect(state.player.fatePoints.current).toBe(1);
+
+    revertDelta(state, delta);
+    expect(state.player.fatePoints.current).toBe(3);
+  });
+
+  it('should remove an appended item', () => {
+    const state = { player: {}, world: { locations: { loc1: { aspects: [{ name: 'Dark' }] } } } };
+    const delta = makeDelta({
+      target: 'world',
+      operation: 'append',
+      path: ['locations', 'loc1', 'aspects'],
+      previousValue: null,
+      newValue: { name: 'On Fire' },
+    });
+
+    applyDelta(state, delta);
+    expect(state.world.locations.loc1.aspects).toHaveLength(2);
+
+    revertDelta(state, delta);
+    expect(state.world.locations.loc1.aspects).toEqual([{ name: 'Dark' }]);
+  });
+
+  it('should delete keys that did not exist before', () => {
+    const state: any = { player: {}, world: {} };
+    const delta = makeDelta({ target: 'world', path: ['currentScene'], previousValue: undefined, newValue: { id: 's1' } });
+
+    applyDelta(state, delta);
+    revertDelta(state, delta);
+    expect('currentScene' in state.world).toBe(false);
+  });
+
+  it('should undo increments recorded as before and after values', () => {
+    const state = { player: { fatePoints: { current: 3 } }, world: {} };
+    const delta = makeDelta({ operation: 'increment', path: ['fatePoints', 'current'], previousValue: 3, newValue: 4 });
+
+    applyDelta(state, delta);
+    expect(state.player.fatePoints.current).toBe(4);
+
+    revertDelta(state, delta);
+    expect(state.player.fatePoints.current).toBe(3);
+  });
+
+  it('should round-trip every operation through its inverse', () => {
+    const deltas: Delta[] = [
+      makeDelta({ operation: 'set', path: ['name'], previousValue: 'Hero', newValue: 'Villain' }),
+      makeDelta({ operation: 'create', path: ['pet'], newValue: { name: 'Rex' } }),
+      makeDelta({ operation: 'destroy', path: ['title'], previousValue: 'Sir' }),
+      makeDelta({ operation: 'delete', path: ['aspects', '1'], previousValue: 'Brave' }),
+      makeDelta({ operation: 'decrement', path: ['wealth'], previousValue: 10, newValue: 7 }),
+      makeDelta({ operation: 'increment', path: ['milestones', 'minor'], newValue: 2 }),
+      makeDelta({ operation: 'insert', path: ['inventory'], index: 0, newValue: 'rope' }),
+      makeDelta({ operation: 'remove', path: ['inventory'], index: 3, newValue: 'torch' }),
+      makeDelta({ operation: 'append', path: ['inventory'], newValue: 'sword' }),
+    ];
+    const initial = {
+      player: {
+        name: 'Hero',
+        title: 'Sir',
+        aspects: ['Bold', 'Brave', 'Kind'],
+        wealth: 10,
+        milestones: { minor: 1 },
+        inventory: ['sword', 'map', 'torch'],
+      },
+      world: {},
+    };
+    const state = JSON.parse(JSON.stringify(initial));
+
+    for (const delta of deltas) {
+      applyDelta(state, delta);
+    }
+    expect(state.player).toEqual({
+      name: 'Villain',
+      pet: { name: 'Rex' },
+      aspects: ['Bold', 'Kind'],
+      wealth: 7,
+      milestones: { minor: 3 },
+      inventory: ['rope', 'sword', 'map', 'sword'],
+    });
+
+    for (const delta of [...deltas].reverse()) {
+      applyDelta(state, invertDelta(delta));
+    }
+    expect(state).toEqual(initial);
+  });
+
+  it('should put an item removed from the middle of a list back in place', () => {
+    const state = { player: { inventory: ['sword', 'map', 'torch'] }, world: {} };
+    const delta = makeDelta({ operation: 'remove', path: ['inventory'], index: 1, newValue: 'map' });
+
+    applyDelta(state, delta);
+    expect(state.player.inventory).toEqual(['sword', 'torch']);
+
+    revertDelta(state, delta);
+    expect(state.player.inventory).toEqual(['sword', 'map', 'torch']);
+  });
+
+  it('should invert each operation into its counterpart', () => {
+    const inverse = (overrides: Partial<Delta>) => invertDelta(makeDelta(overrides));
+
+    expect(inverse({ operation: 'set', previousValue: undefined, newValue: 1 })).toMatchObject({ operation: 'delete', previousValue: 1 });
+    expect(inverse({ operation: 'create', newValue: 1 })).toMatchObject({ operation: 'destroy', previousValue: 1 });
+    expect(inverse({ operation: 'append', newValue: 'a' })).toMatchObject({ operation: 'remove', newValue: 'a' });
+    expect(inverse({ operation: 'remove', newValue: 'a', index: 2 })).toMatchObject({ operation: 'insert', newValue: 'a', index: 2 });
+    expect(invertDelta(invertDelta(makeDelta({ operation: 'insert', newValue: 'a', index: 2 })))).toMatchObject({ operation: 'insert', index: 2 });
+  });
+});
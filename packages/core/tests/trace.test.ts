@@ -0,0 +1,110 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { TurnTracer, summarizeTrace } from '../src/utils/TurnTracer';
+import { LLMCallRecord } from '../src/types/llm';
+
+class Engine {
+  constructor(private onCall: () => void = () => {}) {}
+
+  async classify(text: string): Promise<string> {
+    clock += 30;
+    this.onCall();
+    return this.label(text);
+  }
+
+  async narrate(): Promise<string> {
+    clock += 100;
+    throw new Error('model unavailable');
+  }
+
+  async *stream(words: string[]): AsyncIterableIterator<string> {
+    for (const word of words) {
+      clock += 5;
+      yield word;
+    }
+  }
+
+  label(text: string): string {
+    return text.toUpperCase();
+  }
+}
+
+let clock = 0;
+
+function llmCall(system: string, method: string, promptTokens: number, completionTokens: number): LLMCallRecord {
+  return {
+    turnId: 1,
+    sequence: 1,
+    timestamp: 0,
+    system,
+    method,
+    actor: 'gm',
+    systemPrompt: '',
+    userPrompt: '',
+    parameters: {},
+    usage: { promptTokens, completionTokens, totalTokens: promptTokens + completionTokens },
+    latencyMs: 0
+  };
+}
+
+describe('TurnTracer', () => {
+  let tracer: TurnTracer;
+
+  beforeEach(() => {
+    clock = 0;
+    tracer = new TurnTracer(() => clock);
+  });
+
+  it('should record a span for each async call through a wrapped subsystem', async () => {
+    const engine = tracer.wrap(new Engine(), 'Engine');
+
+    tracer.beginTurn(7);
+    clock = 10;
+    expect(await engine.classify('look')).toBe('LOOK');
+    expect(engine.label('sync')).toBe('SYNC');
+    await expect(engine.narrate()).rejects.toThrow('model unavailable');
+    const trace = tracer.endTurn();
+
+    expect(trace).toMatchObject({ turnId: 7, durationMs: 140 });
+    expect(trace.spans).toMatchObject([
+      { name: 'Engine.classify', startMs: 10, durationMs: 30 },
+      { name: 'Engine.narrate', startMs: 40, durationMs: 100, error: 'model unavailable' }
+    ]);
+    expect(summarizeTrace(trace)).toEqual({ durationMs: 140, stages: { 'Engine.classify': 30, 'Engine.narrate': 100 } });
+  });
+
+  it('should time a streaming call until its iterator finishes', async () => {
+    const engine = tracer.wrap(new Engine(), 'Engine');
+
+    tracer.beginTurn(3);
+    const words: string[] = [];
+    for await (const word of engine.stream(['a', 'b', 'c'])) {
+      words.push(word);
+      clock += 10;
+    }
+
+    expect(words).toEqual(['a', 'b', 'c']);
+    expect(tracer.endTurn().spans).toMatchObject([{ name: 'Engine.stream', startMs: 0, durationMs: 45 }]);
+  });
+
+  it('should attribute LLM token usage to the span that made the call', async () => {
+    const engine = tracer.wrap(new Engine(() => {
+      tracer.recordLLMCall(llmCall('Engine', 'classify', 120, 8));
+      tracer.recordLLMCall(llmCall('Engine', 'helper', 30, 2));
+      tracer.recordLLMCall(llmCall('Other', 'classify', 999, 999));
+    }), 'Engine');
+
+    tracer.beginTurn(1);
+    await engine.classify('look');
+
+    expect(tracer.endTurn().spans[0]).toMatchObject({ llmCalls: 2, promptTokens: 150, completionTokens: 10 });
+  });
+
+  it('should discard spans from before the turn began', async () => {
+    const engine = tracer.wrap(new Engine(), 'Engine');
+
+    await engine.classify('setup');
+    tracer.beginTurn(2);
+
+    expect(tracer.endTurn().spans).toEqual([]);
+  });
+});
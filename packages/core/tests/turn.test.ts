@@ -67,4 +67,13 @@ describe('TurnManager', () => {
       manager.addEvent('move', 'fail');
     }).toThrow('No active turn');
   });
+
+  it('should continue numbering from a set turn count', () => {
+    manager.startTurn('player-1', 'scene-1', mockTime);
+    manager.setTurnCount(7);
+
+    expect(manager.getTurnCount()).toBe(7);
+    expect(manager.getCurrentTurn()).toBeNull();
+    expect(manager.startTurn('player-1', 'scene-1', mockTime).turnId).toBe(8);
+  });
 });
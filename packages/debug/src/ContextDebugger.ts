@@ -1,6 +1,8 @@
 import { ContextBuilder, ContextLayers } from '@llmrpg/llm';
 import { StateInspector } from './StateInspector';
 import { GameState } from '@llmrpg/protocol';
+import { LLMCallRecord } from '@llmrpg/core';
+import { SessionLoader } from '@llmrpg/storage';
 
 export interface BuiltContext {
     systemPrompt: string;
@@ -29,8 +31,70 @@ export interface ContextInspection {
   filteredKnowledge: string[];
 }
 
+/**
+ * A context that was actually sent to the LLM, read back from the session's
+ * call log.
+ */
+export interface RecordedContextInspection extends ContextInspection {
+  system: string;
+  method?: string;
+  sequence: number;
+  parameters: LLMCallRecord['parameters'];
+  response?: string;
+  error?: string;
+  model?: string;
+  latencyMs: number;
+}
+
 export class ContextDebugger {
-  constructor(private stateInspector: StateInspector) {}
+  constructor(
+    private stateInspector: StateInspector,
+    private loader?: SessionLoader
+  ) {}
+
+  // Read back the LLM calls recorded for a turn, optionally for one actor
+  async getRecordedCalls(
+    sessionId: string,
+    turn: number,
+    actor?: 'gm' | 'npc' | 'player'
+  ): Promise<LLMCallRecord[]> {
+    if (!this.loader) {
+      throw new Error('ContextDebugger needs a SessionLoader to read recorded calls');
+    }
+    const calls = await this.loader.loadLLMCalls(sessionId, turn, turn);
+    return actor ? calls.filter(call => call.actor === actor) : calls;
+  }
+
+  // See exactly what was sent to and returned by the LLM on a turn
+  async inspectRecordedContext(
+    sessionId: string,
+    turn: number,
+    actor?: 'gm' | 'npc' | 'player'
+  ): Promise<RecordedContextInspection[]> {
+    const calls = await this.getRecordedCalls(sessionId, turn, actor);
+    return calls.map(call => ({
+      actor: call.actor,
+      turn: call.turnId,
+      systemPrompt: call.systemPrompt,
+      userMessage: call.userPrompt,
+      tokenCount: call.usage?.promptTokens ?? this.countTokens(call.systemPrompt, call.userPrompt),
+      breakdown: {
+        worldContext: '',
+        characterContext: '',
+        sessionContext: '',
+        immediateContext: call.userPrompt,
+      },
+      filteredKnowledge: [],
+      system: call.system,
+      method: call.method,
+      sequence: call.sequence,
+      parameters: call.parameters,
+      response: call.response,
+      error: call.error,
+      model: call.model,
+      latencyMs: call.latencyMs,
+    }));
+  }
 
   // See exactly what context was sent to LLM
   async inspectContext(
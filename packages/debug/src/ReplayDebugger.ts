@@ -1,6 +1,7 @@
 import { EventEmitter } from 'events';
 import { GameState } from '@llmrpg/protocol';
-import { Turn, Delta, applyDelta } from '@llmrpg/core';
+import { Turn, Delta, applyDelta, revertDelta } from '@llmrpg/core';
+import { SessionLoader } from '@llmrpg/storage';
 
 // Simple EventBus interface
 export interface EventBus {
@@ -25,17 +26,88 @@ export interface TurnResult {
     watchedPath?: string;
 }
 
+/**
+ * Dot path of the state a delta changes, e.g. `player.fatePoints.current`.
+ * Delta paths are relative to their target, mirrored here from applyDelta.
+ */
+export function getDeltaStatePath(delta: Delta): string {
+    const roots: Record<string, string[]> = {
+        player: ['player'],
+        world: ['world'],
+        npc: ['npcs'],
+        scene: ['world', 'currentScene'],
+        location: ['world', 'locations'],
+    };
+    return [...(roots[delta.target] ?? []), ...delta.path].join('.');
+}
+
+/**
+ * True if changing `changedPath` may change the value at `watchedPath`,
+ * i.e. one path is the other or contains it.
+ */
+export function pathsOverlap(watchedPath: string, changedPath: string): boolean {
+    return watchedPath === changedPath
+        || watchedPath.startsWith(`${changedPath}.`)
+        || changedPath.startsWith(`${watchedPath}.`);
+}
+
+/**
+ * Reads a dot path such as `player.fatePoints.current` out of a state object.
+ */
+export function getStatePath(state: unknown, path: string): unknown {
+    if (!path) return state;
+    return path.split('.').reduce<unknown>(
+        (value, key) => value === null || typeof value !== 'object' ? undefined : (value as Record<string, unknown>)[key],
+        state
+    );
+}
+
+/**
+ * Loads everything a ReplayDebugger needs from storage, starting from the
+ * session's initial snapshot. The current scene stays at `world.currentScene`,
+ * where the session saves it and where deltas change it.
+ */
+export async function loadReplaySession(loader: SessionLoader, sessionId: string): Promise<SessionData> {
+    const metadata = await loader.loadSessionMetadata(sessionId);
+    const totalTurns = await loader.getLastTurnId(sessionId);
+    const { world, player, npcs } = await loader.loadStateAtTurn(sessionId, 0);
+    const initialState: GameState = {
+        sessionId,
+        turn: 0,
+        world,
+        player,
+        npcs,
+        sessionAspects: [],
+        examinationHistory: [],
+        seed: metadata.seed ?? 0,
+    };
+
+    return {
+        metadata,
+        turns: totalTurns > 0 ? await loader.loadTurns(sessionId, 1, totalTurns) : [],
+        deltas: totalTurns > 0 ? await loader.loadDeltas(sessionId, 1, totalTurns) : [],
+        initialState,
+        totalTurns,
+    };
+}
+
 export class ReplayDebugger {
   private currentTurn: number = 0;
   private breakpoints: Set<number> = new Set();
   private watchedPaths: Set<string> = new Set();
   private currentState: GameState;
+  private deltasByTurn = new Map<number, Delta[]>();
 
   constructor(
     private session: SessionData,
     private eventBus: EventBus = new EventEmitter(),
   ) {
       this.currentState = JSON.parse(JSON.stringify(session.initialState));
+      for (const delta of session.deltas) {
+          const deltas = this.deltasByTurn.get(delta.turnId) ?? [];
+          deltas.push(delta);
+          this.deltasByTurn.set(delta.turnId, deltas);
+      }
   }
 
   // Step through turn by turn
@@ -54,6 +126,7 @@ export class ReplayDebugger {
     return this.executeTurn(this.currentTurn);
   }
 
+  // Undoes the current turn's deltas rather than replaying from the start
   async stepBackward(): Promise<TurnResult> {
     if (this.currentTurn <= 0) {
          return {
@@ -63,14 +136,45 @@ export class ReplayDebugger {
             changedPaths: [],
         };
     }
+    this.revertTurn(this.currentTurn);
     this.currentTurn--;
-    return this.rebuildStateAtTurn(this.currentTurn);
+    return this.describeTurn(this.currentTurn);
   }
 
-  // Jump to specific turn
+  // Jump to specific turn, applying or reverting only the turns in between
   async goToTurn(turn: number): Promise<TurnResult> {
-    this.currentTurn = turn;
-    return this.rebuildStateAtTurn(turn);
+    if (!Number.isInteger(turn) || turn < 0 || turn > this.session.totalTurns) {
+        throw new Error(`Turn ${turn} is out of range; valid turns are 0-${this.session.totalTurns}`);
+    }
+    while (this.currentTurn > turn) {
+        this.revertTurn(this.currentTurn);
+        this.currentTurn--;
+    }
+    while (this.currentTurn < turn) {
+        this.currentTurn++;
+        this.applyTurn(this.currentTurn);
+    }
+    return this.describeTurn(turn);
+  }
+
+  getCurrentTurn(): number {
+    return this.currentTurn;
+  }
+
+  getTotalTurns(): number {
+    return this.session.totalTurns;
+  }
+
+  getState(): GameState {
+    return this.currentState;
+  }
+
+  getTurn(turnId: number): Turn | undefined {
+    return this.session.turns.find(t => t.turnId === turnId);
+  }
+
+  getDeltas(turnId: number): Delta[] {
+    return this.deltasByTurn.get(turnId) ?? [];
   }
 
   // Breakpoints
@@ -78,11 +182,27 @@ export class ReplayDebugger {
     this.breakpoints.add(turn);
   }
 
+  clearBreakpoint(turn: number): boolean {
+    return this.breakpoints.delete(turn);
+  }
+
+  getBreakpoints(): number[] {
+    return Array.from(this.breakpoints).sort((a, b) => a - b);
+  }
+
   // Watch specific state paths
   watchPath(path: string) {
     this.watchedPaths.add(path);
   }
 
+  unwatchPath(path: string): boolean {
+    return this.watchedPaths.delete(path);
+  }
+
+  getWatchedPaths(): string[] {
+    return Array.from(this.watchedPaths);
+  }
+
   // Run until breakpoint or watched path changes
   async runUntilBreak(): Promise<TurnResult> {
     while (this.currentTurn < this.session.totalTurns) {
@@ -93,7 +213,7 @@ export class ReplayDebugger {
       }
       
       for (const path of this.watchedPaths) {
-        if (result.changedPaths.includes(path)) {
+        if (result.changedPaths.some(changed => pathsOverlap(path, changed))) {
           return { ...result, breakReason: 'watch', watchedPath: path };
         }
       }
@@ -109,15 +229,7 @@ export class ReplayDebugger {
   }
 
   private async executeTurn(turnId: number): Promise<TurnResult> {
-      // Find deltas for this turn
-      const deltas = this.session.deltas.filter(d => d.turnId === turnId);
-      const changedPaths: string[] = [];
-
-      // Apply deltas
-      for (const delta of deltas) {
-          this.currentState = applyDelta(this.currentState, delta);
-          changedPaths.push(delta.path.join('.'));
-      }
+      const changedPaths = this.applyTurn(turnId);
 
       // Emit events (simulated)
       this.eventBus.emit('turn_executed', { turnId, state: this.currentState });
@@ -125,33 +237,32 @@ export class ReplayDebugger {
       return {
           turn: turnId,
           state: this.currentState,
-          events: [], // TODO: Load events for this turn
+          events: this.getTurn(turnId)?.events ?? [],
           changedPaths
       };
   }
 
-  private async rebuildStateAtTurn(turnId: number): Promise<TurnResult> {
-      // Reset to initial
-      this.currentState = JSON.parse(JSON.stringify(this.session.initialState));
-      
-      // Replay all turns up to turnId
-      const changedPaths: string[] = [];
-      
-      for (let i = 1; i <= turnId; i++) {
-          const deltas = this.session.deltas.filter(d => d.turnId === i);
-          for (const delta of deltas) {
-              this.currentState = applyDelta(this.currentState, delta);
-              if (i === turnId) {
-                  changedPaths.push(delta.path.join('.'));
-              }
-          }
+  private applyTurn(turnId: number): string[] {
+      const deltas = this.getDeltas(turnId);
+      for (const delta of deltas) {
+          this.currentState = applyDelta(this.currentState, delta);
       }
-      
+      return deltas.map(getDeltaStatePath);
+  }
+
+  private revertTurn(turnId: number): void {
+      for (const delta of [...this.getDeltas(turnId)].reverse()) {
+          this.currentState = revertDelta(this.currentState, delta);
+      }
+  }
+
+  // Result for arriving at a turn without executing it
+  private describeTurn(turnId: number): TurnResult {
       return {
           turn: turnId,
           state: this.currentState,
-          events: [],
-          changedPaths
+          events: this.getTurn(turnId)?.events ?? [],
+          changedPaths: this.getDeltas(turnId).map(getDeltaStatePath)
       };
   }
 }
@@ -2,12 +2,17 @@ import { SessionLoader } from '@llmrpg/storage';
 import { GameState } from '@llmrpg/protocol';
 import { Delta, applyDelta } from '@llmrpg/core';
 import { diff, Diff } from 'deep-diff';
+import { DEFAULT_INVARIANT_RULES, InvariantMonitor, InvariantRule, InvariantViolation, checkInvariants } from './invariants';
+import { getDeltaStatePath, pathsOverlap } from './ReplayDebugger';
 
 export interface ValidationIssue {
   type: string;
   turn: number;
   expected: any;
   actual: any;
+  path?: string;
+  message?: string;
+  delta?: Delta; // The delta of `turn` that last changed `path`, if any
 }
 
 export interface ValidationResult {
@@ -15,60 +20,60 @@ export interface ValidationResult {
   issues: ValidationIssue[];
 }
 
+/**
+ * Turns invariant violations found after a turn into validation issues,
+ * blaming the last of the turn's deltas that touched the violating path.
+ */
+export function toValidationIssues(violations: InvariantViolation[], turn: number, deltas: Delta[] = []): ValidationIssue[] {
+  return violations.map(violation => ({
+    type: violation.rule,
+    turn,
+    expected: violation.expected,
+    actual: violation.actual,
+    path: violation.path,
+    message: violation.message,
+    delta: [...deltas].reverse().find(delta => pathsOverlap(violation.path, getDeltaStatePath(delta)))
+  }));
+}
+
 export class StateInspector {
-  constructor(private loader: SessionLoader) {}
+  private rules: InvariantRule[];
+
+  constructor(private loader: SessionLoader, rules: InvariantRule[] = DEFAULT_INVARIANT_RULES) {
+    this.rules = [...rules];
+  }
+
+  addRule(rule: InvariantRule) {
+    this.rules = [...this.rules.filter(existing => existing.name !== rule.name), rule];
+  }
+
+  removeRule(name: string): boolean {
+    const count = this.rules.length;
+    this.rules = this.rules.filter(rule => rule.name !== name);
+    return this.rules.length !== count;
+  }
+
+  getRules(): InvariantRule[] {
+    return [...this.rules];
+  }
+
+  // Check a state against the invariant rules, blaming the given deltas for violations
+  checkState(state: GameState, turn: number = state.turn ?? 0, deltas: Delta[] = []): ValidationIssue[] {
+    return toValidationIssues(checkInvariants(state, this.rules), turn, deltas);
+  }
 
   // Get state at any point in time
   async getStateAtTurn(sessionId: string, turn: number): Promise<GameState> {
-    // For now, we assume we start from initial state and apply deltas.
-    // In a real implementation, we would find the nearest snapshot.
-    
-    // Load initial state
-    const { world, player } = await this.loader.loadCurrentState(sessionId); 
-    // Wait, loadCurrentState loads the *current* state (latest).
-    // We need the *initial* state or a snapshot.
-    // If we don't have snapshots yet, we might need to rely on the fact that 
-    // `world.state.json` and `player.state.json` are the *current* state.
-    // To get state at turn X, we might need to replay from turn 0 if we don't have snapshots.
-    // Or if we have a snapshot at turn 0.
-    
-    // Let's assume we can get the initial state. 
-    // If `loadCurrentState` returns the *latest* state, we can't use it to go back 
-    // unless we have reverse deltas (which we don't).
-    
-    // We need `loadInitialState` or similar.
-    // If `session.meta.json` or similar has initial state, or if we have a snapshot at turn 0.
-    // For now, I'll assume we can get a snapshot or start from scratch.
-    // Since I haven't implemented snapshots fully in storage, I'll assume we have to replay from 0.
-    // But where is the state at turn 0?
-    // It should be in `sessions/{id}/snapshots/turn-0.json` or similar.
-    
-    // I'll add a TODO to implement snapshot loading properly.
-    // For now, I'll try to load the "current" state and warn if we can't go back, 
-    // OR I'll assume the user wants to inspect the current state if turn is not provided (but it is).
-    
-    // Let's assume we have a method to get initial state.
-    // I'll mock it for now or try to use what's available.
-    // `SessionLoader` doesn't have `loadInitialState`.
-    
-    // I'll implement a basic version that just loads current state if turn matches current,
-    // otherwise throws error for now until snapshots are ready.
-    
+    const { world, player, npcs } = await this.loader.loadStateAtTurn(sessionId, turn);
     const metadata = await this.loader.loadSessionMetadata(sessionId);
-    if (metadata.currentTurn === turn) {
-        const { world, player } = await this.loader.loadCurrentState(sessionId);
-        // Construct GameState
-        return {
-            sessionId,
-            turn,
-            world,
-            player,
-            npcs: {}, // TODO: Load NPCs
-            seed: 0, // TODO: Load seed
-        } as unknown as GameState;
-    }
-    
-    throw new Error("Time travel not yet fully supported without snapshots");
+    return {
+        sessionId,
+        turn,
+        world,
+        player,
+        npcs,
+        seed: metadata.seed ?? 0,
+    } as unknown as GameState;
   }
 
   // Compare two states
@@ -102,12 +107,29 @@ export class StateInspector {
     }) ?? null;
   }
 
-  // Validate state integrity
+  /**
+   * Replays a session from its initial snapshot and checks the invariant
+   * rules after every turn. Each violation is reported once, on the turn it
+   * first appeared, with the delta that caused it where one can be found.
+   */
   async validateSession(sessionId: string): Promise<ValidationResult> {
     const issues: ValidationIssue[] = [];
-    
-    // TODO: Implement full validation when snapshots are available
-    
+    const lastTurnId = await this.loader.getLastTurnId(sessionId);
+    const state = await this.loader.loadStateAtTurn(sessionId, 0);
+    const deltas = lastTurnId > 0 ? await this.loader.loadDeltas(sessionId, 1, lastTurnId) : [];
+
+    const toGameState = (turn: number) =>
+      ({ sessionId, turn, ...state } as unknown as GameState);
+
+    const monitor = new InvariantMonitor(this.rules);
+    for (let turn = 0; turn <= lastTurnId; turn++) {
+      const turnDeltas = deltas.filter(delta => delta.turnId === turn);
+      for (const delta of turnDeltas) {
+        applyDelta(state, delta);
+      }
+      issues.push(...toValidationIssues(monitor.check(toGameState(turn)), turn, turnDeltas));
+    }
+
     return { valid: issues.length === 0, issues };
   }
 }
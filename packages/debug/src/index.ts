@@ -1,3 +1,4 @@
 export * from './StateInspector';
 export * from './ReplayDebugger';
 export * from './ContextDebugger';
+export * from './invariants';
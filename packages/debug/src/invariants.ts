@@ -0,0 +1,205 @@
+import { GameState, Location, NPC, PlayerCharacter, Quest } from '@llmrpg/protocol';
+
+/**
+ * One place where a state breaks a rule. `path` is a dot path into the
+ * state, in the same form as getDeltaStatePath, so violations can be traced
+ * back to the delta that caused them.
+ */
+export interface InvariantViolation {
+  rule: string;
+  path: string;
+  message: string;
+  expected?: unknown;
+  actual?: unknown;
+}
+
+export interface InvariantRule {
+  name: string;
+  description: string;
+  check(state: GameState): Omit<InvariantViolation, 'rule'>[];
+}
+
+// Saved states are often partial (older sessions, tests), so rules use
+// optional chaining for fields the schema says are always there
+type Characters = Array<[string, PlayerCharacter | NPC]>;
+
+function characters(state: GameState): Characters {
+  const npcs = Object.entries(state.npcs ?? {}).map(([id, npc]): [string, NPC] => [`npcs.${id}`, npc]);
+  return state.player ? [['player', state.player], ...npcs] : npcs;
+}
+
+function locations(state: GameState): Record<string, Location> {
+  return state.world?.locations ?? {};
+}
+
+export const stressCapacityRule: InvariantRule = {
+  name: 'stress-capacity',
+  description: 'Stress tracks have no more boxes than their capacity',
+  check(state) {
+    return characters(state).flatMap(([path, character]) =>
+      (character?.stressTracks ?? []).flatMap((track, index) =>
+        Array.isArray(track?.boxes) && track.boxes.length > track.capacity
+          ? [{
+              path: `${path}.stressTracks.${index}.boxes`,
+              message: `${character.name ?? path} has ${track.boxes.length} ${track.type} stress boxes but a capacity of ${track.capacity}`,
+              expected: track.capacity,
+              actual: track.boxes.length
+            }]
+          : []
+      )
+    );
+  }
+};
+
+export const nonNegativeResourcesRule: InvariantRule = {
+  name: 'non-negative-resources',
+  description: 'Fate points and wealth are never negative',
+  check(state) {
+    return characters(state).flatMap(([path, character]) => {
+      const violations = [];
+      const fatePoints = character?.fatePoints?.current;
+      if (typeof fatePoints === 'number' && fatePoints < 0) {
+        violations.push({ path: `${path}.fatePoints.current`, message: `${character.name ?? path} has negative fate points`, expected: '>= 0', actual: fatePoints });
+      }
+      if (typeof character?.wealth === 'number' && character.wealth < 0) {
+        violations.push({ path: `${path}.wealth`, message: `${character.name ?? path} has negative wealth`, expected: '>= 0', actual: character.wealth });
+      }
+      return violations;
+    });
+  }
+};
+
+export const locationConnectionsRule: InvariantRule = {
+  name: 'location-connections',
+  description: 'Location connections point at existing locations and lead back',
+  check(state) {
+    const all = locations(state);
+    return Object.entries(all).flatMap(([id, location]) =>
+      (location?.connections ?? []).flatMap((connection, index): Omit<InvariantViolation, 'rule'>[] => {
+        const path = `world.locations.${id}.connections.${index}`;
+        const target = all[connection?.targetId];
+        if (!target) {
+          return [{ path, message: `${location.name ?? id} connects to unknown location ${connection?.targetId}`, actual: connection?.targetId }];
+        }
+        if (!(target.connections ?? []).some(back => back?.targetId === id)) {
+          return [{ path, message: `${location.name ?? id} connects to ${target.name ?? connection.targetId}, which has no connection back`, expected: id }];
+        }
+        return [];
+      })
+    );
+  }
+};
+
+export const presentNPCsRule: InvariantRule = {
+  name: 'present-npcs',
+  description: 'NPCs present at a location exist',
+  check(state) {
+    const npcs = (state.npcs ?? {}) as Record<string, unknown>;
+    return Object.entries(locations(state)).flatMap(([id, location]) =>
+      (location?.presentNPCs ?? []).flatMap((npcId, index) =>
+        npcs[npcId]
+          ? []
+          : [{ path: `world.locations.${id}.presentNPCs.${index}`, message: `${location.name ?? id} lists unknown NPC ${npcId}`, actual: npcId }]
+      )
+    );
+  }
+};
+
+export const questObjectiveTargetsRule: InvariantRule = {
+  name: 'quest-objective-targets',
+  description: 'Quest objectives target existing locations, NPCs, factions or items',
+  check(state) {
+    const known = new Set<string>([
+      ...Object.keys(locations(state)),
+      ...Object.keys(state.npcs ?? {}),
+      ...Object.keys(state.world?.factions ?? {}),
+      ...(state.player?.inventory ?? []).map(item => item?.id),
+      ...Object.values(locations(state)).flatMap(location => (location?.features ?? []).map(feature => feature?.id))
+    ]);
+
+    return (state.world?.quests ?? []).flatMap((quest, questIndex) => {
+      type Objective = Quest['objectives'][number];
+      const objectives: Array<[string, Objective]> = [
+        ...(quest?.objectives ?? []).map((objective, i): [string, Objective] => [`world.quests.${questIndex}.objectives.${i}`, objective]),
+        ...Object.entries(quest?.stages ?? {}).flatMap(([stageId, stage]) =>
+          (stage?.objectives ?? []).map((objective, i): [string, Objective] => [`world.quests.${questIndex}.stages.${stageId}.objectives.${i}`, objective])
+        )
+      ];
+      return objectives.flatMap(([path, objective]) =>
+        objective?.targetId && !known.has(objective.targetId)
+          ? [{ path: `${path}.targetId`, message: `Objective "${objective.description}" of "${quest.title}" targets unknown ${objective.targetId}`, actual: objective.targetId }]
+          : []
+      );
+    });
+  }
+};
+
+export const factionReputationRule: InvariantRule = {
+  name: 'faction-reputation',
+  description: 'Faction reputation stays within -100 and +100',
+  check(state) {
+    const outOfRange = (value: unknown) => typeof value === 'number' && (value < -100 || value > 100);
+
+    const relationships = Object.entries(state.world?.factions ?? {}).flatMap(([id, faction]) =>
+      Object.entries(faction?.relationships ?? {})
+        .filter(([, value]) => outOfRange(value))
+        .map(([targetId, value]) => ({
+          path: `world.factions.${id}.relationships.${targetId}`,
+          message: `${faction.name ?? id} has reputation ${value} with ${targetId}`,
+          expected: '-100..100',
+          actual: value
+        }))
+    );
+
+    const known = Object.entries(state.player?.knowledge?.factions ?? {})
+      .filter(([, knowledge]) => outOfRange(knowledge?.reputation))
+      .map(([id, knowledge]) => ({
+        path: `player.knowledge.factions.${id}.reputation`,
+        message: `Player's known reputation with ${knowledge.name ?? id} is ${knowledge.reputation}`,
+        expected: '-100..100',
+        actual: knowledge.reputation
+      }));
+
+    return [...relationships, ...known];
+  }
+};
+
+export const DEFAULT_INVARIANT_RULES: InvariantRule[] = [
+  stressCapacityRule,
+  nonNegativeResourcesRule,
+  locationConnectionsRule,
+  presentNPCsRule,
+  questObjectiveTargetsRule,
+  factionReputationRule,
+];
+
+/**
+ * Runs every rule over a state. A rule that throws is reported as a
+ * violation of itself rather than aborting the check.
+ */
+export function checkInvariants(state: GameState, rules: InvariantRule[] = DEFAULT_INVARIANT_RULES): InvariantViolation[] {
+  return rules.flatMap(rule => {
+    try {
+      return rule.check(state).map(violation => ({ rule: rule.name, ...violation }));
+    } catch (error) {
+      return [{ rule: rule.name, path: '', message: `Rule failed: ${(error as Error).message}` }];
+    }
+  });
+}
+
+/**
+ * Checks a sequence of states, e.g. one per turn, and returns only the
+ * violations that weren't already present in the previous state.
+ */
+export class InvariantMonitor {
+  private seen = new Set<string>();
+
+  constructor(private rules: InvariantRule[] = DEFAULT_INVARIANT_RULES) {}
+
+  check(state: GameState): InvariantViolation[] {
+    const violations = checkInvariants(state, this.rules);
+    const fresh = violations.filter(violation => !this.seen.has(`${violation.rule}:${violation.path}`));
+    this.seen = new Set(violations.map(violation => `${violation.rule}:${violation.path}`));
+    return fresh;
+  }
+}
@@ -0,0 +1,49 @@
+import { describe, it, expect } from 'vitest';
+import { MemoryBackend, SessionLoader, SessionWriter } from '@llmrpg/storage';
+import { LLMCallRecord } from '@llmrpg/core';
+import { ContextDebugger } from '../src/ContextDebugger';
+import { StateInspector } from '../src/StateInspector';
+
+function call(turnId: number, sequence: number, system: string, actor: LLMCallRecord['actor']): LLMCallRecord {
+  return {
+    turnId,
+    sequence,
+    timestamp: 0,
+    system,
+    method: 'generate',
+    actor,
+    systemPrompt: `${system} system prompt`,
+    userPrompt: `${system} user prompt`,
+    parameters: { temperature: 0.7 },
+    response: 'ok',
+    usage: { promptTokens: 42, completionTokens: 2, totalTokens: 44 },
+    latencyMs: 10
+  };
+}
+
+describe('ContextDebugger', () => {
+  it('should read recorded calls back by turn and actor', async () => {
+    const backend = new MemoryBackend();
+    const writer = new SessionWriter(backend);
+    await writer.createSession('s1', {});
+    await writer.writeLLMCall('s1', call(1, 1, 'DecisionEngine', 'gm'));
+    await writer.writeLLMCall('s1', call(1, 2, 'DialogueSystem', 'npc'));
+    await writer.writeLLMCall('s1', call(2, 1, 'NarrativeEngine', 'gm'));
+
+    const loader = new SessionLoader(backend);
+    const contextDebugger = new ContextDebugger(new StateInspector(loader), loader);
+
+    expect((await contextDebugger.getRecordedCalls('s1', 1)).map(c => c.system)).toEqual(['DecisionEngine', 'DialogueSystem']);
+
+    const [npcContext] = await contextDebugger.inspectRecordedContext('s1', 1, 'npc');
+    expect(npcContext).toMatchObject({
+      actor: 'npc',
+      turn: 1,
+      system: 'DialogueSystem',
+      systemPrompt: 'DialogueSystem system prompt',
+      userMessage: 'DialogueSystem user prompt',
+      tokenCount: 42,
+      response: 'ok'
+    });
+  });
+});
@@ -0,0 +1,120 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { MemoryBackend, SessionLoader, SessionWriter } from '@llmrpg/storage';
+import { Delta } from '@llmrpg/core';
+import { ReplayDebugger, loadReplaySession, getDeltaStatePath, getStatePath, pathsOverlap } from '../src/ReplayDebugger';
+
+function fateDelta(turnId: number, previousValue: number, newValue: number): Delta {
+  return {
+    deltaId: `s1-${turnId}-1`,
+    turnId,
+    sequence: 1,
+    timestamp: Date.now(),
+    target: 'player',
+    operation: 'set',
+    path: ['fatePoints', 'current'],
+    previousValue,
+    newValue,
+    cause: 'test',
+    eventId: `e${turnId}`
+  };
+}
+
+describe('ReplayDebugger', () => {
+  let replay: ReplayDebugger;
+
+  beforeEach(async () => {
+    const backend = new MemoryBackend();
+    const writer = new SessionWriter(backend);
+    await writer.createSession('s1', { seed: 42 });
+    await writer.saveSnapshot('s1', 0, { world: {}, player: { fatePoints: { current: 3 } }, npcs: {} }, 'initial');
+
+    const fatePoints = [3, 3, 2, 2];
+    for (let turnId = 1; turnId <= 3; turnId++) {
+      if (fatePoints[turnId] !== fatePoints[turnId - 1]) {
+        await writer.writeDelta('s1', fateDelta(turnId, fatePoints[turnId - 1], fatePoints[turnId]));
+      }
+      await writer.writeTurn('s1', {
+        turnId,
+        turnNumber: turnId,
+        actor: 'player',
+        sceneId: 'scene-1',
+        timestamp: Date.now(),
+        gameTime: { day: 1, timeOfDay: 'morning', timestamp: turnId },
+        events: [{ eventId: `e${turnId}`, turnId, sequence: 1, type: 'narrative', actor: 'player', action: 'look', description: `Turn ${turnId}`, timestamp: 0 }]
+      });
+    }
+
+    replay = new ReplayDebugger(await loadReplaySession(new SessionLoader(backend), 's1'));
+  });
+
+  it('should load turns, deltas and the initial state from storage', async () => {
+    expect(replay.getTotalTurns()).toBe(3);
+    expect(replay.getState().player.fatePoints.current).toBe(3);
+    expect(replay.getState().seed).toBe(42);
+
+    const result = await replay.stepForward();
+    expect(result.events.map(e => e.description)).toEqual(['Turn 1']);
+  });
+
+  it('should stop when a watched path changes', async () => {
+    replay.watchPath('player.fatePoints.current');
+
+    const result = await replay.runUntilBreak();
+    expect(result).toMatchObject({ turn: 2, breakReason: 'watch', watchedPath: 'player.fatePoints.current' });
+    expect((result.state as any).player.fatePoints.current).toBe(2);
+  });
+
+  it('should step back and jump between turns', async () => {
+    await replay.goToTurn(3);
+    const result = await replay.stepBackward();
+
+    expect(result.turn).toBe(2);
+    expect(result.changedPaths).toEqual(['player.fatePoints.current']);
+    await expect(replay.goToTurn(4)).rejects.toThrow('valid turns are 0-3');
+  });
+
+  it('should undo turns when stepping back', async () => {
+    await replay.goToTurn(3);
+    expect((replay.getState() as any).player.fatePoints.current).toBe(2);
+
+    await replay.stepBackward();
+    await replay.stepBackward();
+    const result = await replay.stepBackward();
+
+    expect(result.turn).toBe(0);
+    expect(result.state).toMatchObject({ world: {}, player: { fatePoints: { current: 3 } }, npcs: {} });
+  });
+
+  it('should map delta paths onto the state', () => {
+    expect(getDeltaStatePath(fateDelta(1, 3, 2))).toBe('player.fatePoints.current');
+    expect(pathsOverlap('player.fatePoints.current', 'player.fatePoints')).toBe(true);
+    expect(pathsOverlap('player.fatePoints', 'player.fatePointsSpent')).toBe(false);
+    expect(getDeltaStatePath({ ...fateDelta(1, 3, 2), target: 'scene', path: ['conflict'] })).toBe('world.currentScene.conflict');
+  });
+
+  it('should keep the current scene where the session saves it', async () => {
+    const backend = new MemoryBackend();
+    const writer = new SessionWriter(backend);
+    await writer.createSession('s2', { seed: 42 });
+    await writer.saveSnapshot('s2', 0, { world: { currentScene: { id: 'scene-1' } }, player: {}, npcs: {} }, 'initial');
+    // Travel replaces the scene through the world, as GameMaster records it
+    await writer.writeDelta('s2', { ...fateDelta(1, 0, 0), deltaId: 's2-1-1', target: 'world', path: ['currentScene'], previousValue: { id: 'scene-1' }, newValue: { id: 'scene-2' } });
+    await writer.writeTurn('s2', {
+      turnId: 1,
+      turnNumber: 1,
+      actor: 'player',
+      sceneId: 'scene-1',
+      timestamp: Date.now(),
+      gameTime: { day: 1, timeOfDay: 'morning', timestamp: 1 },
+      events: []
+    });
+
+    const sceneReplay = new ReplayDebugger(await loadReplaySession(new SessionLoader(backend), 's2'));
+    expect(sceneReplay.getState().currentScene).toBeUndefined();
+    sceneReplay.watchPath('world.currentScene.id');
+
+    const result = await sceneReplay.runUntilBreak();
+    expect(result).toMatchObject({ turn: 1, breakReason: 'watch' });
+    expect(getStatePath(result.state, 'world.currentScene.id')).toBe('scene-2');
+  });
+});
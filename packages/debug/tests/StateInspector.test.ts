@@ -0,0 +1,156 @@
+import { describe, it, expect } from 'vitest';
+import { MemoryBackend, SessionLoader, SessionWriter } from '@llmrpg/storage';
+import { GameState } from '@llmrpg/protocol';
+import { Delta } from '@llmrpg/core';
+import { StateInspector } from '../src/StateInspector';
+import { checkInvariants, InvariantMonitor } from '../src/invariants';
+
+function validState(): any {
+  return {
+    world: {
+      locations: {
+        square: { id: 'square', name: 'Square', connections: [{ targetId: 'inn' }], presentNPCs: ['npc-1'], features: [] },
+        inn: { id: 'inn', name: 'Inn', connections: [{ targetId: 'square' }], presentNPCs: [], features: [{ id: 'cellar' }] }
+      },
+      quests: [{ id: 'q1', title: 'Errand', objectives: [{ id: 'o1', description: 'Visit the inn', targetId: 'inn' }] }],
+      factions: { guild: { id: 'guild', name: 'Guild', relationships: { player: 40 } } }
+    },
+    player: {
+      name: 'Hero',
+      fatePoints: { current: 3 },
+      wealth: 10,
+      stressTracks: [{ type: 'physical', boxes: [false, false], capacity: 2 }],
+      inventory: [],
+      knowledge: { factions: { guild: { name: 'Guild', reputation: 40 } } }
+    },
+    npcs: {
+      'npc-1': { name: 'Innkeeper', fatePoints: { current: 1 }, wealth: 5, stressTracks: [] }
+    }
+  };
+}
+
+function rulesBroken(state: any): string[] {
+  return checkInvariants(state as GameState).map(v => `${v.rule} ${v.path}`);
+}
+
+function setDelta(turnId: number, sequence: number, target: Delta['target'], path: string[], previousValue: unknown, newValue: unknown): Delta {
+  return {
+    deltaId: `s1-${turnId}-${sequence}`,
+    turnId,
+    sequence,
+    timestamp: 0,
+    target,
+    operation: 'set',
+    path,
+    previousValue,
+    newValue,
+    cause: `change ${path.join('.')}`,
+    eventId: `e${turnId}`
+  };
+}
+
+describe('Invariant rules', () => {
+  it('should accept a consistent state', () => {
+    expect(rulesBroken(validState())).toEqual([]);
+  });
+
+  it('should flag each broken invariant at its path', () => {
+    const state = validState();
+    state.player.stressTracks[0].boxes.push(false);
+    state.player.fatePoints.current = -1;
+    state.npcs['npc-1'].wealth = -5;
+    state.world.locations.inn.connections = [];
+    state.world.locations.square.presentNPCs.push('npc-ghost');
+    state.world.quests[0].objectives[0].targetId = 'nowhere';
+    state.world.factions.guild.relationships.player = 150;
+
+    expect(rulesBroken(state)).toEqual([
+      'stress-capacity player.stressTracks.0.boxes',
+      'non-negative-resources player.fatePoints.current',
+      'non-negative-resources npcs.npc-1.wealth',
+      'location-connections world.locations.square.connections.0',
+      'present-npcs world.locations.square.presentNPCs.1',
+      'quest-objective-targets world.quests.0.objectives.0.targetId',
+      'faction-reputation world.factions.guild.relationships.player',
+    ]);
+  });
+
+  it('should report a violation only on the state where it first appears', () => {
+    const monitor = new InvariantMonitor();
+    const state = validState();
+    state.player.fatePoints.current = -1;
+
+    expect(monitor.check(state)).toHaveLength(1);
+    expect(monitor.check(state)).toHaveLength(0);
+
+    state.player.fatePoints.current = 0;
+    monitor.check(state);
+    state.player.fatePoints.current = -2;
+    expect(monitor.check(state)).toHaveLength(1);
+  });
+});
+
+describe('StateInspector', () => {
+  it('should attribute violations to the turn and delta that caused them', async () => {
+    const backend = new MemoryBackend();
+    const writer = new SessionWriter(backend);
+    await writer.createSession('s1', {});
+    const { world, player, npcs } = validState();
+    await writer.saveSnapshot('s1', 0, { world, player, npcs }, 'initial');
+
+    const turnDeltas: Record<number, Delta[]> = {
+      1: [setDelta(1, 1, 'player', ['wealth'], 10, 4)],
+      2: [
+        setDelta(2, 1, 'player', ['wealth'], 4, 2),
+        setDelta(2, 2, 'player', ['fatePoints', 'current'], 3, -1)
+      ],
+      3: [setDelta(3, 1, 'player', ['fatePoints', 'current'], -1, -2)]
+    };
+    for (let turnId = 1; turnId <= 3; turnId++) {
+      for (const delta of turnDeltas[turnId]) {
+        await writer.writeDelta('s1', delta);
+      }
+      await writer.writeTurn('s1', {
+        turnId,
+        turnNumber: turnId,
+        actor: 'player',
+        sceneId: 'scene-1',
+        timestamp: 0,
+        gameTime: { day: 1, timeOfDay: 'morning', timestamp: turnId },
+        events: []
+      });
+    }
+
+    const inspector = new StateInspector(new SessionLoader(backend));
+    const result = await inspector.validateSession('s1');
+
+    expect(result.valid).toBe(false);
+    expect(result.issues).toHaveLength(1);
+    expect(result.issues[0]).toMatchObject({
+      type: 'non-negative-resources',
+      turn: 2,
+      path: 'player.fatePoints.current',
+      actual: -1,
+      delta: { deltaId: 's1-2-2' }
+    });
+  });
+
+  it('should run custom rules alongside the defaults', () => {
+    const inspector = new StateInspector(new SessionLoader(new MemoryBackend()));
+    inspector.addRule({
+      name: 'named-player',
+      description: 'The player has a name',
+      check: state => (state.player as any).name ? [] : [{ path: 'player.name', message: 'Player has no name' }]
+    });
+
+    const state = validState();
+    delete state.player.name;
+    const delta = setDelta(5, 1, 'player', ['name'], 'Hero', undefined);
+
+    expect(inspector.checkState(state, 5, [delta])).toMatchObject([
+      { type: 'named-player', turn: 5, path: 'player.name', delta: { deltaId: 's1-5-1' } }
+    ]);
+    expect(inspector.removeRule('named-player')).toBe(true);
+    expect(inspector.checkState(state, 5)).toEqual([]);
+  });
+});
@@ -1,9 +1,11 @@
-import { CharacterDefinition, Turn } from '@llmrpg/core';
+import { CharacterDefinition, StorySummary, Turn } from '@llmrpg/core';
 
 export interface ContextLayers {
   systemPrompt: string;
   characterDefinition?: CharacterDefinition;
   worldState?: string; // Simplified for now, should be structured
+  /** Summaries of the turns no longer in the history, oldest first */
+  summaries?: StorySummary[];
   history?: Turn[];
   immediateContext?: string;
 }
@@ -66,7 +68,25 @@ STUNTS: ${character.stunts.map(s => `${s.name} (${s.description})`).join('; ')}
   }
 
   buildHistoryContext(turns: Turn[]): string {
-    return turns.map(t => `Turn ${t.turnNumber} (${t.actor}): ${JSON.stringify(t.events)}`).join('\n');
+    // Wall-clock timestamps mean nothing to the model and would make prompts unreproducible
+    return turns
+      .map(t => `Turn ${t.turnNumber} (${t.actor}): ${JSON.stringify(t.events.map(({ timestamp: _timestamp, ...event }) => event))}`)
+      .join('\n');
+  }
+
+  /**
+   * The story before the history window: the campaign synopsis, then chapter
+   * and scene summaries in order.
+   */
+  buildSummaryContext(summaries: StorySummary[]): string {
+    const headings: Record<StorySummary['level'], string> = {
+      campaign: 'Campaign so far',
+      chapter: 'Chapter',
+      scene: 'Scene'
+    };
+    return summaries
+      .map(s => `${headings[s.level]} (turns ${s.fromTurn}-${s.toTurn}): ${s.text}`)
+      .join('\n');
   }
 
   assemblePrompt(layers: ContextLayers, forDecisions: boolean = false): { system: string; user: string } {
@@ -85,6 +105,10 @@ STUNTS: ${character.stunts.map(s => `${s.name} (${s.description})`).join('; ')}
       user += `## WORLD STATE\n${layers.worldState}\n\n`;
     }
 
+    if (layers.summaries && layers.summaries.length > 0) {
+      user += `## STORY SO FAR\n${this.buildSummaryContext(layers.summaries)}\n\n`;
+    }
+
     if (layers.history && layers.history.length > 0) {
       user += `## HISTORY\n${this.buildHistoryContext(layers.history)}\n\n`;
     }
@@ -0,0 +1,131 @@
+import { LLMCallRecord } from '@llmrpg/core';
+import { LLMProvider, LLMRequest, LLMResponse, LLMStream, LLMStreamResult } from './types';
+import { streamText, tapStream } from './stream';
+
+/**
+ * Receives each recorded call, e.g. to persist it with the session.
+ */
+export type LLMCallSink = (record: LLMCallRecord) => Promise<void> | void;
+
+/**
+ * Records every request made through the providers it wraps, tagged with the
+ * calling system and the turn currently being processed. Logging must never
+ * break the game, so a sink that throws is reported to `onSinkError` instead
+ * of failing the call.
+ */
+export class LLMCallLog {
+  private turnId = 0;
+  private sequence = 0;
+  private pending: Promise<void> = Promise.resolve();
+
+  constructor(
+    private sink: LLMCallSink,
+    private onSinkError: (error: Error, record: LLMCallRecord) => void = () => {}
+  ) {}
+
+  /**
+   * Sets the turn that subsequent calls are attributed to.
+   */
+  setTurn(turnId: number) {
+    if (turnId !== this.turnId) {
+      this.turnId = turnId;
+      this.sequence = 0;
+    }
+  }
+
+  getTurn(): number {
+    return this.turnId;
+  }
+
+  /**
+   * Returns a provider that forwards to `provider` and logs each call as made
+   * by `system` on behalf of `actor`.
+   */
+  wrap(provider: LLMProvider, system: string, actor: LLMCallRecord['actor'] = 'gm'): LLMProvider {
+    return new LoggingProvider(provider, this, system, actor);
+  }
+
+  async record(entry: Omit<LLMCallRecord, 'turnId' | 'sequence'>): Promise<void> {
+    const record: LLMCallRecord = { turnId: this.turnId, sequence: ++this.sequence, ...entry };
+    // Calls can finish concurrently; writing one at a time keeps records in sequence order
+    this.pending = this.pending.then(async () => {
+      try {
+        await this.sink(record);
+      } catch (error) {
+        this.onSinkError(error as Error, record);
+      }
+    });
+    await this.pending;
+  }
+}
+
+class LoggingProvider implements LLMProvider {
+  constructor(
+    private inner: LLMProvider,
+    private log: LLMCallLog,
+    private system: string,
+    private actor: LLMCallRecord['actor']
+  ) {}
+
+  async generate(request: LLMRequest): Promise<LLMResponse> {
+    const entry = this.describe(request);
+    try {
+      const response = await this.inner.generate(request);
+      await this.log.record({
+        ...entry,
+        response: response.content,
+        model: response.model,
+        usage: response.usage,
+        latencyMs: Date.now() - entry.timestamp
+      });
+      return response;
+    } catch (error) {
+      await this.log.record({ ...entry, error: (error as Error).message, latencyMs: Date.now() - entry.timestamp });
+      throw error;
+    }
+  }
+
+  /**
+   * Streams from the wrapped provider and logs the call once the stream ends,
+   * with the full text as its response and the model and usage the stream
+   * reported.
+   */
+  async *stream(request: LLMRequest): LLMStream {
+    const entry = this.describe(request);
+    let text = '';
+    let result: LLMStreamResult | void;
+    try {
+      result = yield* tapStream(streamText(this.inner, request), chunk => {
+        text += chunk;
+      });
+    } catch (error) {
+      await this.log.record({ ...entry, error: (error as Error).message, latencyMs: Date.now() - entry.timestamp });
+      throw error;
+    }
+    await this.log.record({
+      ...entry,
+      response: text,
+      model: result?.model,
+      usage: result?.usage,
+      latencyMs: Date.now() - entry.timestamp
+    });
+    return result;
+  }
+
+  private describe(request: LLMRequest) {
+    return {
+      timestamp: Date.now(),
+      system: this.system,
+      method: request.caller,
+      actor: this.actor,
+      systemPrompt: request.systemPrompt,
+      userPrompt: request.userPrompt,
+      parameters: {
+        temperature: request.temperature,
+        maxTokens: request.maxTokens,
+        stop: request.stop,
+        jsonMode: request.jsonMode
+      }
+    };
+  }
+}
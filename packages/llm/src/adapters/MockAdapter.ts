@@ -1,4 +1,25 @@
-import { LLMProvider, LLMRequest, LLMResponse } from '../types';
+import { LLMProvider, LLMRequest, LLMResponse, LLMStream } from '../types';
+
+const NPC_ACTION = JSON.stringify({
+    action: "attack",
+    description: "lunges forward with a fierce attack",
+    target: "Player"
+});
+
+const QUEST_UPDATE = JSON.stringify({
+    type: "update_objective",
+    questId: "quest-1",
+    objectiveId: "obj-1",
+    status: "completed"
+});
+
+// JSON answers for decisions whose prompts embed the world state, which the
+// prompt text checks below would mistake for a world generation request
+const DECISIONS_BY_CALLER: Record<string, string> = {
+    decideNPCAction: NPC_ACTION,
+    determineQuestUpdate: QUEST_UPDATE,
+    generateCompel: "null"
+};
 
 export class MockAdapter implements LLMProvider {
   private responseQueue: string[] = [];
@@ -17,8 +38,11 @@ export class MockAdapter implements LLMProvider {
     }
 
     let content = "This is a mock response.";
+    const decision = request.jsonMode ? DECISIONS_BY_CALLER[request.caller?.replace(/:repair$/, '') ?? ''] : undefined;
     
-    if (request.jsonMode) {
+    if (decision !== undefined) {
+        content = decision;
+    } else if (request.jsonMode) {
         if (request.userPrompt?.includes("theme")) {
             content = JSON.stringify({
                 name: "Mock World",
@@ -134,11 +158,7 @@ export class MockAdapter implements LLMProvider {
         content = "Fight";
     } else if (request.systemPrompt.includes("NPC") && request.systemPrompt.includes("action")) {
         // NPC decision response - must be valid JSON
-        content = JSON.stringify({
-            action: "attack",
-            description: "lunges forward with a fierce attack",
-            target: "Player"
-        });
+        content = NPC_ACTION;
     } else if (request.systemPrompt.includes("compel")) {
         // Compel response - return null for no compel
         content = "null";
@@ -151,12 +171,7 @@ export class MockAdapter implements LLMProvider {
             data: { name: "Hidden Area", discovered: true }
         });
     } else if (request.systemPrompt.includes("quest") && request.systemPrompt.includes("update")) {
-        content = JSON.stringify({
-            type: "update_objective",
-            questId: "quest-1",
-            objectiveId: "obj-1",
-            status: "completed"
-        });
+        content = QUEST_UPDATE;
     } else if (request.systemPrompt.includes("world") && request.systemPrompt.includes("update")) {
         content = JSON.stringify([{
             type: "add_aspect",
@@ -181,4 +196,17 @@ export class MockAdapter implements LLMProvider {
       model: 'mock-model'
     };
   }
+
+  async healthCheck(): Promise<void> {}
+
+  /**
+   * Streams the response generate() would give, a word at a time.
+   */
+  async *stream(request: LLMRequest): LLMStream {
+    const { content, ...result } = await this.generate(request);
+    for (const chunk of content.match(/^\s+|\S+\s*/g) ?? []) {
+      yield chunk;
+    }
+    return result;
+  }
 }
@@ -1,5 +1,5 @@
 import { Ollama } from 'ollama';
-import { LLMProvider, LLMRequest, LLMResponse } from '../types';
+import { LLMProvider, LLMRequest, LLMResponse, LLMStream } from '../types';
 
 export interface OllamaConfig {
   host?: string;
@@ -9,16 +9,50 @@ export interface OllamaConfig {
 export class OllamaAdapter implements LLMProvider {
   private client: Ollama;
   private model: string;
+  private host: string;
 
   constructor(config: OllamaConfig) {
+    this.host = config.host || 'http://127.0.0.1:11434';
     this.client = new Ollama({
-      host: config.host || 'http://127.0.0.1:11434',
+      host: this.host,
     });
     this.model = config.model;
   }
 
   async generate(request: LLMRequest): Promise<LLMResponse> {
-    const response = await this.client.chat({
+    const response = await this.client.chat({ ...this.buildChatRequest(request), stream: false });
+
+    return {
+      content: response.message.content,
+      usage: usageOf(response),
+      model: response.model,
+    };
+  }
+
+  async *stream(request: LLMRequest): LLMStream {
+    const response = await this.client.chat({ ...this.buildChatRequest(request), stream: true });
+    for await (const part of response) {
+      if (part.message.content) {
+        yield part.message.content;
+      }
+      // The final chunk carries the token counts
+      if (part.done) {
+        return { usage: usageOf(part), model: part.model };
+      }
+    }
+    return { model: this.model };
+  }
+
+  async healthCheck(): Promise<void> {
+    const { models } = await this.client.list();
+    const names = models.map(m => m.name);
+    if (!names.includes(this.model) && !names.includes(`${this.model}:latest`)) {
+      throw new Error(`Model ${this.model} is not available on ${this.host} (try "ollama pull ${this.model}")`);
+    }
+  }
+
+  private buildChatRequest(request: LLMRequest) {
+    return {
       model: this.model,
       messages: [
         { role: 'system', content: request.systemPrompt },
@@ -30,16 +64,14 @@ export class OllamaAdapter implements LLMProvider {
         num_predict: request.maxTokens,
       },
       format: request.jsonMode ? 'json' : undefined,
-    });
-
-    return {
-      content: response.message.content,
-      usage: {
-        promptTokens: response.prompt_eval_count || 0,
-        completionTokens: response.eval_count || 0,
-        totalTokens: (response.prompt_eval_count || 0) + (response.eval_count || 0),
-      },
-      model: response.model,
     };
   }
 }
+
+function usageOf(response: { prompt_eval_count?: number; eval_count?: number }): LLMResponse['usage'] {
+  return {
+    promptTokens: response.prompt_eval_count || 0,
+    completionTokens: response.eval_count || 0,
+    totalTokens: (response.prompt_eval_count || 0) + (response.eval_count || 0),
+  };
+}
@@ -1,5 +1,5 @@
 import OpenAI from 'openai';
-import { LLMProvider, LLMRequest, LLMResponse } from '../types';
+import { LLMProvider, LLMRequest, LLMResponse, LLMStream } from '../types';
 
 export interface OpenAIConfig {
   apiKey: string;
@@ -22,28 +22,60 @@ export class OpenAIAdapter implements LLMProvider {
   }
 
   async generate(request: LLMRequest): Promise<LLMResponse> {
+    const completion = await this.client.chat.completions.create({ ...this.buildCompletionRequest(request), stream: false });
+
+    const choice = completion.choices[0];
+    
+    return {
+      content: choice.message.content || '',
+      usage: usageOf(completion.usage),
+      model: completion.model,
+    };
+  }
+
+  async *stream(request: LLMRequest): LLMStream {
     const completion = await this.client.chat.completions.create({
+      ...this.buildCompletionRequest(request),
+      stream: true,
+      // Adds a final chunk with the token usage for the whole response
+      stream_options: { include_usage: true },
+    });
+    let model = this.model;
+    let usage: LLMResponse['usage'];
+    for await (const chunk of completion) {
+      model = chunk.model || model;
+      usage = usageOf(chunk.usage) ?? usage;
+      const content = chunk.choices[0]?.delta?.content;
+      if (content) {
+        yield content;
+      }
+    }
+    return { usage, model };
+  }
+
+  async healthCheck(): Promise<void> {
+    await this.client.models.retrieve(this.model);
+  }
+
+  private buildCompletionRequest(request: LLMRequest) {
+    return {
       model: this.model,
       messages: [
-        { role: 'system', content: request.systemPrompt },
-        { role: 'user', content: request.userPrompt },
+        { role: 'system' as const, content: request.systemPrompt },
+        { role: 'user' as const, content: request.userPrompt },
       ],
       temperature: request.temperature ?? 0.7,
       max_tokens: request.maxTokens,
       stop: request.stop,
-      response_format: request.jsonMode ? { type: 'json_object' } : undefined,
-    });
-
-    const choice = completion.choices[0];
-    
-    return {
-      content: choice.message.content || '',
-      usage: completion.usage ? {
-        promptTokens: completion.usage.prompt_tokens,
-        completionTokens: completion.usage.completion_tokens,
-        totalTokens: completion.usage.total_tokens,
-      } : undefined,
-      model: completion.model,
+      response_format: request.jsonMode ? { type: 'json_object' as const } : undefined,
     };
   }
 }
+
+function usageOf(usage: OpenAI.CompletionUsage | null | undefined): LLMResponse['usage'] {
+  return usage ? {
+    promptTokens: usage.prompt_tokens,
+    completionTokens: usage.completion_tokens,
+    totalTokens: usage.total_tokens,
+  } : undefined;
+}
@@ -0,0 +1,53 @@
+import { LLMProvider, LLMRequest, LLMResponse, LLMStream } from '../types';
+import { CASSETTE_VERSION, Cassette, fingerprintRequest, saveCassette } from '../cassette';
+import { streamText, tapStream } from '../stream';
+
+/**
+ * Forwards requests to another provider and records each request/response
+ * pair to a cassette file, which ReplayAdapter can serve back later.
+ */
+export class RecordingAdapter implements LLMProvider {
+  private cassette: Cassette;
+  private pendingSave: Promise<void> = Promise.resolve();
+
+  constructor(private inner: LLMProvider, private cassettePath: string) {
+    this.cassette = { version: CASSETTE_VERSION, recordedAt: new Date().toISOString(), entries: [] };
+  }
+
+  async generate(request: LLMRequest): Promise<LLMResponse> {
+    const response = await this.inner.generate(request);
+    await this.record(request, response);
+    return response;
+  }
+
+  /**
+   * Streams from the wrapped provider and records the full text once the
+   * stream ends; replaying serves it as a single response.
+   */
+  async *stream(request: LLMRequest): LLMStream {
+    let content = '';
+    const result = yield* tapStream(streamText(this.inner, request), chunk => {
+      content += chunk;
+    });
+    await this.record(request, { model: 'unknown', ...result, content });
+    return result;
+  }
+
+  /**
+   * Resolves once everything recorded so far is on disk.
+   */
+  async flush(): Promise<void> {
+    this.pendingSave = this.pendingSave.then(() => saveCassette(this.cassettePath, this.cassette));
+    await this.pendingSave;
+  }
+
+  getEntryCount(): number {
+    return this.cassette.entries.length;
+  }
+
+  private async record(request: LLMRequest, response: LLMResponse): Promise<void> {
+    this.cassette.entries.push({ fingerprint: fingerprintRequest(request), request, response });
+    // The cassette is rewritten after every call so a crashed run keeps what it recorded
+    await this.flush();
+  }
+}
@@ -0,0 +1,148 @@
+import { LLMProvider, LLMRequest, LLMResponse } from '../types';
+import { Cassette, CassetteEntry, fingerprintRequest, loadCassette } from '../cassette';
+
+export interface ReplayAdapterOptions {
+  /**
+   * What to do when a request is made more often than it was recorded:
+   * serve the last recorded response again ('repeat', default) or fail ('error').
+   */
+  onExhausted?: 'repeat' | 'error';
+}
+
+const PARAMETER_KEYS = ['temperature', 'maxTokens', 'stop', 'jsonMode'] as const;
+
+/**
+ * Serves responses from a cassette recorded by RecordingAdapter, matching
+ * requests by fingerprint. Identical requests are answered in recorded order.
+ * A request with no recording fails with a description of the closest
+ * recorded request and where the two differ.
+ */
+export class ReplayAdapter implements LLMProvider {
+  private byFingerprint = new Map<string, number[]>();
+  private served = new Set<number>();
+  private lastServed = new Map<string, number>();
+  private options: Required<ReplayAdapterOptions>;
+
+  constructor(private cassette: Cassette, options: ReplayAdapterOptions = {}) {
+    this.options = { onExhausted: options.onExhausted ?? 'repeat' };
+    cassette.entries.forEach((entry, index) => {
+      const queue = this.byFingerprint.get(entry.fingerprint) ?? [];
+      queue.push(index);
+      this.byFingerprint.set(entry.fingerprint, queue);
+    });
+  }
+
+  static async fromFile(cassettePath: string, options?: ReplayAdapterOptions): Promise<ReplayAdapter> {
+    return new ReplayAdapter(await loadCassette(cassettePath), options);
+  }
+
+  async generate(request: LLMRequest): Promise<LLMResponse> {
+    const fingerprint = fingerprintRequest(request);
+    const queue = this.byFingerprint.get(fingerprint);
+    if (!queue) {
+      throw new Error(this.describeMismatch(request, fingerprint));
+    }
+
+    let index = queue.shift();
+    if (index === undefined) {
+      if (this.options.onExhausted === 'error') {
+        throw new Error(
+          `Request${request.caller ? ` from ${request.caller}` : ''} (fingerprint ${fingerprint.slice(0, 12)}) ` +
+          `was made more often than the cassette recorded it`
+        );
+      }
+      index = this.lastServed.get(fingerprint)!;
+    }
+
+    this.served.add(index);
+    this.lastServed.set(fingerprint, index);
+    return { ...this.cassette.entries[index].response };
+  }
+
+  /**
+   * Recorded entries that haven't been served yet, e.g. to spot a replay that
+   * stopped early.
+   */
+  getUnusedEntries(): CassetteEntry[] {
+    return this.cassette.entries.filter((_, index) => !this.served.has(index));
+  }
+
+  private describeMismatch(request: LLMRequest, fingerprint: string): string {
+    const lines = [
+      `No recorded response for request${request.caller ? ` from ${request.caller}` : ''} ` +
+      `(fingerprint ${fingerprint.slice(0, 12)})`
+    ];
+
+    const closest = this.findClosest(request);
+    if (closest === undefined) {
+      lines.push('The cassette is empty.');
+    } else {
+      const entry = this.cassette.entries[closest];
+      lines.push(`Closest recording: entry #${closest + 1}${entry.request.caller ? ` (${entry.request.caller})` : ''}`);
+      lines.push(...describeDifferences(entry.request, request).map(line => `  ${line}`));
+    }
+
+    lines.push(`Served ${this.served.size} of ${this.cassette.entries.length} recorded responses so far.`);
+    return lines.join('\n');
+  }
+
+  /**
+   * Index of the recorded request sharing the longest prompt prefix with
+   * `request`, preferring ones from the same caller and not yet served.
+   */
+  private findClosest(request: LLMRequest): number | undefined {
+    let best: number | undefined;
+    let bestScore = -1;
+    const text = `${request.systemPrompt}\u0000${request.userPrompt}`;
+
+    this.cassette.entries.forEach((entry, index) => {
+      const recorded = `${entry.request.systemPrompt}\u0000${entry.request.userPrompt}`;
+      const score = commonPrefixLength(text, recorded)
+        + (request.caller && entry.request.caller === request.caller ? text.length + 1 : 0)
+        + (this.served.has(index) ? 0 : 0.5);
+      if (score > bestScore) {
+        best = index;
+        bestScore = score;
+      }
+    });
+
+    return best;
+  }
+}
+
+function commonPrefixLength(a: string, b: string): number {
+  let i = 0;
+  while (i < a.length && i < b.length && a[i] === b[i]) i++;
+  return i;
+}
+
+function excerpt(text: string, at: number): string {
+  const start = Math.max(0, at - 30);
+  const snippet = text.slice(start, at + 50);
+  return JSON.stringify(`${start > 0 ? '…' : ''}${snippet}${at + 50 < text.length ? '…' : ''}`);
+}
+
+function describeDifferences(recorded: LLMRequest, actual: LLMRequest): string[] {
+  const differences: string[] = [];
+
+  for (const field of ['systemPrompt', 'userPrompt'] as const) {
+    const a = recorded[field] ?? '';
+    const b = actual[field] ?? '';
+    if (a !== b) {
+      const at = commonPrefixLength(a, b);
+      differences.push(`${field} differs at character ${at}:`);
+      differences.push(`  recorded: ${excerpt(a, at)}`);
+      differences.push(`  actual:   ${excerpt(b, at)}`);
+    }
+  }
+
+  for (const key of PARAMETER_KEYS) {
+    const a = JSON.stringify(recorded[key]);
+    const b = JSON.stringify(actual[key]);
+    if (a !== b) {
+      differences.push(`${key} differs: recorded ${a ?? 'unset'}, actual ${b ?? 'unset'}`);
+    }
+  }
+
+  return differences;
+}
@@ -0,0 +1,296 @@
+import { createHash, randomUUID } from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { LLMProvider, LLMRequest, LLMResponse, LLMStream } from './types';
+import { fingerprintRequest } from './cassette';
+import { streamText, tapStream } from './stream';
+import { checkProviderHealth } from './fallback';
+
+export interface ResponseCacheOptions {
+  /** How long a cached response is served, in milliseconds (default: 7 days) */
+  ttlMs?: number;
+  /** Disk space the cache may use before the oldest entries are evicted, in bytes (default: 100 MB) */
+  maxBytes?: number;
+  now?: () => number;
+}
+
+interface CacheFile {
+  createdAt: number;
+  model: string;
+  caller?: string;
+  response: LLMResponse;
+}
+
+interface IndexEntry {
+  filePath: string;
+  size: number;
+  createdAt: number;
+}
+
+/**
+ * LLM responses stored on disk, one file per request hash. Entries expire
+ * after the TTL, and the oldest are evicted once the cache outgrows its size
+ * limit.
+ */
+export class ResponseCache {
+  private index: Map<string, IndexEntry> | undefined;
+  private indexPromise: Promise<Map<string, IndexEntry>> | undefined;
+  private totalBytes = 0;
+  private options: Required<ResponseCacheOptions>;
+
+  constructor(private dir: string, options: ResponseCacheOptions = {}) {
+    this.options = {
+      ttlMs: options.ttlMs ?? 7 * 24 * 60 * 60 * 1000,
+      maxBytes: options.maxBytes ?? 100 * 1024 * 1024,
+      now: options.now ?? Date.now
+    };
+  }
+
+  /**
+   * Key for a request sent to `model`: the cassette fingerprint of the
+   * request (prompts and parameters) combined with the model name.
+   */
+  static keyFor(model: string, request: LLMRequest): string {
+    return createHash('sha256').update(`${model}\u0000${fingerprintRequest(request)}`).digest('hex');
+  }
+
+  async get(key: string): Promise<LLMResponse | undefined> {
+    const index = await this.loadIndex();
+    const entry = index.get(key);
+    if (!entry) return undefined;
+
+    try {
+      const file = JSON.parse(await fs.promises.readFile(entry.filePath, 'utf-8')) as CacheFile;
+      if (this.options.now() - file.createdAt > this.options.ttlMs) {
+        await this.remove(key);
+        return undefined;
+      }
+      return file.response;
+    } catch {
+      // Deleted or corrupt entries are treated as misses
+      await this.remove(key);
+      return undefined;
+    }
+  }
+
+  async set(key: string, file: Omit<CacheFile, 'createdAt'>): Promise<void> {
+    const index = await this.loadIndex();
+    const filePath = this.pathFor(key);
+    const content = JSON.stringify({ createdAt: this.options.now(), ...file });
+
+    await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+    // Write then rename so a concurrent reader never sees a partial entry. The
+    // temp name is unique per write, as the same key can be written twice at once.
+    const tempPath = `${filePath}.${process.pid}.${randomUUID()}.tmp`;
+    try {
+      await fs.promises.writeFile(tempPath, content);
+      await fs.promises.rename(tempPath, filePath);
+    } catch (error) {
+      await fs.promises.rm(tempPath, { force: true });
+      throw error;
+    }
+
+    this.totalBytes -= index.get(key)?.size ?? 0;
+    const size = Buffer.byteLength(content);
+    index.set(key, { filePath, size, createdAt: this.options.now() });
+    this.totalBytes += size;
+    await this.evict();
+  }
+
+  /**
+   * Number of cached entries and the bytes they use on disk.
+   */
+  async size(): Promise<{ entries: number; bytes: number }> {
+    const index = await this.loadIndex();
+    return { entries: index.size, bytes: this.totalBytes };
+  }
+
+  async clear(): Promise<void> {
+    await fs.promises.rm(this.dir, { recursive: true, force: true });
+    this.index = new Map();
+    this.indexPromise = Promise.resolve(this.index);
+    this.totalBytes = 0;
+  }
+
+  private pathFor(key: string): string {
+    return path.join(this.dir, key.slice(0, 2), `${key}.json`);
+  }
+
+  private async remove(key: string): Promise<void> {
+    const entry = this.index?.get(key);
+    if (!entry) return;
+    this.index!.delete(key);
+    this.totalBytes -= entry.size;
+    await fs.promises.rm(entry.filePath, { force: true });
+  }
+
+  /**
+   * Drops expired entries, then the oldest ones until the cache fits its size
+   * limit.
+   */
+  private async evict(): Promise<void> {
+    const index = await this.loadIndex();
+    const now = this.options.now();
+    const oldestFirst = [...index].sort(([, a], [, b]) => a.createdAt - b.createdAt);
+    for (const [key, entry] of oldestFirst) {
+      if (now - entry.createdAt <= this.options.ttlMs && this.totalBytes <= this.options.maxBytes) break;
+      await this.remove(key);
+    }
+  }
+
+  /**
+   * The index of entries on disk, built on first use. Concurrent callers share
+   * one build so the directory is only counted once.
+   */
+  private loadIndex(): Promise<Map<string, IndexEntry>> {
+    return this.indexPromise ??= this.buildIndex();
+  }
+
+  private async buildIndex(): Promise<Map<string, IndexEntry>> {
+    const index = new Map<string, IndexEntry>();
+    const buckets = await fs.promises.readdir(this.dir).catch(() => [] as string[]);
+    for (const bucket of buckets) {
+      const files = await fs.promises.readdir(path.join(this.dir, bucket)).catch(() => [] as string[]);
+      for (const name of files.filter(name => name.endsWith('.json'))) {
+        const filePath = path.join(this.dir, bucket, name);
+        const stat = await fs.promises.stat(filePath);
+        index.set(name.slice(0, -'.json'.length), { filePath, size: stat.size, createdAt: stat.mtimeMs });
+        this.totalBytes += stat.size;
+      }
+    }
+
+    this.index = index;
+    return index;
+  }
+}
+
+export interface CacheStats {
+  hits: number;
+  misses: number;
+  /** Share of requests answered from the cache, 0 to 1 */
+  hitRate: number;
+  /** Hits and misses per calling method */
+  byCaller: Record<string, { hits: number; misses: number }>;
+}
+
+/**
+ * Adds up the stats of several caching providers, e.g. one per model.
+ */
+export function mergeCacheStats(all: CacheStats[]): CacheStats {
+  const hits = all.reduce((sum, stats) => sum + stats.hits, 0);
+  const misses = all.reduce((sum, stats) => sum + stats.misses, 0);
+  const byCaller: CacheStats['byCaller'] = {};
+  for (const [caller, counts] of all.flatMap(stats => Object.entries(stats.byCaller))) {
+    const total = byCaller[caller] ??= { hits: 0, misses: 0 };
+    total.hits += counts.hits;
+    total.misses += counts.misses;
+  }
+  return { hits, misses, hitRate: hits + misses === 0 ? 0 : hits / (hits + misses), byCaller };
+}
+
+export interface CachingProviderOptions {
+  /** Called when the cache can't be read or written; the request goes on without it */
+  onCacheError?: (operation: 'read' | 'write', error: Error) => void;
+}
+
+/**
+ * Answers requests from a ResponseCache when it can and forwards them to
+ * `inner` otherwise, caching what comes back. `model` names the model behind
+ * `inner` so switching models doesn't serve another model's responses; pass
+ * a function when it depends on the request, e.g. behind a RoutingProvider.
+ *
+ * Failed requests aren't cached, and cache errors never fail a request.
+ */
+export class CachingProvider implements LLMProvider {
+  private stats: Omit<CacheStats, 'hitRate'> = { hits: 0, misses: 0, byCaller: {} };
+
+  constructor(
+    private inner: LLMProvider,
+    private cache: ResponseCache,
+    private model: string | ((request: LLMRequest) => string),
+    private options: CachingProviderOptions = {}
+  ) {}
+
+  async generate(request: LLMRequest): Promise<LLMResponse> {
+    const key = this.keyFor(request);
+    const cached = await this.lookup(key, request);
+    if (cached) return cached;
+
+    const response = await this.inner.generate(request);
+    await this.store(key, request, response);
+    return response;
+  }
+
+  async *stream(request: LLMRequest): LLMStream {
+    const key = this.keyFor(request);
+    const cached = await this.lookup(key, request);
+    if (cached) {
+      const { content, ...result } = cached;
+      yield content;
+      return result;
+    }
+
+    let content = '';
+    const result = yield* tapStream(streamText(this.inner, request), chunk => {
+      content += chunk;
+    });
+    await this.store(key, request, { model: this.modelFor(request), ...result, content });
+    return result;
+  }
+
+  /**
+   * Checks the wrapped provider itself; a cached answer says nothing about
+   * whether it is reachable.
+   */
+  async healthCheck(): Promise<void> {
+    const health = await checkProviderHealth('cached provider', this.inner);
+    if (!health.healthy) {
+      throw new Error(health.error);
+    }
+  }
+
+  getStats(): CacheStats {
+    const total = this.stats.hits + this.stats.misses;
+    return {
+      ...this.stats,
+      hitRate: total === 0 ? 0 : this.stats.hits / total,
+      byCaller: Object.fromEntries(Object.entries(this.stats.byCaller).map(([caller, counts]) => [caller, { ...counts }]))
+    };
+  }
+
+  private modelFor(request: LLMRequest): string {
+    return typeof this.model === 'function' ? this.model(request) : this.model;
+  }
+
+  private keyFor(request: LLMRequest): string {
+    return ResponseCache.keyFor(this.modelFor(request), request);
+  }
+
+  private async lookup(key: string, request: LLMRequest): Promise<LLMResponse | undefined> {
+    let response: LLMResponse | undefined;
+    try {
+      response = await this.cache.get(key);
+    } catch (error) {
+      this.options.onCacheError?.('read', error as Error);
+    }
+
+    const caller = request.caller ?? 'unknown';
+    const counts = this.stats.byCaller[caller] ??= { hits: 0, misses: 0 };
+    if (response) {
+      this.stats.hits++;
+      counts.hits++;
+    } else {
+      this.stats.misses++;
+      counts.misses++;
+    }
+    return response;
+  }
+
+  private async store(key: string, request: LLMRequest, response: LLMResponse): Promise<void> {
+    try {
+      await this.cache.set(key, { model: this.modelFor(request), caller: request.caller, response });
+    } catch (error) {
+      this.options.onCacheError?.('write', error as Error);
+    }
+  }
+}
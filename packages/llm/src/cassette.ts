@@ -0,0 +1,86 @@
+import { createHash } from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { LLMCallRecord } from '@llmrpg/core';
+import { LLMRequest, LLMResponse } from './types';
+
+export const CASSETTE_VERSION = 1;
+
+/**
+ * One recorded request/response pair.
+ */
+export interface CassetteEntry {
+  fingerprint: string;
+  request: LLMRequest;
+  response: LLMResponse;
+}
+
+/**
+ * A file of recorded LLM calls, in the order they were made.
+ */
+export interface Cassette {
+  version: number;
+  recordedAt: string;
+  entries: CassetteEntry[];
+}
+
+/**
+ * Hash of the parts of a request that affect the response. The `caller`
+ * label is left out so renaming a method doesn't invalidate cassettes.
+ */
+export function fingerprintRequest(request: LLMRequest): string {
+  const key = JSON.stringify([
+    request.systemPrompt,
+    request.userPrompt,
+    request.temperature ?? null,
+    request.maxTokens ?? null,
+    request.stop ?? null,
+    request.jsonMode ?? false
+  ]);
+  return createHash('sha256').update(key).digest('hex');
+}
+
+/**
+ * Builds a cassette from a session's LLM call log, so sessions can be
+ * replayed without having been recorded to a cassette. Failed calls have no
+ * response and are left out.
+ */
+export function cassetteFromCallLog(records: LLMCallRecord[]): Cassette {
+  const entries = records
+    .filter(record => record.response !== undefined)
+    .map(record => {
+      const request: LLMRequest = {
+        caller: record.method,
+        systemPrompt: record.systemPrompt,
+        userPrompt: record.userPrompt,
+        ...record.parameters
+      };
+      const response: LLMResponse = { content: record.response!, model: record.model ?? 'unknown', usage: record.usage };
+      return { fingerprint: fingerprintRequest(request), request, response };
+    });
+
+  return {
+    version: CASSETTE_VERSION,
+    recordedAt: new Date(records[0]?.timestamp ?? Date.now()).toISOString(),
+    entries
+  };
+}
+
+export async function loadCassette(filePath: string): Promise<Cassette> {
+  const cassette = JSON.parse(await fs.promises.readFile(filePath, 'utf-8')) as Cassette;
+  if (!Array.isArray(cassette.entries)) {
+    throw new Error(`${filePath} is not a cassette (no entries)`);
+  }
+  if (cassette.version > CASSETTE_VERSION) {
+    throw new Error(`Cassette ${filePath} has version ${cassette.version}, newer than the supported version ${CASSETTE_VERSION}`);
+  }
+  return cassette;
+}
+
+export async function saveCassette(filePath: string, cassette: Cassette): Promise<void> {
+  await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+  // Write then rename so an interrupted run never leaves a truncated cassette
+  const tempPath = `${filePath}.${process.pid}.tmp`;
+  await fs.promises.writeFile(tempPath, JSON.stringify(cassette, null, 2));
+  await fs.promises.rename(tempPath, filePath);
+}
@@ -0,0 +1,204 @@
+import { LLMProvider, LLMRequest, LLMResponse, LLMStream } from './types';
+import { RetryOptions, RetryPresets, withRetry } from './retryHelper';
+import { streamText, tapStream } from './stream';
+
+export interface FallbackEntry {
+  /** Shown in warnings and health reports, e.g. "ollama llama3" */
+  name: string;
+  provider: LLMProvider;
+}
+
+export interface FallbackOptions {
+  /** Retries against one provider before moving to the next (default: RetryPresets.fast) */
+  retry?: RetryOptions;
+  /** Consecutive failed requests after which a provider is skipped (default: 3) */
+  failureThreshold?: number;
+  /** How long a provider is skipped before it is tried again, in milliseconds (default: 30 s) */
+  cooldownMs?: number;
+  /** How long a health check may take before the provider counts as down (default: 5 s) */
+  healthCheckTimeoutMs?: number;
+  now?: () => number;
+  /** Called when a provider fails and the request moves on to the next one */
+  onFallback?: (from: string, to: string, error: Error) => void;
+  /** Called when a provider starts being skipped after `failures` failed requests in a row */
+  onCircuitOpen?: (name: string, failures: number, cooldownMs: number) => void;
+}
+
+export interface ProviderHealth {
+  name: string;
+  healthy: boolean;
+  latencyMs: number;
+  error?: string;
+}
+
+interface Circuit {
+  failures: number;
+  openedAt?: number;
+}
+
+/**
+ * Checks that a provider can answer: its own healthCheck() if it has one,
+ * otherwise a minimal request.
+ */
+export async function checkProviderHealth(name: string, provider: LLMProvider, timeoutMs = 5000): Promise<ProviderHealth> {
+  const start = Date.now();
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => reject(new Error(`No answer within ${timeoutMs}ms`)), timeoutMs);
+  });
+
+  try {
+    const check = provider.healthCheck
+      ? provider.healthCheck()
+      : provider.generate({ caller: 'healthCheck', systemPrompt: 'Reply with OK.', userPrompt: 'OK?', maxTokens: 5 });
+    await Promise.race([check, timeout]);
+    return { name, healthy: true, latencyMs: Date.now() - start };
+  } catch (error) {
+    return { name, healthy: false, latencyMs: Date.now() - start, error: (error as Error).message };
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+/**
+ * Tries an ordered list of providers until one answers, retrying each with
+ * withRetry first. A provider that fails `failureThreshold` requests in a row
+ * is skipped until `cooldownMs` has passed, after which one request is let
+ * through to see whether it has recovered. If every provider is being skipped
+ * the request fails straight away instead of waiting on retries against
+ * providers that are known to be down.
+ */
+export class FallbackProvider implements LLMProvider {
+  private circuits = new Map<string, Circuit>();
+  private options: Required<FallbackOptions>;
+
+  constructor(private entries: FallbackEntry[], options: FallbackOptions = {}) {
+    if (entries.length === 0) {
+      throw new Error('FallbackProvider needs at least one provider');
+    }
+    this.options = {
+      retry: options.retry ?? RetryPresets.fast,
+      failureThreshold: options.failureThreshold ?? 3,
+      cooldownMs: options.cooldownMs ?? 30_000,
+      healthCheckTimeoutMs: options.healthCheckTimeoutMs ?? 5000,
+      now: options.now ?? Date.now,
+      onFallback: options.onFallback ?? (() => {}),
+      onCircuitOpen: options.onCircuitOpen ?? (() => {})
+    };
+    for (const entry of entries) {
+      this.circuits.set(entry.name, { failures: 0 });
+    }
+  }
+
+  async generate(request: LLMRequest): Promise<LLMResponse> {
+    const errors: string[] = [];
+    const candidates = this.candidates(request);
+
+    for (const [i, entry] of candidates.entries()) {
+      try {
+        const response = await withRetry(() => entry.provider.generate(request), this.options.retry);
+        this.recordSuccess(entry);
+        return response;
+      } catch (error) {
+        errors.push(`${entry.name}: ${(error as Error).message}`);
+        this.recordFailure(entry, candidates[i + 1], error as Error);
+      }
+    }
+
+    throw new Error(`All LLM providers failed${request.caller ? ` for ${request.caller}` : ''}:\n  ${errors.join('\n  ')}`);
+  }
+
+  /**
+   * Streams from the first provider that starts answering. Once text has
+   * been produced there is no falling back, so later failures are thrown.
+   */
+  async *stream(request: LLMRequest): LLMStream {
+    const errors: string[] = [];
+    const candidates = this.candidates(request);
+
+    for (const [i, entry] of candidates.entries()) {
+      let started = false;
+      try {
+        const result = yield* tapStream(streamText(entry.provider, request), () => {
+          started = true;
+        });
+        this.recordSuccess(entry);
+        return result;
+      } catch (error) {
+        this.recordFailure(entry, started ? undefined : candidates[i + 1], error as Error);
+        if (started) throw error;
+        errors.push(`${entry.name}: ${(error as Error).message}`);
+      }
+    }
+
+    throw new Error(`All LLM providers failed${request.caller ? ` for ${request.caller}` : ''}:\n  ${errors.join('\n  ')}`);
+  }
+
+  /**
+   * Health-checks every provider. Providers that fail are skipped from now
+   * on until their cooldown passes.
+   */
+  async checkHealth(): Promise<ProviderHealth[]> {
+    const results: ProviderHealth[] = [];
+    for (const entry of this.entries) {
+      const health = await checkProviderHealth(entry.name, entry.provider, this.options.healthCheckTimeoutMs);
+      const circuit = this.circuits.get(entry.name)!;
+      if (health.healthy) {
+        this.circuits.set(entry.name, { failures: 0 });
+      } else {
+        circuit.failures = Math.max(circuit.failures, this.options.failureThreshold);
+        circuit.openedAt = this.options.now();
+      }
+      results.push(health);
+    }
+    return results;
+  }
+
+  async healthCheck(): Promise<void> {
+    const results = await this.checkHealth();
+    if (!results.some(result => result.healthy)) {
+      throw new Error(results.map(result => `${result.name}: ${result.error}`).join('; '));
+    }
+  }
+
+  /**
+   * Names of the providers currently being skipped.
+   */
+  getOpenCircuits(): string[] {
+    return this.entries.filter(entry => this.isOpen(entry)).map(entry => entry.name);
+  }
+
+  private isOpen(entry: FallbackEntry): boolean {
+    const { openedAt } = this.circuits.get(entry.name)!;
+    return openedAt !== undefined && this.options.now() - openedAt < this.options.cooldownMs;
+  }
+
+  private candidates(request: LLMRequest): FallbackEntry[] {
+    const closed = this.entries.filter(entry => !this.isOpen(entry));
+    if (closed.length === 0) {
+      const now = this.options.now();
+      const nextTry = Math.min(...this.entries.map(entry => this.circuits.get(entry.name)!.openedAt! + this.options.cooldownMs - now));
+      throw new Error(
+        `All LLM providers are being skipped after repeated failures${request.caller ? ` for ${request.caller}` : ''} ` +
+        `(${this.entries.map(entry => entry.name).join(', ')}); next try in ${Math.ceil(nextTry / 1000)}s`
+      );
+    }
+    return closed;
+  }
+
+  private recordSuccess(entry: FallbackEntry) {
+    this.circuits.set(entry.name, { failures: 0 });
+  }
+
+  private recordFailure(entry: FallbackEntry, next: FallbackEntry | undefined, error: Error) {
+    const circuit = this.circuits.get(entry.name)!;
+    circuit.failures++;
+    if (circuit.failures >= this.options.failureThreshold && !this.isOpen(entry)) {
+      circuit.openedAt = this.options.now();
+      this.options.onCircuitOpen(entry.name, circuit.failures, this.options.cooldownMs);
+    }
+    if (next) {
+      this.options.onFallback(entry.name, next.name, error);
+    }
+  }
+}
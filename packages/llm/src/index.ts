@@ -5,5 +5,15 @@ export * from './adapters/OpenAIAdapter';
 export * from './adapters/OpenRouterAdapter';
 export * from './adapters/OllamaAdapter';
 export * from './adapters/MockAdapter';
+export * from './adapters/RecordingAdapter';
+export * from './adapters/ReplayAdapter';
+export * from './cassette';
 export * from './ContextBuilder';
 export * from './retryHelper';
+export * from './structured';
+export * from './stream';
+export * from './fallback';
+export * from './routing';
+export * from './cache';
+export * from './scheduler';
+export * from './LLMCallLog';
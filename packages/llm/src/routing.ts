@@ -0,0 +1,176 @@
+import fs from 'fs';
+import { z } from 'zod';
+import { LLMProvider, LLMRequest, LLMResponse, LLMStream, LLMTask } from './types';
+import { streamText } from './stream';
+import { FallbackOptions, FallbackProvider, ProviderHealth, checkProviderHealth } from './fallback';
+import { OllamaAdapter } from './adapters/OllamaAdapter';
+import { OpenAIAdapter } from './adapters/OpenAIAdapter';
+import { OpenRouterAdapter } from './adapters/OpenRouterAdapter';
+import { MockAdapter } from './adapters/MockAdapter';
+
+const ApiKeySchema = {
+  apiKey: z.string().optional(),
+  /** Environment variable holding the key, so keys stay out of config files */
+  apiKeyEnv: z.string().optional()
+};
+
+export const ModelSpecSchema = z.discriminatedUnion('provider', [
+  z.object({ provider: z.literal('ollama'), model: z.string(), host: z.string().optional() }),
+  z.object({ provider: z.literal('openai'), model: z.string(), baseURL: z.string().optional(), organization: z.string().optional(), ...ApiKeySchema }),
+  z.object({ provider: z.literal('openrouter'), model: z.string(), ...ApiKeySchema }),
+  z.object({ provider: z.literal('mock') })
+]);
+
+export type ModelSpec = z.infer<typeof ModelSpecSchema>;
+
+/** A model, or a list of models tried in order when one fails */
+export type ModelChain = ModelSpec | ModelSpec[];
+
+// Single models are read as one-model chains so validation errors point at the field that is wrong
+const ModelChainSchema = z.preprocess(value => Array.isArray(value) ? value : [value], z.array(ModelSpecSchema).min(1));
+
+export const RoutingConfigSchema = z.object({
+  /** Model for tasks without a route and for untagged requests */
+  default: ModelChainSchema,
+  routes: z.record(z.enum(['classify', 'decide', 'narrate', 'summarize', 'generate-world', 'ai-player']), ModelChainSchema).default({})
+});
+
+export interface RoutingConfig {
+  default: ModelChain;
+  routes: Partial<Record<LLMTask, ModelChain>>;
+}
+
+/**
+ * Sends each request to the provider configured for its task, or to the
+ * default provider if the task has no route or the request isn't tagged.
+ */
+export class RoutingProvider implements LLMProvider {
+  constructor(
+    private defaultProvider: LLMProvider,
+    private routes: Partial<Record<LLMTask, LLMProvider>> = {}
+  ) {}
+
+  providerFor(task: LLMTask | undefined): LLMProvider {
+    return (task && this.routes[task]) || this.defaultProvider;
+  }
+
+  async generate(request: LLMRequest): Promise<LLMResponse> {
+    return this.providerFor(request.task).generate(request);
+  }
+
+  async *stream(request: LLMRequest): LLMStream {
+    return yield* streamText(this.providerFor(request.task), request);
+  }
+
+  /**
+   * Health-checks each distinct provider behind the routes. Fallback chains
+   * report each of their providers.
+   */
+  async checkHealth(): Promise<ProviderHealth[]> {
+    const checked = new Set<LLMProvider>();
+    const results = new Map<string, ProviderHealth>();
+    for (const [name, provider] of [['default', this.defaultProvider], ...Object.entries(this.routes)] as Array<[string, LLMProvider]>) {
+      if (checked.has(provider)) continue;
+      checked.add(provider);
+      const health = provider instanceof FallbackProvider
+        ? await provider.checkHealth()
+        : [await checkProviderHealth(name, provider)];
+      for (const result of health) {
+        results.set(result.name, result);
+      }
+    }
+    return [...results.values()];
+  }
+}
+
+/**
+ * Short name for the model a spec selects, e.g. "ollama llama3".
+ */
+export function describeModelSpec(spec: ModelSpec): string {
+  return spec.provider === 'mock' ? 'mock' : `${spec.provider} ${spec.model}`;
+}
+
+export function describeModelChain(chain: ModelChain): string {
+  return (Array.isArray(chain) ? chain : [chain]).map(describeModelSpec).join(' -> ');
+}
+
+function apiKey(spec: { apiKey?: string; apiKeyEnv?: string; provider: string }): string {
+  const key = spec.apiKey ?? (spec.apiKeyEnv ? process.env[spec.apiKeyEnv] : undefined);
+  if (!key) {
+    throw new Error(spec.apiKeyEnv
+      ? `Environment variable ${spec.apiKeyEnv} for the ${spec.provider} API key is not set`
+      : `No API key configured for ${spec.provider}; set apiKey or apiKeyEnv`);
+  }
+  return key;
+}
+
+export function createModelProvider(spec: ModelSpec): LLMProvider {
+  switch (spec.provider) {
+    case 'ollama':
+      return new OllamaAdapter({ model: spec.model, host: spec.host });
+    case 'openai':
+      return new OpenAIAdapter({ model: spec.model, apiKey: apiKey(spec), baseURL: spec.baseURL, organization: spec.organization });
+    case 'openrouter':
+      return new OpenRouterAdapter({ model: spec.model, apiKey: apiKey(spec) });
+    case 'mock':
+      return new MockAdapter();
+  }
+}
+
+export interface RoutingProviderOptions {
+  /** Wraps each model's provider, e.g. in a CachingProvider */
+  wrap?: (provider: LLMProvider, spec: ModelSpec) => LLMProvider;
+  fallback?: FallbackOptions;
+}
+
+/**
+ * Builds a RoutingProvider from a config. Each route is a FallbackProvider
+ * over its chain of models, so a single model still gets retries and health
+ * checks. Routes with the same models share providers.
+ */
+export function createRoutingProvider(config: RoutingConfig, options: RoutingProviderOptions = {}): RoutingProvider {
+  const models = new Map<string, LLMProvider>();
+  const modelFor = (spec: ModelSpec) => {
+    const key = JSON.stringify(spec);
+    if (!models.has(key)) {
+      const provider = createModelProvider(spec);
+      models.set(key, options.wrap ? options.wrap(provider, spec) : provider);
+    }
+    return models.get(key)!;
+  };
+
+  const chains = new Map<string, LLMProvider>();
+  const chainFor = (chain: ModelChain) => {
+    const specs = Array.isArray(chain) ? chain : [chain];
+    const key = JSON.stringify(specs);
+    if (!chains.has(key)) {
+      chains.set(key, new FallbackProvider(
+        specs.map(spec => ({ name: describeModelSpec(spec), provider: modelFor(spec) })),
+        options.fallback
+      ));
+    }
+    return chains.get(key)!;
+  };
+
+  const routes: Partial<Record<LLMTask, LLMProvider>> = {};
+  for (const [task, chain] of Object.entries(config.routes) as Array<[LLMTask, ModelChain]>) {
+    routes[task] = chainFor(chain);
+  }
+  return new RoutingProvider(chainFor(config.default), routes);
+}
+
+export async function loadRoutingConfig(filePath: string): Promise<RoutingConfig> {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(await fs.promises.readFile(filePath, 'utf-8'));
+  } catch (error) {
+    throw new Error(`Could not read routing config ${filePath}: ${(error as Error).message}`);
+  }
+
+  const result = RoutingConfigSchema.safeParse(raw);
+  if (!result.success) {
+    const issues = result.error.issues.map(issue => `  ${issue.path.join('.') || '(root)'}: ${issue.message}`);
+    throw new Error(`${filePath} is not a valid routing config:\n${issues.join('\n')}`);
+  }
+  return result.data;
+}
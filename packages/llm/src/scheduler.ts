@@ -0,0 +1,223 @@
+import { LLMProvider, LLMRequest, LLMResponse, LLMStream, LLMTask } from './types';
+import { streamText } from './stream';
+
+/**
+ * Default priority of each task; higher runs first. Narration is what the
+ * player is waiting to read, so it goes ahead of background analysis.
+ */
+export const TASK_PRIORITY: Record<LLMTask, number> = {
+  'narrate': 3,
+  'ai-player': 2,
+  'classify': 2,
+  'decide': 1,
+  'generate-world': 1,
+  // Summaries are written after the turn is done, so nothing waits on them
+  'summarize': 0
+};
+
+export interface RequestSchedulerOptions {
+  /** Requests allowed to run at once (default: 3) */
+  maxConcurrency?: number;
+  now?: () => number;
+}
+
+export interface ScheduleOptions {
+  /** Higher runs first; requests of equal priority run in order (default: 0) */
+  priority?: number;
+  /**
+   * Aborting rejects the request. Queued requests never start; running ones
+   * stop being waited on but keep their slot until they actually finish.
+   */
+  signal?: AbortSignal;
+}
+
+export interface SchedulerMetrics {
+  queued: number;
+  running: number;
+  completed: number;
+  failed: number;
+  /** Requests whose caller stopped waiting, including ones that went on to finish */
+  cancelled: number;
+  /** Most requests waiting at once */
+  maxQueued: number;
+  /** Time requests spent queued before starting, in milliseconds */
+  averageWaitMs: number;
+  maxWaitMs: number;
+}
+
+interface QueuedRequest {
+  priority: number;
+  enqueuedAt: number;
+  start: () => void;
+  cancel: (reason: Error) => void;
+}
+
+function abortError(signal: AbortSignal): Error {
+  return signal.reason instanceof Error ? signal.reason : new Error('Request was cancelled');
+}
+
+/**
+ * Limits how many LLM requests run at once, starting queued requests by
+ * priority. One scheduler is meant to be shared by everything talking to the
+ * same model server.
+ */
+export class RequestScheduler {
+  private queue: QueuedRequest[] = [];
+  private running = 0;
+  private stats = { completed: 0, failed: 0, cancelled: 0, maxQueued: 0, started: 0, totalWaitMs: 0, maxWaitMs: 0 };
+  private maxConcurrency: number;
+  private now: () => number;
+
+  constructor(options: RequestSchedulerOptions = {}) {
+    this.maxConcurrency = Math.max(1, options.maxConcurrency ?? 3);
+    this.now = options.now ?? Date.now;
+  }
+
+  /**
+   * Runs `task` once a slot is free and resolves with its result.
+   */
+  async schedule<T>(task: () => Promise<T>, options: ScheduleOptions = {}): Promise<T> {
+    const release = await this.acquire(options);
+    const running = Promise.resolve().then(task);
+    running.then(() => release(), error => release(error));
+    return this.untilAborted(running, options.signal);
+  }
+
+  /**
+   * Returns a provider whose requests go through this scheduler, prioritized
+   * by their task. Streams hold their slot until they finish.
+   */
+  wrap(provider: LLMProvider): LLMProvider {
+    return new ScheduledProvider(provider, this);
+  }
+
+  /**
+   * Rejects every request that hasn't started yet.
+   */
+  cancelQueued(reason = 'Request was cancelled') {
+    const queued = this.queue;
+    this.queue = [];
+    for (const request of queued) {
+      request.cancel(new Error(reason));
+    }
+  }
+
+  getMetrics(): SchedulerMetrics {
+    return {
+      queued: this.queue.length,
+      running: this.running,
+      completed: this.stats.completed,
+      failed: this.stats.failed,
+      cancelled: this.stats.cancelled,
+      maxQueued: this.stats.maxQueued,
+      averageWaitMs: this.stats.started === 0 ? 0 : this.stats.totalWaitMs / this.stats.started,
+      maxWaitMs: this.stats.maxWaitMs
+    };
+  }
+
+  /**
+   * Waits for a free slot and returns the function that gives it back,
+   * passed the error if the request failed.
+   */
+  async acquire(options: ScheduleOptions = {}): Promise<(error?: unknown) => void> {
+    const { signal } = options;
+    if (signal?.aborted) {
+      this.stats.cancelled++;
+      throw abortError(signal);
+    }
+
+    const enqueuedAt = this.now();
+    await new Promise<void>((resolve, reject) => {
+      const onAbort = () => {
+        this.queue = this.queue.filter(request => request !== queued);
+        queued.cancel(abortError(signal!));
+      };
+      const queued: QueuedRequest = {
+        priority: options.priority ?? 0,
+        enqueuedAt,
+        start: () => {
+          signal?.removeEventListener('abort', onAbort);
+          resolve();
+        },
+        cancel: reason => {
+          signal?.removeEventListener('abort', onAbort);
+          this.stats.cancelled++;
+          reject(reason);
+        }
+      };
+      signal?.addEventListener('abort', onAbort, { once: true });
+      this.enqueue(queued);
+      this.drain();
+    });
+
+    let released = false;
+    return (error?: unknown) => {
+      if (released) return;
+      released = true;
+      this.running--;
+      if (error === undefined) {
+        this.stats.completed++;
+      } else {
+        this.stats.failed++;
+      }
+      this.drain();
+    };
+  }
+
+  private enqueue(request: QueuedRequest) {
+    const index = this.queue.findIndex(other => other.priority < request.priority);
+    this.queue.splice(index === -1 ? this.queue.length : index, 0, request);
+    this.stats.maxQueued = Math.max(this.stats.maxQueued, this.queue.length);
+  }
+
+  private drain() {
+    while (this.running < this.maxConcurrency && this.queue.length > 0) {
+      const next = this.queue.shift()!;
+      const waitMs = this.now() - next.enqueuedAt;
+      this.running++;
+      this.stats.started++;
+      this.stats.totalWaitMs += waitMs;
+      this.stats.maxWaitMs = Math.max(this.stats.maxWaitMs, waitMs);
+      next.start();
+    }
+  }
+
+  private untilAborted<T>(promise: Promise<T>, signal: AbortSignal | undefined): Promise<T> {
+    if (!signal) return promise;
+    return new Promise<T>((resolve, reject) => {
+      const onAbort = () => {
+        this.stats.cancelled++;
+        reject(abortError(signal));
+      };
+      signal.addEventListener('abort', onAbort, { once: true });
+      promise.then(resolve, reject).finally(() => signal.removeEventListener('abort', onAbort));
+    });
+  }
+}
+
+class ScheduledProvider implements LLMProvider {
+  constructor(private inner: LLMProvider, private scheduler: RequestScheduler) {}
+
+  async generate(request: LLMRequest): Promise<LLMResponse> {
+    return this.scheduler.schedule(() => this.inner.generate(request), { priority: priorityOf(request) });
+  }
+
+  async *stream(request: LLMRequest): LLMStream {
+    const release = await this.scheduler.acquire({ priority: priorityOf(request) });
+    try {
+      const result = yield* streamText(this.inner, request);
+      release();
+      return result;
+    } catch (error) {
+      release(error);
+      throw error;
+    } finally {
+      // A consumer that stops reading early still frees the slot
+      release();
+    }
+  }
+}
+
+function priorityOf(request: LLMRequest): number {
+  return request.task ? TASK_PRIORITY[request.task] : 0;
+}
@@ -0,0 +1,49 @@
+import { LLMProvider, LLMRequest, LLMStream } from './types';
+
+/**
+ * Streams a response from `provider`, or yields the whole response at once
+ * if the provider can't stream. Either way the stream returns the model and
+ * usage the provider reported.
+ */
+export async function* streamText(provider: LLMProvider, request: LLMRequest): LLMStream {
+  if (provider.stream) {
+    return yield* provider.stream(request);
+  }
+  const { content, ...result } = await provider.generate(request);
+  yield content;
+  return result;
+}
+
+/**
+ * Passes a stream through, calling `onChunk` with each chunk before it is
+ * yielded, and returns what the stream returned.
+ */
+export async function* tapStream(stream: LLMStream, onChunk: (chunk: string) => void): LLMStream {
+  let next = await stream.next();
+  try {
+    while (!next.done) {
+      onChunk(next.value);
+      yield next.value;
+      next = await stream.next();
+    }
+  } finally {
+    // A consumer that stops reading early closes the source as well
+    if (!next.done) {
+      await stream.return(undefined);
+    }
+  }
+  return next.value;
+}
+
+/**
+ * Reads a stream to the end, passing each chunk to `onChunk` as it arrives,
+ * and returns the full text.
+ */
+export async function collectStream(stream: AsyncIterable<string>, onChunk?: (chunk: string) => void): Promise<string> {
+  let text = '';
+  for await (const chunk of stream) {
+    text += chunk;
+    onChunk?.(chunk);
+  }
+  return text;
+}
@@ -0,0 +1,104 @@
+import { z } from 'zod';
+import { LLMProvider, LLMRequest, LLMResponse } from './types';
+
+export interface StructuredOptions {
+  /** Total requests to make, including the first (default: 3) */
+  maxAttempts?: number;
+  /**
+   * Plain-text answers read as JSON `null`, compared case-insensitively,
+   * e.g. a bare "no" from a model asked for "JSON or null". They are still
+   * checked against the schema but don't cost a repair request.
+   */
+  nullAnswers?: string[];
+}
+
+export interface StructuredResult<T> {
+  data: T;
+  /** Requests made, 1 if the first response was valid */
+  attempts: number;
+  /** True if a repair request was needed */
+  repaired: boolean;
+  /** Why each rejected response was rejected, in order */
+  errors: string[];
+  /** The response the data was read from */
+  response: LLMResponse;
+}
+
+/**
+ * Reads JSON from a model response, tolerating markdown code fences and
+ * prose around a single object or array.
+ */
+export function extractJson(content: string): unknown {
+  const text = content.trim().replace(/^```(?:json)?\s*/i, '').replace(/\s*```$/, '');
+  try {
+    return JSON.parse(text);
+  } catch (error) {
+    const start = text.search(/[{[]/);
+    const end = Math.max(text.lastIndexOf('}'), text.lastIndexOf(']'));
+    if (start === -1 || end <= start) throw error;
+    return JSON.parse(text.slice(start, end + 1));
+  }
+}
+
+function describeIssues(error: z.ZodError): string {
+  return error.issues
+    .map(issue => `${issue.path.length > 0 ? issue.path.join('.') : '(root)'}: ${issue.message}`)
+    .join('\n');
+}
+
+/**
+ * Requests JSON matching `schema`. A response that isn't valid JSON or fails
+ * validation is sent back with the problems found, asking the model to
+ * correct it, until `maxAttempts` requests have been made. Repair requests
+ * are made with the caller `{caller}:repair` so they stand out in call logs.
+ *
+ * Provider errors are not retried here; wrap the call in withRetry for that.
+ * Throws if no attempt produced valid data.
+ */
+export async function generateStructured<S extends z.ZodTypeAny>(
+  provider: LLMProvider,
+  request: LLMRequest,
+  schema: S,
+  options: StructuredOptions = {}
+): Promise<StructuredResult<z.infer<S>>> {
+  const maxAttempts = Math.max(1, options.maxAttempts ?? 3);
+  const errors: string[] = [];
+  let current: LLMRequest = { ...request, jsonMode: true };
+
+  for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+    const response = await provider.generate(current);
+
+    let problem: string;
+    try {
+      const answer = response.content.trim().toLowerCase();
+      const value = options.nullAnswers?.some(none => none.toLowerCase() === answer) ? null : extractJson(response.content);
+      const result = schema.safeParse(value);
+      if (result.success) {
+        return { data: result.data, attempts: attempt, repaired: attempt > 1, errors, response };
+      }
+      problem = describeIssues(result.error);
+    } catch (error) {
+      problem = `Invalid JSON: ${(error as Error).message}`;
+    }
+    errors.push(problem);
+
+    current = {
+      ...request,
+      caller: `${request.caller ?? 'generateStructured'}:repair`,
+      jsonMode: true,
+      userPrompt: `${request.userPrompt}
+
+Your previous response was:
+${response.content}
+
+It was rejected for these problems:
+${problem}
+
+Return only the corrected JSON.`
+    };
+  }
+
+  throw new Error(
+    `${request.caller ?? 'Structured request'} returned no valid response in ${maxAttempts} attempt${maxAttempts === 1 ? '' : 's'}:\n${errors[errors.length - 1]}`
+  );
+}
@@ -1,6 +1,15 @@
 import { TurnContext } from '@llmrpg/core';
 
+/**
+ * What a request is for. RoutingProvider uses it to send each kind of task
+ * to a suitably sized model.
+ */
+export type LLMTask = 'classify' | 'decide' | 'narrate' | 'summarize' | 'generate-world' | 'ai-player';
+
 export interface LLMRequest {
+  /** Name of the method making the request, recorded in call logs */
+  caller?: string;
+  task?: LLMTask;
   systemPrompt: string;
   userPrompt: string;
   temperature?: number;
@@ -19,7 +28,21 @@ export interface LLMResponse {
   model: string;
 }
 
+/**
+ * What a stream returns once it ends: the model that answered and, when the
+ * provider reports it, token usage.
+ */
+export type LLMStreamResult = Omit<LLMResponse, 'content'>;
+
+/**
+ * A streamed response: text chunks as they arrive, then the stream result.
+ * Streams that can't tell which model answered return nothing.
+ */
+export type LLMStream = AsyncGenerator<string, LLMStreamResult | void, undefined>;
+
 export interface LLMProvider {
   generate(request: LLMRequest): Promise<LLMResponse>;
-  stream?(request: LLMRequest): AsyncIterableIterator<string>;
+  stream?(request: LLMRequest): LLMStream;
+  /** Resolves if the provider is reachable and can serve its model, throws otherwise */
+  healthCheck?(): Promise<void>;
 }
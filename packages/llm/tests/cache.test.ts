@@ -0,0 +1,140 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { CachingProvider, ResponseCache } from '../src/cache';
+import { collectStream } from '../src/stream';
+import { LLMRequest } from '../src/types';
+
+function countingProvider() {
+  let calls = 0;
+  return {
+    generate: vi.fn(async (request: LLMRequest) => ({ content: `${request.userPrompt} #${++calls}`, model: 'test-model' }))
+  };
+}
+
+const request = (userPrompt: string, caller = 'generateWorldTheme'): LLMRequest =>
+  ({ caller, systemPrompt: 'You build worlds', userPrompt, temperature: 0.8, jsonMode: true });
+
+describe('Response cache', () => {
+  let dir: string;
+  let clock: number;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'llmrpg-cache-'));
+    clock = 1_000_000;
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should serve repeated requests from disk and report hit rates per caller', async () => {
+    const inner = countingProvider();
+    const provider = new CachingProvider(inner, new ResponseCache(dir), 'ollama llama3');
+
+    const first = await provider.generate(request('Fantasy'));
+    expect(await provider.generate(request('Fantasy'))).toEqual(first);
+    await provider.generate(request('Noir', 'classifyIntent'));
+
+    expect(inner.generate).toHaveBeenCalledTimes(2);
+    expect(provider.getStats()).toMatchObject({
+      hits: 1,
+      misses: 2,
+      byCaller: { generateWorldTheme: { hits: 1, misses: 1 }, classifyIntent: { hits: 0, misses: 1 } }
+    });
+    expect(provider.getStats().hitRate).toBeCloseTo(1 / 3);
+
+    // A new cache over the same directory picks up what was stored
+    const reopened = new CachingProvider(countingProvider(), new ResponseCache(dir), 'ollama llama3');
+    expect(await reopened.generate(request('Fantasy'))).toEqual(first);
+  });
+
+  it('should key entries on the model and request parameters', async () => {
+    const inner = countingProvider();
+    const cache = new ResponseCache(dir);
+    const provider = new CachingProvider(inner, cache, req => req.task === 'classify' ? 'small' : 'large');
+
+    await provider.generate(request('Fantasy'));
+    await provider.generate({ ...request('Fantasy'), task: 'classify' });
+    await provider.generate({ ...request('Fantasy'), temperature: 0.2 });
+    await provider.generate({ ...request('Fantasy'), caller: 'renamedCaller' });
+
+    expect(inner.generate).toHaveBeenCalledTimes(3);
+    expect((await cache.size()).entries).toBe(3);
+  });
+
+  it('should expire entries after the TTL', async () => {
+    const inner = countingProvider();
+    const provider = new CachingProvider(inner, new ResponseCache(dir, { ttlMs: 1000, now: () => clock }), 'm');
+
+    await provider.generate(request('Fantasy'));
+    clock += 999;
+    await provider.generate(request('Fantasy'));
+    clock += 2;
+    await provider.generate(request('Fantasy'));
+
+    expect(inner.generate).toHaveBeenCalledTimes(2);
+  });
+
+  it('should evict the oldest entries beyond the size limit', async () => {
+    const cache = new ResponseCache(dir, { maxBytes: 300, now: () => clock });
+    const provider = new CachingProvider(countingProvider(), cache, 'm');
+
+    for (const theme of ['Fantasy', 'Noir', 'Steampunk', 'Space Opera']) {
+      clock += 10;
+      await provider.generate(request(theme));
+    }
+
+    const { entries, bytes } = await cache.size();
+    expect(bytes).toBeLessThanOrEqual(300);
+    expect(entries).toBe(2);
+    expect(await cache.get(ResponseCache.keyFor('m', request('Space Opera')))).toBeDefined();
+    expect(await cache.get(ResponseCache.keyFor('m', request('Fantasy')))).toBeUndefined();
+  });
+
+  it('should count existing entries once when first used concurrently', async () => {
+    const provider = new CachingProvider(countingProvider(), new ResponseCache(dir), 'm');
+    await provider.generate(request('Fantasy'));
+    await provider.generate(request('Noir'));
+    const stored = await new ResponseCache(dir).size();
+
+    const reopened = new ResponseCache(dir);
+    const key = ResponseCache.keyFor('m', request('Fantasy'));
+    await Promise.all([reopened.get(key), reopened.get(key), reopened.size()]);
+    expect(await reopened.size()).toEqual(stored);
+
+    // Writing the same key twice at once doesn't trip over a shared temp file
+    const response = { content: 'A misty valley.', model: 'm' };
+    await Promise.all([reopened.set(key, { model: 'm', response }), reopened.set(key, { model: 'm', response })]);
+    expect(await reopened.get(key)).toEqual(response);
+  });
+
+  it('should cache streamed responses and not cache failures', async () => {
+    const inner = {
+      generate: vi.fn().mockRejectedValueOnce(new Error('model offline')),
+      stream: vi.fn(async function* () {
+        yield 'A misty ';
+        yield 'valley.';
+      })
+    };
+    const provider = new CachingProvider(inner, new ResponseCache(dir), 'm');
+
+    await expect(provider.generate(request('Fantasy'))).rejects.toThrow('model offline');
+    expect(await collectStream(provider.stream(request('Fantasy')))).toBe('A misty valley.');
+    expect((await provider.generate(request('Fantasy'))).content).toBe('A misty valley.');
+    expect(inner.stream).toHaveBeenCalledTimes(1);
+  });
+
+  it('should report cache errors and still answer the request', async () => {
+    const cache = new ResponseCache(dir);
+    vi.spyOn(cache, 'get').mockRejectedValue(new Error('EACCES'));
+    vi.spyOn(cache, 'set').mockRejectedValue(new Error('ENOSPC'));
+    const onCacheError = vi.fn();
+    const provider = new CachingProvider(countingProvider(), cache, 'm', { onCacheError });
+
+    expect((await provider.generate(request('Fantasy'))).content).toBe('Fantasy #1');
+    expect(onCacheError).toHaveBeenCalledWith('read', expect.objectContaining({ message: 'EACCES' }));
+    expect(onCacheError).toHaveBeenCalledWith('write', expect.objectContaining({ message: 'ENOSPC' }));
+  });
+});
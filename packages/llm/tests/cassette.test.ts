@@ -0,0 +1,85 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { MockAdapter } from '../src/adapters/MockAdapter';
+import { RecordingAdapter } from '../src/adapters/RecordingAdapter';
+import { ReplayAdapter } from '../src/adapters/ReplayAdapter';
+import { fingerprintRequest, loadCassette } from '../src/cassette';
+import { collectStream } from '../src/stream';
+
+describe('Cassettes', () => {
+  let dir: string;
+  let cassettePath: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'llmrpg-cassette-'));
+    cassettePath = path.join(dir, 'session.json');
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  async function record() {
+    const mock = new MockAdapter();
+    mock.setNextResponse('first');
+    mock.setNextResponse('second');
+    mock.setNextResponse('other');
+    const recorder = new RecordingAdapter(mock, cassettePath);
+
+    await recorder.generate({ caller: 'narrate', systemPrompt: 'You are the GM.', userPrompt: 'Player Input: "look"' });
+    await recorder.generate({ caller: 'narrate', systemPrompt: 'You are the GM.', userPrompt: 'Player Input: "look"' });
+    await recorder.generate({ caller: 'classifyIntent', systemPrompt: 'Classify.', userPrompt: 'go north', temperature: 0.1 });
+  }
+
+  it('should ignore the caller label when fingerprinting', () => {
+    const request = { systemPrompt: 'S', userPrompt: 'U', temperature: 0.2 };
+    expect(fingerprintRequest({ ...request, caller: 'a' })).toBe(fingerprintRequest(request));
+    expect(fingerprintRequest({ ...request, temperature: 0.3 })).not.toBe(fingerprintRequest(request));
+  });
+
+  it('should replay recorded responses in order', async () => {
+    await record();
+    expect((await loadCassette(cassettePath)).entries).toHaveLength(3);
+
+    const replay = await ReplayAdapter.fromFile(cassettePath);
+    const request = { systemPrompt: 'You are the GM.', userPrompt: 'Player Input: "look"' };
+
+    expect((await replay.generate({ caller: 'narrate', ...request })).content).toBe('first');
+    expect((await replay.generate({ caller: 'narrate', ...request })).content).toBe('second');
+    // Extra repeats reuse the last recorded answer by default
+    expect((await replay.generate({ caller: 'narrate', ...request })).content).toBe('second');
+    expect(replay.getUnusedEntries().map(e => e.request.caller)).toEqual(['classifyIntent']);
+
+    const strict = await ReplayAdapter.fromFile(cassettePath, { onExhausted: 'error' });
+    await strict.generate(request);
+    await strict.generate(request);
+    await expect(strict.generate(request)).rejects.toThrow('more often than the cassette recorded it');
+  });
+
+  it('should record streamed responses', async () => {
+    const recorder = new RecordingAdapter(new MockAdapter(), cassettePath);
+    const request = { caller: 'narrate', systemPrompt: 'You are the Game Master narrating', userPrompt: 'Go' };
+
+    const text = await collectStream(recorder.stream(request));
+
+    const replay = await ReplayAdapter.fromFile(cassettePath);
+    expect(await replay.generate(request)).toMatchObject({ content: text, model: 'mock-model' });
+  });
+
+  it('should explain where an unrecorded request differs', async () => {
+    await record();
+    const replay = await ReplayAdapter.fromFile(cassettePath);
+
+    const error = await replay.generate({ caller: 'classifyIntent', systemPrompt: 'Classify.', userPrompt: 'go south', temperature: 0.7 })
+      .catch(e => e as Error);
+
+    expect(error).toBeInstanceOf(Error);
+    const message = (error as Error).message;
+    expect(message).toContain('No recorded response for request from classifyIntent');
+    expect(message).toContain('Closest recording: entry #3 (classifyIntent)');
+    expect(message).toContain('userPrompt differs at character 3');
+    expect(message).toContain('temperature differs: recorded 0.1, actual 0.7');
+  });
+});
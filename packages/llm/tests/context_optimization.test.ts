@@ -221,6 +221,28 @@ describe('Phase 28b: Context Optimization', () => {
     });
   });
 
+  describe('story summaries', () => {
+    it('should add the summaries as a layer before the history, oldest first', () => {
+      const prompt = contextBuilder.assemblePrompt({
+        systemPrompt: 'You are a test system',
+        summaries: [
+          { turnId: 30, level: 'campaign', fromTurn: 1, toTurn: 20, text: 'Aldric came to the city.' },
+          { turnId: 35, level: 'scene', fromTurn: 21, toTurn: 25, sceneId: 'scene-1', text: 'He met the mages.' }
+        ],
+        history: [{ turnId: 26, turnNumber: 1, actor: 'player', sceneId: 'scene-1', timestamp: 0, gameTime: { day: 1, timeOfDay: 'morning', timestamp: 0 }, events: [] }],
+        immediateContext: 'Test situation'
+      });
+
+      expect(prompt.user).toContain('## STORY SO FAR\nCampaign so far (turns 1-20): Aldric came to the city.\nScene (turns 21-25): He met the mages.');
+      expect(prompt.user.indexOf('## STORY SO FAR')).toBeLessThan(prompt.user.indexOf('## HISTORY'));
+    });
+
+    it('should leave the layer out when there are no summaries', () => {
+      const prompt = contextBuilder.assemblePrompt({ systemPrompt: 'You are a test system', summaries: [] });
+      expect(prompt.user).not.toContain('STORY SO FAR');
+    });
+  });
+
   describe('estimateContextTokens', () => {
     it('should estimate tokens based on character length', () => {
       const text = 'A'.repeat(350); // ~100 tokens (350 / 3.5)
@@ -0,0 +1,128 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { FallbackProvider, checkProviderHealth } from '../src/fallback';
+import { collectStream } from '../src/stream';
+import { LLMProvider } from '../src/types';
+
+const request = { caller: 'generateWorldTheme', systemPrompt: 'S', userPrompt: 'U' };
+const noRetry = { maxRetries: 0 };
+
+function working(model: string): LLMProvider {
+  return { generate: vi.fn().mockResolvedValue({ content: `from ${model}`, model }) };
+}
+
+function failing(message = 'connect ECONNREFUSED'): LLMProvider {
+  return { generate: vi.fn().mockRejectedValue(new Error(message)) };
+}
+
+describe('FallbackProvider', () => {
+  let clock: number;
+
+  beforeEach(() => {
+    clock = 0;
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  it('should retry a provider and then fall back to the next one', async () => {
+    const dead = failing();
+    const provider = new FallbackProvider(
+      [{ name: 'ollama llama3', provider: dead }, { name: 'mock', provider: working('mock') }],
+      { retry: { maxRetries: 1, initialDelay: 0 } }
+    );
+
+    expect((await provider.generate(request)).model).toBe('mock');
+    expect(dead.generate).toHaveBeenCalledTimes(2);
+  });
+
+  it('should report fallbacks and skipped providers through its callbacks', async () => {
+    const onFallback = vi.fn();
+    const onCircuitOpen = vi.fn();
+    const provider = new FallbackProvider(
+      [{ name: 'primary', provider: failing() }, { name: 'backup', provider: working('backup') }],
+      { retry: noRetry, failureThreshold: 1, cooldownMs: 1000, onFallback, onCircuitOpen }
+    );
+
+    await provider.generate(request);
+    expect(onFallback).toHaveBeenCalledWith('primary', 'backup', expect.objectContaining({ message: 'connect ECONNREFUSED' }));
+    expect(onCircuitOpen).toHaveBeenCalledWith('primary', 1, 1000);
+  });
+
+  it('should skip a provider after repeated failures until its cooldown passes', async () => {
+    const dead = failing();
+    const backup = working('backup');
+    const provider = new FallbackProvider(
+      [{ name: 'primary', provider: dead }, { name: 'backup', provider: backup }],
+      { retry: noRetry, failureThreshold: 2, cooldownMs: 1000, now: () => clock }
+    );
+
+    await provider.generate(request);
+    await provider.generate(request);
+    expect(provider.getOpenCircuits()).toEqual(['primary']);
+
+    await provider.generate(request);
+    expect(dead.generate).toHaveBeenCalledTimes(2);
+
+    clock += 1000;
+    expect(provider.getOpenCircuits()).toEqual([]);
+    await provider.generate(request);
+    expect(dead.generate).toHaveBeenCalledTimes(3);
+    // Still failing, so it is skipped again straight away
+    expect(provider.getOpenCircuits()).toEqual(['primary']);
+    expect(backup.generate).toHaveBeenCalledTimes(4);
+  });
+
+  it('should fail fast when every provider is being skipped', async () => {
+    const flaky = { generate: vi.fn().mockRejectedValueOnce(new Error('busy')).mockResolvedValue({ content: 'ok', model: 'flaky' }) };
+    const provider = new FallbackProvider(
+      [{ name: 'flaky', provider: flaky }],
+      { retry: noRetry, failureThreshold: 1, cooldownMs: 1000, now: () => clock }
+    );
+
+    await expect(provider.generate(request)).rejects.toThrow('All LLM providers failed for generateWorldTheme:\n  flaky: busy');
+    expect(provider.getOpenCircuits()).toEqual(['flaky']);
+    await expect(provider.generate(request)).rejects.toThrow(
+      'All LLM providers are being skipped after repeated failures for generateWorldTheme (flaky); next try in 1s'
+    );
+    await expect(collectStream(provider.stream(request))).rejects.toThrow('being skipped');
+    expect(flaky.generate).toHaveBeenCalledTimes(1);
+
+    clock += 1000;
+    expect((await provider.generate(request)).content).toBe('ok');
+    expect(provider.getOpenCircuits()).toEqual([]);
+  });
+
+  it('should fall back when a stream fails before producing text', async () => {
+    const dead: LLMProvider = {
+      generate: vi.fn(),
+      stream: vi.fn(async function* (): AsyncIterableIterator<string> {
+        throw new Error('model not loaded');
+      })
+    };
+    const provider = new FallbackProvider([{ name: 'dead', provider: dead }, { name: 'mock', provider: working('mock') }], { retry: noRetry });
+
+    expect(await collectStream(provider.stream(request))).toBe('from mock');
+  });
+
+  it('should health-check every provider and skip the ones that are down', async () => {
+    const healthy = { ...working('a'), healthCheck: vi.fn().mockResolvedValue(undefined) };
+    const down = { ...working('b'), healthCheck: vi.fn().mockRejectedValue(new Error('Model b is not available')) };
+    const provider = new FallbackProvider(
+      [{ name: 'down', provider: down }, { name: 'healthy', provider: healthy }],
+      { now: () => clock }
+    );
+
+    const results = await provider.checkHealth();
+
+    expect(results).toMatchObject([
+      { name: 'down', healthy: false, error: 'Model b is not available' },
+      { name: 'healthy', healthy: true }
+    ]);
+    expect(provider.getOpenCircuits()).toEqual(['down']);
+    expect((await provider.generate(request)).model).toBe('a');
+  });
+
+  it('should time out health checks that hang', async () => {
+    const hanging: LLMProvider = { generate: () => new Promise(() => {}) };
+
+    expect(await checkProviderHealth('hanging', hanging, 20)).toMatchObject({ healthy: false, error: 'No answer within 20ms' });
+  });
+});
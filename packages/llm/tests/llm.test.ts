@@ -2,7 +2,10 @@ import { describe, it, expect, vi } from 'vitest';
 import { ContextBuilder } from '../src/ContextBuilder';
 import { OpenAIAdapter } from '../src/adapters/OpenAIAdapter';
 import { OllamaAdapter } from '../src/adapters/OllamaAdapter';
-import { CharacterDefinition } from '@llmrpg/core';
+import { MockAdapter } from '../src/adapters/MockAdapter';
+import { LLMCallLog } from '../src/LLMCallLog';
+import { collectStream, streamText } from '../src/stream';
+import { CharacterDefinition, LLMCallRecord } from '@llmrpg/core';
 
 // Mock OpenAI
 vi.mock('openai', () => {
@@ -85,6 +88,10 @@ describe('ContextBuilder', () => {
   });
 });
 
+async function* chunksOf<T>(items: T[]): AsyncIterableIterator<T> {
+  yield* items;
+}
+
 describe('OpenAIAdapter', () => {
   it('should generate text', async () => {
     const adapter = new OpenAIAdapter({ apiKey: 'test', model: 'gpt-4' });
@@ -96,6 +103,29 @@ describe('OpenAIAdapter', () => {
     expect(response.content).toBe('Mock response');
     expect(response.model).toBe('gpt-mock');
   });
+
+  it('should stream content deltas', async () => {
+    const adapter = new OpenAIAdapter({ apiKey: 'test', model: 'gpt-4' });
+    const create = (adapter as any).client.chat.completions.create;
+    create.mockResolvedValueOnce(chunksOf([
+      { choices: [{ delta: { role: 'assistant' } }] },
+      { choices: [{ delta: { content: 'The door ' } }] },
+      { choices: [{ delta: { content: 'creaks open.' } }], model: 'gpt-4-0613' },
+      { choices: [], usage: { prompt_tokens: 12, completion_tokens: 4, total_tokens: 16 } }
+    ]));
+
+    const stream = adapter.stream({ systemPrompt: 'System', userPrompt: 'User' });
+    const chunks: string[] = [];
+    let next = await stream.next();
+    while (!next.done) {
+      chunks.push(next.value);
+      next = await stream.next();
+    }
+
+    expect(chunks).toEqual(['The door ', 'creaks open.']);
+    expect(next.value).toEqual({ model: 'gpt-4-0613', usage: { promptTokens: 12, completionTokens: 4, totalTokens: 16 } });
+    expect(create).toHaveBeenLastCalledWith(expect.objectContaining({ model: 'gpt-4', stream: true, stream_options: { include_usage: true } }));
+  });
 });
 
 describe('OllamaAdapter', () => {
@@ -109,4 +139,99 @@ describe('OllamaAdapter', () => {
     expect(response.content).toBe('Ollama response');
     expect(response.model).toBe('llama2');
   });
+
+  it('should stream message parts', async () => {
+    const adapter = new OllamaAdapter({ model: 'llama2' });
+    const chat = (adapter as any).client.chat;
+    chat.mockResolvedValueOnce(chunksOf([
+      { message: { content: 'Rain ' } },
+      { message: { content: 'falls.' } },
+      { message: { content: '' }, done: true, model: 'llama2', prompt_eval_count: 20, eval_count: 3 }
+    ]));
+
+    const log: LLMCallRecord[] = [];
+    const provider = new LLMCallLog(record => { log.push(record); }).wrap(adapter, 'NarrativeEngine');
+    expect(await collectStream(provider.stream!({ systemPrompt: 'System', userPrompt: 'User' }))).toBe('Rain falls.');
+    expect(log[0]).toMatchObject({ model: 'llama2', usage: { promptTokens: 20, completionTokens: 3, totalTokens: 23 } });
+    expect(chat).toHaveBeenLastCalledWith(expect.objectContaining({ stream: true }));
+  });
+});
+
+describe('streamText', () => {
+  it('should stream the same text MockAdapter generates', async () => {
+    const mock = new MockAdapter();
+    const request = { systemPrompt: 'You are the Game Master narrating', userPrompt: 'Go' };
+    const chunks: string[] = [];
+
+    const text = await collectStream(streamText(mock, request), chunk => chunks.push(chunk));
+
+    expect(text).toBe((await mock.generate(request)).content);
+    expect(chunks.length).toBeGreaterThan(1);
+  });
+
+  it('should yield the whole response from providers that cannot stream', async () => {
+    const provider = { generate: vi.fn().mockResolvedValue({ content: 'All at once', model: 'm' }) };
+
+    expect(await collectStream(streamText(provider, { systemPrompt: 'S', userPrompt: 'U' }))).toBe('All at once');
+  });
+});
+
+describe('LLMCallLog', () => {
+  it('should record each call with its system, method and turn', async () => {
+    const records: LLMCallRecord[] = [];
+    const log = new LLMCallLog(record => { records.push(record); });
+    const provider = log.wrap(new MockAdapter(), 'DecisionEngine');
+
+    log.setTurn(3);
+    await provider.generate({ caller: 'classifyIntent', systemPrompt: 'System', userPrompt: 'User', temperature: 0.1 });
+    await provider.generate({ systemPrompt: 'System', userPrompt: 'Again' });
+
+    expect(records).toHaveLength(2);
+    expect(records[0]).toMatchObject({
+      turnId: 3,
+      sequence: 1,
+      system: 'DecisionEngine',
+      method: 'classifyIntent',
+      actor: 'gm',
+      systemPrompt: 'System',
+      userPrompt: 'User',
+      parameters: { temperature: 0.1 },
+      model: 'mock-model'
+    });
+    expect(records[0].response).toBeDefined();
+    expect(records[1].sequence).toBe(2);
+  });
+
+  it('should record failed calls and rethrow', async () => {
+    const records: LLMCallRecord[] = [];
+    const log = new LLMCallLog(record => { records.push(record); });
+    const failing = { generate: vi.fn().mockRejectedValue(new Error('model offline')) };
+
+    await expect(log.wrap(failing, 'NarrativeEngine').generate({ systemPrompt: 'S', userPrompt: 'U' }))
+      .rejects.toThrow('model offline');
+    expect(records[0]).toMatchObject({ system: 'NarrativeEngine', error: 'model offline' });
+  });
+
+  it('should report sink failures without failing the call', async () => {
+    const onSinkError = vi.fn();
+    const log = new LLMCallLog(() => { throw new Error('disk full'); }, onSinkError);
+
+    await expect(log.wrap(new MockAdapter(), 'DecisionEngine').generate({ systemPrompt: 'S', userPrompt: 'U' })).resolves.toBeDefined();
+    expect(onSinkError).toHaveBeenCalledWith(expect.objectContaining({ message: 'disk full' }), expect.objectContaining({ system: 'DecisionEngine' }));
+  });
+
+  it('should record a streamed call once the stream ends', async () => {
+    const records: LLMCallRecord[] = [];
+    const log = new LLMCallLog(record => { records.push(record); });
+    const provider = log.wrap(new MockAdapter(), 'NarrativeEngine');
+    const request = { caller: 'narrate', systemPrompt: 'You are the Game Master narrating', userPrompt: 'Go' };
+
+    const text = await collectStream(provider.stream!(request), () => {
+      expect(records).toHaveLength(0);
+    });
+
+    expect(records).toHaveLength(1);
+    expect(records[0]).toMatchObject({ system: 'NarrativeEngine', method: 'narrate', response: text, model: 'mock-model' });
+    expect(records[0].usage).toBeDefined();
+  });
 });
@@ -0,0 +1,96 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { RoutingProvider, createRoutingProvider, loadRoutingConfig } from '../src/routing';
+import { collectStream } from '../src/stream';
+import { LLMProvider } from '../src/types';
+import { FallbackProvider } from '../src/fallback';
+
+function fakeProvider(model: string): LLMProvider {
+  return { generate: vi.fn().mockResolvedValue({ content: `from ${model}`, model }) };
+}
+
+describe('RoutingProvider', () => {
+  it('should send each task to its route and everything else to the default', async () => {
+    const small = fakeProvider('small');
+    const large = fakeProvider('large');
+    const router = new RoutingProvider(large, { classify: small });
+
+    expect((await router.generate({ task: 'classify', systemPrompt: 'S', userPrompt: 'U' })).model).toBe('small');
+    expect((await router.generate({ task: 'narrate', systemPrompt: 'S', userPrompt: 'U' })).model).toBe('large');
+    expect((await router.generate({ systemPrompt: 'S', userPrompt: 'U' })).model).toBe('large');
+    expect(await collectStream(router.stream({ task: 'classify', systemPrompt: 'S', userPrompt: 'U' }))).toBe('from small');
+  });
+
+  it('should share one provider between routes with the same model', () => {
+    const router = createRoutingProvider({
+      default: { provider: 'ollama', model: 'llama3' },
+      routes: {
+        classify: { provider: 'ollama', model: 'granite4:3b' },
+        decide: { provider: 'ollama', model: 'granite4:3b' },
+        narrate: { provider: 'ollama', model: 'llama3' }
+      }
+    });
+
+    expect(router.providerFor('classify')).toBeInstanceOf(FallbackProvider);
+    expect(router.providerFor('classify')).toBe(router.providerFor('decide'));
+    expect(router.providerFor('narrate')).toBe(router.providerFor(undefined));
+    expect(router.providerFor('classify')).not.toBe(router.providerFor('narrate'));
+  });
+
+  it('should health-check each model once across routes and fallback chains', async () => {
+    const router = createRoutingProvider({
+      default: [{ provider: 'ollama', model: 'llama3' }, { provider: 'mock' }],
+      routes: { classify: [{ provider: 'ollama', model: 'llama3' }, { provider: 'mock' }], narrate: { provider: 'mock' } }
+    }, {
+      wrap: (provider, spec) => spec.provider === 'ollama'
+        ? { ...provider, generate: provider.generate.bind(provider), healthCheck: async () => { throw new Error('connect ECONNREFUSED'); } }
+        : provider
+    });
+
+    expect(await router.checkHealth()).toMatchObject([
+      { name: 'ollama llama3', healthy: false, error: 'connect ECONNREFUSED' },
+      { name: 'mock', healthy: true }
+    ]);
+  });
+
+  it('should require an API key for hosted providers', () => {
+    expect(() => createRoutingProvider({
+      default: { provider: 'openai', model: 'gpt-4o', apiKeyEnv: 'LLMRPG_TEST_UNSET_KEY' },
+      routes: {}
+    })).toThrow('LLMRPG_TEST_UNSET_KEY');
+  });
+});
+
+describe('loadRoutingConfig', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'llmrpg-routing-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should load a config and default to no routes', async () => {
+    const file = path.join(dir, 'models.json');
+    fs.writeFileSync(file, JSON.stringify({ default: { provider: 'mock' } }));
+
+    expect(await loadRoutingConfig(file)).toEqual({ default: [{ provider: 'mock' }], routes: {} });
+  });
+
+  it('should describe what is wrong with an invalid config', async () => {
+    const file = path.join(dir, 'models.json');
+    fs.writeFileSync(file, JSON.stringify({
+      default: { provider: 'ollama', model: 'llama3' },
+      routes: { translate: { provider: 'ollama', model: 'llama3' }, narrate: { provider: 'ollama' } }
+    }));
+
+    const error = await loadRoutingConfig(file).catch(e => e as Error);
+    expect(error.message).toContain(`${file} is not a valid routing config`);
+    expect(error.message).toContain('routes.translate');
+    expect(error.message).toContain('routes.narrate.0.model');
+  });
+});
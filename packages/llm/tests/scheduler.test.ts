@@ -0,0 +1,112 @@
+import { describe, it, expect } from 'vitest';
+import { RequestScheduler } from '../src/scheduler';
+import { collectStream } from '../src/stream';
+import { LLMProvider, LLMRequest } from '../src/types';
+
+function deferred<T = string>() {
+  let resolve!: (value: T) => void;
+  let reject!: (error: Error) => void;
+  const promise = new Promise<T>((res, rej) => { resolve = res; reject = rej; });
+  return { promise, resolve, reject };
+}
+
+const flush = () => new Promise(resolve => setTimeout(resolve, 0));
+
+describe('RequestScheduler', () => {
+  it('should run no more than the maximum number of requests at once', async () => {
+    const scheduler = new RequestScheduler({ maxConcurrency: 2 });
+    const pending = [deferred(), deferred(), deferred()];
+    const started: number[] = [];
+
+    const results = pending.map((d, i) => scheduler.schedule(() => { started.push(i); return d.promise; }));
+    await flush();
+    expect(started).toEqual([0, 1]);
+    expect(scheduler.getMetrics()).toMatchObject({ running: 2, queued: 1 });
+
+    pending[0].resolve('a');
+    await flush();
+    expect(started).toEqual([0, 1, 2]);
+
+    pending[1].resolve('b');
+    pending[2].reject(new Error('model offline'));
+    expect(await Promise.allSettled(results)).toMatchObject([
+      { status: 'fulfilled', value: 'a' },
+      { status: 'fulfilled', value: 'b' },
+      { status: 'rejected', reason: { message: 'model offline' } }
+    ]);
+    expect(scheduler.getMetrics()).toMatchObject({ running: 0, queued: 0, completed: 2, failed: 1, maxQueued: 1 });
+  });
+
+  it('should start queued requests by priority', async () => {
+    const scheduler = new RequestScheduler({ maxConcurrency: 1 });
+    const blocker = deferred();
+    const order: string[] = [];
+    const run = (name: string, priority: number) => scheduler.schedule(async () => { order.push(name); }, { priority });
+
+    const first = scheduler.schedule(() => blocker.promise);
+    const queued = [run('decide', 1), run('narrate', 3), run('decide again', 1), run('classify', 2)];
+    blocker.resolve('done');
+    await Promise.all([first, ...queued]);
+
+    expect(order).toEqual(['narrate', 'classify', 'decide', 'decide again']);
+  });
+
+  it('should cancel queued and running requests', async () => {
+    const scheduler = new RequestScheduler({ maxConcurrency: 1 });
+    const slow = deferred();
+    const runningAbort = new AbortController();
+    const queuedAbort = new AbortController();
+    let queuedStarted = false;
+
+    const running = scheduler.schedule(() => slow.promise, { signal: runningAbort.signal });
+    const queued = scheduler.schedule(async () => { queuedStarted = true; }, { signal: queuedAbort.signal });
+    const other = scheduler.schedule(async () => 'other');
+    await flush();
+
+    queuedAbort.abort();
+    await expect(queued).rejects.toThrow();
+    runningAbort.abort(new Error('player quit'));
+    await expect(running).rejects.toThrow('player quit');
+
+    // The abandoned request keeps its slot until it actually finishes
+    expect(scheduler.getMetrics()).toMatchObject({ running: 1, queued: 1, cancelled: 2 });
+    slow.resolve('late');
+    expect(await other).toBe('other');
+    expect(queuedStarted).toBe(false);
+
+    const rest = [scheduler.schedule(() => deferred().promise), scheduler.schedule(async () => 'never')];
+    scheduler.cancelQueued('shutting down');
+    await expect(rest[1]).rejects.toThrow('shutting down');
+  });
+
+  it('should prioritize narration through a wrapped provider and hold the slot while streaming', async () => {
+    const scheduler = new RequestScheduler({ maxConcurrency: 1 });
+    const order: string[] = [];
+    const gate = deferred();
+    const provider: LLMProvider = {
+      generate: async (request: LLMRequest) => {
+        order.push(request.caller!);
+        if (request.caller === 'first') await gate.promise;
+        return { content: request.caller!, model: 'm' };
+      },
+      stream: async function* (request: LLMRequest) {
+        order.push(request.caller!);
+        yield 'The ';
+        yield 'end.';
+      }
+    };
+    const scheduled = scheduler.wrap(provider);
+
+    const first = scheduled.generate({ caller: 'first', task: 'decide', systemPrompt: 'S', userPrompt: 'U' });
+    await flush();
+    const quest = scheduled.generate({ caller: 'determineQuestUpdate', task: 'decide', systemPrompt: 'S', userPrompt: 'U' });
+    const narration = collectStream(scheduled.stream!({ caller: 'narrate', task: 'narrate', systemPrompt: 'S', userPrompt: 'U' }));
+    await flush();
+    gate.resolve('open');
+
+    expect(await narration).toBe('The end.');
+    await Promise.all([first, quest]);
+    expect(order).toEqual(['first', 'narrate', 'determineQuestUpdate']);
+    expect(scheduler.getMetrics()).toMatchObject({ running: 0, completed: 3 });
+  });
+});
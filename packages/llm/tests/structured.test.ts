@@ -0,0 +1,77 @@
+import { describe, it, expect } from 'vitest';
+import { z } from 'zod';
+import { MockAdapter } from '../src/adapters/MockAdapter';
+import { LLMRequest } from '../src/types';
+import { extractJson, generateStructured } from '../src/structured';
+
+const IntentSchema = z.object({
+  type: z.enum(['buy', 'sell']),
+  quantity: z.number().int().positive()
+});
+
+class ScriptedAdapter extends MockAdapter {
+  requests: LLMRequest[] = [];
+
+  constructor(responses: string[]) {
+    super();
+    responses.forEach(response => this.setNextResponse(response));
+  }
+
+  async generate(request: LLMRequest) {
+    this.requests.push(request);
+    return super.generate(request);
+  }
+}
+
+const request: LLMRequest = { caller: 'parseTradeIntent', systemPrompt: 'Parse the trade.', userPrompt: 'Buy two swords' };
+
+describe('generateStructured', () => {
+  it('should return typed data from a valid response', async () => {
+    const provider = new ScriptedAdapter(['{"type": "buy", "quantity": 2}']);
+
+    const result = await generateStructured(provider, request, IntentSchema);
+
+    expect(result).toMatchObject({ data: { type: 'buy', quantity: 2 }, attempts: 1, repaired: false, errors: [] });
+    expect(provider.requests[0].jsonMode).toBe(true);
+  });
+
+  it('should send validation errors back and report the repair', async () => {
+    const provider = new ScriptedAdapter(['{"type": "purchase", "quantity": 2}', '{"type": "buy", "quantity": 2}']);
+
+    const result = await generateStructured(provider, request, IntentSchema);
+
+    expect(result).toMatchObject({ data: { type: 'buy' }, attempts: 2, repaired: true });
+    expect(result.errors[0]).toContain('type: Invalid enum value');
+    expect(provider.requests[1].caller).toBe('parseTradeIntent:repair');
+    expect(provider.requests[1].userPrompt).toContain('"type": "purchase"');
+    expect(provider.requests[1].userPrompt).toContain('type: Invalid enum value');
+  });
+
+  it('should give up after the allowed attempts', async () => {
+    const provider = new ScriptedAdapter(['not json', '{"type": "buy"}']);
+
+    await expect(generateStructured(provider, request, IntentSchema, { maxAttempts: 2 }))
+      .rejects.toThrow('parseTradeIntent returned no valid response in 2 attempts:\nquantity: Required');
+    expect(provider.requests).toHaveLength(2);
+    expect(provider.requests[1].userPrompt).toContain('Invalid JSON');
+  });
+
+  it('should read listed plain-text answers as null without a repair', async () => {
+    const provider = new ScriptedAdapter(['No.', ' NO ']);
+    const nullable = IntentSchema.nullable();
+
+    await expect(generateStructured(provider, request, nullable, { nullAnswers: ['no'], maxAttempts: 1 }))
+      .rejects.toThrow('Invalid JSON');
+    const result = await generateStructured(provider, request, nullable, { nullAnswers: ['no'] });
+
+    expect(result).toMatchObject({ data: null, attempts: 1, repaired: false });
+    expect(provider.requests).toHaveLength(2);
+  });
+
+  it('should read JSON wrapped in code fences or prose', () => {
+    expect(extractJson('```json\n{"a": 1}\n```')).toEqual({ a: 1 });
+    expect(extractJson('Here you go: [1, 2] Enjoy!')).toEqual([1, 2]);
+    expect(extractJson('null')).toBeNull();
+    expect(() => extractJson('no json here')).toThrow();
+  });
+});
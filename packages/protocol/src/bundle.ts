@@ -0,0 +1,33 @@
+import { z } from 'zod';
+import { SessionIdSchema, SessionMetadataSchema } from './session';
+
+export const SESSION_BUNDLE_FORMAT = 'llmrpg-session-bundle';
+
+export const BundleFileEntrySchema = z.object({
+  path: z.string().min(1),
+  bytes: z.number().int().nonnegative(),
+  sha256: z.string().regex(/^[0-9a-f]{64}$/),
+});
+
+export type BundleFileEntry = z.infer<typeof BundleFileEntrySchema>;
+
+export const SessionBundleManifestSchema = z.object({
+  format: z.literal(SESSION_BUNDLE_FORMAT),
+  bundleVersion: z.number().int().positive(),
+  
+  // Session the bundle was exported from
+  sessionId: SessionIdSchema,
+  storageVersion: z.string(),
+  exportedAt: z.string().datetime(),
+  metadata: SessionMetadataSchema,
+  
+  // Contents
+  counts: z.object({
+    turns: z.number().int().nonnegative(),
+    deltas: z.number().int().nonnegative(),
+    snapshots: z.number().int().nonnegative(),
+  }),
+  files: z.array(BundleFileEntrySchema),
+});
+
+export type SessionBundleManifest = z.infer<typeof SessionBundleManifestSchema>;
@@ -213,6 +213,9 @@ export const NPCSchema = BaseCharacterSchema.extend({
   // Last time this NPC was active
   lastActiveTurn: z.number().int().optional(),
 
+  // Turn the player first shared a location with this NPC
+  firstEncounteredTurn: z.number().int().optional(),
+
   // Interaction history with player across sessions (Phase 23)
   interactionHistory: z.array(InteractionHistorySchema).default([]),
 
@@ -63,7 +63,7 @@ export type Delta = z.infer<typeof DeltaSchema>;
 export const TurnDeltasSchema = z.object({
   turn: z.number().int().min(0),
   deltas: z.array(DeltaSchema),
-  checksum: z.string().optional(), // For integrity verification
+  checksum: z.string().optional(), // Chained hash of the batch, as stored in Turn.deltaChecksum
 });
 
 export type TurnDeltas = z.infer<typeof TurnDeltasSchema>;
@@ -31,6 +31,7 @@ export * from './messages';
 
 // Session types
 export * from './session';
+export * from './bundle';
 
 // Re-export Zod for convenience
 export { z } from 'zod';
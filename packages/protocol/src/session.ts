@@ -1,7 +1,12 @@
 import { z } from 'zod';
 
+// Session ids name folders on disk, so they can't contain separators or ".."
+export const SessionIdSchema = z.string()
+  .regex(/^[A-Za-z0-9._-]+$/, 'Session ids may only contain letters, digits, ".", "_" and "-"')
+  .refine(id => !id.includes('..'), 'Session ids may not contain ".."');
+
 export const SessionMetadataSchema = z.object({
-  id: z.string().uuid(),
+  id: z.string().min(1),
   name: z.string(),
   
   // Theme info
@@ -18,7 +23,14 @@ export const SessionMetadataSchema = z.object({
   
   // Progress
   currentTurn: z.number().int(),
-  currentSceneId: z.string().uuid().optional(),
+  currentSceneId: z.string().optional(),
+  
+  // Lineage (set when the session was forked from another)
+  parentSessionId: z.string().optional(),
+  forkTurn: z.number().int().optional(),
+  
+  // Seed for dice rolls and other random choices, so turns can be replayed
+  seed: z.number().int().optional(),
   
   // Timestamps
   createdAt: z.string().datetime(),
@@ -1,6 +1,10 @@
+import { randomUUID } from 'crypto';
 import fs from 'fs-extra';
 import path from 'path';
 
+// Suffix of the files atomic writes go through before being renamed into place
+const TEMP_EXTENSION = '.tmp';
+
 export class FileSystemAdapter {
   constructor(private basePath: string) {}
 
@@ -12,10 +16,11 @@ export class FileSystemAdapter {
   }
 
   /**
-   * Writes an object to a JSON file.
+   * Writes an object to a JSON file. The write is atomic: a crash leaves
+   * either the old or the new file, never a partial one.
    */
   async writeJson(filePath: string, data: any): Promise<void> {
-    await fs.outputJson(path.join(this.basePath, filePath), data, { spaces: 2 });
+    await this.writeAtomic(path.join(this.basePath, filePath), JSON.stringify(data, null, 2) + '\n');
   }
 
   /**
@@ -25,13 +30,23 @@ export class FileSystemAdapter {
     return await fs.readJson(path.join(this.basePath, filePath));
   }
 
+  /**
+   * Writes a string to a file, replacing its contents atomically.
+   */
+  async writeFile(filePath: string, content: string): Promise<void> {
+    await this.writeAtomic(path.join(this.basePath, filePath), content);
+  }
+
   /**
    * Appends a string line to a file. Useful for .jsonl files.
    */
   async appendLine(filePath: string, line: string): Promise<void> {
     const fullPath = path.join(this.basePath, filePath);
     await fs.ensureDir(path.dirname(fullPath));
-    await fs.appendFile(fullPath, line + '\n');
+    // If an earlier append was cut off mid-line, start on a fresh line so the
+    // new record isn't glued onto the torn fragment
+    const prefix = await this.endsWithPartialLine(fullPath) ? '\n' : '';
+    await fs.appendFile(fullPath, prefix + line + '\n');
   }
   
   /**
@@ -41,6 +56,13 @@ export class FileSystemAdapter {
     return await fs.pathExists(path.join(this.basePath, filePath));
   }
 
+  /**
+   * Removes a file or directory.
+   */
+  async remove(filePath: string): Promise<void> {
+    await fs.remove(path.join(this.basePath, filePath));
+  }
+
   /**
    * Lists files in a directory.
    */
@@ -56,4 +78,53 @@ export class FileSystemAdapter {
   async readFile(filePath: string): Promise<string> {
     return await fs.readFile(path.join(this.basePath, filePath), 'utf-8');
   }
+
+  /**
+   * Writes to a temporary file next to the target, flushes it to disk and
+   * renames it over the target. The temporary file is removed if any step
+   * fails; one left behind by a crash is swept up by removeTempFiles.
+   */
+  private async writeAtomic(fullPath: string, content: string): Promise<void> {
+    await fs.ensureDir(path.dirname(fullPath));
+    const tempPath = `${fullPath}.${randomUUID()}${TEMP_EXTENSION}`;
+    try {
+      const handle = await fs.promises.open(tempPath, 'w');
+      try {
+        await handle.writeFile(content);
+        await handle.sync();
+      } finally {
+        await handle.close();
+      }
+      await fs.rename(tempPath, fullPath);
+    } catch (error) {
+      await fs.remove(tempPath);
+      throw error;
+    }
+  }
+
+  /**
+   * Deletes the temporary files left in a directory by interrupted atomic
+   * writes and returns how many were removed.
+   */
+  async removeTempFiles(dirPath: string): Promise<number> {
+    const stale = (await this.listFiles(dirPath)).filter(file => file.endsWith(TEMP_EXTENSION));
+    for (const file of stale) {
+      await this.remove(path.join(dirPath, file));
+    }
+    return stale.length;
+  }
+
+  private async endsWithPartialLine(fullPath: string): Promise<boolean> {
+    if (!await fs.pathExists(fullPath)) return false;
+    const handle = await fs.promises.open(fullPath, 'r');
+    try {
+      const { size } = await handle.stat();
+      if (size === 0) return false;
+      const lastByte = Buffer.alloc(1);
+      await handle.read(lastByte, 0, 1, size - 1);
+      return lastByte[0] !== 0x0a;
+    } finally {
+      await handle.close();
+    }
+  }
 }
@@ -0,0 +1,200 @@
+import { FileSystemAdapter } from './FileSystemAdapter';
+import type { RecordStream, StorageBackend, TurnRecord } from './StorageBackend';
+import path from 'path';
+
+/** Number of turns stored per JSONL chunk file */
+export const CHUNK_SIZE = 100;
+
+/**
+ * Index of the chunk holding a turn's records. Turn 0 shares the first chunk.
+ */
+export function getChunkIndex(turnId: number): number {
+  return Math.max(0, Math.floor((turnId - 1) / CHUNK_SIZE));
+}
+
+/**
+ * Name of the chunk file holding a stream's records for the given chunk,
+ * e.g. `turns-0001-0100.jsonl` for chunk 0.
+ */
+export function getChunkFilename(stream: RecordStream, chunkIndex: number): string {
+  const start = chunkIndex * CHUNK_SIZE + 1;
+  const end = (chunkIndex + 1) * CHUNK_SIZE;
+  return `${stream}-${start.toString().padStart(4, '0')}-${end.toString().padStart(4, '0')}.jsonl`;
+}
+
+export interface FileSystemBackendOptions {
+  /**
+   * Called for each record line that isn't valid JSON, which is then skipped.
+   * `interrupted` is true for a torn final line left by a cut-off write;
+   * "llmrpg repair" removes both kinds.
+   */
+  onCorruptLine?: (filename: string, line: number, interrupted: boolean, error: Error) => void;
+}
+
+/**
+ * Stores sessions as folders under `sessions/active`, with record streams
+ * chunked into JSONL files of 100 turns each.
+ */
+export class FileSystemBackend implements StorageBackend {
+  constructor(private adapter: FileSystemAdapter, private options: FileSystemBackendOptions = {}) {}
+
+  private getSessionPath(sessionId: string): string {
+    return path.join('sessions', 'active', sessionId);
+  }
+
+  private parseLines<T>(content: string, filename: string): { records: T[]; corrupt: number } {
+    const records: T[] = [];
+    let corrupt = 0;
+    const lines = content.split('\n');
+    lines.forEach((line, index) => {
+      if (line.trim() === '') return;
+      try {
+        records.push(JSON.parse(line) as T);
+      } catch (e) {
+        corrupt++;
+        // A final line without a newline is a write that was cut off
+        this.options.onCorruptLine?.(filename, index + 1, index === lines.length - 1, e as Error);
+      }
+    });
+    return { records, corrupt };
+  }
+
+  async createSession(sessionId: string): Promise<void> {
+    const sessionPath = this.getSessionPath(sessionId);
+    await this.adapter.ensureDir(sessionPath);
+    await this.adapter.ensureDir(path.join(sessionPath, 'scenes'));
+    await this.adapter.ensureDir(path.join(sessionPath, 'turns'));
+    await this.adapter.ensureDir(path.join(sessionPath, 'deltas'));
+    await this.adapter.ensureDir(path.join(sessionPath, 'snapshots'));
+    await this.adapter.ensureDir(path.join(sessionPath, 'llm'));
+    await this.adapter.ensureDir(path.join(sessionPath, 'trace'));
+    await this.adapter.ensureDir(path.join(sessionPath, 'summaries'));
+  }
+
+  async hasSession(sessionId: string): Promise<boolean> {
+    return await this.adapter.exists(this.getSessionPath(sessionId));
+  }
+
+  async listSessions(): Promise<string[]> {
+    return await this.adapter.listFiles(path.join('sessions', 'active'));
+  }
+
+  async append(sessionId: string, stream: RecordStream, record: TurnRecord): Promise<void> {
+    // Records are chunked by turn number for easier correlation
+    const filename = getChunkFilename(stream, getChunkIndex(record.turnId));
+    const filePath = path.join(this.getSessionPath(sessionId), stream, filename);
+    await this.adapter.appendLine(filePath, JSON.stringify(record));
+  }
+
+  async readRange<T extends TurnRecord>(sessionId: string, stream: RecordStream, startTurn: number, endTurn: number): Promise<T[]> {
+    const records: T[] = [];
+    const startChunk = getChunkIndex(startTurn);
+    const endChunk = getChunkIndex(endTurn);
+
+    for (let i = startChunk; i <= endChunk; i++) {
+      const filename = getChunkFilename(stream, i);
+      const filePath = path.join(this.getSessionPath(sessionId), stream, filename);
+
+      if (await this.adapter.exists(filePath)) {
+        const content = await this.adapter.readFile(filePath);
+        for (const record of this.parseLines<T>(content, filename).records) {
+          if (record.turnId >= startTurn && record.turnId <= endTurn) {
+            records.push(record);
+          }
+        }
+      }
+    }
+
+    return records;
+  }
+
+  async getLastTurnId(sessionId: string, stream: RecordStream): Promise<number> {
+    const dirPath = path.join(this.getSessionPath(sessionId), stream);
+    const chunks = (await this.adapter.listFiles(dirPath))
+      .filter(file => new RegExp(`^${stream}-\\d+-\\d+\\.jsonl$`).test(file))
+      .sort();
+
+    for (let i = chunks.length - 1; i >= 0; i--) {
+      const content = await this.adapter.readFile(path.join(dirPath, chunks[i]));
+      const lastTurnId = this.parseLines<TurnRecord>(content, chunks[i]).records
+        .reduce((max, record) => Math.max(max, record.turnId), 0);
+      if (lastTurnId > 0) {
+        return lastTurnId;
+      }
+    }
+
+    return 0;
+  }
+
+  async truncate(sessionId: string, stream: RecordStream, lastTurnId: number): Promise<void> {
+    const dirPath = path.join(this.getSessionPath(sessionId), stream);
+    for (const file of await this.adapter.listFiles(dirPath)) {
+      const match = file.match(/^[a-z]+-(\d+)-\d+\.jsonl$/);
+      if (!match) continue;
+
+      const filePath = path.join(dirPath, file);
+      // The first chunk may also hold turn 0 records, so it is always filtered
+      if (parseInt(match[1], 10) > Math.max(lastTurnId, 1)) {
+        await this.adapter.remove(filePath);
+        continue;
+      }
+
+      const content = await this.adapter.readFile(filePath);
+      const kept = content.split('\n').filter(line => {
+        if (line.trim() === '') return false;
+        try {
+          return (JSON.parse(line) as TurnRecord).turnId <= lastTurnId;
+        } catch {
+          return false;
+        }
+      });
+      await this.adapter.writeFile(filePath, kept.map(line => line + '\n').join(''));
+    }
+  }
+
+  async removeCorruptRecords(sessionId: string, stream: RecordStream): Promise<number> {
+    const dirPath = path.join(this.getSessionPath(sessionId), stream);
+    let removed = 0;
+    for (const file of await this.adapter.listFiles(dirPath)) {
+      if (!/^[a-z]+-\d+-\d+\.jsonl$/.test(file)) continue;
+
+      const filePath = path.join(dirPath, file);
+      const { records, corrupt } = this.parseLines<TurnRecord>(await this.adapter.readFile(filePath), file);
+      if (corrupt > 0) {
+        await this.adapter.writeFile(filePath, records.map(record => JSON.stringify(record) + '\n').join(''));
+        removed += corrupt;
+      }
+    }
+    return removed;
+  }
+
+  async removeTempFiles(sessionId: string): Promise<number> {
+    const sessionPath = this.getSessionPath(sessionId);
+    let removed = 0;
+    // Everywhere writeJson and chunk rewrites put files
+    for (const dir of ['', 'snapshots', 'turns', 'deltas', 'llm', 'trace', 'summaries']) {
+      removed += await this.adapter.removeTempFiles(path.join(sessionPath, dir));
+    }
+    return removed;
+  }
+
+  async writeJson(sessionId: string, key: string, data: any): Promise<void> {
+    await this.adapter.writeJson(path.join(this.getSessionPath(sessionId), key), data);
+  }
+
+  async readJson<T>(sessionId: string, key: string): Promise<T> {
+    return await this.adapter.readJson<T>(path.join(this.getSessionPath(sessionId), key));
+  }
+
+  async hasJson(sessionId: string, key: string): Promise<boolean> {
+    return await this.adapter.exists(path.join(this.getSessionPath(sessionId), key));
+  }
+
+  async list(sessionId: string, dir: string): Promise<string[]> {
+    return await this.adapter.listFiles(path.join(this.getSessionPath(sessionId), dir));
+  }
+
+  async remove(sessionId: string, key: string): Promise<void> {
+    await this.adapter.remove(path.join(this.getSessionPath(sessionId), key));
+  }
+}
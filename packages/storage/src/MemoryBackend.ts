@@ -0,0 +1,96 @@
+import type { RecordStream, StorageBackend, TurnRecord } from './StorageBackend';
+
+interface MemorySession {
+  streams: Record<RecordStream, string[]>;
+  documents: Map<string, string>;
+}
+
+/**
+ * Keeps sessions in process memory. Intended for tests; values are stored
+ * serialized so callers never share references with the store.
+ */
+export class MemoryBackend implements StorageBackend {
+  private sessions = new Map<string, MemorySession>();
+
+  private getSession(sessionId: string): MemorySession {
+    let session = this.sessions.get(sessionId);
+    if (!session) {
+      session = { streams: { turns: [], deltas: [], llm: [], trace: [], summaries: [] }, documents: new Map() };
+      this.sessions.set(sessionId, session);
+    }
+    return session;
+  }
+
+  async createSession(sessionId: string): Promise<void> {
+    this.getSession(sessionId);
+  }
+
+  async hasSession(sessionId: string): Promise<boolean> {
+    return this.sessions.has(sessionId);
+  }
+
+  async listSessions(): Promise<string[]> {
+    return Array.from(this.sessions.keys());
+  }
+
+  async append(sessionId: string, stream: RecordStream, record: TurnRecord): Promise<void> {
+    this.getSession(sessionId).streams[stream].push(JSON.stringify(record));
+  }
+
+  async readRange<T extends TurnRecord>(sessionId: string, stream: RecordStream, startTurn: number, endTurn: number): Promise<T[]> {
+    const lines = this.sessions.get(sessionId)?.streams[stream] ?? [];
+    return lines
+      .map(line => JSON.parse(line) as T)
+      .filter(record => record.turnId >= startTurn && record.turnId <= endTurn);
+  }
+
+  async getLastTurnId(sessionId: string, stream: RecordStream): Promise<number> {
+    const lines = this.sessions.get(sessionId)?.streams[stream] ?? [];
+    return lines.reduce((max, line) => Math.max(max, (JSON.parse(line) as TurnRecord).turnId), 0);
+  }
+
+  async truncate(sessionId: string, stream: RecordStream, lastTurnId: number): Promise<void> {
+    const session = this.sessions.get(sessionId);
+    if (!session) return;
+    session.streams[stream] = session.streams[stream]
+      .filter(line => (JSON.parse(line) as TurnRecord).turnId <= lastTurnId);
+  }
+
+  async removeCorruptRecords(): Promise<number> {
+    // Records are serialized by the backend itself and can't be torn
+    return 0;
+  }
+
+  async removeTempFiles(): Promise<number> {
+    // Nothing is written through temporary files
+    return 0;
+  }
+
+  async writeJson(sessionId: string, key: string, data: any): Promise<void> {
+    this.getSession(sessionId).documents.set(key, JSON.stringify(data));
+  }
+
+  async readJson<T>(sessionId: string, key: string): Promise<T> {
+    const content = this.sessions.get(sessionId)?.documents.get(key);
+    if (content === undefined) {
+      throw new Error(`Document ${key} not found in session ${sessionId}`);
+    }
+    return JSON.parse(content) as T;
+  }
+
+  async hasJson(sessionId: string, key: string): Promise<boolean> {
+    return this.sessions.get(sessionId)?.documents.has(key) ?? false;
+  }
+
+  async list(sessionId: string, dir: string): Promise<string[]> {
+    const prefix = `${dir}/`;
+    const keys = Array.from(this.sessions.get(sessionId)?.documents.keys() ?? []);
+    return keys
+      .filter(key => key.startsWith(prefix) && !key.slice(prefix.length).includes('/'))
+      .map(key => key.slice(prefix.length));
+  }
+
+  async remove(sessionId: string, key: string): Promise<void> {
+    this.sessions.get(sessionId)?.documents.delete(key);
+  }
+}
@@ -1,89 +1,236 @@
 import { FileSystemAdapter } from './FileSystemAdapter';
-import { Turn, Delta } from '@llmrpg/core';
-import path from 'path';
+import { StorageBackend, toStorageBackend } from './StorageBackend';
+import { Turn, Delta, LLMCallRecord, TurnTrace, StorySummary, applyDelta } from '@llmrpg/core';
+import { SessionMetadata } from '@llmrpg/protocol';
+import { LEGACY_STORAGE_VERSION, normalizeSessionMetadata } from './metadata';
+import { SessionState, SessionSnapshot, VerificationIssue, VerificationReport } from './types';
+import { computeDeltaChecksum, diffValues } from './integrity';
 
 export class SessionLoader {
-  constructor(private adapter: FileSystemAdapter) {}
+  private backend: StorageBackend;
 
-  private getSessionPath(sessionId: string): string {
-    return path.join('sessions', 'active', sessionId);
+  constructor(storage: StorageBackend | FileSystemAdapter) {
+    this.backend = toStorageBackend(storage);
   }
 
-  async loadSessionMetadata(sessionId: string): Promise<any> {
-    return await this.adapter.readJson(path.join(this.getSessionPath(sessionId), 'session.meta.json'));
+  async listSessions(): Promise<string[]> {
+    return await this.backend.listSessions();
+  }
+
+  /**
+   * Loads the session metadata, filling in defaults for fields that sessions
+   * written by older versions lack.
+   */
+  async loadSessionMetadata(sessionId: string): Promise<SessionMetadata> {
+    return normalizeSessionMetadata(sessionId, await this.backend.readJson(sessionId, 'session.meta.json'));
+  }
+
+  /**
+   * Returns the save-format version stamped into the session, or the legacy
+   * version for sessions written before versions were recorded.
+   */
+  async getStorageVersion(sessionId: string): Promise<string> {
+    if (!await this.backend.hasJson(sessionId, 'session.meta.json')) {
+      return LEGACY_STORAGE_VERSION;
+    }
+    const metadata = await this.backend.readJson<{ version?: string }>(sessionId, 'session.meta.json');
+    return metadata.version ?? LEGACY_STORAGE_VERSION;
   }
 
   async loadCurrentState(sessionId: string): Promise<{ world: any, player: any, npcs: any }> {
-    const sessionPath = this.getSessionPath(sessionId);
-    const world = await this.adapter.readJson(path.join(sessionPath, 'world.state.json'));
-    const player = await this.adapter.readJson(path.join(sessionPath, 'player.state.json'));
+    const world = await this.backend.readJson(sessionId, 'world.state.json');
+    const player = await this.backend.readJson(sessionId, 'player.state.json');
     
     let npcs = {};
-    const npcsPath = path.join(sessionPath, 'npcs.state.json');
-    if (await this.adapter.exists(npcsPath)) {
-        npcs = await this.adapter.readJson(npcsPath);
+    if (await this.backend.hasJson(sessionId, 'npcs.state.json')) {
+        npcs = await this.backend.readJson(sessionId, 'npcs.state.json');
     }
     
     return { world, player, npcs };
   }
 
-  async loadTurns(sessionId: string, startTurn: number, endTurn: number): Promise<Turn[]> {
-    const turns: Turn[] = [];
-    const startChunk = Math.floor((startTurn - 1) / 100);
-    const endChunk = Math.floor((endTurn - 1) / 100);
-
-    for (let i = startChunk; i <= endChunk; i++) {
-      const start = i * 100 + 1;
-      const end = (i + 1) * 100;
-      const filename = `turns-${start.toString().padStart(4, '0')}-${end.toString().padStart(4, '0')}.jsonl`;
-      const filePath = path.join(this.getSessionPath(sessionId), 'turns', filename);
-      
-      if (await this.adapter.exists(filePath)) {
-        const content = await this.adapter.readFile(filePath);
-        const lines = content.split('\n').filter(line => line.trim() !== '');
-        for (const line of lines) {
-          try {
-            const turn = JSON.parse(line) as Turn;
-            if (turn.turnId >= startTurn && turn.turnId <= endTurn) {
-              turns.push(turn);
-            }
-          } catch (e) {
-            console.error(`Failed to parse turn line in ${filename}`, e);
-          }
-        }
+  /**
+   * Lists the turn numbers of all snapshots saved for a session, in ascending order.
+   */
+  async listSnapshots(sessionId: string): Promise<number[]> {
+    const files = await this.backend.list(sessionId, 'snapshots');
+    const turns: number[] = [];
+    for (const file of files) {
+      const match = file.match(/^snapshot-turn-(\d+)\.json$/);
+      if (match) {
+        turns.push(parseInt(match[1], 10));
       }
     }
-    
-    return turns;
+    return turns.sort((a, b) => a - b);
+  }
+
+  async loadSnapshot(sessionId: string, turnId: number): Promise<SessionSnapshot> {
+    const filename = `snapshot-turn-${turnId.toString().padStart(4, '0')}.json`;
+    return await this.backend.readJson<SessionSnapshot>(sessionId, `snapshots/${filename}`);
+  }
+
+  /**
+   * Reconstructs the state at the end of the given turn by loading the nearest
+   * snapshot at or before it and replaying the deltas recorded since.
+   */
+  async loadStateAtTurn(sessionId: string, turn: number): Promise<SessionState> {
+    const snapshotTurns = await this.listSnapshots(sessionId);
+    const baseTurn = snapshotTurns.filter(t => t <= turn).pop();
+
+    if (baseTurn === undefined) {
+      throw new Error(`No snapshot at or before turn ${turn} for session ${sessionId}`);
+    }
+
+    const { state } = await this.loadSnapshot(sessionId, baseTurn);
+    if (!state.npcs) {
+      state.npcs = {};
+    }
+
+    if (baseTurn < turn) {
+      const deltas = await this.loadDeltas(sessionId, baseTurn + 1, turn);
+      for (const delta of deltas) {
+        applyDelta(state, delta);
+      }
+    }
+
+    return state;
+  }
+
+  /**
+   * Returns the id of the last turn written for a session, or 0 if none.
+   */
+  async getLastTurnId(sessionId: string): Promise<number> {
+    return await this.backend.getLastTurnId(sessionId, 'turns');
+  }
+
+  async loadTurns(sessionId: string, startTurn: number, endTurn: number): Promise<Turn[]> {
+    return await this.backend.readRange<Turn>(sessionId, 'turns', startTurn, endTurn);
   }
 
   async loadDeltas(sessionId: string, startTurn: number, endTurn: number): Promise<Delta[]> {
-    const deltas: Delta[] = [];
-    const startChunk = Math.floor((startTurn - 1) / 100);
-    const endChunk = Math.floor((endTurn - 1) / 100);
-
-    for (let i = startChunk; i <= endChunk; i++) {
-      const start = i * 100 + 1;
-      const end = (i + 1) * 100;
-      const filename = `deltas-${start.toString().padStart(4, '0')}-${end.toString().padStart(4, '0')}.jsonl`;
-      const filePath = path.join(this.getSessionPath(sessionId), 'deltas', filename);
-      
-      if (await this.adapter.exists(filePath)) {
-        const content = await this.adapter.readFile(filePath);
-        const lines = content.split('\n').filter(line => line.trim() !== '');
-        for (const line of lines) {
-          try {
-            const delta = JSON.parse(line) as Delta;
-            if (delta.turnId >= startTurn && delta.turnId <= endTurn) {
-              deltas.push(delta);
-            }
-          } catch (e) {
-             console.error(`Failed to parse delta line in ${filename}`, e);
+    return await this.backend.readRange<Delta>(sessionId, 'deltas', startTurn, endTurn);
+  }
+
+  /**
+   * Loads the recorded LLM calls for a turn range, in the order they were made.
+   * Calls made while setting up the world are recorded under turn 0.
+   */
+  async loadLLMCalls(sessionId: string, startTurn: number, endTurn: number): Promise<LLMCallRecord[]> {
+    return await this.backend.readRange<LLMCallRecord>(sessionId, 'llm', startTurn, endTurn);
+  }
+
+  /**
+   * Loads the recorded timing of each turn in a range. Sessions played before
+   * turns were traced have none.
+   */
+  async loadTraces(sessionId: string, startTurn: number, endTurn: number): Promise<TurnTrace[]> {
+    return await this.backend.readRange<TurnTrace>(sessionId, 'trace', startTurn, endTurn);
+  }
+
+  /**
+   * Loads the story summaries written while processing a range of turns, in
+   * the order they were written.
+   */
+  async loadSummaries(sessionId: string, startTurn: number, endTurn: number): Promise<StorySummary[]> {
+    return await this.backend.readRange<StorySummary>(sessionId, 'summaries', startTurn, endTurn);
+  }
+
+  /**
+   * Checks a session's integrity: verifies the chained delta checksums stored
+   * on each turn, then replays the deltas from the earliest snapshot and
+   * compares the result against every later snapshot and the current state.
+   */
+  async verifySession(sessionId: string): Promise<VerificationReport> {
+    const lastTurnId = await this.getLastTurnId(sessionId);
+    const turns = lastTurnId > 0 ? await this.loadTurns(sessionId, 1, lastTurnId) : [];
+    const lastDeltaTurnId = await this.backend.getLastTurnId(sessionId, 'deltas');
+    const deltas = lastDeltaTurnId > 0 ? await this.loadDeltas(sessionId, 1, lastDeltaTurnId) : [];
+
+    const deltasByTurn = new Map<number, Delta[]>();
+    for (const delta of deltas) {
+      const batch = deltasByTurn.get(delta.turnId) ?? [];
+      batch.push(delta);
+      deltasByTurn.set(delta.turnId, batch);
+    }
+
+    const issues: VerificationIssue[] = [];
+    let checksumsVerified = 0;
+    let checksumsMissing = 0;
+    let previousChecksum = '';
+
+    for (const turn of turns) {
+      if (turn.deltaChecksum === undefined) {
+        checksumsMissing++;
+      } else if (computeDeltaChecksum(previousChecksum, turn.turnId, deltasByTurn.get(turn.turnId) ?? []) === turn.deltaChecksum) {
+        checksumsVerified++;
+      } else {
+        issues.push({
+          type: 'checksum_mismatch',
+          turn: turn.turnId,
+          message: `Deltas for turn ${turn.turnId} don't match the checksum recorded with the turn`
+        });
+      }
+      previousChecksum = turn.deltaChecksum ?? '';
+    }
+
+    const turnIds = new Set(turns.map(turn => turn.turnId));
+    for (const [turnId, batch] of deltasByTurn) {
+      if (!turnIds.has(turnId)) {
+        issues.push({
+          type: 'orphaned_deltas',
+          turn: turnId,
+          message: `${batch.length} delta(s) recorded for turn ${turnId}, which has no turn record`
+        });
+      }
+    }
+
+    const snapshotTurns = await this.listSnapshots(sessionId);
+    let snapshotsCompared = 0;
+    if (snapshotTurns.length > 0) {
+      const state = (await this.loadSnapshot(sessionId, snapshotTurns[0])).state;
+      state.npcs = state.npcs ?? {};
+      const laterSnapshots = new Set(snapshotTurns.slice(1));
+
+      for (let turnId = snapshotTurns[0] + 1; turnId <= Math.max(lastTurnId, ...snapshotTurns); turnId++) {
+        for (const delta of deltasByTurn.get(turnId) ?? []) {
+          applyDelta(state, delta);
+        }
+        if (laterSnapshots.has(turnId)) {
+          snapshotsCompared++;
+          const snapshot = (await this.loadSnapshot(sessionId, turnId)).state;
+          const paths = diffValues({ ...snapshot, npcs: snapshot.npcs ?? {} }, state);
+          if (paths.length > 0) {
+            issues.push({
+              type: 'snapshot_mismatch',
+              turn: turnId,
+              message: `Replaying deltas doesn't reproduce the snapshot for turn ${turnId}`,
+              paths
+            });
           }
         }
       }
+
+      if (await this.backend.hasJson(sessionId, 'world.state.json')) {
+        const current = await this.loadCurrentState(sessionId);
+        const paths = diffValues(current, state);
+        if (paths.length > 0) {
+          issues.push({
+            type: 'state_mismatch',
+            turn: lastTurnId,
+            message: `Replaying deltas to turn ${lastTurnId} doesn't reproduce the current state`,
+            paths
+          });
+        }
+      }
     }
-    
-    return deltas;
+
+    return {
+      sessionId,
+      turnsChecked: turns.length,
+      checksumsVerified,
+      checksumsMissing,
+      snapshotsCompared,
+      issues
+    };
   }
 }
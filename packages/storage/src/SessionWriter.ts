@@ -1,56 +1,393 @@
 import { FileSystemAdapter } from './FileSystemAdapter';
-import { Turn, Delta } from '@llmrpg/core';
-import path from 'path';
+import { RECORD_STREAMS, RecordStream, StorageBackend, toStorageBackend } from './StorageBackend';
+import { SessionLoader } from './SessionLoader';
+import { Turn, Delta, LLMCallRecord, TurnTrace, StorySummary } from '@llmrpg/core';
+import { SessionMetadata, SessionMetadataSchema } from '@llmrpg/protocol';
+import { STORAGE_VERSION, countEncounteredNPCs, normalizeSessionMetadata } from './metadata';
+import { Migration, MigrationResult, MIGRATIONS, getMigrationPath } from './migrations';
+import { computeDeltaChecksum } from './integrity';
+import { RepairReport, SessionState, SessionSnapshot, SnapshotReason, SnapshotRetentionPolicy } from './types';
+
+// How repair reports records of each stream left behind by an unfinished turn
+const ORPHAN_NAMES: Record<Exclude<RecordStream, 'turns'>, [string, string]> = {
+  deltas: ['delta', 'deltas'],
+  llm: ['LLM call', 'LLM calls'],
+  trace: ['trace', 'traces'],
+  summaries: ['summary', 'summaries']
+};
 
 export class SessionWriter {
-  constructor(private adapter: FileSystemAdapter) {}
+  private backend: StorageBackend;
+  /** Checksum of the last turn written per session, to avoid re-reading it */
+  private lastChecksums = new Map<string, { turnId: number; checksum: string }>();
+  /** Deltas written per session since its last turn, checksummed with that turn */
+  private pendingDeltas = new Map<string, Delta[]>();
 
-  private getSessionPath(sessionId: string): string {
-    return path.join('sessions', 'active', sessionId);
+  constructor(storage: StorageBackend | FileSystemAdapter) {
+    this.backend = toStorageBackend(storage);
   }
 
   async createSession(sessionId: string, metadata: any): Promise<void> {
-    const sessionPath = this.getSessionPath(sessionId);
-    await this.adapter.ensureDir(sessionPath);
-    await this.adapter.ensureDir(path.join(sessionPath, 'scenes'));
-    await this.adapter.ensureDir(path.join(sessionPath, 'turns'));
-    await this.adapter.ensureDir(path.join(sessionPath, 'deltas'));
-    await this.adapter.ensureDir(path.join(sessionPath, 'snapshots'));
-    
-    await this.adapter.writeJson(path.join(sessionPath, 'session.meta.json'), metadata);
+    await this.backend.createSession(sessionId);
+    await this.backend.writeJson(sessionId, 'session.meta.json', normalizeSessionMetadata(sessionId, { version: STORAGE_VERSION, ...metadata }));
   }
 
+  /**
+   * Applies an update to the session metadata, refreshes the snapshot count and
+   * `updatedAt`, and validates the result against SessionMetadataSchema before
+   * writing it. Metadata from older sessions is filled in with defaults first.
+   */
+  async updateSessionMetadata(sessionId: string, update: (metadata: SessionMetadata) => void = () => {}): Promise<SessionMetadata> {
+    const stored = await this.backend.hasJson(sessionId, 'session.meta.json')
+      ? await this.backend.readJson(sessionId, 'session.meta.json')
+      : undefined;
+    const metadata = normalizeSessionMetadata(sessionId, stored);
+
+    update(metadata);
+    metadata.stats.totalSnapshots = (await this.backend.list(sessionId, 'snapshots'))
+      .filter(file => /^snapshot-turn-\d+\.json$/.test(file)).length;
+    metadata.updatedAt = new Date().toISOString();
+
+    const validated = SessionMetadataSchema.parse(metadata);
+    await this.backend.writeJson(sessionId, 'session.meta.json', validated);
+    return validated;
+  }
+
+  /**
+   * Appends a turn record, stamping it with the checksum of the deltas
+   * written for it through this writer, chained to the previous turn's
+   * checksum. Deltas must therefore be written before their turn.
+   */
   async writeTurn(sessionId: string, turn: Turn): Promise<void> {
-    const chunkIndex = Math.floor((turn.turnId - 1) / 100);
-    const start = chunkIndex * 100 + 1;
-    const end = (chunkIndex + 1) * 100;
-    const filename = `turns-${start.toString().padStart(4, '0')}-${end.toString().padStart(4, '0')}.jsonl`;
-    
-    const filePath = path.join(this.getSessionPath(sessionId), 'turns', filename);
-    await this.adapter.appendLine(filePath, JSON.stringify(turn));
+    const deltas = (this.pendingDeltas.get(sessionId) ?? []).filter(delta => delta.turnId === turn.turnId);
+    this.pendingDeltas.delete(sessionId);
+    const previousChecksum = await this.getPreviousChecksum(sessionId, turn.turnId);
+    const deltaChecksum = computeDeltaChecksum(previousChecksum, turn.turnId, deltas);
+
+    const stamped: Turn = { ...turn, deltaChecksum };
+    await this.backend.append(sessionId, 'turns', stamped);
+    this.lastChecksums.set(sessionId, { turnId: turn.turnId, checksum: deltaChecksum });
+  }
+
+  private async getPreviousChecksum(sessionId: string, turnId: number): Promise<string> {
+    const cached = this.lastChecksums.get(sessionId);
+    if (cached && cached.turnId === turnId - 1) {
+      return cached.checksum;
+    }
+
+    const lastTurnId = await this.backend.getLastTurnId(sessionId, 'turns');
+    if (lastTurnId === 0) {
+      return '';
+    }
+    const [lastTurn] = await this.backend.readRange<Turn>(sessionId, 'turns', lastTurnId, lastTurnId);
+    return lastTurn?.deltaChecksum ?? '';
   }
 
   async writeDelta(sessionId: string, delta: Delta): Promise<void> {
-    // Deltas are also chunked by turn number for easier correlation
-    const chunkIndex = Math.floor((delta.turnId - 1) / 100);
-    const start = chunkIndex * 100 + 1;
-    const end = (chunkIndex + 1) * 100;
-    const filename = `deltas-${start.toString().padStart(4, '0')}-${end.toString().padStart(4, '0')}.jsonl`;
+    await this.backend.append(sessionId, 'deltas', delta);
+    const pending = this.pendingDeltas.get(sessionId) ?? [];
+    pending.push(delta);
+    this.pendingDeltas.set(sessionId, pending);
+  }
 
-    const filePath = path.join(this.getSessionPath(sessionId), 'deltas', filename);
-    await this.adapter.appendLine(filePath, JSON.stringify(delta));
+  async writeLLMCall(sessionId: string, record: LLMCallRecord): Promise<void> {
+    await this.backend.append(sessionId, 'llm', record);
   }
 
-  async saveSnapshot(sessionId: string, turnId: number, state: any): Promise<void> {
+  async writeTrace(sessionId: string, trace: TurnTrace): Promise<void> {
+    await this.backend.append(sessionId, 'trace', trace);
+  }
+
+  async writeSummary(sessionId: string, summary: StorySummary): Promise<void> {
+    await this.backend.append(sessionId, 'summaries', summary);
+  }
+
+  async saveSnapshot(sessionId: string, turnId: number, state: SessionState, reason: SnapshotReason = 'manual'): Promise<void> {
     const filename = `snapshot-turn-${turnId.toString().padStart(4, '0')}.json`;
-    const filePath = path.join(this.getSessionPath(sessionId), 'snapshots', filename);
-    await this.adapter.writeJson(filePath, state);
+    const snapshot: SessionSnapshot = {
+      snapshotId: `snapshot-${turnId}`,
+      sessionId,
+      turnId,
+      timestamp: new Date().toISOString(),
+      reason,
+      state
+    };
+    await this.backend.writeJson(sessionId, `snapshots/${filename}`, snapshot);
+    await this.updateSessionMetadata(sessionId);
+  }
+
+  /**
+   * Deletes the oldest snapshots beyond the policy limit. Snapshots with a
+   * protected reason are always kept and don't count towards the limit.
+   * Returns the turn numbers of the removed snapshots.
+   */
+  async pruneSnapshots(sessionId: string, policy: SnapshotRetentionPolicy): Promise<number[]> {
+    const keepReasons = policy.keepReasons ?? ['initial', 'fork'];
+    const files = await this.backend.list(sessionId, 'snapshots');
+
+    const prunable: { turnId: number; file: string }[] = [];
+    for (const file of files) {
+      const match = file.match(/^snapshot-turn-(\d+)\.json$/);
+      if (!match) continue;
+      const snapshot = await this.backend.readJson<SessionSnapshot>(sessionId, `snapshots/${file}`);
+      if (!keepReasons.includes(snapshot.reason)) {
+        prunable.push({ turnId: parseInt(match[1], 10), file });
+      }
+    }
+
+    prunable.sort((a, b) => a.turnId - b.turnId);
+    const toRemove = prunable.slice(0, Math.max(0, prunable.length - policy.maxSnapshots));
+    for (const { file } of toRemove) {
+      await this.backend.remove(sessionId, `snapshots/${file}`);
+    }
+    if (toRemove.length > 0) {
+      await this.updateSessionMetadata(sessionId);
+    }
+
+    return toRemove.map(s => s.turnId);
+  }
+
+  /**
+   * Drops every turn, delta and snapshot after the given turn, rewriting the
+   * affected JSONL chunks. Used to rewind a session.
+   */
+  async truncateSession(sessionId: string, lastTurnId: number): Promise<void> {
+    this.pendingDeltas.delete(sessionId);
+    for (const stream of RECORD_STREAMS) {
+      await this.backend.truncate(sessionId, stream, lastTurnId);
+    }
+
+    for (const file of await this.backend.list(sessionId, 'snapshots')) {
+      const match = file.match(/^snapshot-turn-(\d+)\.json$/);
+      if (match && parseInt(match[1], 10) > lastTurnId) {
+        await this.backend.remove(sessionId, `snapshots/${file}`);
+      }
+    }
+  }
+
+  /**
+   * Clones a session as it stood at the end of the given turn into a new
+   * session id. Turns, deltas and snapshots up to the fork turn are copied,
+   * the reconstructed state becomes the new current state, and the parent
+   * session and fork turn are recorded in the new session's metadata.
+   */
+  async forkSession(sourceSessionId: string, targetSessionId: string, forkTurn: number): Promise<void> {
+    const loader = new SessionLoader(this.backend);
+
+    if (await this.backend.hasSession(targetSessionId)) {
+      throw new Error(`Session ${targetSessionId} already exists`);
+    }
+
+    const lastTurnId = await loader.getLastTurnId(sourceSessionId);
+    if (!Number.isInteger(forkTurn) || forkTurn < 0 || forkTurn > lastTurnId) {
+      throw new Error(`Cannot fork session ${sourceSessionId} at turn ${forkTurn}: valid turns are 0-${lastTurnId}`);
+    }
+
+    const state = await loader.loadStateAtTurn(sourceSessionId, forkTurn);
+    const metadata = await loader.loadSessionMetadata(sourceSessionId);
+
+    await this.createSession(targetSessionId, {
+      ...metadata,
+      id: targetSessionId,
+      parentSessionId: sourceSessionId,
+      forkTurn
+    });
+
+    // History is copied verbatim so the delta checksum chain carries over
+    let deltaCount = 0;
+    if (forkTurn > 0) {
+      for (const delta of await loader.loadDeltas(sourceSessionId, 1, forkTurn)) {
+        await this.backend.append(targetSessionId, 'deltas', delta);
+        deltaCount++;
+      }
+      for (const turn of await loader.loadTurns(sourceSessionId, 1, forkTurn)) {
+        await this.backend.append(targetSessionId, 'turns', turn);
+      }
+    }
+    for (const call of await loader.loadLLMCalls(sourceSessionId, 0, forkTurn)) {
+      await this.backend.append(targetSessionId, 'llm', call);
+    }
+    for (const trace of await loader.loadTraces(sourceSessionId, 1, forkTurn)) {
+      await this.backend.append(targetSessionId, 'trace', trace);
+    }
+    for (const summary of await loader.loadSummaries(sourceSessionId, 1, forkTurn)) {
+      await this.backend.append(targetSessionId, 'summaries', summary);
+    }
+
+    const snapshotTurns = (await loader.listSnapshots(sourceSessionId)).filter(t => t <= forkTurn);
+    for (const turnId of snapshotTurns) {
+      const snapshot = await loader.loadSnapshot(sourceSessionId, turnId);
+      await this.saveSnapshot(targetSessionId, turnId, snapshot.state, snapshot.reason);
+    }
+    if (!snapshotTurns.includes(forkTurn)) {
+      await this.saveSnapshot(targetSessionId, forkTurn, state, 'fork');
+    }
+
+    await this.updateCurrentState(targetSessionId, state.world, state.player, state.npcs);
+    await this.updateSessionMetadata(targetSessionId, forked => {
+      forked.createdAt = new Date().toISOString();
+      forked.currentTurn = forkTurn;
+      forked.currentSceneId = state.world?.currentScene?.id;
+      forked.stats.totalTurns = forkTurn;
+      forked.stats.totalDeltas = deltaCount;
+      forked.stats.npcsEncountered = countEncounteredNPCs(state.npcs);
+    });
+  }
+
+  /**
+   * Upgrades a session's stored documents to the current save format by
+   * running the registered migrations over its metadata, current state and
+   * snapshots, then stamps the new version. Turn and delta logs are left as
+   * they are.
+   */
+  async migrateSession(sessionId: string, migrations: Migration[] = MIGRATIONS): Promise<MigrationResult> {
+    const loader = new SessionLoader(this.backend);
+    const fromVersion = await loader.getStorageVersion(sessionId);
+    const steps = getMigrationPath(fromVersion, STORAGE_VERSION, migrations);
+
+    if (steps.length === 0) {
+      return { fromVersion, toVersion: fromVersion, applied: [] };
+    }
+
+    const metadata: any = await this.backend.hasJson(sessionId, 'session.meta.json')
+      ? await this.backend.readJson(sessionId, 'session.meta.json')
+      : {};
+    const state = await this.backend.hasJson(sessionId, 'world.state.json')
+      ? await loader.loadCurrentState(sessionId)
+      : undefined;
+    const snapshots: SessionSnapshot[] = [];
+    for (const turnId of await loader.listSnapshots(sessionId)) {
+      snapshots.push(await loader.loadSnapshot(sessionId, turnId));
+    }
+
+    for (const step of steps) {
+      step.migrateMetadata?.(metadata, sessionId);
+      if (state) {
+        step.migrateState?.(state);
+      }
+      for (const snapshot of snapshots) {
+        step.migrateState?.(snapshot.state);
+      }
+    }
+
+    const toVersion = steps[steps.length - 1].to;
+    if (state) {
+      await this.updateCurrentState(sessionId, state.world, state.player, state.npcs);
+    }
+    for (const snapshot of snapshots) {
+      const filename = `snapshot-turn-${snapshot.turnId.toString().padStart(4, '0')}.json`;
+      await this.backend.writeJson(sessionId, `snapshots/${filename}`, snapshot);
+    }
+    await this.updateSessionMetadata(sessionId, migrated => {
+      Object.assign(migrated, metadata);
+      migrated.version = toVersion;
+    });
+
+    return { fromVersion, toVersion, applied: steps.map(step => step.description) };
+  }
+
+  /**
+   * Reconciles a session after a crash: drops leftover temporary files, torn
+   * or unreadable records, records and snapshots beyond the last complete
+   * turn, and unreadable snapshots, then rebuilds the current state from the nearest snapshot if
+   * it is unreadable or behind the turn log.
+   */
+  async repairSession(sessionId: string): Promise<RepairReport> {
+    const loader = new SessionLoader(this.backend);
+    const fixes: string[] = [];
+
+    const tempFiles = await this.backend.removeTempFiles(sessionId);
+    if (tempFiles > 0) {
+      fixes.push(`Removed ${tempFiles} temporary file${tempFiles === 1 ? '' : 's'} left by an interrupted write`);
+    }
+
+    for (const stream of RECORD_STREAMS) {
+      const removed = await this.backend.removeCorruptRecords(sessionId, stream);
+      if (removed > 0) {
+        fixes.push(`Removed ${removed} unreadable line${removed === 1 ? '' : 's'} from the ${stream} log`);
+      }
+    }
+
+    // Deltas, LLM calls, traces and summaries are written before the turn
+    // record, so a crash mid-turn leaves them behind without it
+    const lastTurnId = await loader.getLastTurnId(sessionId);
+    for (const stream of Object.keys(ORPHAN_NAMES) as Array<keyof typeof ORPHAN_NAMES>) {
+      const lastStreamTurnId = await this.backend.getLastTurnId(sessionId, stream);
+      if (lastStreamTurnId <= lastTurnId) continue;
+      const orphaned = (await this.backend.readRange(sessionId, stream, lastTurnId + 1, lastStreamTurnId)).length;
+      await this.backend.truncate(sessionId, stream, lastTurnId);
+      const [singular, plural] = ORPHAN_NAMES[stream];
+      fixes.push(`Removed ${orphaned} ${orphaned === 1 ? singular : plural} recorded after the last complete turn ${lastTurnId}`);
+    }
+
+    for (const file of await this.backend.list(sessionId, 'snapshots')) {
+      const match = file.match(/^snapshot-turn-(\d+)\.json$/);
+      if (!match) continue;
+      const turnId = parseInt(match[1], 10);
+      let problem: string | undefined;
+      if (turnId > lastTurnId) {
+        problem = 'is ahead of the turn log';
+      } else {
+        try {
+          await this.backend.readJson(sessionId, `snapshots/${file}`);
+        } catch {
+          problem = 'is unreadable';
+        }
+      }
+      if (problem) {
+        await this.backend.remove(sessionId, `snapshots/${file}`);
+        fixes.push(`Removed snapshot for turn ${turnId}, which ${problem}`);
+      }
+    }
+
+    let metadata: any;
+    if (await this.backend.hasJson(sessionId, 'session.meta.json')) {
+      try {
+        metadata = await this.backend.readJson(sessionId, 'session.meta.json');
+      } catch {
+        // Removing it lets updateSessionMetadata below start from defaults
+        await this.backend.remove(sessionId, 'session.meta.json');
+        fixes.push('Rebuilt unreadable session metadata');
+      }
+    }
+
+    let stateProblem: string | undefined;
+    try {
+      await loader.loadCurrentState(sessionId);
+      const stateTurn = metadata?.currentTurn;
+      if (typeof stateTurn === 'number' && stateTurn < lastTurnId) {
+        stateProblem = `was saved at turn ${stateTurn}`;
+      }
+    } catch {
+      stateProblem = 'was unreadable';
+    }
+
+    if (stateProblem) {
+      let state: SessionState;
+      try {
+        state = await loader.loadStateAtTurn(sessionId, lastTurnId);
+      } catch (error) {
+        throw new Error(`Current state ${stateProblem} and could not be rebuilt: ${(error as Error).message}`);
+      }
+      await this.updateCurrentState(sessionId, state.world, state.player, state.npcs);
+      fixes.push(`Rebuilt current state at turn ${lastTurnId} from snapshots and deltas; it ${stateProblem}`);
+    }
+
+    if (fixes.length > 0) {
+      const totalDeltas = (await loader.loadDeltas(sessionId, 1, lastTurnId)).length;
+      await this.updateSessionMetadata(sessionId, repaired => {
+        repaired.currentTurn = lastTurnId;
+        repaired.stats.totalTurns = lastTurnId;
+        repaired.stats.totalDeltas = totalDeltas;
+      });
+    }
+
+    return { sessionId, lastTurnId, fixes };
   }
 
   async updateCurrentState(sessionId: string, worldState: any, playerState: any, npcsState: any = {}): Promise<void> {
-    const sessionPath = this.getSessionPath(sessionId);
-    await this.adapter.writeJson(path.join(sessionPath, 'world.state.json'), worldState);
-    await this.adapter.writeJson(path.join(sessionPath, 'player.state.json'), playerState);
-    await this.adapter.writeJson(path.join(sessionPath, 'npcs.state.json'), npcsState);
+    await this.backend.writeJson(sessionId, 'world.state.json', worldState);
+    await this.backend.writeJson(sessionId, 'player.state.json', playerState);
+    await this.backend.writeJson(sessionId, 'npcs.state.json', npcsState);
   }
 }
@@ -0,0 +1,129 @@
+import Database from 'better-sqlite3';
+import type { RecordStream, StorageBackend, TurnRecord } from './StorageBackend';
+
+/**
+ * Stores every session in a single embedded SQLite database. Records are
+ * indexed by session, stream and turn so range queries and session listing
+ * don't need to scan whole chunk files.
+ */
+export class SqliteBackend implements StorageBackend {
+  private db: Database.Database;
+
+  /**
+   * @param filename Database file path, or ':memory:' for a throwaway database
+   */
+  constructor(filename: string) {
+    this.db = new Database(filename);
+    this.db.pragma('journal_mode = WAL');
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS sessions (
+        id TEXT PRIMARY KEY,
+        created_at TEXT NOT NULL
+      );
+      CREATE TABLE IF NOT EXISTS records (
+        seq INTEGER PRIMARY KEY AUTOINCREMENT,
+        session_id TEXT NOT NULL,
+        stream TEXT NOT NULL,
+        turn_id INTEGER NOT NULL,
+        data TEXT NOT NULL
+      );
+      CREATE INDEX IF NOT EXISTS records_by_turn ON records (session_id, stream, turn_id);
+      CREATE TABLE IF NOT EXISTS documents (
+        session_id TEXT NOT NULL,
+        key TEXT NOT NULL,
+        data TEXT NOT NULL,
+        PRIMARY KEY (session_id, key)
+      );
+    `);
+  }
+
+  close(): void {
+    this.db.close();
+  }
+
+  /**
+   * Copies the database to another file while it stays open. Unlike copying
+   * the file, this includes writes still held in the WAL.
+   */
+  async backup(destination: string): Promise<void> {
+    await this.db.backup(destination);
+  }
+
+  async createSession(sessionId: string): Promise<void> {
+    this.db.prepare('INSERT OR IGNORE INTO sessions (id, created_at) VALUES (?, ?)')
+      .run(sessionId, new Date().toISOString());
+  }
+
+  async hasSession(sessionId: string): Promise<boolean> {
+    return this.db.prepare('SELECT 1 FROM sessions WHERE id = ?').get(sessionId) !== undefined;
+  }
+
+  async listSessions(): Promise<string[]> {
+    const rows = this.db.prepare('SELECT id FROM sessions ORDER BY created_at, id').all() as { id: string }[];
+    return rows.map(row => row.id);
+  }
+
+  async append(sessionId: string, stream: RecordStream, record: TurnRecord): Promise<void> {
+    this.db.prepare('INSERT INTO records (session_id, stream, turn_id, data) VALUES (?, ?, ?, ?)')
+      .run(sessionId, stream, record.turnId, JSON.stringify(record));
+  }
+
+  async readRange<T extends TurnRecord>(sessionId: string, stream: RecordStream, startTurn: number, endTurn: number): Promise<T[]> {
+    const rows = this.db.prepare(
+      'SELECT data FROM records WHERE session_id = ? AND stream = ? AND turn_id BETWEEN ? AND ? ORDER BY seq'
+    ).all(sessionId, stream, startTurn, endTurn) as { data: string }[];
+    return rows.map(row => JSON.parse(row.data) as T);
+  }
+
+  async getLastTurnId(sessionId: string, stream: RecordStream): Promise<number> {
+    const row = this.db.prepare('SELECT MAX(turn_id) AS lastTurnId FROM records WHERE session_id = ? AND stream = ?')
+      .get(sessionId, stream) as { lastTurnId: number | null };
+    return row.lastTurnId ?? 0;
+  }
+
+  async truncate(sessionId: string, stream: RecordStream, lastTurnId: number): Promise<void> {
+    this.db.prepare('DELETE FROM records WHERE session_id = ? AND stream = ? AND turn_id > ?')
+      .run(sessionId, stream, lastTurnId);
+  }
+
+  async removeCorruptRecords(): Promise<number> {
+    // Appends are transactional, so records are never partially written
+    return 0;
+  }
+
+  async removeTempFiles(): Promise<number> {
+    // Writes are transactional and go straight to the database
+    return 0;
+  }
+
+  async writeJson(sessionId: string, key: string, data: any): Promise<void> {
+    this.db.prepare('INSERT OR REPLACE INTO documents (session_id, key, data) VALUES (?, ?, ?)')
+      .run(sessionId, key, JSON.stringify(data));
+  }
+
+  async readJson<T>(sessionId: string, key: string): Promise<T> {
+    const row = this.db.prepare('SELECT data FROM documents WHERE session_id = ? AND key = ?')
+      .get(sessionId, key) as { data: string } | undefined;
+    if (!row) {
+      throw new Error(`Document ${key} not found in session ${sessionId}`);
+    }
+    return JSON.parse(row.data) as T;
+  }
+
+  async hasJson(sessionId: string, key: string): Promise<boolean> {
+    return this.db.prepare('SELECT 1 FROM documents WHERE session_id = ? AND key = ?').get(sessionId, key) !== undefined;
+  }
+
+  async list(sessionId: string, dir: string): Promise<string[]> {
+    const prefix = `${dir}/`;
+    const rows = this.db.prepare('SELECT key FROM documents WHERE session_id = ? AND substr(key, 1, ?) = ? ORDER BY key')
+      .all(sessionId, prefix.length, prefix) as { key: string }[];
+    return rows
+      .map(row => row.key.slice(prefix.length))
+      .filter(name => !name.includes('/'));
+  }
+
+  async remove(sessionId: string, key: string): Promise<void> {
+    this.db.prepare('DELETE FROM documents WHERE session_id = ? AND key = ?').run(sessionId, key);
+  }
+}
@@ -0,0 +1,88 @@
+import { FileSystemAdapter } from './FileSystemAdapter';
+import { FileSystemBackend } from './FileSystemBackend';
+
+/**
+ * Append-only record streams kept per session, ordered by turn. `llm` holds
+ * the LLM call log, which may include turn 0 (world setup), `trace` the
+ * timing of each turn, and `summaries` the story summaries written as turns
+ * left the GM's history.
+ */
+export type RecordStream = 'turns' | 'deltas' | 'llm' | 'trace' | 'summaries';
+
+export const RECORD_STREAMS: RecordStream[] = ['turns', 'deltas', 'llm', 'trace', 'summaries'];
+
+export interface TurnRecord {
+  turnId: number;
+}
+
+/**
+ * Storage port used by SessionWriter and SessionLoader.
+ *
+ * A session holds two kinds of data: record streams (turns and deltas) that
+ * are appended to and read back by turn range, and JSON documents addressed
+ * by a key relative to the session, e.g. `world.state.json` or
+ * `snapshots/snapshot-turn-0010.json`.
+ */
+export interface StorageBackend {
+  /**
+   * Prepares storage for a new session. Safe to call for an existing session.
+   */
+  createSession(sessionId: string): Promise<void>;
+
+  hasSession(sessionId: string): Promise<boolean>;
+
+  listSessions(): Promise<string[]>;
+
+  append(sessionId: string, stream: RecordStream, record: TurnRecord): Promise<void>;
+
+  /**
+   * Returns the records with startTurn <= turnId <= endTurn, in append order.
+   */
+  readRange<T extends TurnRecord>(sessionId: string, stream: RecordStream, startTurn: number, endTurn: number): Promise<T[]>;
+
+  /**
+   * Returns the highest turn id in a stream, or 0 if it is empty.
+   */
+  getLastTurnId(sessionId: string, stream: RecordStream): Promise<number>;
+
+  /**
+   * Drops every record with a turn id greater than lastTurnId.
+   */
+  truncate(sessionId: string, stream: RecordStream, lastTurnId: number): Promise<void>;
+
+  /**
+   * Drops records that can't be read back (e.g. lines torn by a crash) and
+   * returns how many were removed.
+   */
+  removeCorruptRecords(sessionId: string, stream: RecordStream): Promise<number>;
+
+  /**
+   * Deletes temporary files left behind by writes a crash interrupted and
+   * returns how many were removed.
+   */
+  removeTempFiles(sessionId: string): Promise<number>;
+
+  writeJson(sessionId: string, key: string, data: any): Promise<void>;
+
+  /**
+   * Reads a JSON document. Throws if it does not exist.
+   */
+  readJson<T>(sessionId: string, key: string): Promise<T>;
+
+  hasJson(sessionId: string, key: string): Promise<boolean>;
+
+  /**
+   * Lists the names of the documents directly under a key prefix, e.g. `snapshots`.
+   */
+  list(sessionId: string, dir: string): Promise<string[]>;
+
+  remove(sessionId: string, key: string): Promise<void>;
+}
+
+/**
+ * Accepts either a backend or a bare FileSystemAdapter, which is wrapped in
+ * the filesystem backend so existing callers keep working.
+ */
+export function toStorageBackend(storage: StorageBackend | FileSystemAdapter): StorageBackend {
+  return storage instanceof FileSystemAdapter ? new FileSystemBackend(storage) : storage;
+}
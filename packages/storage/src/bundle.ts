@@ -0,0 +1,255 @@
+import { createHash } from 'crypto';
+import { gunzipSync, gzipSync } from 'zlib';
+import {
+  SESSION_BUNDLE_FORMAT,
+  SessionBundleManifest,
+  SessionBundleManifestSchema,
+  SessionIdSchema,
+  SessionMetadataSchema
+} from '@llmrpg/protocol';
+import { FileSystemAdapter } from './FileSystemAdapter';
+import { getChunkFilename, getChunkIndex } from './FileSystemBackend';
+import { RECORD_STREAMS, RecordStream, StorageBackend, TurnRecord, toStorageBackend } from './StorageBackend';
+import { STORAGE_VERSION, normalizeSessionMetadata } from './metadata';
+import { BundleImportResult } from './types';
+
+export const BUNDLE_VERSION = 1;
+
+/** File extension used for exported bundles */
+export const BUNDLE_EXTENSION = '.llmrpg.gz';
+
+/** Largest archive a bundle may decompress to (default for readSessionBundle) */
+export const MAX_BUNDLE_BYTES = 512 * 1024 * 1024;
+
+const STATE_DOCUMENTS = ['session.meta.json', 'world.state.json', 'player.state.json', 'npcs.state.json'];
+
+/**
+ * On-disk shape of a bundle before compression: the manifest plus every file
+ * of the session, keyed by its path relative to the session folder.
+ */
+interface BundleArchive {
+  manifest: SessionBundleManifest;
+  files: Record<string, string>;
+}
+
+function sha256(content: string): string {
+  return createHash('sha256').update(content).digest('hex');
+}
+
+async function readStream(backend: StorageBackend, sessionId: string, stream: RecordStream): Promise<TurnRecord[]> {
+  const lastTurnId = await backend.getLastTurnId(sessionId, stream);
+  return await backend.readRange(sessionId, stream, 0, lastTurnId);
+}
+
+/**
+ * Lays records out in the same 100-turn JSONL chunks as the filesystem backend.
+ */
+function toChunks(stream: RecordStream, records: TurnRecord[]): Record<string, string> {
+  const chunks: Record<string, string> = {};
+  for (const record of records) {
+    const file = `${stream}/${getChunkFilename(stream, getChunkIndex(record.turnId))}`;
+    chunks[file] = (chunks[file] ?? '') + JSON.stringify(record) + '\n';
+  }
+  return chunks;
+}
+
+function parseChunk(path: string, content: string): TurnRecord[] {
+  return content.split('\n').filter(line => line.trim() !== '').map((line, index) => {
+    const record = JSON.parse(line);
+    if (typeof record?.turnId !== 'number') {
+      throw new Error(`Record ${index + 1} in ${path} has no turnId`);
+    }
+    return record as TurnRecord;
+  });
+}
+
+/**
+ * Packs a session (metadata, current state, turn, delta, LLM call log, trace
+ * and story summary chunks and snapshots) into a single gzip-compressed archive with a
+ * manifest listing every file and its checksum.
+ */
+export async function exportSessionBundle(storage: StorageBackend | FileSystemAdapter, sessionId: string): Promise<Buffer> {
+  const backend = toStorageBackend(storage);
+  if (!await backend.hasSession(sessionId)) {
+    throw new Error(`Session ${sessionId} not found`);
+  }
+
+  const files: Record<string, string> = {};
+  for (const key of STATE_DOCUMENTS) {
+    if (await backend.hasJson(sessionId, key)) {
+      files[key] = JSON.stringify(await backend.readJson(sessionId, key));
+    }
+  }
+  if (!files['session.meta.json']) {
+    throw new Error(`Session ${sessionId} has no metadata; run "llmrpg repair ${sessionId}" first`);
+  }
+
+  const snapshots = (await backend.list(sessionId, 'snapshots')).filter(file => file.endsWith('.json')).sort();
+  for (const file of snapshots) {
+    files[`snapshots/${file}`] = JSON.stringify(await backend.readJson(sessionId, `snapshots/${file}`));
+  }
+
+  const records = {} as Record<RecordStream, TurnRecord[]>;
+  for (const stream of RECORD_STREAMS) {
+    records[stream] = await readStream(backend, sessionId, stream);
+    Object.assign(files, toChunks(stream, records[stream]));
+  }
+
+  const manifest: SessionBundleManifest = {
+    format: SESSION_BUNDLE_FORMAT,
+    bundleVersion: BUNDLE_VERSION,
+    sessionId,
+    storageVersion: STORAGE_VERSION,
+    exportedAt: new Date().toISOString(),
+    metadata: SessionMetadataSchema.parse(normalizeSessionMetadata(sessionId, JSON.parse(files['session.meta.json']))),
+    counts: { turns: records.turns.length, deltas: records.deltas.length, snapshots: snapshots.length },
+    files: Object.entries(files).map(([path, content]) => ({
+      path,
+      bytes: Buffer.byteLength(content),
+      sha256: sha256(content)
+    }))
+  };
+
+  const archive: BundleArchive = { manifest, files };
+  return gzipSync(JSON.stringify(archive));
+}
+
+function assertSessionId(sessionId: string): void {
+  const parsed = SessionIdSchema.safeParse(sessionId);
+  if (!parsed.success) {
+    throw new Error(`Invalid session id "${sessionId}": ${parsed.error.issues[0].message}`);
+  }
+}
+
+/**
+ * Decompresses a bundle and checks its manifest against the protocol schema
+ * and every file against the manifest. Throws describing the first problem.
+ */
+export function readSessionBundle(data: Buffer, maxBytes = MAX_BUNDLE_BYTES): BundleArchive {
+  let content: Buffer;
+  try {
+    content = gunzipSync(data, { maxOutputLength: maxBytes });
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ERR_BUFFER_TOO_LARGE') {
+      throw new Error(`Bundle is larger than ${maxBytes} bytes once decompressed`);
+    }
+    throw new Error('Not a session bundle (expected a gzip-compressed archive)');
+  }
+
+  let archive: BundleArchive;
+  try {
+    archive = JSON.parse(content.toString('utf-8'));
+  } catch {
+    throw new Error('Not a session bundle (expected a gzip-compressed archive)');
+  }
+
+  const parsed = SessionBundleManifestSchema.safeParse(archive?.manifest);
+  if (!parsed.success) {
+    const issues = parsed.error.issues.map(issue => `${issue.path.join('.') || '(root)'}: ${issue.message}`);
+    throw new Error(`Invalid bundle manifest: ${issues.join('; ')}`);
+  }
+  const manifest = parsed.data;
+  if (manifest.bundleVersion > BUNDLE_VERSION) {
+    throw new Error(`Bundle version ${manifest.bundleVersion} is newer than the supported version ${BUNDLE_VERSION}`);
+  }
+
+  const files = archive.files ?? {};
+  for (const entry of manifest.files) {
+    const content = files[entry.path];
+    if (content === undefined) {
+      throw new Error(`Bundle is missing ${entry.path}`);
+    }
+    if (sha256(content) !== entry.sha256) {
+      throw new Error(`Checksum mismatch for ${entry.path}`);
+    }
+  }
+  const listed = new Set(manifest.files.map(entry => entry.path));
+  const unlisted = Object.keys(files).filter(path => !listed.has(path));
+  if (unlisted.length > 0) {
+    throw new Error(`Bundle contains files not listed in its manifest: ${unlisted.join(', ')}`);
+  }
+
+  return { manifest, files };
+}
+
+/**
+ * Picks an id that isn't taken yet, suffixing `-imported-N` when needed.
+ */
+async function chooseSessionId(backend: StorageBackend, preferredId: string): Promise<string> {
+  if (!await backend.hasSession(preferredId)) {
+    return preferredId;
+  }
+  let n = 1;
+  while (await backend.hasSession(`${preferredId}-imported-${n}`)) {
+    n++;
+  }
+  return `${preferredId}-imported-${n}`;
+}
+
+/**
+ * Restores a bundle created by exportSessionBundle. The bundle is fully
+ * validated before anything is written. If its session id is already taken
+ * the session is imported under a fresh id, unless an explicit id is given,
+ * in which case a collision is an error.
+ */
+export async function importSessionBundle(
+  storage: StorageBackend | FileSystemAdapter,
+  data: Buffer,
+  options: { sessionId?: string } = {}
+): Promise<BundleImportResult> {
+  const backend = toStorageBackend(storage);
+  const { manifest, files } = readSessionBundle(data);
+  // The schema already checks the manifest; checked again as it becomes a path
+  assertSessionId(manifest.sessionId);
+  if (options.sessionId !== undefined) {
+    assertSessionId(options.sessionId);
+  }
+
+  if (options.sessionId && await backend.hasSession(options.sessionId)) {
+    throw new Error(`Session ${options.sessionId} already exists`);
+  }
+  const sessionId = options.sessionId ?? await chooseSessionId(backend, manifest.sessionId);
+
+  const documents: Record<string, any> = {};
+  const records: Record<RecordStream, TurnRecord[]> = { turns: [], deltas: [], llm: [], trace: [], summaries: [] };
+  for (const [path, content] of Object.entries(files)) {
+    const [dir] = path.split('/');
+    if ((RECORD_STREAMS as string[]).includes(dir)) {
+      records[dir as RecordStream].push(...parseChunk(path, content));
+    } else if (STATE_DOCUMENTS.includes(path) || (dir === 'snapshots' && /^snapshots\/[^/]+\.json$/.test(path))) {
+      documents[path] = JSON.parse(content);
+    } else {
+      throw new Error(`Unexpected file in bundle: ${path}`);
+    }
+  }
+  if (records.turns.length !== manifest.counts.turns || records.deltas.length !== manifest.counts.deltas) {
+    throw new Error('Bundle record counts do not match its manifest');
+  }
+
+  documents['session.meta.json'] = SessionMetadataSchema.parse({
+    ...normalizeSessionMetadata(sessionId, documents['session.meta.json']),
+    id: sessionId
+  });
+  for (const path of Object.keys(documents).filter(path => path.startsWith('snapshots/'))) {
+    documents[path] = { ...documents[path], sessionId };
+  }
+
+  await backend.createSession(sessionId);
+  for (const [key, document] of Object.entries(documents)) {
+    await backend.writeJson(sessionId, key, document);
+  }
+  // Turns go last: a turn record marks its deltas as committed
+  for (const stream of ['llm', 'trace', 'summaries', 'deltas', 'turns'] as RecordStream[]) {
+    for (const record of records[stream].sort((a, b) => a.turnId - b.turnId)) {
+      await backend.append(sessionId, stream, record);
+    }
+  }
+
+  return {
+    sessionId,
+    originalSessionId: manifest.sessionId,
+    turns: manifest.counts.turns,
+    deltas: manifest.counts.deltas,
+    snapshots: manifest.counts.snapshots
+  };
+}
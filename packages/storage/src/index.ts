@@ -1,5 +1,12 @@
-export const STORAGE_VERSION = '0.0.1';
-
+export * from './metadata';
+export * from './types';
+export * from './migrations';
+export * from './integrity';
+export * from './bundle';
 export * from './FileSystemAdapter';
+export * from './StorageBackend';
+export * from './FileSystemBackend';
+export * from './MemoryBackend';
+export * from './SqliteBackend';
 export * from './SessionWriter';
 export * from './SessionLoader';
@@ -0,0 +1,69 @@
+import { createHash } from 'crypto';
+import { Delta } from '@llmrpg/core';
+
+/**
+ * JSON serialization with object keys sorted, so equal values always hash
+ * the same regardless of property order.
+ */
+export function stableStringify(value: unknown): string {
+  if (value === null || typeof value !== 'object') {
+    return JSON.stringify(value) ?? 'null';
+  }
+  if (Array.isArray(value)) {
+    return `[${value.map(item => stableStringify(item)).join(',')}]`;
+  }
+  const entries = Object.keys(value as Record<string, unknown>)
+    .filter(key => (value as Record<string, unknown>)[key] !== undefined)
+    .sort()
+    .map(key => `${JSON.stringify(key)}:${stableStringify((value as Record<string, unknown>)[key])}`);
+  return `{${entries.join(',')}}`;
+}
+
+/**
+ * Hashes a turn's delta batch together with the previous turn's checksum,
+ * so altering any earlier turn breaks every checksum after it. The chain
+ * starts from an empty string.
+ */
+export function computeDeltaChecksum(previousChecksum: string, turnId: number, deltas: Delta[]): string {
+  return createHash('sha256')
+    .update(previousChecksum)
+    .update(String(turnId))
+    .update(stableStringify(deltas))
+    .digest('hex');
+}
+
+/**
+ * Lists the paths at which two JSON values differ, up to a limit.
+ */
+export function diffValues(expected: unknown, actual: unknown, limit: number = 10, path: string = ''): string[] {
+  const differences: string[] = [];
+  collectDifferences(expected, actual, path, differences, limit);
+  return differences;
+}
+
+function collectDifferences(expected: unknown, actual: unknown, path: string, out: string[], limit: number): void {
+  if (out.length >= limit) return;
+
+  const bothObjects = expected !== null && actual !== null
+    && typeof expected === 'object' && typeof actual === 'object'
+    && Array.isArray(expected) === Array.isArray(actual);
+
+  if (!bothObjects) {
+    if (stableStringify(expected) !== stableStringify(actual)) {
+      out.push(path || '(root)');
+    }
+    return;
+  }
+
+  const keys = new Set([...Object.keys(expected as object), ...Object.keys(actual as object)]);
+  for (const key of keys) {
+    const childPath = Array.isArray(expected) ? `${path}[${key}]` : (path ? `${path}.${key}` : key);
+    collectDifferences(
+      (expected as Record<string, unknown>)[key],
+      (actual as Record<string, unknown>)[key],
+      childPath,
+      out,
+      limit
+    );
+  }
+}
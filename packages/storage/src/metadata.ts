@@ -0,0 +1,90 @@
+import { SessionMetadata } from '@llmrpg/protocol';
+
+export const STORAGE_VERSION = '0.0.1';
+
+/** Format of sessions written before the version was stamped into their metadata */
+export const LEGACY_STORAGE_VERSION = '0.0.0';
+
+export interface SessionMetadataInit {
+  name?: string;
+  themeName?: string;
+  playerName?: string;
+  characterName?: string;
+}
+
+/**
+ * Builds schema-valid metadata for a new session, with the standard file
+ * layout and zeroed stats.
+ */
+export function createSessionMetadata(sessionId: string, init: SessionMetadataInit = {}): SessionMetadata {
+  const now = new Date().toISOString();
+  return {
+    id: sessionId,
+    name: init.name ?? sessionId,
+    theme: {
+      name: init.themeName ?? 'Unknown',
+      version: '1.0.0',
+    },
+    player: {
+      name: init.playerName ?? 'Player',
+      characterName: init.characterName ?? 'Unknown',
+    },
+    currentTurn: 0,
+    createdAt: now,
+    updatedAt: now,
+    lastPlayedAt: now,
+    version: STORAGE_VERSION,
+    files: {
+      worldState: 'world.state.json',
+      playerState: 'player.state.json',
+      turnsDir: 'turns',
+      deltasDir: 'deltas',
+      snapshotsDir: 'snapshots',
+      scenesDir: 'scenes',
+    },
+    stats: {
+      totalTurns: 0,
+      totalDeltas: 0,
+      totalSnapshots: 0,
+      conflictsResolved: 0,
+      npcsEncountered: 0,
+    },
+  };
+}
+
+/**
+ * Number of NPCs the player has met, for `stats.npcsEncountered`. NPCs that
+ * were generated but never shared a location with the player don't count.
+ */
+export function countEncounteredNPCs(npcs: Record<string, { firstEncounteredTurn?: number }> | undefined): number {
+  return Object.values(npcs ?? {}).filter(npc => npc.firstEncounteredTurn !== undefined).length;
+}
+
+/**
+ * Fills in whatever a stored metadata object is missing, so sessions created
+ * before metadata was maintained (e.g. `{ startTime, player }`) become valid.
+ * Stored metadata without a version is reported as the legacy format.
+ */
+export function normalizeSessionMetadata(sessionId: string, stored: any): SessionMetadata {
+  const defaults = createSessionMetadata(sessionId);
+  const metadata = stored && typeof stored === 'object' ? stored : {};
+
+  const createdAt = metadata.createdAt
+    ?? (typeof metadata.startTime === 'number' ? new Date(metadata.startTime).toISOString() : defaults.createdAt);
+
+  return {
+    ...defaults,
+    ...metadata,
+    id: metadata.id ?? sessionId,
+    version: metadata.version ?? (stored ? LEGACY_STORAGE_VERSION : STORAGE_VERSION),
+    theme: { ...defaults.theme, ...metadata.theme },
+    player: typeof metadata.player === 'object' && metadata.player !== null
+      ? { ...defaults.player, ...metadata.player }
+      : { ...defaults.player, name: metadata.player ?? defaults.player.name },
+    createdAt,
+    updatedAt: metadata.updatedAt ?? createdAt,
+    lastPlayedAt: metadata.lastPlayedAt ?? createdAt,
+    files: { ...defaults.files, ...metadata.files },
+    stats: { ...defaults.stats, ...metadata.stats },
+  };
+}
@@ -0,0 +1,101 @@
+import { LocationSchema, NPCSchema, PlayerCharacterSchema, z } from '@llmrpg/protocol';
+import { LEGACY_STORAGE_VERSION, STORAGE_VERSION, normalizeSessionMetadata } from './metadata';
+import { SessionState } from './types';
+
+/**
+ * One step of the save-format upgrade path. Migrations mutate the documents
+ * they are given in place; state migrations are applied to the current state
+ * and to every snapshot.
+ */
+export interface Migration {
+  from: string;
+  to: string;
+  description: string;
+  migrateMetadata?(metadata: any, sessionId: string): void;
+  migrateState?(state: SessionState): void;
+}
+
+export interface MigrationResult {
+  fromVersion: string;
+  toVersion: string;
+  /** Descriptions of the migrations that were applied, in order */
+  applied: string[];
+}
+
+/**
+ * Sets every field the schema gives a default for that is missing on the
+ * target. Use this when a schema gains a defaulted field.
+ */
+export function fillSchemaDefaults(target: any, schema: z.AnyZodObject): void {
+  if (!target || typeof target !== 'object') return;
+  for (const [key, field] of Object.entries(schema.shape)) {
+    if (target[key] === undefined && field instanceof z.ZodDefault) {
+      target[key] = field._def.defaultValue();
+    }
+  }
+}
+
+/**
+ * Registered migrations, ordered oldest first. Each entry's `to` must match
+ * the next entry's `from`, and the last `to` must equal STORAGE_VERSION.
+ */
+export const MIGRATIONS: Migration[] = [
+  {
+    from: LEGACY_STORAGE_VERSION,
+    to: '0.0.1',
+    description: 'Stamp full session metadata and fill schema defaults for locations, NPCs and the player',
+    migrateMetadata(metadata, sessionId) {
+      Object.assign(metadata, normalizeSessionMetadata(sessionId, metadata));
+    },
+    migrateState(state) {
+      for (const location of Object.values(state.world?.locations ?? {})) {
+        fillSchemaDefaults(location, LocationSchema);
+      }
+      state.npcs = state.npcs ?? {};
+      for (const npc of Object.values(state.npcs)) {
+        fillSchemaDefaults(npc, NPCSchema);
+      }
+      fillSchemaDefaults(state.player, PlayerCharacterSchema);
+    }
+  }
+];
+
+/**
+ * Compares two dotted version strings numerically.
+ */
+export function compareVersions(a: string, b: string): number {
+  const partsA = a.split('.').map(Number);
+  const partsB = b.split('.').map(Number);
+  for (let i = 0; i < Math.max(partsA.length, partsB.length); i++) {
+    const diff = (partsA[i] ?? 0) - (partsB[i] ?? 0);
+    if (diff !== 0) return diff;
+  }
+  return 0;
+}
+
+/**
+ * Returns the migrations that upgrade a session from one version to another.
+ * Throws if the session is newer than this build or no upgrade path exists.
+ */
+export function getMigrationPath(
+  fromVersion: string,
+  toVersion: string = STORAGE_VERSION,
+  migrations: Migration[] = MIGRATIONS
+): Migration[] {
+  if (compareVersions(fromVersion, toVersion) > 0) {
+    throw new Error(`Session format ${fromVersion} is newer than the supported format ${toVersion}`);
+  }
+
+  const path: Migration[] = [];
+  let version = fromVersion;
+  while (compareVersions(version, toVersion) < 0) {
+    const next = migrations.find(m => m.from === version);
+    if (!next) {
+      throw new Error(`No migration registered from session format ${version}`);
+    }
+    path.push(next);
+    version = next.to;
+  }
+
+  return path;
+}
@@ -0,0 +1,77 @@
+/**
+ * Full session state in the shape consumed by `applyDelta`.
+ */
+export interface SessionState {
+  world: any;
+  player: any;
+  npcs: any;
+}
+
+export type SnapshotReason =
+  | 'initial'       // Session start
+  | 'interval'      // Regular interval (every N turns)
+  | 'scene_end'     // Scene completed
+  | 'conflict_end'  // Combat/conflict resolved
+  | 'milestone'     // Significant event
+  | 'manual'        // Explicitly requested
+  | 'fork'          // Branch point of a forked session
+  | 'session_end';  // Closing session
+
+export interface SessionSnapshot {
+  snapshotId: string; // "snapshot-{turnId}"
+  sessionId: string;
+  turnId: number;
+  timestamp: string;
+  reason: SnapshotReason;
+  state: SessionState;
+}
+
+export interface SnapshotRetentionPolicy {
+  /** Maximum number of snapshots to keep, not counting protected ones */
+  maxSnapshots: number;
+  /** Snapshots created for these reasons are never pruned (default: ['initial', 'fork']) */
+  keepReasons?: SnapshotReason[];
+}
+
+export interface RepairReport {
+  sessionId: string;
+  /** Last turn present in the repaired turn log */
+  lastTurnId: number;
+  /** Human-readable description of each fix applied; empty if nothing was wrong */
+  fixes: string[];
+}
+
+export type VerificationIssueType =
+  | 'checksum_mismatch'   // Stored delta checksum doesn't match the deltas
+  | 'orphaned_deltas'     // Deltas recorded for a turn that has no turn record
+  | 'snapshot_mismatch'   // Replayed state differs from a snapshot
+  | 'state_mismatch';     // Replayed state differs from the current state files
+
+export interface VerificationIssue {
+  type: VerificationIssueType;
+  turn: number;
+  message: string;
+  /** State paths that differ, for mismatch issues */
+  paths?: string[];
+}
+
+export interface VerificationReport {
+  sessionId: string;
+  turnsChecked: number;
+  /** Turns whose checksum matched */
+  checksumsVerified: number;
+  /** Turns written without a checksum */
+  checksumsMissing: number;
+  snapshotsCompared: number;
+  issues: VerificationIssue[];
+}
+
+export interface BundleImportResult {
+  /** Id the session was imported under */
+  sessionId: string;
+  /** Id recorded in the bundle; differs from sessionId when it was already taken */
+  originalSessionId: string;
+  turns: number;
+  deltas: number;
+  snapshots: number;
+}
@@ -0,0 +1,143 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { FileSystemAdapter } from '../src/FileSystemAdapter';
+import { FileSystemBackend } from '../src/FileSystemBackend';
+import { MemoryBackend } from '../src/MemoryBackend';
+import { SqliteBackend } from '../src/SqliteBackend';
+import { StorageBackend } from '../src/StorageBackend';
+import { SessionWriter } from '../src/SessionWriter';
+import { SessionLoader } from '../src/SessionLoader';
+import fs from 'fs-extra';
+import path from 'path';
+
+const TEST_DIR = path.join(__dirname, 'test-data-backends');
+
+function sqliteAvailable(): boolean {
+  try {
+    new SqliteBackend(':memory:').close();
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// A checkout without the native SQLite binding skips its suite, but CI has to
+// run it, so there a missing binding fails the tests instead
+const backends: { name: string; create: () => StorageBackend; skip?: boolean }[] = [
+  { name: 'MemoryBackend', create: () => new MemoryBackend() },
+  { name: 'FileSystemBackend', create: () => new FileSystemBackend(new FileSystemAdapter(TEST_DIR)) },
+  { name: 'SqliteBackend', create: () => new SqliteBackend(':memory:'), skip: !process.env.CI && !sqliteAvailable() }
+];
+
+for (const { name, create, skip } of backends) {
+  describe.skipIf(skip)(name, () => {
+    let backend: StorageBackend;
+
+    beforeEach(async () => {
+      await fs.ensureDir(TEST_DIR);
+      backend = create();
+    });
+
+    afterEach(async () => {
+      if (backend instanceof SqliteBackend) {
+        backend.close();
+      }
+      await fs.remove(TEST_DIR);
+    });
+
+    it('should append and read records by turn range', async () => {
+      await backend.createSession('s1');
+      for (let turnId = 1; turnId <= 105; turnId++) {
+        await backend.append('s1', 'turns', { turnId });
+      }
+
+      const records = await backend.readRange('s1', 'turns', 99, 102);
+      expect(records.map(r => r.turnId)).toEqual([99, 100, 101, 102]);
+      expect(await backend.getLastTurnId('s1', 'turns')).toBe(105);
+      expect(await backend.getLastTurnId('s1', 'deltas')).toBe(0);
+    });
+
+    it('should truncate records after a turn', async () => {
+      await backend.createSession('s1');
+      for (let turnId = 1; turnId <= 5; turnId++) {
+        await backend.append('s1', 'deltas', { turnId });
+      }
+
+      await backend.truncate('s1', 'deltas', 2);
+
+      expect(await backend.readRange('s1', 'deltas', 1, 5)).toHaveLength(2);
+      expect(await backend.getLastTurnId('s1', 'deltas')).toBe(2);
+    });
+
+    it('should keep turn 0 records with the first chunk', async () => {
+      await backend.createSession('s1');
+      for (let turnId = 0; turnId <= 2; turnId++) {
+        await backend.append('s1', 'llm', { turnId });
+      }
+
+      await backend.truncate('s1', 'llm', 0);
+
+      expect((await backend.readRange('s1', 'llm', 0, 2)).map(r => r.turnId)).toEqual([0]);
+    });
+
+    it('should write, list and remove JSON documents', async () => {
+      await backend.createSession('s1');
+      await backend.writeJson('s1', 'world.state.json', { name: 'World' });
+      await backend.writeJson('s1', 'snapshots/snapshot-turn-0001.json', { turnId: 1 });
+      await backend.writeJson('s1', 'snapshots/snapshot-turn-0002.json', { turnId: 2 });
+
+      expect(await backend.readJson('s1', 'world.state.json')).toEqual({ name: 'World' });
+      expect((await backend.list('s1', 'snapshots')).sort()).toEqual([
+        'snapshot-turn-0001.json',
+        'snapshot-turn-0002.json'
+      ]);
+
+      await backend.remove('s1', 'snapshots/snapshot-turn-0001.json');
+      expect(await backend.hasJson('s1', 'snapshots/snapshot-turn-0001.json')).toBe(false);
+      await expect(backend.readJson('s1', 'missing.json')).rejects.toThrow();
+    });
+
+    it('should list sessions', async () => {
+      await backend.createSession('s1');
+      await backend.createSession('s2');
+
+      expect((await backend.listSessions()).sort()).toEqual(['s1', 's2']);
+      expect(await backend.hasSession('s1')).toBe(true);
+      expect(await backend.hasSession('s3')).toBe(false);
+    });
+
+    it('should back SessionWriter and SessionLoader', async () => {
+      const writer = new SessionWriter(backend);
+      const loader = new SessionLoader(backend);
+
+      await writer.createSession('s1', { name: 'Test' });
+      await writer.updateCurrentState('s1', { name: 'World' }, { name: 'Hero' });
+      await writer.saveSnapshot('s1', 0, { world: { name: 'World' }, player: { name: 'Hero' }, npcs: {} }, 'initial');
+
+      expect(await loader.loadSessionMetadata('s1')).toMatchObject({ id: 's1', name: 'Test' });
+      expect((await loader.loadCurrentState('s1')).player).toEqual({ name: 'Hero' });
+      expect(await loader.listSnapshots('s1')).toEqual([0]);
+    });
+  });
+}
+
+describe.skipIf(!process.env.CI && !sqliteAvailable())('SqliteBackend backup', () => {
+  afterEach(async () => {
+    await fs.remove(TEST_DIR);
+  });
+
+  it('should include writes that are still in the WAL', async () => {
+    await fs.ensureDir(TEST_DIR);
+    const backend = new SqliteBackend(path.join(TEST_DIR, 'sessions.db'));
+    await backend.createSession('s1');
+    await backend.append('s1', 'turns', { turnId: 1, text: 'first' });
+
+    const backupFile = path.join(TEST_DIR, 'sessions.db.backup');
+    await backend.backup(backupFile);
+    backend.close();
+
+    const copy = new SqliteBackend(backupFile);
+    expect(await copy.listSessions()).toEqual(['s1']);
+    expect(await copy.readRange('s1', 'turns', 1, 1)).toEqual([{ turnId: 1, text: 'first' }]);
+    copy.close();
+  });
+});
@@ -1,10 +1,17 @@
-import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 import { FileSystemAdapter } from '../src/FileSystemAdapter';
+import { FileSystemBackend, getChunkFilename } from '../src/FileSystemBackend';
 import { SessionWriter } from '../src/SessionWriter';
 import { SessionLoader } from '../src/SessionLoader';
-import { Turn } from '@llmrpg/core';
+import { LEGACY_STORAGE_VERSION, STORAGE_VERSION } from '../src/metadata';
+import { getMigrationPath } from '../src/migrations';
+import { computeDeltaChecksum } from '../src/integrity';
+import { exportSessionBundle, importSessionBundle, readSessionBundle } from '../src/bundle';
+import { MemoryBackend } from '../src/MemoryBackend';
+import { Turn, Delta } from '@llmrpg/core';
 import fs from 'fs-extra';
 import path from 'path';
+import { gunzipSync, gzipSync } from 'zlib';
 
 const TEST_DIR = path.join(__dirname, 'test-data');
 
@@ -54,4 +61,434 @@ describe('Storage System', () => {
     expect(loadedTurns).toHaveLength(1);
     expect(loadedTurns[0].turnId).toBe(1);
   });
+
+  it('should reconstruct state at a turn from the nearest snapshot', async () => {
+    const sessionId = 'test-session';
+    await writer.createSession(sessionId, {});
+
+    await writer.saveSnapshot(sessionId, 0, {
+      world: { time: { value: '0' }, locations: {} },
+      player: { fatePoints: { current: 3 } },
+      npcs: {}
+    });
+    await writer.saveSnapshot(sessionId, 2, {
+      world: { time: { value: '2' }, locations: {} },
+      player: { fatePoints: { current: 1 } },
+      npcs: {}
+    });
+
+    const makeDelta = (turnId: number, target: Delta['target'], deltaPath: string[], previousValue: any, newValue: any): Delta => ({
+      deltaId: `${sessionId}-${turnId}-1`,
+      turnId,
+      sequence: 1,
+      timestamp: Date.now(),
+      target,
+      operation: 'set',
+      path: deltaPath,
+      previousValue,
+      newValue,
+      cause: 'test',
+      eventId: `e${turnId}`
+    });
+
+    await writer.writeDelta(sessionId, makeDelta(1, 'world', ['time', 'value'], '0', '1'));
+    await writer.writeDelta(sessionId, makeDelta(2, 'world', ['time', 'value'], '1', '2'));
+    await writer.writeDelta(sessionId, makeDelta(3, 'player', ['fatePoints', 'current'], 1, 4));
+
+    expect(await loader.listSnapshots(sessionId)).toEqual([0, 2]);
+
+    const atTurn1 = await loader.loadStateAtTurn(sessionId, 1);
+    expect(atTurn1.world.time.value).toBe('1');
+    expect(atTurn1.player.fatePoints.current).toBe(3);
+
+    const atTurn3 = await loader.loadStateAtTurn(sessionId, 3);
+    expect(atTurn3.world.time.value).toBe('2');
+    expect(atTurn3.player.fatePoints.current).toBe(4);
+  });
+
+  it('should fail to reconstruct state without an earlier snapshot', async () => {
+    const sessionId = 'test-session';
+    await writer.createSession(sessionId, {});
+    await writer.saveSnapshot(sessionId, 5, { world: {}, player: {}, npcs: {} });
+
+    await expect(loader.loadStateAtTurn(sessionId, 3)).rejects.toThrow('No snapshot');
+  });
+
+  it('should prune old snapshots but keep protected ones', async () => {
+    const sessionId = 'test-session';
+    await writer.createSession(sessionId, {});
+    const state = { world: {}, player: {}, npcs: {} };
+
+    await writer.saveSnapshot(sessionId, 0, state, 'initial');
+    await writer.saveSnapshot(sessionId, 10, state, 'interval');
+    await writer.saveSnapshot(sessionId, 15, state, 'scene_end');
+    await writer.saveSnapshot(sessionId, 20, state, 'interval');
+
+    const removed = await writer.pruneSnapshots(sessionId, { maxSnapshots: 2 });
+
+    expect(removed).toEqual([10]);
+    expect(await loader.listSnapshots(sessionId)).toEqual([0, 15, 20]);
+    expect((await loader.loadSnapshot(sessionId, 15)).reason).toBe('scene_end');
+  });
+
+  it('should truncate turns, deltas and snapshots after a turn', async () => {
+    const sessionId = 'test-session';
+    await writer.createSession(sessionId, {});
+
+    for (let turnId = 1; turnId <= 3; turnId++) {
+      await writer.writeTurn(sessionId, {
+        turnId,
+        turnNumber: turnId,
+        actor: 'player',
+        sceneId: 'scene-1',
+        timestamp: Date.now(),
+        gameTime: { day: 1, timeOfDay: 'morning', timestamp: 100 },
+        events: []
+      });
+      await writer.writeDelta(sessionId, {
+        deltaId: `${sessionId}-${turnId}-1`,
+        turnId,
+        sequence: 1,
+        timestamp: Date.now(),
+        target: 'world',
+        operation: 'set',
+        path: ['time', 'value'],
+        previousValue: String(turnId - 1),
+        newValue: String(turnId),
+        cause: 'test',
+        eventId: `e${turnId}`
+      });
+    }
+    await writer.saveSnapshot(sessionId, 3, { world: {}, player: {}, npcs: {} }, 'interval');
+
+    expect(await loader.getLastTurnId(sessionId)).toBe(3);
+
+    await writer.truncateSession(sessionId, 1);
+
+    expect(await loader.getLastTurnId(sessionId)).toBe(1);
+    expect(await loader.loadTurns(sessionId, 1, 3)).toHaveLength(1);
+    expect(await loader.loadDeltas(sessionId, 1, 3)).toHaveLength(1);
+    expect(await loader.listSnapshots(sessionId)).toEqual([]);
+  });
+
+  it('should fork a session at a turn with reconstructed state and lineage', async () => {
+    const sessionId = 'test-session';
+    await writer.createSession(sessionId, { name: 'Original' });
+    await writer.saveSnapshot(sessionId, 0, { world: { time: { value: '0' } }, player: {}, npcs: {} }, 'initial');
+
+    for (let turnId = 1; turnId <= 3; turnId++) {
+      await writer.writeTurn(sessionId, {
+        turnId,
+        turnNumber: turnId,
+        actor: 'player',
+        sceneId: 'scene-1',
+        timestamp: Date.now(),
+        gameTime: { day: 1, timeOfDay: 'morning', timestamp: 100 },
+        events: []
+      });
+      await writer.writeDelta(sessionId, {
+        deltaId: `${sessionId}-${turnId}-1`,
+        turnId,
+        sequence: 1,
+        timestamp: Date.now(),
+        target: 'world',
+        operation: 'set',
+        path: ['time', 'value'],
+        previousValue: String(turnId - 1),
+        newValue: String(turnId),
+        cause: 'test',
+        eventId: `e${turnId}`
+      });
+    }
+
+    await writer.forkSession(sessionId, 'forked-session', 2);
+
+    const metadata = await loader.loadSessionMetadata('forked-session');
+    expect(metadata).toMatchObject({ name: 'Original', parentSessionId: sessionId, forkTurn: 2 });
+    expect(await loader.getLastTurnId('forked-session')).toBe(2);
+    expect(await loader.loadDeltas('forked-session', 1, 3)).toHaveLength(2);
+    expect(await loader.listSnapshots('forked-session')).toEqual([0, 2]);
+
+    const current = await loader.loadCurrentState('forked-session');
+    expect(current.world.time.value).toBe('2');
+
+    // The source session is untouched
+    expect(await loader.getLastTurnId(sessionId)).toBe(3);
+
+    await expect(writer.forkSession(sessionId, 'forked-session', 1)).rejects.toThrow('already exists');
+    await expect(writer.forkSession(sessionId, 'other-fork', 5)).rejects.toThrow('valid turns are 0-3');
+  });
+
+  it('should fill in legacy metadata and keep stats current on update', async () => {
+    const sessionId = 'test-session';
+    await writer.createSession(sessionId, { startTime: Date.UTC(2025, 0, 1), player: 'Tester' });
+    await writer.saveSnapshot(sessionId, 0, { world: {}, player: {}, npcs: {} }, 'initial');
+
+    const metadata = await loader.loadSessionMetadata(sessionId);
+    expect(metadata.id).toBe(sessionId);
+    expect(metadata.createdAt).toBe('2025-01-01T00:00:00.000Z');
+    expect(metadata.player.name).toBe('Tester');
+    expect(metadata.stats.totalSnapshots).toBe(1);
+
+    const updated = await writer.updateSessionMetadata(sessionId, m => {
+      m.currentTurn = 3;
+    });
+    expect(updated.currentTurn).toBe(3);
+
+    await expect(writer.updateSessionMetadata(sessionId, m => {
+      (m as any).currentTurn = 'three';
+    })).rejects.toThrow();
+  });
+
+  it('should migrate legacy sessions and stamp the storage version', async () => {
+    const sessionId = 'legacy-session';
+    const sessionPath = path.join('sessions', 'active', sessionId);
+    await adapter.writeJson(path.join(sessionPath, 'session.meta.json'), { startTime: Date.now(), player: 'Old Player' });
+    await adapter.writeJson(path.join(sessionPath, 'world.state.json'), {
+      locations: { 'loc-1': { id: 'loc-1', name: 'Old Town', description: 'Dusty', tier: 'locale' } }
+    });
+    await adapter.writeJson(path.join(sessionPath, 'player.state.json'), { name: 'Hero' });
+    await adapter.writeJson(path.join(sessionPath, 'npcs.state.json'), { 'npc-1': { id: 'npc-1', name: 'Guard' } });
+
+    expect(await loader.getStorageVersion(sessionId)).toBe(LEGACY_STORAGE_VERSION);
+
+    const result = await writer.migrateSession(sessionId);
+    expect(result).toMatchObject({ fromVersion: LEGACY_STORAGE_VERSION, toVersion: STORAGE_VERSION });
+    expect(result.applied).toHaveLength(1);
+
+    const state = await loader.loadCurrentState(sessionId);
+    expect(state.world.locations['loc-1']).toMatchObject({ connections: [], presentNPCs: [], discovered: false });
+    expect(state.npcs['npc-1'].interactionHistory).toEqual([]);
+    expect(state.player.inventory).toEqual([]);
+
+    const metadata = await loader.loadSessionMetadata(sessionId);
+    expect(metadata.version).toBe(STORAGE_VERSION);
+    expect(metadata.player.name).toBe('Old Player');
+
+    // Already current: nothing to do
+    expect((await writer.migrateSession(sessionId)).applied).toEqual([]);
+  });
+
+  it('should refuse sessions from a newer save format', () => {
+    expect(() => getMigrationPath('9.9.9')).toThrow('newer than the supported format');
+    expect(() => getMigrationPath('0.0.0', '0.0.2', [])).toThrow('No migration registered');
+  });
+
+  it('should write JSON atomically without leaving temp files', async () => {
+    await adapter.writeJson('docs/state.json', { value: 1 });
+    await adapter.writeJson('docs/state.json', { value: 2 });
+
+    expect(await adapter.readJson('docs/state.json')).toEqual({ value: 2 });
+    expect(await adapter.listFiles('docs')).toEqual(['state.json']);
+
+    // Renaming over a directory fails, and the temp file goes with it
+    await expect(adapter.writeJson('docs', { value: 3 })).rejects.toThrow();
+    expect((await adapter.listFiles('')).filter(file => file.endsWith('.tmp'))).toEqual([]);
+  });
+
+  it('should not glue appended lines onto a torn trailing line', async () => {
+    await adapter.appendLine('log.jsonl', '{"turnId":1}');
+    await fs.appendFile(path.join(TEST_DIR, 'log.jsonl'), '{"turnId":2,"ev');
+    await adapter.appendLine('log.jsonl', '{"turnId":3}');
+
+    const lines = (await adapter.readFile('log.jsonl')).split('\n');
+    expect(lines).toEqual(['{"turnId":1}', '{"turnId":2,"ev', '{"turnId":3}', '']);
+  });
+
+  it('should skip corrupt record lines and report them', async () => {
+    const onCorruptLine = vi.fn();
+    const backend = new FileSystemBackend(adapter, { onCorruptLine });
+    await backend.createSession('s1');
+    await backend.append('s1', 'turns', { turnId: 1 });
+    const file = path.join(TEST_DIR, 'sessions', 'active', 's1', 'turns', getChunkFilename('turns', 0));
+    await fs.appendFile(file, 'not json\n{"turnId":2,"ev');
+
+    expect(await backend.readRange('s1', 'turns', 0, 10)).toEqual([{ turnId: 1 }]);
+    expect(onCorruptLine).toHaveBeenCalledWith(getChunkFilename('turns', 0), 2, false, expect.any(Error));
+    expect(onCorruptLine).toHaveBeenCalledWith(getChunkFilename('turns', 0), 3, true, expect.any(Error));
+  });
+
+  it('should repair torn lines, orphaned deltas and stale state', async () => {
+    const sessionId = 'test-session';
+    await writer.createSession(sessionId, {});
+    await writer.saveSnapshot(sessionId, 0, { world: { time: { value: '0' } }, player: {}, npcs: {} }, 'initial');
+    await writer.updateCurrentState(sessionId, { time: { value: '0' } }, {});
+
+    for (let turnId = 1; turnId <= 2; turnId++) {
+      await writer.writeDelta(sessionId, {
+        deltaId: `${sessionId}-${turnId}-1`,
+        turnId,
+        sequence: 1,
+        timestamp: Date.now(),
+        target: 'world',
+        operation: 'set',
+        path: ['time', 'value'],
+        previousValue: String(turnId - 1),
+        newValue: String(turnId),
+        cause: 'test',
+        eventId: `e${turnId}`
+      });
+    }
+    await writer.writeTurn(sessionId, {
+      turnId: 1,
+      turnNumber: 1,
+      actor: 'player',
+      sceneId: 'scene-1',
+      timestamp: Date.now(),
+      gameTime: { day: 1, timeOfDay: 'morning', timestamp: 100 },
+      events: []
+    });
+    // Crash while writing turn 2: its delta and summary landed but the turn record is torn
+    await writer.writeSummary(sessionId, { turnId: 2, level: 'scene', fromTurn: 1, toTurn: 1, text: 'Turn one' });
+    await fs.appendFile(path.join(TEST_DIR, 'sessions', 'active', sessionId, 'turns', 'turns-0001-0100.jsonl'), '{"turnId":2,"act');
+    // ...and while rewriting the current state
+    const tempPath = path.join(TEST_DIR, 'sessions', 'active', sessionId, 'world.state.json.0a1b2c.tmp');
+    await fs.writeFile(tempPath, '{"time":');
+
+    const report = await writer.repairSession(sessionId);
+
+    expect(report.lastTurnId).toBe(1);
+    expect(report.fixes).toHaveLength(5);
+    expect(await fs.pathExists(tempPath)).toBe(false);
+    expect(await loader.loadTurns(sessionId, 1, 2)).toHaveLength(1);
+    expect(await loader.loadDeltas(sessionId, 1, 2)).toHaveLength(1);
+    expect(await loader.loadSummaries(sessionId, 1, 2)).toEqual([]);
+    expect((await loader.loadCurrentState(sessionId)).world.time.value).toBe('1');
+    expect((await loader.loadSessionMetadata(sessionId)).currentTurn).toBe(1);
+
+    expect((await writer.repairSession(sessionId)).fixes).toEqual([]);
+  });
+
+  async function playTurns(sessionId: string, count: number) {
+    await writer.createSession(sessionId, {});
+    await writer.saveSnapshot(sessionId, 0, { world: { time: { value: '0' } }, player: {}, npcs: {} }, 'initial');
+    for (let turnId = 1; turnId <= count; turnId++) {
+      await writer.writeDelta(sessionId, {
+        deltaId: `${sessionId}-${turnId}-1`,
+        turnId,
+        sequence: 1,
+        timestamp: Date.now(),
+        target: 'world',
+        operation: 'set',
+        path: ['time', 'value'],
+        previousValue: String(turnId - 1),
+        newValue: String(turnId),
+        cause: 'test',
+        eventId: `e${turnId}`
+      });
+      await writer.writeTurn(sessionId, {
+        turnId,
+        turnNumber: turnId,
+        actor: 'player',
+        sceneId: 'scene-1',
+        timestamp: Date.now(),
+        gameTime: { day: 1, timeOfDay: 'morning', timestamp: 100 },
+        events: []
+      });
+    }
+    await writer.updateCurrentState(sessionId, { time: { value: String(count) } }, {});
+  }
+
+  describe('integrity verification', () => {
+    const sessionId = 'test-session';
+
+    it('should chain delta checksums across turns', async () => {
+      await playTurns(sessionId, 3);
+
+      const turns = await loader.loadTurns(sessionId, 1, 3);
+      const deltas = await loader.loadDeltas(sessionId, 1, 3);
+      const first = computeDeltaChecksum('', 1, [deltas[0]]);
+      expect(turns[0].deltaChecksum).toBe(first);
+      expect(turns[1].deltaChecksum).toBe(computeDeltaChecksum(first, 2, [deltas[1]]));
+
+      const report = await loader.verifySession(sessionId);
+      expect(report).toMatchObject({ turnsChecked: 3, checksumsVerified: 3, checksumsMissing: 0, issues: [] });
+    });
+
+    it('should report tampered deltas and replay drift', async () => {
+      await playTurns(sessionId, 3);
+      await writer.saveSnapshot(sessionId, 2, { world: { time: { value: 'tampered' } }, player: {}, npcs: {} }, 'interval');
+
+      const deltasPath = path.join(TEST_DIR, 'sessions', 'active', sessionId, 'deltas', 'deltas-0001-0100.jsonl');
+      const content = await fs.readFile(deltasPath, 'utf-8');
+      await fs.writeFile(deltasPath, content.replace('"newValue":"3"', '"newValue":"7"'));
+
+      const report = await loader.verifySession(sessionId);
+      expect(report.issues.map(issue => [issue.type, issue.turn])).toEqual([
+        ['checksum_mismatch', 3],
+        ['snapshot_mismatch', 2],
+        ['state_mismatch', 3]
+      ]);
+      expect(report.issues[1].paths).toEqual(['world.time.value']);
+    });
+  });
+
+  describe('session bundles', () => {
+    const sessionId = 'test-session';
+
+    it('should round-trip a session through a bundle', async () => {
+      await playTurns(sessionId, 3);
+      await writer.writeTrace(sessionId, { turnId: 2, timestamp: 0, durationMs: 5, spans: [] });
+      const data = await exportSessionBundle(adapter, sessionId);
+
+      const target = new MemoryBackend();
+      const result = await importSessionBundle(target, data);
+      expect(result).toEqual({ sessionId, originalSessionId: sessionId, turns: 3, deltas: 3, snapshots: 1 });
+
+      const imported = new SessionLoader(target);
+      expect(await imported.loadTurns(sessionId, 1, 3)).toEqual(await loader.loadTurns(sessionId, 1, 3));
+      expect(await imported.loadCurrentState(sessionId)).toEqual(await loader.loadCurrentState(sessionId));
+      expect(await imported.loadTraces(sessionId, 1, 3)).toEqual(await loader.loadTraces(sessionId, 1, 3));
+      expect((await imported.verifySession(sessionId)).issues).toEqual([]);
+    });
+
+    it('should import under a fresh id when the session already exists', async () => {
+      await playTurns(sessionId, 2);
+      const data = await exportSessionBundle(adapter, sessionId);
+
+      const first = await importSessionBundle(adapter, data);
+      const second = await importSessionBundle(adapter, data);
+      expect(first.sessionId).toBe(`${sessionId}-imported-1`);
+      expect(second.sessionId).toBe(`${sessionId}-imported-2`);
+      expect((await loader.loadSessionMetadata(first.sessionId)).id).toBe(first.sessionId);
+      expect((await loader.loadSnapshot(first.sessionId, 0)).sessionId).toBe(first.sessionId);
+
+      await expect(importSessionBundle(adapter, data, { sessionId })).rejects.toThrow('already exists');
+    });
+
+    it('should reject bundles that fail validation', async () => {
+      await playTurns(sessionId, 1);
+      const archive = JSON.parse(gunzipSync(await exportSessionBundle(adapter, sessionId)).toString('utf-8'));
+
+      const tampered = { ...archive, files: { ...archive.files, 'world.state.json': '{}' } };
+      await expect(importSessionBundle(new MemoryBackend(), gzipSync(JSON.stringify(tampered))))
+        .rejects.toThrow('Checksum mismatch for world.state.json');
+
+      const badManifest = { ...archive, manifest: { ...archive.manifest, format: 'zip' } };
+      await expect(importSessionBundle(new MemoryBackend(), gzipSync(JSON.stringify(badManifest))))
+        .rejects.toThrow('Invalid bundle manifest: format');
+
+      await expect(importSessionBundle(new MemoryBackend(), Buffer.from('not a bundle')))
+        .rejects.toThrow('Not a session bundle');
+    });
+
+    it('should reject session ids that would escape the sessions folder', async () => {
+      await playTurns(sessionId, 1);
+      const data = await exportSessionBundle(adapter, sessionId);
+      const archive = JSON.parse(gunzipSync(data).toString('utf-8'));
+
+      const escaping = { ...archive, manifest: { ...archive.manifest, sessionId: '../../../escaped' } };
+      await expect(importSessionBundle(new MemoryBackend(), gzipSync(JSON.stringify(escaping))))
+        .rejects.toThrow('Invalid bundle manifest: sessionId');
+      await expect(importSessionBundle(new MemoryBackend(), data, { sessionId: '../escaped' }))
+        .rejects.toThrow('Invalid session id "../escaped"');
+    });
+
+    it('should refuse bundles that decompress past the size limit', async () => {
+      await playTurns(sessionId, 1);
+      const data = await exportSessionBundle(adapter, sessionId);
+
+      expect(() => readSessionBundle(data, 100)).toThrow('larger than 100 bytes');
+    });
+  });
 });